@@ -10,10 +10,25 @@ import {
   estimateCost,
   estimateAudioDuration,
   getStitchSummary,
+  getOutputExtension,
+  stitchAudioFiles,
+  stitchChapterFiles,
+  exportM4b,
+  loadManifest,
+  splitWavAudio,
   type StitchResult,
 } from "../audio.js";
 
+import {
+  createEmptyManifest,
+  findCachedAudio,
+  getBlobKey,
+  getBlobPath,
+  updateCachedSegment,
+} from "../cache.js";
+
 import type { AudiobookManifest } from "../types.js";
+import { MINIMAL_CONFIG } from "../fixtures/configs.js";
 
 import {
   createWavHeader,
@@ -357,6 +372,7 @@ describe("audio", () => {
       sampleRate: 24000,
       speakers: ["NARRATOR", "ALICE"],
       segments: [],
+      chapters: [],
       generatedAt: "2024-01-15T10:00:00.000Z",
       provider: "gemini",
     };
@@ -399,5 +415,671 @@ describe("audio", () => {
       const summary = getStitchSummary(mockStitchResult);
       expect(summary).toContain("Audiobook Generated Successfully");
     });
+
+    it("should include loudness when measured", () => {
+      const summary = getStitchSummary({
+        ...mockStitchResult,
+        loudness: { integratedLufs: -18.02, truePeakDbtp: -1.4 },
+        loudnessTarget: -18,
+      });
+      expect(summary).toContain(
+        "-18.0 LUFS integrated, -1.4 dBTP true peak (normalized to -18 LUFS)",
+      );
+    });
+  });
+
+  describe("getOutputExtension", () => {
+    it("should map formats to file extensions", () => {
+      expect(getOutputExtension("wav")).toBe(".wav");
+      expect(getOutputExtension("mp3")).toBe(".mp3");
+      expect(getOutputExtension("ogg")).toBe(".ogg");
+      expect(getOutputExtension("flac")).toBe(".flac");
+    });
+  });
+
+  describe("splitWavAudio", () => {
+    // 1s of speech, a 300ms pause, then 500ms of speech
+    const dialogue = (() => {
+      const pcm = Buffer.concat([
+        extractWavData(createToneWav(1000, 440)),
+        extractWavData(createSilentWav(300)),
+        extractWavData(createToneWav(500, 440)),
+      ]);
+      return Buffer.concat([createWavHeader(pcm.length), pcm]);
+    })();
+
+    it("should move boundaries into the nearest pause", () => {
+      // Equal weights put the estimate at 900ms, just before the pause
+      const slices = splitWavAudio(dialogue, [1, 1]);
+
+      expect(slices).toHaveLength(2);
+      expect(slices[0].startMs).toBe(0);
+      expect(slices[0].endMs).toBeGreaterThanOrEqual(1000);
+      expect(slices[0].endMs).toBeLessThanOrEqual(1300);
+      expect(slices[1].startMs).toBe(slices[0].endMs);
+      expect(slices[1].endMs).toBe(1800);
+    });
+
+    it("should write valid WAV files covering the whole recording", () => {
+      const slices = splitWavAudio(dialogue, [2, 1]);
+      const total = slices.reduce(
+        (sum, slice) => sum + calculateWavDuration(slice.audio),
+        0,
+      );
+
+      expect(slices.map((s) => s.audio.toString("ascii", 0, 4))).toEqual([
+        "RIFF",
+        "RIFF",
+      ]);
+      expect(total).toBeCloseTo(1800, 0);
+    });
+
+    it("should split evenly when no slice has weight", () => {
+      const slices = splitWavAudio(createSilentWav(1000), [0, 0]);
+
+      expect(slices[0].endMs).toBe(500);
+    });
+
+    it("should reject invalid WAV data", () => {
+      expect(() => splitWavAudio(INVALID_WAV_BAD_RIFF, [1])).toThrow(
+        "Invalid WAV data",
+      );
+    });
+  });
+
+  describe("stitchAudioFiles", () => {
+    const files = [
+      {
+        path: "/cache/seg_0001.wav",
+        index: 1,
+        speaker: "ALICE",
+        text: "Hello!",
+      },
+      {
+        path: "/cache/seg_0000.wav",
+        index: 0,
+        speaker: "NARRATOR",
+        text: "Once upon a time.",
+      },
+    ];
+
+    beforeEach(() => {
+      vol.mkdirSync("/cache", { recursive: true });
+      vol.writeFileSync("/cache/seg_0000.wav", TONE_WAV_100MS);
+      vol.writeFileSync("/cache/seg_0001.wav", SILENT_WAV_500MS);
+    });
+
+    it("should write WAV output by default", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        silencePaddingMs: 100,
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(output.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(result.manifest.format).toBe("wav");
+      expect(calculateWavDuration(output)).toBe(700);
+    });
+
+    it("should order segments and compute timestamps", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        silencePaddingMs: 100,
+      });
+
+      expect(result.manifest.segments.map((s) => s.index)).toEqual([0, 1]);
+      expect(result.manifest.segments[1].startMs).toBe(200);
+      expect(result.totalDurationMs).toBe(700);
+    });
+
+    it("should record the providers the speakers were routed to", async () => {
+      const routed = [
+        { ...files[0], provider: "local" },
+        { ...files[1], provider: "gemini" },
+      ];
+
+      const result = await stitchAudioFiles(routed, "/out/book.wav");
+      const unknown = await stitchAudioFiles(files, "/out/other.wav");
+
+      expect(result.manifest.provider).toBe("gemini, local");
+      expect(result.manifest.segments.map((s) => s.provider)).toEqual([
+        "gemini",
+        "local",
+      ]);
+      expect(unknown.manifest.provider).toBe("unknown");
+    });
+
+    it("should encode FLAC output and record the format", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.flac", {
+        format: "flac",
+      });
+      const output = vol.readFileSync("/out/book.flac") as Buffer;
+
+      expect(output.toString("ascii", 0, 4)).toBe("fLaC");
+      expect(result.manifest.format).toBe("flac");
+      expect(result.manifest.outputFile).toBe("book.flac");
+      expect(result.fileSize).toBe(output.length);
+    });
+
+    it("should encode MP3 output", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.mp3", {
+        format: "mp3",
+      });
+      const output = vol.readFileSync("/out/book.mp3") as Buffer;
+
+      expect(output[0]).toBe(0xff);
+      expect(result.manifest.format).toBe("mp3");
+    });
+
+    it("should compute chapter timestamps including padding", async () => {
+      vol.writeFileSync("/cache/seg_0002.wav", TONE_WAV_100MS);
+      const result = await stitchAudioFiles(
+        [
+          ...files,
+          { path: "/cache/seg_0002.wav", index: 2, speaker: "A", text: "C" },
+        ],
+        "/out/book.wav",
+        {
+          silencePaddingMs: 100,
+          chapters: [
+            { title: "One", startSegmentIndex: 0, endSegmentIndex: 1 },
+            { title: "Two", startSegmentIndex: 2, endSegmentIndex: 2 },
+          ],
+        },
+      );
+
+      // 100ms + 100 pad + 500ms + 100 pad + 100ms
+      expect(result.manifest.chapters).toEqual([
+        {
+          title: "One",
+          startMs: 0,
+          endMs: 800,
+          durationMs: 800,
+          startSegmentIndex: 0,
+          endSegmentIndex: 1,
+        },
+        {
+          title: "Two",
+          startMs: 800,
+          endMs: 900,
+          durationMs: 100,
+          startSegmentIndex: 2,
+          endSegmentIndex: 2,
+        },
+      ]);
+    });
+
+    it("should clip chapters to the stitched segments", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        chapters: [
+          { title: "One", startSegmentIndex: 0, endSegmentIndex: 0 },
+          { title: "Two", startSegmentIndex: 1, endSegmentIndex: 5 },
+          { title: "Missing", startSegmentIndex: 6, endSegmentIndex: 9 },
+        ],
+      });
+
+      expect(result.manifest.chapters.map((c) => c.title)).toEqual([
+        "One",
+        "Two",
+      ]);
+      expect(result.manifest.chapters[1].endSegmentIndex).toBe(1);
+    });
+
+    it("should write an empty chapter list without chapters", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav");
+
+      expect(result.manifest.chapters).toEqual([]);
+    });
+
+    it("should convert segments to the output sample format", async () => {
+      vol.writeFileSync(
+        "/cache/seg_0001.wav",
+        createToneWav(500, 440, {
+          sampleRate: 44100,
+          numChannels: 2,
+          bitsPerSample: 24,
+        }),
+      );
+
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        silencePaddingMs: 100,
+        sampleRate: 24000,
+        bitsPerSample: 16,
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(output.readUInt16LE(22)).toBe(1);
+      expect(output.readUInt32LE(24)).toBe(24000);
+      expect(output.readUInt16LE(34)).toBe(16);
+      // 100ms + 100 pad + 500ms, with the second segment still 500ms long
+      expect(calculateWavDuration(output)).toBe(700);
+      expect(result.totalDurationMs).toBe(700);
+    });
+
+    it("should apply voice effects and time segments by the result", async () => {
+      vol.writeFileSync("/cache/seg_0001.wav", createToneWav(1000, 220));
+
+      const result = await stitchAudioFiles(
+        [files[1], { ...files[0], speed: 2, pitch: 0.25, durationMs: 1000 }],
+        "/out/book.wav",
+        { silencePaddingMs: 100 },
+      );
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(result.manifest.segments[1].durationMs).toBe(500);
+      expect(result.totalDurationMs).toBe(700);
+      expect(calculateWavDuration(output)).toBe(700);
+      // The raw segment is left untouched
+      expect(
+        calculateWavDuration(vol.readFileSync("/cache/seg_0001.wav") as Buffer),
+      ).toBe(1000);
+    });
+
+    it("should choose pauses by what separates segments", async () => {
+      for (const name of ["a", "b", "c", "d", "e"]) {
+        vol.writeFileSync(`/cache/${name}.wav`, TONE_WAV_100MS);
+      }
+      const segment = (name: string, index: number, speaker: string) => ({
+        path: `/cache/${name}.wav`,
+        index,
+        speaker,
+        text: name,
+      });
+
+      const result = await stitchAudioFiles(
+        [
+          segment("a", 0, "NARRATOR"),
+          { ...segment("b", 1, "NARRATOR"), paragraphStart: true },
+          segment("c", 2, "ALICE"),
+          segment("d", 3, "ALICE"),
+          { ...segment("e", 4, "ALICE"), pauseBeforeMs: 1000 },
+        ],
+        "/out/book.wav",
+        {
+          silencePaddingMs: 100,
+          pauses: { paragraph: 400, speakerChange: 300, sameSpeaker: 50 },
+          chapters: [
+            { title: "One", startSegmentIndex: 0, endSegmentIndex: 1 },
+            { title: "Two", startSegmentIndex: 2, endSegmentIndex: 4 },
+          ],
+        },
+      );
+
+      // chapter (padding), same speaker, explicit pause
+      expect(result.manifest.segments.map((s) => s.startMs)).toEqual([
+        0, 500, 700, 850, 1950,
+      ]);
+      expect(result.totalDurationMs).toBe(2050);
+    });
+
+    it("should trim silence around segments", async () => {
+      const padded = Buffer.concat([
+        createSilentWav(300),
+        extractWavData(TONE_WAV_100MS),
+        extractWavData(createSilentWav(200)),
+      ]);
+      // Fix up the data size in the header for the combined data
+      padded.writeUInt32LE(padded.length - 44, 40);
+      vol.writeFileSync("/cache/seg_0001.wav", padded);
+
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        silencePaddingMs: 100,
+        trimSilence: true,
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      // 100ms of tone plus a 30ms margin on each side
+      expect(result.manifest.segments[1].durationMs).toBeCloseTo(160, 0);
+      expect(calculateWavDuration(output)).toBeCloseTo(
+        result.totalDurationMs,
+        5,
+      );
+    });
+
+    it("should keep timestamps exact for odd pause lengths", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        sampleRate: 24000,
+        silencePaddingMs: 333.33,
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      // 333.33ms rounds to 8000 frames
+      expect(result.manifest.segments[1].startMs).toBeCloseTo(
+        result.manifest.segments[0].endMs + (8000 / 24000) * 1000,
+        9,
+      );
+      expect(result.totalDurationMs).toBe(calculateWavDuration(output));
+    });
+
+    it("should measure loudness without normalizing", async () => {
+      const result = await stitchAudioFiles(files, "/out/book.wav");
+
+      expect(result.loudness?.integratedLufs).toBeLessThan(0);
+      expect(result.loudnessTarget).toBeUndefined();
+    });
+
+    it("should normalize segments to the loudness target", async () => {
+      vol.writeFileSync(
+        "/cache/seg_0000.wav",
+        createToneWav(1000, 440, { amplitude: 0.02 }),
+      );
+      vol.writeFileSync(
+        "/cache/seg_0001.wav",
+        createToneWav(1000, 440, { amplitude: 0.4 }),
+      );
+
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        normalize: true,
+        loudnessTarget: -20,
+        truePeakLimit: -1,
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(result.loudness?.integratedLufs).toBeCloseTo(-20, 0);
+      expect(result.loudness?.truePeakDbtp).toBeLessThanOrEqual(-0.9);
+      expect(result.loudnessTarget).toBe(-20);
+      expect(calculateWavDuration(output)).toBe(2500);
+    });
+
+    it("should insert sound effects without trimming them", async () => {
+      vol.mkdirSync("/story/sfx", { recursive: true });
+      vol.writeFileSync(
+        "/story/sfx/bang.wav",
+        createSilentWav(200, { sampleRate: 44100, numChannels: 2 }),
+      );
+
+      const result = await stitchAudioFiles(
+        [
+          ...files,
+          {
+            path: "/story/sfx/bang.wav",
+            index: 2,
+            speaker: "SFX",
+            text: "sfx/bang.wav",
+            kind: "sfx" as const,
+          },
+        ],
+        "/out/book.wav",
+        { silencePaddingMs: 100, trimSilence: true },
+      );
+      const sfx = result.manifest.segments[2];
+
+      expect(sfx.kind).toBe("sfx");
+      expect(sfx.audioFile).toBe("/story/sfx/bang.wav");
+      expect(sfx.durationMs).toBe(200);
+      expect(result.manifest.speakers).toEqual(["NARRATOR", "ALICE"]);
+    });
+
+    it("should mix music around and under the speech in stereo", async () => {
+      vol.mkdirSync("/music", { recursive: true });
+      vol.writeFileSync(
+        "/music/theme.wav",
+        createToneWav(300, 330, { sampleRate: 44100, numChannels: 2 }),
+      );
+      vol.writeFileSync("/music/forest.wav", createToneWav(100, 220));
+
+      const result = await stitchAudioFiles(files, "/out/book.wav", {
+        silencePaddingMs: 100,
+        music: {
+          tracks: {
+            theme: { file: "theme.wav" },
+            forest: { file: "forest.wav", loop: true, duck: 12 },
+          },
+          intro: "theme",
+          outro: "theme",
+        },
+        scenes: [{ bed: "forest", startSegmentIndex: 1, endSegmentIndex: 1 }],
+        musicDir: "/music",
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(output.readUInt16LE(22)).toBe(2);
+      expect(result.manifest.segments.map((s) => s.startMs)).toEqual([
+        300, 500,
+      ]);
+      expect(result.totalDurationMs).toBe(1300);
+      expect(calculateWavDuration(output)).toBe(1300);
+    });
+
+    it("should play the intro and outro once across chapter files", async () => {
+      vol.mkdirSync("/music", { recursive: true });
+      vol.writeFileSync("/music/theme.wav", createToneWav(300, 330));
+      vol.writeFileSync("/cache/seg_0002.wav", SILENT_WAV_100MS);
+
+      const results = await stitchChapterFiles(
+        [
+          ...files,
+          { path: "/cache/seg_0002.wav", index: 2, speaker: "BOB", text: "C" },
+        ],
+        [
+          { title: "One", startSegmentIndex: 0, endSegmentIndex: 0 },
+          { title: "Two", startSegmentIndex: 1, endSegmentIndex: 1 },
+          { title: "Empty", startSegmentIndex: 5, endSegmentIndex: 6 },
+          { title: "Three", startSegmentIndex: 2, endSegmentIndex: 2 },
+        ],
+        (i) => `/out/chapter_${i + 1}.wav`,
+        {
+          music: {
+            tracks: { theme: { file: "theme.wav" } },
+            intro: "theme",
+            outro: "theme",
+          },
+          musicDir: "/music",
+        },
+      );
+
+      expect(
+        results.map((r) => [r.outputPath, r.manifest.title, r.totalDurationMs]),
+      ).toEqual([
+        ["/out/chapter_1.wav", "One", 400],
+        ["/out/chapter_2.wav", "Two", 500],
+        ["/out/chapter_4.wav", "Three", 400],
+      ]);
+      // Only the chapters with music are mixed to stereo
+      expect(
+        (vol.readFileSync("/out/chapter_2.wav") as Buffer).readUInt16LE(22),
+      ).toBe(1);
+    });
+
+    it("should stay mono when no music plays", async () => {
+      await stitchAudioFiles(files, "/out/book.wav", {
+        music: { tracks: { forest: { file: "forest.wav" } } },
+        scenes: [{ bed: "forest", startSegmentIndex: 5, endSegmentIndex: 6 }],
+      });
+      const output = vol.readFileSync("/out/book.wav") as Buffer;
+
+      expect(output.readUInt16LE(22)).toBe(1);
+    });
+
+    it("should throw for missing music files", async () => {
+      await expect(
+        stitchAudioFiles(files, "/out/book.wav", {
+          music: { tracks: { theme: { file: "theme.wav" } }, intro: "theme" },
+          musicDir: "/music",
+        }),
+      ).rejects.toThrow("Music file not found: /music/theme.wav");
+    });
+
+    it("should throw for missing segment files", async () => {
+      await expect(
+        stitchAudioFiles(
+          [{ path: "/cache/missing.wav", index: 0, speaker: "A", text: "x" }],
+          "/out/book.wav",
+        ),
+      ).rejects.toThrow("Audio file not found");
+    });
+  });
+
+  describe("loadManifest", () => {
+    it("should default chapters for manifests without them", async () => {
+      vol.mkdirSync("/out", { recursive: true });
+      vol.writeFileSync(
+        "/out/old_manifest.json",
+        JSON.stringify({ version: "1.0.0", title: "Old", segments: [] }),
+      );
+
+      const manifest = await loadManifest("/out/old_manifest.json");
+
+      expect(manifest?.chapters).toEqual([]);
+    });
+
+    it("should return null for missing files", async () => {
+      expect(await loadManifest("/out/missing.json")).toBeNull();
+    });
+  });
+
+  describe("exportM4b", () => {
+    const files = [
+      { path: "/cache/seg_0000.wav", index: 0, speaker: "NARRATOR", text: "A" },
+      { path: "/cache/seg_0001.wav", index: 1, speaker: "ALICE", text: "B" },
+    ];
+
+    beforeEach(() => {
+      vol.mkdirSync("/cache", { recursive: true });
+      vol.writeFileSync("/cache/seg_0000.wav", TONE_WAV_100MS);
+      vol.writeFileSync("/cache/seg_0001.wav", TONE_WAV_100MS);
+    });
+
+    it("should write an M4B with one chapter by default", async () => {
+      const result = await exportM4b(files, "/out/book.m4b", {
+        silencePaddingMs: 100,
+        title: "Book",
+      });
+      const output = vol.readFileSync("/out/book.m4b") as Buffer;
+
+      expect(output.toString("latin1", 8, 12)).toBe("M4B ");
+      expect(result.chapterCount).toBe(1);
+      expect(result.totalDurationMs).toBe(300);
+      expect(result.fileSize).toBe(output.length);
+    });
+
+    it("should place sound effects from outside the segment cache", async () => {
+      vol.mkdirSync("/story", { recursive: true });
+      vol.writeFileSync(
+        "/story/bang.wav",
+        createToneWav(100, 440, { sampleRate: 48000, numChannels: 2 }),
+      );
+
+      const result = await exportM4b(
+        [
+          ...files,
+          {
+            path: "/story/bang.wav",
+            index: 2,
+            speaker: "SFX",
+            text: "bang.wav",
+            kind: "sfx" as const,
+          },
+        ],
+        "/out/book.m4b",
+        { silencePaddingMs: 100 },
+      );
+
+      expect(result.totalDurationMs).toBe(500);
+    });
+
+    it("should place chapters at their first segment", async () => {
+      await exportM4b(files, "/out/book.m4b", {
+        silencePaddingMs: 100,
+        chapters: [
+          { title: "Chapter 1", startSegmentIndex: 0, endSegmentIndex: 0 },
+          { title: "Chapter 2", startSegmentIndex: 1, endSegmentIndex: 1 },
+        ],
+      });
+      const output = vol.readFileSync("/out/book.m4b") as Buffer;
+      const chpl = output.subarray(output.indexOf("chpl") + 4);
+
+      expect(chpl[8]).toBe(2);
+      // Second entry: 8-byte start after the first title ("Chapter 1")
+      const secondStart = chpl.readBigUInt64BE(9 + 9 + "Chapter 1".length);
+      expect(Number(secondStart) / 10000).toBe(200);
+    });
+
+    it("should render the book the way the stitched formats do", async () => {
+      // A segment at another sample rate, slowed down and trimmed
+      const silence = extractWavData(
+        createSilentWav(200, { sampleRate: 48000 }),
+      );
+      const tone = extractWavData(
+        createToneWav(200, 440, { sampleRate: 48000 }),
+      );
+      vol.writeFileSync(
+        "/cache/seg_0002.wav",
+        Buffer.concat([
+          createWavHeader(silence.length + tone.length, { sampleRate: 48000 }),
+          silence,
+          tone,
+        ]),
+      );
+      const book = [
+        ...files,
+        {
+          path: "/cache/seg_0002.wav",
+          index: 2,
+          speaker: "BOB",
+          text: "C",
+          speed: 0.5,
+        },
+      ];
+      const options = {
+        silencePaddingMs: 100,
+        trimSilence: true,
+        normalize: true,
+      };
+
+      const stitched = await stitchAudioFiles(book, "/out/book.wav", options);
+      const result = await exportM4b(book, "/out/book.m4b", options);
+
+      expect(result.totalDurationMs).toBe(stitched.totalDurationMs);
+      // Two 100ms segments and pauses, then the trimmed tone at half speed
+      expect(result.totalDurationMs).toBeGreaterThan(700);
+      expect(result.totalDurationMs).toBeLessThan(900);
+    });
+
+    it("should export segments from the shared segment store", async () => {
+      const segments = files.map((f) => ({
+        id: `seg_${f.index}`,
+        index: f.index,
+        kind: "speech" as const,
+        speaker: f.speaker,
+        text: f.text,
+        lineNumber: f.index + 1,
+      }));
+      let manifest = createEmptyManifest("story.txt", "hash1", "hash2");
+      for (const segment of segments) {
+        const blobKey = getBlobKey(segment, MINIMAL_CONFIG);
+        vol.fromJSON({ [getBlobPath("/out", blobKey)]: TONE_WAV_100MS });
+        manifest = updateCachedSegment(manifest, segment, MINIMAL_CONFIG, {
+          audioPath: getBlobPath("/out", blobKey),
+          durationMs: 100,
+          fileSize: TONE_WAV_100MS.length,
+          success: true,
+          blobKey,
+        });
+      }
+
+      const { found } = await findCachedAudio(
+        "/out",
+        manifest,
+        segments,
+        MINIMAL_CONFIG,
+        "story",
+      );
+      const result = await exportM4b(
+        found.map(({ segment, path }) => ({ ...segment, path })),
+        "/out/book.m4b",
+        { silencePaddingMs: 100 },
+      );
+
+      expect(found).toHaveLength(2);
+      expect(result.totalDurationMs).toBe(300);
+    });
+
+    it("should throw for missing segment files", async () => {
+      await expect(
+        exportM4b(
+          [{ ...files[0], path: "/elsewhere/seg_0000.wav" }],
+          "/out/book.m4b",
+        ),
+      ).rejects.toThrow("Audio file not found");
+    });
   });
 });
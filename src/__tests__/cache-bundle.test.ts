@@ -0,0 +1,270 @@
+/**
+ * Tests for the cache bundle module
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { vol } from "memfs";
+import {
+  createTar,
+  readTar,
+  createCacheBundle,
+  importCacheBundle,
+} from "../cache-bundle.js";
+import { getBlobPath, hashText, loadCacheManifest } from "../cache.js";
+import type { CachedSegment } from "../types.js";
+import { createBlobEntry, writeStoryCache } from "../fixtures/cache.js";
+
+// Mock fs/promises
+vi.mock("fs/promises", async () => {
+  const memfs = await import("memfs");
+  return memfs.fs.promises;
+});
+
+const STORY_HASH = hashText("story");
+const A1 = hashText("a1");
+const A2 = hashText("a2");
+const B1 = hashText("b1");
+const B2 = hashText("b2");
+
+/**
+ * A cached blob segment generated at `generatedAt`
+ */
+function blobEntry(
+  outputDir: string,
+  segmentId: string,
+  blobKey: string,
+  generatedAt: string,
+): CachedSegment {
+  return createBlobEntry(outputDir, segmentId, blobKey, {
+    fileSize: 5,
+    generatedAt,
+  });
+}
+
+/**
+ * Save a story cache with the given entries and their audio
+ */
+async function writeCache(
+  outputDir: string,
+  segments: CachedSegment[],
+  audio: string,
+): Promise<void> {
+  await writeStoryCache(outputDir, STORY_HASH, segments, {
+    audio,
+    storyPath: "/home/alice/story.txt",
+  });
+}
+
+describe("cache-bundle", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe("tar", () => {
+    it("should read back the files it writes", () => {
+      const entries = [
+        { name: "bundle.json", data: Buffer.from("{}") },
+        { name: "audio/a.wav", data: Buffer.alloc(1000, 7) },
+        { name: "empty.txt", data: Buffer.alloc(0) },
+      ];
+
+      const tar = createTar(entries);
+
+      expect(tar.length % 512).toBe(0);
+      expect(readTar(tar)).toEqual(entries);
+    });
+
+    it("should reject corrupt headers", () => {
+      const tar = createTar([{ name: "a.txt", data: Buffer.from("a") }]);
+      tar[0] = "b".charCodeAt(0);
+
+      expect(() => readTar(tar)).toThrow("Corrupt tar header at byte 0");
+    });
+  });
+
+  describe("bundles", () => {
+    it("should move a story's cache to another output directory", async () => {
+      await writeCache(
+        "/alice",
+        [
+          blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z"),
+          blobEntry("/alice", "seg_a_2", A1, "2026-01-01T00:00:00.000Z"),
+        ],
+        "audio",
+      );
+
+      const { bundle, segments } = await createCacheBundle("/alice", "story");
+      const result = await importCacheBundle("/bob", bundle);
+
+      expect(segments).toBe(2);
+      expect(readTar(bundle).map((e) => e.name)).toEqual([
+        "bundle.json",
+        "manifest.json",
+        `audio/${A1}.wav`,
+      ]);
+      expect(result).toEqual({
+        story: "story",
+        imported: 2,
+        skipped: 0,
+        corrupt: [],
+      });
+      const manifest = await loadCacheManifest("/bob", STORY_HASH);
+      expect(manifest?.segments.map((s) => s.audioPath)).toEqual([
+        getBlobPath("/bob", A1),
+        getBlobPath("/bob", A1),
+      ]);
+      expect(vol.readFileSync(getBlobPath("/bob", A1), "utf-8")).toBe("audio");
+    });
+
+    it("should keep local entries that are as new or newer", async () => {
+      await writeCache(
+        "/alice",
+        [
+          blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z"),
+          blobEntry("/alice", "seg_b", B2, "2026-03-01T00:00:00.000Z"),
+        ],
+        "alice",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+      await writeCache(
+        "/bob",
+        [
+          blobEntry("/bob", "seg_a", A2, "2026-02-01T00:00:00.000Z"),
+          blobEntry("/bob", "seg_b", B1, "2026-02-01T00:00:00.000Z"),
+        ],
+        "bob",
+      );
+
+      const result = await importCacheBundle("/bob", bundle);
+
+      expect(result.imported).toBe(1);
+      expect(result.skipped).toBe(1);
+      const manifest = await loadCacheManifest("/bob", STORY_HASH);
+      expect(manifest?.segments.map((s) => s.blobKey)).toEqual([A2, B2]);
+    });
+
+    it("should skip audio that fails its checksum", async () => {
+      await writeCache(
+        "/alice",
+        [blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z")],
+        "audio",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+      const entries = readTar(bundle).map((e) =>
+        e.name === `audio/${A1}.wav` ? { ...e, data: Buffer.from("noise") } : e,
+      );
+
+      const result = await importCacheBundle("/bob", createTar(entries));
+
+      expect(result.corrupt).toEqual(["seg_a"]);
+      expect(vol.existsSync(getBlobPath("/bob", A1))).toBe(false);
+    });
+
+    it("should skip audio whose checksum entry doesn't match the manifest", async () => {
+      await writeCache(
+        "/alice",
+        [blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z")],
+        "audio",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+      const entries = readTar(bundle).map((e) =>
+        e.name === "bundle.json"
+          ? {
+              ...e,
+              data: Buffer.from(
+                JSON.stringify({
+                  ...JSON.parse(e.data.toString("utf-8")),
+                  checksums: { "audio/other.wav": hashText("audio") },
+                }),
+              ),
+            }
+          : e,
+      );
+
+      const result = await importCacheBundle("/bob", createTar(entries));
+
+      expect(result.corrupt).toEqual(["seg_a"]);
+      expect(result.imported).toBe(0);
+    });
+
+    it("should reject entries that point outside the cache", async () => {
+      await writeCache(
+        "/alice",
+        [blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z")],
+        "audio",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+      const tamper = (segment: Partial<CachedSegment>) =>
+        createTar(
+          readTar(bundle).map((e) => {
+            if (e.name !== "manifest.json") {
+              return e;
+            }
+            const manifest = JSON.parse(e.data.toString("utf-8"));
+            manifest.segments = [{ ...manifest.segments[0], ...segment }];
+            return { ...e, data: Buffer.from(JSON.stringify(manifest)) };
+          }),
+        );
+
+      await expect(
+        importCacheBundle("/bob", tamper({ blobKey: "../../../../tmp/x" })),
+      ).rejects.toThrow("Invalid bundle entry seg_a: blob key");
+      await expect(
+        importCacheBundle(
+          "/bob",
+          tamper({ blobKey: undefined, audioPath: "audio/../../x.wav" }),
+        ),
+      ).rejects.toThrow("Invalid bundle entry seg_a: audio path");
+      expect(vol.existsSync("/tmp/x.wav")).toBe(false);
+      expect(vol.existsSync("/bob")).toBe(false);
+    });
+
+    it("should import into another story's cache", async () => {
+      await writeCache(
+        "/alice",
+        [blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z")],
+        "audio",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+
+      await importCacheBundle("/bob", bundle, "story-v2");
+
+      expect(
+        await loadCacheManifest("/bob", hashText("story-v2")),
+      ).not.toBeNull();
+    });
+
+    it("should reject bundles without a story or checksums", async () => {
+      await writeCache(
+        "/alice",
+        [blobEntry("/alice", "seg_a", A1, "2026-01-01T00:00:00.000Z")],
+        "audio",
+      );
+      const { bundle } = await createCacheBundle("/alice", "story");
+      const withInfo = (info: Record<string, unknown>) =>
+        createTar(
+          readTar(bundle).map((e) =>
+            e.name === "bundle.json"
+              ? { ...e, data: Buffer.from(JSON.stringify(info)) }
+              : e,
+          ),
+        );
+
+      await expect(
+        importCacheBundle("/bob", withInfo({ version: "1", story: "story" })),
+      ).rejects.toThrow("Not a cache bundle (bundle.json is missing");
+      await expect(
+        importCacheBundle("/bob", withInfo({ version: "1", checksums: {} })),
+      ).rejects.toThrow("Not a cache bundle (bundle.json is missing");
+    });
+
+    it("should reject archives that aren't bundles", async () => {
+      await expect(
+        importCacheBundle(
+          "/bob",
+          createTar([{ name: "a.txt", data: Buffer.from("a") }]),
+        ),
+      ).rejects.toThrow("Not a cache bundle");
+    });
+  });
+});
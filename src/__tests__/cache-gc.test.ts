@@ -0,0 +1,209 @@
+/**
+ * Tests for the cache garbage collection module
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { vol } from "memfs";
+import {
+  parseByteSize,
+  parseAge,
+  planCacheGc,
+  applyCacheGc,
+} from "../cache-gc.js";
+import {
+  getBlobPath,
+  getCachedGroupPath,
+  getCacheManifestPath,
+  loadBlobRefs,
+  CACHE_DIR_NAME,
+} from "../cache.js";
+import type {
+  CachedSegment,
+  CachedSegmentGroup,
+  CacheManifest,
+} from "../types.js";
+import { createBlobEntry, writeStoryCache } from "../fixtures/cache.js";
+
+// Mock fs/promises
+vi.mock("fs/promises", async () => {
+  const memfs = await import("memfs");
+  return memfs.fs.promises;
+});
+
+const NOW = new Date("2026-10-01T00:00:00.000Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A cached blob segment last used `daysAgo` days before NOW
+ */
+function blobEntry(
+  segmentId: string,
+  blobKey: string,
+  daysAgo: number,
+  overrides: Partial<CachedSegment> = {},
+): CachedSegment {
+  return createBlobEntry("/output", segmentId, blobKey, {
+    lastAccessedAt: new Date(NOW.getTime() - daysAgo * DAY).toISOString(),
+    ...overrides,
+  });
+}
+
+describe("cache-gc", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe("parseByteSize", () => {
+    it("should parse sizes with units", () => {
+      expect(parseByteSize("500")).toBe(500);
+      expect(parseByteSize("2KB")).toBe(2048);
+      expect(parseByteSize("1.5 MB")).toBe(1.5 * 1024 * 1024);
+      expect(parseByteSize("2g")).toBe(2 * 1024 ** 3);
+    });
+
+    it("should reject other values", () => {
+      expect(() => parseByteSize("lots")).toThrow("Invalid size: lots");
+      for (const size of ["", "-5MB", "5XB", "1e3", "5 MB extra"]) {
+        expect(() => parseByteSize(size)).toThrow("Invalid size");
+      }
+    });
+  });
+
+  describe("parseAge", () => {
+    it("should parse ages with units", () => {
+      expect(parseAge("45m")).toBe(45 * 60 * 1000);
+      expect(parseAge("12h")).toBe(12 * 60 * 60 * 1000);
+      expect(parseAge("30d")).toBe(30 * DAY);
+      expect(parseAge("2w")).toBe(14 * DAY);
+    });
+
+    it("should reject other values", () => {
+      expect(() => parseAge("30")).toThrow("Invalid age: 30");
+    });
+  });
+
+  describe("planCacheGc", () => {
+    it("should always collect files no manifest references", async () => {
+      await writeStoryCache("/output", "aaaa1111", [
+        blobEntry("seg_a", "a1", 1),
+      ]);
+      vol.fromJSON({
+        [getBlobPath("/output", "dead")]: "x".repeat(50),
+        [`/output/${CACHE_DIR_NAME}/aaaa1111/segments/seg_0001_old.wav`]:
+          "x".repeat(30),
+      });
+
+      const plan = await planCacheGc("/output", { now: NOW });
+
+      expect(plan.removals.map((r) => [r.reason, r.bytes])).toEqual([
+        ["unreferenced", 30],
+        ["unreferenced", 50],
+      ]);
+      expect(plan.totalBytes).toBe(180);
+      expect(plan.reclaimableBytes).toBe(80);
+    });
+
+    it("should expire audio not used within the age budget", async () => {
+      await writeStoryCache("/output", "aaaa1111", [
+        blobEntry("seg_a", "a1", 40),
+        blobEntry("seg_b", "b1", 5),
+      ]);
+
+      const plan = await planCacheGc("/output", {
+        olderThanMs: 30 * DAY,
+        now: NOW,
+      });
+
+      expect(plan.removals).toEqual([
+        expect.objectContaining({
+          path: getBlobPath("/output", "a1"),
+          reason: "expired",
+        }),
+      ]);
+    });
+
+    it("should evict the least recently used audio to fit the size budget", async () => {
+      await writeStoryCache("/output", "aaaa1111", [
+        blobEntry("seg_a", "a1", 3),
+        blobEntry("seg_b", "b1", 9),
+      ]);
+      // Another story used a1's blob most recently, so it stays
+      await writeStoryCache("/output", "bbbb2222", [
+        blobEntry("seg_c", "c1", 6),
+        blobEntry("seg_a", "a1", 0),
+      ]);
+
+      const plan = await planCacheGc("/output", {
+        maxSizeBytes: 150,
+        now: NOW,
+      });
+
+      expect(plan.removals.map((r) => [r.path, r.reason])).toEqual([
+        [getBlobPath("/output", "b1"), "evicted"],
+        [getBlobPath("/output", "c1"), "evicted"],
+      ]);
+    });
+
+    it("should keep groups whose segments are still in use", async () => {
+      const group = (groupId: string): CachedSegmentGroup => ({
+        groupId,
+        segmentIds: [],
+        speakers: ["ALICE", "BOB"],
+        audioPath: getCachedGroupPath("/output", groupId, "aaaa1111"),
+        durationMs: 2000,
+        fileSize: 100,
+        hash: groupId,
+        timings: [],
+        generatedAt: new Date(NOW.getTime() - 90 * DAY).toISOString(),
+        provider: "gemini",
+      });
+      await writeStoryCache(
+        "/output",
+        "aaaa1111",
+        [
+          blobEntry("seg_a", "a1", 2, { groupId: "used" }),
+          blobEntry("seg_b", "b1", 60, { groupId: "stale" }),
+        ],
+        { groups: [group("used"), group("stale")] },
+      );
+
+      const plan = await planCacheGc("/output", {
+        olderThanMs: 30 * DAY,
+        now: NOW,
+      });
+
+      expect(plan.removals.map((r) => r.path)).toEqual([
+        getCachedGroupPath("/output", "stale", "aaaa1111"),
+        getBlobPath("/output", "b1"),
+      ]);
+    });
+  });
+
+  describe("applyCacheGc", () => {
+    it("should delete files and drop the entries that used them", async () => {
+      await writeStoryCache("/output", "aaaa1111", [
+        blobEntry("seg_a", "a1", 40),
+        blobEntry("seg_b", "b1", 5),
+      ]);
+      await writeStoryCache("/output", "bbbb2222", [
+        blobEntry("seg_c", "a1", 35),
+      ]);
+
+      await applyCacheGc(
+        "/output",
+        await planCacheGc("/output", { olderThanMs: 30 * DAY, now: NOW }),
+      );
+
+      const manifest = JSON.parse(
+        vol.readFileSync(
+          getCacheManifestPath("/output", "aaaa1111"),
+          "utf-8",
+        ) as string,
+      ) as CacheManifest;
+      expect(manifest.segments.map((s) => s.segmentId)).toEqual(["seg_b"]);
+      expect(vol.existsSync(getBlobPath("/output", "a1"))).toBe(false);
+      expect(vol.existsSync(getBlobPath("/output", "b1"))).toBe(true);
+      expect(await loadBlobRefs("/output")).toEqual({ b1: ["aaaa1111"] });
+    });
+  });
+});
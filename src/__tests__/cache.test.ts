@@ -13,9 +13,23 @@ import {
   createEmptyManifest,
   isSegmentCached,
   updateCachedSegment,
+  relinkCachedSegments,
+  removeCachedSegment,
+  updateCachedGroup,
+  findCachedGroup,
+  getGroupId,
+  getCachedGroupPath,
   getSegmentsToGenerate,
   getCachedSegments,
+  findCachedAudio,
   getSegmentsWithStyleChanges,
+  saveCacheManifest,
+  clearCache,
+  recoverCachedSegments,
+  getBlobKey,
+  getBlobPath,
+  loadBlobRefs,
+  findUnreferencedBlobs,
   getCacheStats,
   formatBytes,
   getCacheSummary,
@@ -95,6 +109,7 @@ describe("cache", () => {
     const mockSegment: Segment = {
       id: "seg_0001_abc123",
       index: 0,
+      kind: "speech",
       speaker: "NARRATOR",
       text: "Once upon a time...",
       lineNumber: 1,
@@ -143,6 +158,136 @@ describe("cache", () => {
       expect(hash1.combinedHash).not.toBe(hash2.combinedHash);
     });
 
+    it("should change when a line's direction changes", () => {
+      const whispered = { ...mockSegment, style: "whispering" };
+      const shouted = { ...mockSegment, style: "shouting" };
+
+      const plain = generateSegmentHash(mockSegment, MINIMAL_CONFIG);
+      const hash1 = generateSegmentHash(whispered, MINIMAL_CONFIG);
+      const hash2 = generateSegmentHash(shouted, MINIMAL_CONFIG);
+
+      expect(hash1.textHash).toBe(plain.textHash);
+      expect(hash1.combinedHash).not.toBe(plain.combinedHash);
+      expect(hash1.combinedHash).not.toBe(hash2.combinedHash);
+    });
+
+    it("should hash the normalized text when there is one", () => {
+      const normalized = {
+        ...mockSegment,
+        text: "Once upon 1 time...",
+        normalizedText: "Once upon a time...",
+      };
+
+      expect(generateSegmentHash(normalized, MINIMAL_CONFIG).textHash).toBe(
+        generateSegmentHash(mockSegment, MINIMAL_CONFIG).textHash,
+      );
+    });
+
+    it("should include only the lexicon entries the segment uses", () => {
+      const withEntry = {
+        ...mockSegment,
+        pronunciations: { Aelwyn: "AEL-win" },
+      };
+      const respelled = {
+        ...mockSegment,
+        pronunciations: { Aelwyn: "AL-win" },
+      };
+
+      const plain = generateSegmentHash(mockSegment, MINIMAL_CONFIG);
+
+      expect(
+        generateSegmentHash(
+          { ...mockSegment, pronunciations: {} },
+          MINIMAL_CONFIG,
+        ).combinedHash,
+      ).toBe(plain.combinedHash);
+      expect(
+        generateSegmentHash(withEntry, MINIMAL_CONFIG).combinedHash,
+      ).not.toBe(plain.combinedHash);
+      expect(
+        generateSegmentHash(withEntry, MINIMAL_CONFIG).combinedHash,
+      ).not.toBe(generateSegmentHash(respelled, MINIMAL_CONFIG).combinedHash);
+    });
+
+    it("should change when the voice's provider changes", () => {
+      const gemini = {
+        ...MINIMAL_CONFIG,
+        voices: [{ name: "NARRATOR", voiceName: "Zephyr" }],
+      };
+      const local = {
+        ...MINIMAL_CONFIG,
+        voices: [{ name: "NARRATOR", voiceName: "Zephyr", provider: "local" }],
+      };
+      const openai = {
+        ...gemini,
+        provider: { ...MINIMAL_CONFIG.provider, name: "openai" },
+      };
+
+      const geminiHash = generateSegmentHash(mockSegment, gemini);
+
+      expect(generateSegmentHash(mockSegment, local).voiceHash).not.toBe(
+        geminiHash.voiceHash,
+      );
+      expect(generateSegmentHash(mockSegment, openai).voiceHash).not.toBe(
+        geminiHash.voiceHash,
+      );
+    });
+
+    it("should keep Gemini hashes from before provider routing", () => {
+      const legacy = {
+        ...MINIMAL_CONFIG,
+        voices: [{ name: "NARRATOR", voiceName: "Zephyr" }],
+      };
+      const explicit = {
+        ...MINIMAL_CONFIG,
+        voices: [{ name: "NARRATOR", voiceName: "Zephyr", provider: "gemini" }],
+      };
+
+      expect(generateSegmentHash(mockSegment, explicit).voiceHash).toBe(
+        generateSegmentHash(mockSegment, legacy).voiceHash,
+      );
+    });
+
+    it("should keep raw audio cached when post-processed effects change", () => {
+      const voice = {
+        name: "NARRATOR",
+        voiceName: "Zephyr",
+        speed: 1.0,
+        pitch: 0,
+      };
+      const original = { ...MINIMAL_CONFIG, voices: [voice] };
+      const tweaked = {
+        ...MINIMAL_CONFIG,
+        voices: [{ ...voice, speed: 1.3, pitch: -0.2 }],
+      };
+      const openai = {
+        ...original,
+        provider: { ...MINIMAL_CONFIG.provider, name: "openai" },
+      };
+      const openaiTweaked = { ...tweaked, provider: openai.provider };
+
+      expect(generateSegmentHash(mockSegment, tweaked).combinedHash).toBe(
+        generateSegmentHash(mockSegment, original).combinedHash,
+      );
+      // OpenAI applies speed itself, so the request changes
+      expect(
+        generateSegmentHash(mockSegment, openaiTweaked).voiceHash,
+      ).not.toBe(generateSegmentHash(mockSegment, openai).voiceHash);
+    });
+
+    it("should keep the hash when post-processed effects are first set", () => {
+      const voice = { name: "NARRATOR", voiceName: "Zephyr" };
+      const unset = { ...MINIMAL_CONFIG, voices: [voice] };
+      const pitched = {
+        ...MINIMAL_CONFIG,
+        voices: [{ ...voice, pitch: 2, speed: 1.2 }],
+      };
+
+      expect(generateSegmentHash(mockSegment, pitched).combinedHash).toBe(
+        generateSegmentHash(mockSegment, unset).combinedHash,
+      );
+    });
+
     it("should keep textHash same when only voice changes", () => {
       const config1 = {
         ...MINIMAL_CONFIG,
@@ -235,6 +380,7 @@ describe("cache", () => {
     const mockSegment: Segment = {
       id: "seg_0001_abc123",
       index: 0,
+      kind: "speech",
       speaker: "NARRATOR",
       text: "Test text",
       lineNumber: 1,
@@ -326,12 +472,129 @@ describe("cache", () => {
       const result = isSegmentCached(manifest, mockSegment, MINIMAL_CONFIG);
       expect(result).toBeNull();
     });
+
+    it("should find a moved segment by its text and voice hash", () => {
+      const manifest = updateCachedSegment(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        { ...mockSegment, id: "seg_0005_abc123", index: 5 },
+        MINIMAL_CONFIG,
+        {
+          audioPath: "/output/seg_0005_abc123.wav",
+          durationMs: 1000,
+          fileSize: 48000,
+          success: true,
+        },
+      );
+
+      expect(
+        isSegmentCached(manifest, mockSegment, MINIMAL_CONFIG)?.audioPath,
+      ).toBe("/output/seg_0005_abc123.wav");
+      expect(
+        isSegmentCached(
+          manifest,
+          { ...mockSegment, text: "Other text" },
+          MINIMAL_CONFIG,
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("relinkCachedSegments", () => {
+    const segment = (id: string, index: number, text: string): Segment => ({
+      id,
+      index,
+      kind: "speech",
+      speaker: "NARRATOR",
+      text,
+      lineNumber: index + 1,
+    });
+    const cache = (manifest: CacheManifest, s: Segment) =>
+      updateCachedSegment(manifest, s, MINIMAL_CONFIG, {
+        audioPath: `/output/${s.id}.wav`,
+        durationMs: 1000,
+        fileSize: 48000,
+        success: true,
+      });
+
+    it("should move entries to their segments' current IDs and indexes", () => {
+      let manifest = createEmptyManifest("story.txt", "hash1", "hash2");
+      manifest = cache(manifest, segment("seg_0000_aaa", 0, "One."));
+      manifest = cache(manifest, segment("seg_bbb", 1, "Two."));
+
+      // A line was inserted at the start
+      const current = [
+        segment("seg_ccc", 0, "Zero."),
+        segment("seg_aaa", 1, "One."),
+        segment("seg_bbb", 2, "Two."),
+      ];
+      const relinked = relinkCachedSegments(
+        manifest,
+        getCachedSegments(manifest, current, MINIMAL_CONFIG),
+        current,
+      );
+
+      expect(
+        relinked.segments.map((s) => [s.segmentId, s.index, s.audioPath]),
+      ).toEqual([
+        ["seg_aaa", 1, "/output/seg_0000_aaa.wav"],
+        ["seg_bbb", 2, "/output/seg_bbb.wav"],
+      ]);
+    });
+
+    it("should copy entries still used by another segment", () => {
+      const first = segment("seg_aaa", 0, "Yes.");
+      const repeat = segment("seg_aaa_2", 1, "Yes.");
+      const manifest = cache(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        first,
+      );
+
+      const relinked = relinkCachedSegments(
+        manifest,
+        getCachedSegments(manifest, [first, repeat], MINIMAL_CONFIG),
+        [first, repeat],
+      );
+
+      expect(relinked.segments.map((s) => s.segmentId)).toEqual([
+        "seg_aaa",
+        "seg_aaa_2",
+      ]);
+      expect(relinked.segments[1].audioPath).toBe("/output/seg_aaa.wav");
+    });
+  });
+
+  describe("removeCachedSegment", () => {
+    it("should keep audio files shared with other entries", async () => {
+      const path = getCachedSegmentPath("/output", "seg_aaa");
+      vol.fromJSON({ [path]: "audio" });
+      const manifest: CacheManifest = {
+        ...createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments: ["seg_aaa", "seg_aaa_2"].map((segmentId, index) => ({
+          segmentId,
+          index,
+          speaker: "NARRATOR",
+          audioPath: path,
+          durationMs: 1000,
+          fileSize: 48000,
+          hash: { textHash: "t", voiceHash: "v", combinedHash: "c" },
+          generatedAt: new Date().toISOString(),
+          provider: "gemini",
+          success: true,
+        })),
+      };
+
+      const updated = await removeCachedSegment("/output", manifest, "seg_aaa");
+
+      expect(updated.segments.map((s) => s.segmentId)).toEqual(["seg_aaa_2"]);
+      expect(vol.existsSync(path)).toBe(true);
+    });
   });
 
   describe("updateCachedSegment", () => {
     const mockSegment: Segment = {
       id: "seg_0001_abc123",
       index: 0,
+      kind: "speech",
       speaker: "NARRATOR",
       text: "Test text",
       lineNumber: 1,
@@ -357,6 +620,27 @@ describe("cache", () => {
       expect(updated.segments[0].success).toBe(true);
     });
 
+    it("should record the voice's provider", () => {
+      const config = {
+        ...MINIMAL_CONFIG,
+        voices: [{ name: "NARRATOR", provider: "local" }],
+      };
+
+      const updated = updateCachedSegment(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        mockSegment,
+        config,
+        {
+          audioPath: "/output/seg.wav",
+          durationMs: 1000,
+          fileSize: 48000,
+          success: true,
+        },
+      );
+
+      expect(updated.segments[0].provider).toBe("local");
+    });
+
     it("should update existing segment", () => {
       const hash = generateSegmentHash(mockSegment, MINIMAL_CONFIG);
       const existingSegment: CachedSegment = {
@@ -496,11 +780,128 @@ describe("cache", () => {
     });
   });
 
+  describe("multi-speaker groups", () => {
+    const segments: Segment[] = [
+      {
+        id: "seg_0003_aaa",
+        index: 3,
+        kind: "speech",
+        speaker: "ALICE",
+        text: "Hello there.",
+        lineNumber: 4,
+      },
+      {
+        id: "seg_0004_bbb",
+        index: 4,
+        kind: "speech",
+        speaker: "BOB",
+        text: "Hi, Alice!",
+        lineNumber: 5,
+      },
+    ];
+    const result = {
+      audioPath: "/output/group.wav",
+      durationMs: 2000,
+      fileSize: 96044,
+      timings: [
+        { segmentId: "seg_0003_aaa", startMs: 0, endMs: 1100 },
+        { segmentId: "seg_0004_bbb", startMs: 1100, endMs: 2000 },
+      ],
+    };
+
+    it("should name groups after their first segment", () => {
+      expect(getGroupId(segments, MINIMAL_CONFIG)).toMatch(
+        /^group_0003_[a-f0-9]{8}$/,
+      );
+      expect(getCachedGroupPath("/output", "group_0003_abc", "hash1")).toBe(
+        `/output/${CACHE_DIR_NAME}/hash1/groups/group_0003_abc.wav`,
+      );
+    });
+
+    it("should record the group with its segment timings", () => {
+      const manifest = updateCachedGroup(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments,
+        MINIMAL_CONFIG,
+        result,
+      );
+
+      expect(manifest.groups).toHaveLength(1);
+      expect(manifest.groups![0].segmentIds).toEqual([
+        "seg_0003_aaa",
+        "seg_0004_bbb",
+      ]);
+      expect(manifest.groups![0].speakers).toEqual(["ALICE", "BOB"]);
+      expect(manifest.groups![0].timings).toEqual(result.timings);
+      expect(manifest.groups![0].provider).toBe("gemini");
+    });
+
+    it("should find the group until a member changes", () => {
+      const manifest = updateCachedGroup(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments,
+        MINIMAL_CONFIG,
+        result,
+      );
+
+      expect(
+        findCachedGroup(manifest, segments, MINIMAL_CONFIG),
+      ).not.toBeNull();
+      expect(
+        findCachedGroup(
+          manifest,
+          [segments[0], { ...segments[1], text: "Hi, Alicia!" }],
+          MINIMAL_CONFIG,
+        ),
+      ).toBeNull();
+      expect(
+        findCachedGroup(manifest, [segments[0]], MINIMAL_CONFIG),
+      ).toBeNull();
+    });
+
+    it("should replace groups that share a segment", () => {
+      const first = updateCachedGroup(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments,
+        MINIMAL_CONFIG,
+        result,
+      );
+      const changed = [segments[0], { ...segments[1], text: "Hi, Alicia!" }];
+      const second = updateCachedGroup(first, changed, MINIMAL_CONFIG, result);
+
+      expect(second.groups).toHaveLength(1);
+      expect(second.groups![0].groupId).toBe(
+        getGroupId(changed, MINIMAL_CONFIG),
+      );
+    });
+
+    it("should link member segments to their group", () => {
+      const manifest = updateCachedSegment(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments[0],
+        MINIMAL_CONFIG,
+        {
+          audioPath: "/output/seg.wav",
+          durationMs: 1100,
+          fileSize: 52844,
+          success: true,
+          groupId: "group_0003_abc",
+        },
+      );
+
+      expect(manifest.segments[0].groupId).toBe("group_0003_abc");
+      expect(
+        isSegmentCached(manifest, segments[0], MINIMAL_CONFIG),
+      ).not.toBeNull();
+    });
+  });
+
   describe("getSegmentsToGenerate", () => {
     const segments: Segment[] = [
       {
         id: "seg_0001",
         index: 0,
+        kind: "speech",
         speaker: "NARRATOR",
         text: "Text 1",
         lineNumber: 1,
@@ -508,6 +909,7 @@ describe("cache", () => {
       {
         id: "seg_0002",
         index: 1,
+        kind: "speech",
         speaker: "ALICE",
         text: "Text 2",
         lineNumber: 2,
@@ -515,6 +917,7 @@ describe("cache", () => {
       {
         id: "seg_0003",
         index: 2,
+        kind: "speech",
         speaker: "BOB",
         text: "Text 3",
         lineNumber: 3,
@@ -586,6 +989,7 @@ describe("cache", () => {
       {
         id: "seg_0001",
         index: 0,
+        kind: "speech",
         speaker: "NARRATOR",
         text: "Text 1",
         lineNumber: 1,
@@ -593,6 +997,7 @@ describe("cache", () => {
       {
         id: "seg_0002",
         index: 1,
+        kind: "speech",
         speaker: "ALICE",
         text: "Text 2",
         lineNumber: 2,
@@ -631,11 +1036,89 @@ describe("cache", () => {
     });
   });
 
+  describe("findCachedAudio", () => {
+    const segments: Segment[] = [
+      {
+        id: "seg_0001",
+        index: 0,
+        kind: "speech",
+        speaker: "NARRATOR",
+        text: "Text 1",
+        lineNumber: 1,
+      },
+      {
+        id: "seg_0002",
+        index: 1,
+        kind: "speech",
+        speaker: "ALICE",
+        text: "Text 2",
+        lineNumber: 2,
+      },
+    ];
+
+    it("should find blob audio and report the rest as missing", async () => {
+      const blobKey = getBlobKey(segments[0], MINIMAL_CONFIG);
+      vol.fromJSON({ [getBlobPath("/output", blobKey)]: "audio" });
+      const manifest = updateCachedSegment(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments[0],
+        MINIMAL_CONFIG,
+        {
+          // Recorded on another machine
+          audioPath: `/elsewhere/${blobKey}.wav`,
+          durationMs: 1000,
+          fileSize: 5,
+          success: true,
+          blobKey,
+        },
+      );
+
+      const { found, missing } = await findCachedAudio(
+        "/output",
+        manifest,
+        segments,
+        MINIMAL_CONFIG,
+        "story",
+      );
+
+      expect(found.map((f) => f.path)).toEqual([
+        getBlobPath("/output", blobKey),
+      ]);
+      expect(missing.map((s) => s.id)).toEqual(["seg_0002"]);
+    });
+
+    it("should report cached segments whose audio is gone", async () => {
+      const manifest = updateCachedSegment(
+        createEmptyManifest("story.txt", "hash1", "hash2"),
+        segments[0],
+        MINIMAL_CONFIG,
+        {
+          audioPath: "/output/seg.wav",
+          durationMs: 1000,
+          fileSize: 5,
+          success: true,
+          blobKey: getBlobKey(segments[0], MINIMAL_CONFIG),
+        },
+      );
+
+      const { found, missing } = await findCachedAudio(
+        "/output",
+        manifest,
+        segments.slice(0, 1),
+        MINIMAL_CONFIG,
+      );
+
+      expect(found).toEqual([]);
+      expect(missing).toHaveLength(1);
+    });
+  });
+
   describe("getSegmentsWithStyleChanges", () => {
     const segments: Segment[] = [
       {
         id: "seg_0001",
         index: 0,
+        kind: "speech",
         speaker: "NARRATOR",
         text: "Text 1",
         lineNumber: 1,
@@ -643,6 +1126,7 @@ describe("cache", () => {
       {
         id: "seg_0002",
         index: 1,
+        kind: "speech",
         speaker: "ALICE",
         text: "Text 2",
         lineNumber: 2,
@@ -708,6 +1192,90 @@ describe("cache", () => {
     });
   });
 
+  describe("shared segment store", () => {
+    const segment: Segment = {
+      id: "seg_aaa",
+      index: 0,
+      kind: "speech",
+      speaker: "NARRATOR",
+      text: "Once upon a time.",
+      lineNumber: 1,
+    };
+    const blobKey = getBlobKey(segment, MINIMAL_CONFIG);
+    const blobPath = getBlobPath("/output", blobKey);
+    const cacheBlob = (storyPath: string) =>
+      updateCachedSegment(
+        createEmptyManifest(storyPath, "content", "config"),
+        segment,
+        MINIMAL_CONFIG,
+        {
+          audioPath: blobPath,
+          durationMs: 1000,
+          fileSize: 5,
+          success: true,
+          blobKey,
+        },
+      );
+
+    it("should key blobs on content, voice, provider and model", () => {
+      expect(
+        getBlobKey({ ...segment, id: "seg_bbb", index: 7 }, MINIMAL_CONFIG),
+      ).toBe(blobKey);
+      expect(
+        getBlobKey(segment, {
+          ...MINIMAL_CONFIG,
+          provider: { ...MINIMAL_CONFIG.provider, model: "other-model" },
+        }),
+      ).not.toBe(blobKey);
+      expect(blobPath).toBe(
+        `/output/${CACHE_DIR_NAME}/blobs/${blobKey.substring(0, 2)}/${blobKey}.wav`,
+      );
+    });
+
+    it("should count references from each story's manifest", async () => {
+      vol.fromJSON({ [blobPath]: "audio" });
+      await saveCacheManifest("/output", cacheBlob("a.txt"), "aaaa1111");
+      await saveCacheManifest("/output", cacheBlob("b.txt"), "bbbb2222");
+
+      expect((await loadBlobRefs("/output"))[blobKey]).toEqual([
+        "aaaa1111",
+        "bbbb2222",
+      ]);
+
+      await clearCache("/output", "aaaa1111");
+      expect((await loadBlobRefs("/output"))[blobKey]).toEqual(["bbbb2222"]);
+      expect(await findUnreferencedBlobs("/output")).toEqual([]);
+
+      await clearCache("/output", "bbbb2222");
+      expect(await findUnreferencedBlobs("/output")).toEqual([blobKey]);
+      expect(vol.existsSync(blobPath)).toBe(true);
+    });
+
+    it("should rebuild references from the manifests", async () => {
+      await saveCacheManifest("/output", cacheBlob("a.txt"), "aaaa1111");
+      vol.unlinkSync(`/output/${CACHE_DIR_NAME}/blobs/refs.json`);
+
+      expect(await loadBlobRefs("/output")).toEqual({
+        [blobKey]: ["aaaa1111"],
+      });
+    });
+
+    it("should recover blobs for a renamed story", async () => {
+      vol.fromJSON({ [blobPath]: "audio" });
+
+      const recovered = await recoverCachedSegments(
+        "/output",
+        [segment],
+        MINIMAL_CONFIG,
+        "cccc3333",
+      );
+
+      expect(recovered).toHaveLength(1);
+      expect(recovered[0].audioPath).toBe(blobPath);
+      expect(recovered[0].blobKey).toBe(blobKey);
+    });
+  });
+
   describe("getCacheStats", () => {
     it("should return zeros for null manifest", () => {
       const stats = getCacheStats(null);
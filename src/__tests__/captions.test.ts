@@ -0,0 +1,282 @@
+/**
+ * Tests for the captions module
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { vol } from "memfs";
+import {
+  buildCues,
+  splitCueText,
+  formatSrt,
+  formatVtt,
+  formatLrc,
+  renderCaptions,
+  exportCaptions,
+  type Cue,
+} from "../captions.js";
+
+import type { AudiobookManifest, ManifestSegment } from "../types.js";
+
+// Mock fs/promises
+vi.mock("fs/promises", async () => {
+  const memfs = await import("memfs");
+  return memfs.fs.promises;
+});
+
+/**
+ * Create a manifest with the given segments
+ */
+function createManifest(segments: ManifestSegment[]): AudiobookManifest {
+  return {
+    version: "1.0.0",
+    title: "Test Book",
+    sourceFile: "story.txt",
+    outputFile: "story_audiobook.wav",
+    totalDurationMs:
+      segments.length > 0 ? segments[segments.length - 1].endMs : 0,
+    format: "wav",
+    sampleRate: 24000,
+    speakers: [...new Set(segments.map((s) => s.speaker))],
+    segments,
+    chapters: [],
+    generatedAt: "2024-01-15T10:00:00.000Z",
+    provider: "gemini",
+  };
+}
+
+/**
+ * Create a manifest segment
+ */
+function segment(
+  index: number,
+  speaker: string,
+  text: string,
+  startMs: number,
+  endMs: number,
+): ManifestSegment {
+  return {
+    index,
+    speaker,
+    text,
+    startMs,
+    endMs,
+    durationMs: endMs - startMs,
+    audioFile: `seg_${index}.wav`,
+  };
+}
+
+const MANIFEST = createManifest([
+  segment(0, "NARRATOR", "Once upon a time.", 0, 1500),
+  segment(1, "ALICE", "Hello <world> & friends!", 2000, 3250),
+]);
+
+describe("captions", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe("splitCueText", () => {
+    it("should keep short text as a single cue", () => {
+      expect(splitCueText("Short line.", 84)).toEqual(["Short line."]);
+    });
+
+    it("should split at sentence boundaries", () => {
+      const text =
+        "The first sentence is here. The second one follows! And a third?";
+
+      expect(splitCueText(text, 30)).toEqual([
+        "The first sentence is here.",
+        "The second one follows!",
+        "And a third?",
+      ]);
+    });
+
+    it("should group short sentences up to the limit", () => {
+      expect(splitCueText("One. Two. Three. Four.", 10)).toEqual([
+        "One. Two.",
+        "Three.",
+        "Four.",
+      ]);
+    });
+
+    it("should keep closing quotes with their sentence", () => {
+      expect(splitCueText('"Run!" she said. "Now."', 12)).toEqual([
+        '"Run!"',
+        "she said.",
+        '"Now."',
+      ]);
+    });
+
+    it("should fall back to word boundaries for long sentences", () => {
+      const chunks = splitCueText("alpha beta gamma delta epsilon zeta", 12);
+
+      expect(chunks).toEqual(["alpha beta", "gamma delta", "epsilon zeta"]);
+    });
+
+    it("should not lose any text", () => {
+      const text =
+        "...Well. Maybe not, she thought… Then again! Trailing words";
+
+      expect(splitCueText(text, 15).join(" ")).toBe(text);
+    });
+  });
+
+  describe("buildCues", () => {
+    it("should create one cue per short segment", () => {
+      const cues = buildCues(MANIFEST);
+
+      expect(cues).toEqual([
+        {
+          startMs: 0,
+          endMs: 1500,
+          speaker: "NARRATOR",
+          text: "Once upon a time.",
+        },
+        {
+          startMs: 2000,
+          endMs: 3250,
+          speaker: "ALICE",
+          text: "Hello <world> & friends!",
+        },
+      ]);
+    });
+
+    it("should skip sound effects", () => {
+      const manifest = createManifest([
+        segment(0, "NARRATOR", "A door creaked.", 0, 1000),
+        { ...segment(1, "SFX", "/story/creak.wav", 1500, 2500), kind: "sfx" },
+      ]);
+
+      expect(buildCues(manifest).map((c) => c.text)).toEqual([
+        "A door creaked.",
+      ]);
+    });
+
+    it("should split long segments proportionally to character count", () => {
+      const manifest = createManifest([
+        // 10 chars + 30 chars over 4 seconds
+        segment(
+          0,
+          "NARRATOR",
+          "Short one. This sentence is a lot longer.",
+          1000,
+          5000,
+        ),
+      ]);
+      const cues = buildCues(manifest, { maxCueChars: 30 });
+
+      expect(cues).toHaveLength(2);
+      expect(cues[0]).toMatchObject({
+        startMs: 1000,
+        endMs: 2000,
+        text: "Short one.",
+      });
+      expect(cues[1]).toMatchObject({ startMs: 2000, endMs: 5000 });
+    });
+
+    it("should order cues by start time", () => {
+      const manifest = createManifest([
+        segment(1, "B", "Second.", 1000, 2000),
+        segment(0, "A", "First.", 0, 900),
+      ]);
+
+      expect(buildCues(manifest).map((c) => c.text)).toEqual([
+        "First.",
+        "Second.",
+      ]);
+    });
+  });
+
+  describe("formatSrt", () => {
+    it("should write numbered cues with comma timestamps", () => {
+      const srt = formatSrt(buildCues(MANIFEST));
+
+      expect(srt).toBe(
+        "1\n00:00:00,000 --> 00:00:01,500\nOnce upon a time.\n\n" +
+          "2\n00:00:02,000 --> 00:00:03,250\nHello <world> & friends!\n",
+      );
+    });
+
+    it("should add speaker labels when requested", () => {
+      const srt = formatSrt(buildCues(MANIFEST), { speakerLabels: true });
+
+      expect(srt).toContain("NARRATOR: Once upon a time.");
+    });
+
+    it("should format hours", () => {
+      const cue: Cue = {
+        startMs: 3723004,
+        endMs: 3724000,
+        speaker: "A",
+        text: "x",
+      };
+
+      expect(formatSrt([cue])).toContain("01:02:03,004 --> 01:02:04,000");
+    });
+  });
+
+  describe("formatVtt", () => {
+    it("should write a WEBVTT header and voice tags", () => {
+      const vtt = formatVtt(buildCues(MANIFEST));
+
+      expect(vtt.startsWith("WEBVTT\n\n")).toBe(true);
+      expect(vtt).toContain(
+        "00:00:00.000 --> 00:00:01.500\n<v NARRATOR>Once upon a time.",
+      );
+    });
+
+    it("should escape markup characters", () => {
+      const vtt = formatVtt(buildCues(MANIFEST));
+
+      expect(vtt).toContain("<v ALICE>Hello &lt;world&gt; &amp; friends!");
+    });
+  });
+
+  describe("formatLrc", () => {
+    it("should write timed lines and clear gaps", () => {
+      const lrc = formatLrc(buildCues(MANIFEST), { title: "Test Book" });
+
+      expect(lrc).toBe(
+        "[ti:Test Book]\n" +
+          "[00:00.00]Once upon a time.\n" +
+          "[00:01.50]\n" +
+          "[00:02.00]Hello <world> & friends!\n" +
+          "[00:03.25]\n",
+      );
+    });
+
+    it("should not add clearing lines between adjacent cues", () => {
+      const cues: Cue[] = [
+        { startMs: 0, endMs: 1000, speaker: "A", text: "One" },
+        { startMs: 1000, endMs: 2000, speaker: "A", text: "Two" },
+      ];
+
+      expect(formatLrc(cues)).toBe(
+        "[00:00.00]One\n[00:01.00]Two\n[00:02.00]\n",
+      );
+    });
+  });
+
+  describe("renderCaptions", () => {
+    it("should render each format", () => {
+      expect(renderCaptions(MANIFEST, "srt")).toContain("-->");
+      expect(renderCaptions(MANIFEST, "vtt")).toContain("WEBVTT");
+      expect(renderCaptions(MANIFEST, "lrc")).toContain("[ti:Test Book]");
+    });
+
+    it("should reject unknown formats", () => {
+      expect(() => renderCaptions(MANIFEST, "ass" as never)).toThrow(
+        "Unsupported caption format",
+      );
+    });
+  });
+
+  describe("exportCaptions", () => {
+    it("should write the captions file and report the cue count", async () => {
+      const result = await exportCaptions(MANIFEST, "/out/book.vtt", "vtt");
+
+      expect(result.cueCount).toBe(2);
+      expect(vol.readFileSync("/out/book.vtt", "utf-8")).toContain("WEBVTT");
+    });
+  });
+});
@@ -7,6 +7,10 @@ import {
   mergeWithDefaults,
   validateConfig,
   getVoiceConfig,
+  getVoiceProvider,
+  getVoiceProviderName,
+  getVoiceEffects,
+  getStylePrompt,
   hashVoiceConfig,
   hashConfig,
   updateVoiceConfig,
@@ -26,6 +30,7 @@ import {
   VOICE_ALICE,
   TEST_SPEAKERS,
 } from "../fixtures/configs.js";
+import type { Config } from "../types.js";
 
 describe("config", () => {
   describe("resolveEnvVars", () => {
@@ -88,12 +93,30 @@ describe("config", () => {
       expect(merged.globalSeed).toBe(DEFAULT_CONFIG.globalSeed);
     });
 
+    it("should not apply Gemini key and model to other providers", () => {
+      const merged = mergeWithDefaults({ provider: { name: "openai" } });
+
+      expect(merged.provider.apiKey).toBeUndefined();
+      expect(merged.provider.model).toBeUndefined();
+      expect(merged.provider.rateLimit).toBe(DEFAULT_CONFIG.provider.rateLimit);
+    });
+
+    it("should not apply the default rate limit to local engines", () => {
+      const merged = mergeWithDefaults({
+        provider: { name: "local", command: "piper" },
+      });
+
+      expect(merged.provider.rateLimit).toBeUndefined();
+      expect(merged.provider.timeout).toBe(DEFAULT_CONFIG.provider.timeout);
+    });
+
     it("should preserve provided values", () => {
       const partial = {
         version: "2.0.0",
         provider: { name: "custom", rateLimit: 100 },
         audio: { format: "mp3" as const, silencePadding: 1000 },
         globalSeed: 99999,
+        lexicon: ["lexicon.json"],
       };
 
       const merged = mergeWithDefaults(partial);
@@ -103,6 +126,7 @@ describe("config", () => {
       expect(merged.audio.format).toBe("mp3");
       expect(merged.audio.silencePadding).toBe(1000);
       expect(merged.globalSeed).toBe(99999);
+      expect(merged.lexicon).toEqual(["lexicon.json"]);
     });
 
     it("should handle empty partial config", () => {
@@ -138,6 +162,160 @@ describe("config", () => {
       expect(result.errors).toContain("Missing version field");
     });
 
+    it("should require a command for the local provider", () => {
+      const withoutCommand = validateConfig({
+        ...MINIMAL_CONFIG,
+        provider: { name: "local" },
+      });
+      const withCommand = validateConfig({
+        ...MINIMAL_CONFIG,
+        provider: { name: "local", command: "espeak-ng --stdout" },
+      });
+
+      expect(withoutCommand.errors).toContain(
+        "Local provider requires a command template",
+      );
+      expect(withCommand.valid).toBe(true);
+      expect(withCommand.warnings).not.toContain(
+        "No API key configured (may be set via environment)",
+      );
+    });
+
+    it("should require a local provider entry for local voices", () => {
+      const voices = [{ name: "ROBOT", provider: "local" }];
+      const missing = validateConfig({ ...MINIMAL_CONFIG, voices });
+      const configured = validateConfig({
+        ...MINIMAL_CONFIG,
+        voices,
+        providers: [{ name: "local", command: "espeak-ng --stdout" }],
+      });
+
+      expect(missing.valid).toBe(false);
+      expect(missing.errors[0]).toContain(
+        "Voice ROBOT uses the local provider",
+      );
+      expect(configured.valid).toBe(true);
+    });
+
+    it("should error on OpenAI extraParams that replace request fields", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        provider: { name: "openai" },
+        voices: [
+          { name: "NARRATOR", extraParams: { model: "tts-1", speed: 1.2 } },
+          {
+            name: "ALICE",
+            provider: "gemini",
+            extraParams: { voice: "nova" },
+          },
+        ],
+        defaultVoice: {
+          name: "DEFAULT",
+          voiceName: "alloy",
+          extraParams: { input: "Hi" },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Voice NARRATOR can't set model in extraParams (use provider.model and voiceName)",
+        "Voice DEFAULT can't set input in extraParams (use provider.model and voiceName)",
+      ]);
+    });
+
+    it("should error on unsupported bit depths", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        audio: { ...MINIMAL_CONFIG.audio, bitDepth: 12 as any },
+      });
+
+      expect(result.errors).toContain(
+        "Invalid bit depth: 12 (must be 16, 24 or 32)",
+      );
+    });
+
+    it("should error on unknown and invalid music tracks", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        audio: {
+          ...MINIMAL_CONFIG.audio,
+          music: {
+            tracks: {
+              theme: { file: "theme.wav", fadeOut: 1500 },
+              forest: { file: "", duck: -6 },
+            },
+            intro: "theme",
+            outro: "credits",
+          },
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Unknown music track: credits",
+        "Music track forest is missing a file",
+        "Invalid duck for music track forest: -6 (must be 0 or more)",
+      ]);
+    });
+
+    it("should error on unsupported text normalization settings", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        textNormalization: {
+          enabled: true,
+          locale: "fr-FR",
+          rules: ["numbers", "emoji"],
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Unsupported text normalization locale: fr-FR (must be en-US or en-GB)",
+        "Unknown text normalization rule: emoji",
+      ]);
+    });
+
+    it("should error on a lexicon that isn't a list of paths", () => {
+      const valid = validateConfig({
+        ...MINIMAL_CONFIG,
+        lexicon: ["~/lexicon.json", "names.pls"],
+      });
+      const invalid = validateConfig({
+        ...MINIMAL_CONFIG,
+        lexicon: "names.json" as unknown as string[],
+      });
+
+      expect(valid.errors).toEqual([]);
+      expect(invalid.errors).toContain("lexicon must be a list of file paths");
+    });
+
+    it("should error on negative pauses and bad silence thresholds", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        audio: {
+          ...MINIMAL_CONFIG.audio,
+          pauses: { chapter: 2000, paragraph: -1 },
+          silenceThreshold: 10,
+        },
+      });
+
+      expect(result.errors).toEqual([
+        "Invalid pause for paragraph: -1 (must be 0 or more ms)",
+        "Invalid silence threshold: 10 dBFS (must be between -100 and 0)",
+      ]);
+    });
+
+    it("should error on out-of-range loudness settings", () => {
+      const result = validateConfig({
+        ...MINIMAL_CONFIG,
+        audio: { ...MINIMAL_CONFIG.audio, loudnessTarget: 6, truePeakLimit: 1 },
+      });
+
+      expect(result.errors).toContain(
+        "Invalid loudness target: 6 LUFS (must be between -70 and 0)",
+      );
+      expect(result.errors).toContain(
+        "Invalid true-peak limit: 1 dBTP (must be between -20 and 0)",
+      );
+    });
+
     it("should error on missing provider", () => {
       const config = { ...MINIMAL_CONFIG, provider: undefined as any };
       const result = validateConfig(config);
@@ -166,6 +344,18 @@ describe("config", () => {
       ).toBe(true);
     });
 
+    it("should explain that ogg is Vorbis when Opus is asked for", () => {
+      const config = {
+        ...MINIMAL_CONFIG,
+        audio: { ...MINIMAL_CONFIG.audio, format: "opus" },
+      } as unknown as Config;
+      const result = validateConfig(config);
+
+      expect(result.errors).toContain(
+        "Invalid audio format: opus (use wav, mp3, flac or ogg, which is Ogg Vorbis; Opus isn't supported)",
+      );
+    });
+
     it("should warn on missing API key", () => {
       const config = {
         ...MINIMAL_CONFIG,
@@ -263,7 +453,90 @@ describe("config", () => {
     });
   });
 
+  describe("getVoiceProvider", () => {
+    const config: Config = {
+      ...MINIMAL_CONFIG,
+      providers: [{ name: "local", command: "espeak-ng --stdout" }],
+    };
+
+    it("should use the main provider without an override", () => {
+      expect(getVoiceProvider(config, { name: "NARRATOR" })).toBe(
+        config.provider,
+      );
+    });
+
+    it("should find overrides in providers by name", () => {
+      expect(
+        getVoiceProvider(config, { name: "ROBOT", provider: "Local" }),
+      ).toEqual({ name: "local", command: "espeak-ng --stdout" });
+    });
+
+    it("should use defaults for unconfigured provider names", () => {
+      expect(
+        getVoiceProvider(config, { name: "ROBOT", provider: "openai" }),
+      ).toEqual({ name: "openai" });
+    });
+
+    it("should normalize provider names", () => {
+      const google: Config = {
+        ...config,
+        provider: { ...config.provider, name: "google" },
+      };
+
+      expect(getVoiceProviderName(google, { name: "NARRATOR" })).toBe("gemini");
+      expect(
+        getVoiceProviderName(config, { name: "ROBOT", provider: "LOCAL" }),
+      ).toBe("local");
+    });
+
+    it("should post-process speed and pitch for Gemini voices", () => {
+      expect(
+        getVoiceEffects(config, { name: "NARRATOR", speed: 1.2, pitch: 0.1 }),
+      ).toEqual({ speed: 1.2, pitch: 0.1 });
+    });
+
+    it("should leave speed to providers that support it", () => {
+      const voice = { name: "ROBOT", speed: 1.2, provider: "openai" };
+
+      expect(getVoiceEffects(config, voice)).toEqual({ speed: 1, pitch: 0 });
+    });
+
+    it("should leave speed to local commands that use {speed}", () => {
+      const withSpeed: Config = {
+        ...config,
+        providers: [{ name: "local", command: "say -r {speed}" }],
+      };
+      const voice = { name: "ROBOT", speed: 1.2, provider: "local" };
+
+      expect(getVoiceEffects(config, voice).speed).toBe(1.2);
+      expect(getVoiceEffects(withSpeed, voice).speed).toBe(1);
+    });
+  });
+
+  describe("getStylePrompt", () => {
+    it("should add a line's direction to the voice's style prompt", () => {
+      const voice = { name: "CLARA", stylePrompt: "Nervous young woman" };
+
+      expect(getStylePrompt(voice, "whispering")).toBe(
+        "Nervous young woman (whispering)",
+      );
+      expect(getStylePrompt(voice)).toBe("Nervous young woman");
+    });
+
+    it("should use the direction alone when the voice has no style", () => {
+      expect(getStylePrompt({ name: "CLARA" }, "angrily")).toBe("angrily");
+      expect(getStylePrompt({ name: "CLARA" })).toBeUndefined();
+    });
+  });
+
   describe("hashVoiceConfig", () => {
+    it("should be affected by provider changes", () => {
+      const hash1 = hashVoiceConfig(VOICE_NARRATOR);
+      const hash2 = hashVoiceConfig({ ...VOICE_NARRATOR, provider: "local" });
+
+      expect(hash1).not.toBe(hash2);
+    });
+
     it("should generate consistent hash for same config", () => {
       const hash1 = hashVoiceConfig(VOICE_NARRATOR);
       const hash2 = hashVoiceConfig(VOICE_NARRATOR);
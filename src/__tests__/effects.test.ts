@@ -0,0 +1,137 @@
+/**
+ * Tests for the effects module
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  timeStretch,
+  pitchShift,
+  applyVoiceEffects,
+  hasVoiceEffects,
+} from "../effects.js";
+import { createSine, innerPeak } from "../fixtures/audio.js";
+
+const SAMPLE_RATE = 24000;
+
+/**
+ * Estimate the frequency of a tone from its rising zero crossings,
+ * ignoring the edges
+ */
+function estimateFrequency(samples: Float32Array): number {
+  const margin = SAMPLE_RATE / 10;
+  let crossings = 0;
+  for (let i = margin + 1; i < samples.length - margin; i++) {
+    if (samples[i - 1] < 0 && samples[i] >= 0) {
+      crossings++;
+    }
+  }
+  return crossings / ((samples.length - 2 * margin) / SAMPLE_RATE);
+}
+
+describe("effects", () => {
+  describe("timeStretch", () => {
+    it("should change duration without changing pitch", () => {
+      const [faster] = timeStretch(
+        [createSine(220, 0.5, 2000, SAMPLE_RATE)],
+        SAMPLE_RATE,
+        1.5,
+      );
+      const [slower] = timeStretch(
+        [createSine(220, 0.5, 2000, SAMPLE_RATE)],
+        SAMPLE_RATE,
+        0.8,
+      );
+
+      expect(faster.length).toBe(32000);
+      expect(slower.length).toBe(60000);
+      expect(estimateFrequency(faster)).toBeCloseTo(220, -1);
+      expect(estimateFrequency(slower)).toBeCloseTo(220, -1);
+    });
+
+    it("should keep the level", () => {
+      const [output] = timeStretch(
+        [createSine(220, 0.5, 2000, SAMPLE_RATE)],
+        SAMPLE_RATE,
+        1.3,
+      );
+
+      expect(innerPeak(output, SAMPLE_RATE / 10)).toBeCloseTo(0.5, 1);
+    });
+
+    it("should keep channels in sync", () => {
+      const tone = createSine(220, 0.5, 1000, SAMPLE_RATE);
+      const [left, right] = timeStretch(
+        [tone, tone.map((s) => s * 0.5)],
+        SAMPLE_RATE,
+        1.25,
+      );
+
+      for (let i = 0; i < left.length; i += 101) {
+        expect(right[i]).toBeCloseTo(left[i] * 0.5, 5);
+      }
+    });
+
+    it("should return the input for a tempo of 1", () => {
+      const channels = [createSine(220, 0.5, 100, SAMPLE_RATE)];
+
+      expect(timeStretch(channels, SAMPLE_RATE, 1)).toBe(channels);
+    });
+
+    it("should reject invalid tempos", () => {
+      expect(() =>
+        timeStretch([createSine(220, 0.5, 100, SAMPLE_RATE)], SAMPLE_RATE, 0),
+      ).toThrow("Invalid tempo");
+    });
+  });
+
+  describe("pitchShift", () => {
+    it("should change pitch without changing duration", () => {
+      const [output] = pitchShift(
+        [createSine(220, 0.5, 2000, SAMPLE_RATE)],
+        SAMPLE_RATE,
+        12,
+      );
+
+      expect(output.length).toBe(48000);
+      expect(estimateFrequency(output)).toBeCloseTo(440, -1);
+    });
+  });
+
+  describe("applyVoiceEffects", () => {
+    it("should combine speed and pitch", () => {
+      const [output] = applyVoiceEffects(
+        [createSine(220, 0.5, 2000, SAMPLE_RATE)],
+        SAMPLE_RATE,
+        {
+          speed: 1.25,
+          pitch: -0.25,
+        },
+      );
+
+      // Stretching and resampling each round the length
+      expect(Math.abs(output.length - 38400)).toBeLessThanOrEqual(1);
+      expect(estimateFrequency(output)).toBeCloseTo(
+        220 * Math.pow(2, -0.25),
+        -1,
+      );
+    });
+
+    it("should return the input without effects", () => {
+      const channels = [createSine(220, 0.5, 100, SAMPLE_RATE)];
+
+      expect(applyVoiceEffects(channels, SAMPLE_RATE, {})).toBe(channels);
+      expect(
+        applyVoiceEffects(channels, SAMPLE_RATE, { speed: 1, pitch: 0 }),
+      ).toBe(channels);
+    });
+  });
+
+  describe("hasVoiceEffects", () => {
+    it("should ignore neutral values", () => {
+      expect(hasVoiceEffects({})).toBe(false);
+      expect(hasVoiceEffects({ speed: 1, pitch: 0 })).toBe(false);
+      expect(hasVoiceEffects({ speed: 1.1 })).toBe(true);
+      expect(hasVoiceEffects({ pitch: -0.1 })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Tests for the encoder module
+ */
+
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import {
+  encodeAudio,
+  encodeFlac,
+  isEncodedFormat,
+  pcmToFloat32,
+  float32ToPcm,
+} from "../encoder.js";
+
+import { createToneWav, extractWavData } from "../fixtures/audio.js";
+
+/**
+ * Read the STREAMINFO fields from a FLAC buffer
+ */
+function readStreamInfo(flac: Buffer) {
+  const info = flac.subarray(8, 8 + 34);
+  const packed = info.readUInt32BE(10);
+  return {
+    minBlockSize: info.readUInt16BE(0),
+    maxBlockSize: info.readUInt16BE(2),
+    sampleRate: packed >>> 12,
+    numChannels: ((packed >>> 9) & 0x7) + 1,
+    bitsPerSample: ((packed >>> 4) & 0x1f) + 1,
+    totalSamples: (packed & 0xf) * Math.pow(2, 32) + info.readUInt32BE(14),
+    md5: info.subarray(18, 34).toString("hex"),
+  };
+}
+
+/**
+ * One channel of interleaved 16-bit PCM
+ */
+function readChannel(
+  data: Buffer,
+  channel: number,
+  numChannels: number,
+): number[] {
+  const samples: number[] = [];
+  for (let i = channel * 2; i < data.length; i += numChannels * 2) {
+    samples.push(data.readInt16LE(i));
+  }
+  return samples;
+}
+
+/**
+ * Decode the frames encodeFlac writes (constant, verbatim and fixed
+ * subframes with independent channels) into signed samples per channel
+ */
+function decodeFlac(flac: Buffer): number[][] {
+  const { numChannels, bitsPerSample } = readStreamInfo(flac);
+  const channels: number[][] = Array.from({ length: numChannels }, () => []);
+  let bit = 42 * 8;
+
+  const read = (bits: number): number => {
+    let value = 0;
+    for (let i = 0; i < bits; i++, bit++) {
+      value = value * 2 + ((flac[bit >> 3] >> (7 - (bit & 7))) & 1);
+    }
+    return value;
+  };
+  const readSigned = (bits: number): number => {
+    const value = read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  };
+
+  while (bit < flac.length * 8) {
+    read(20); // sync code, reserved, blocking strategy, block size code
+    const sampleRateCode = read(4);
+    read(8); // channels, sample size, reserved
+    const frameNumber = read(8);
+    for (let n = Math.clz32(~(frameNumber << 24)) - 1; n > 0; n--) {
+      read(8);
+    }
+    const blockSize = read(16) + 1;
+    if (sampleRateCode === 0b1101) {
+      read(16);
+    }
+    read(8); // CRC-8
+
+    for (const channel of channels) {
+      const type = (read(8) >> 1) & 0b111111;
+      if (type === 0b000000) {
+        channel.push(...Array(blockSize).fill(readSigned(bitsPerSample)));
+        continue;
+      }
+      if (type === 0b000001) {
+        for (let i = 0; i < blockSize; i++) {
+          channel.push(readSigned(bitsPerSample));
+        }
+        continue;
+      }
+
+      const order = type & 0b111;
+      const samples: number[] = [];
+      for (let i = 0; i < order; i++) {
+        samples.push(readSigned(bitsPerSample));
+      }
+      read(2); // Rice coding method
+      const partitions = 1 << read(4);
+      for (let p = 0; p < partitions; p++) {
+        const k = read(4);
+        const count = blockSize / partitions - (p === 0 ? order : 0);
+        for (let i = 0; i < count; i++) {
+          let quotient = 0;
+          while (read(1) === 0) {
+            quotient++;
+          }
+          const folded = quotient * 2 ** k + read(k);
+          const residual = folded % 2 === 0 ? folded / 2 : -(folded + 1) / 2;
+          const s = (back: number) => samples[samples.length - back];
+          const prediction = [
+            0,
+            s(1),
+            2 * s(1) - s(2),
+            3 * s(1) - 3 * s(2) + s(3),
+            4 * s(1) - 6 * s(2) + 4 * s(3) - s(4),
+          ][order];
+          samples.push(prediction + residual);
+        }
+      }
+      channel.push(...samples);
+    }
+
+    bit = Math.ceil(bit / 8) * 8 + 16; // byte alignment and CRC-16
+  }
+
+  return channels;
+}
+
+describe("encoder", () => {
+  describe("isEncodedFormat", () => {
+    it("should return false for wav", () => {
+      expect(isEncodedFormat("wav")).toBe(false);
+    });
+
+    it("should return true for compressed formats", () => {
+      expect(isEncodedFormat("mp3")).toBe(true);
+      expect(isEncodedFormat("ogg")).toBe(true);
+      expect(isEncodedFormat("flac")).toBe(true);
+    });
+  });
+
+  describe("pcmToFloat32 / float32ToPcm", () => {
+    it("should round-trip 16-bit PCM", () => {
+      const data = extractWavData(createToneWav(50, 440));
+      const channels = pcmToFloat32(data, 1, 16);
+
+      expect(channels).toHaveLength(1);
+      expect(float32ToPcm(channels, 16).equals(data)).toBe(true);
+    });
+
+    it("should round-trip 24-bit stereo PCM", () => {
+      const data = extractWavData(
+        createToneWav(50, 440, { bitsPerSample: 24, numChannels: 2 }),
+      );
+      const channels = pcmToFloat32(data, 2, 24);
+
+      expect(channels).toHaveLength(2);
+      expect(float32ToPcm(channels, 24).equals(data)).toBe(true);
+    });
+
+    it("should round-trip unsigned 8-bit PCM", () => {
+      const data = extractWavData(createToneWav(50, 440, { bitsPerSample: 8 }));
+      const channels = pcmToFloat32(data, 1, 8);
+
+      expect(Math.max(...channels[0])).toBeCloseTo(0.5, 1);
+      expect(float32ToPcm(channels, 8).equals(data)).toBe(true);
+    });
+
+    it("should scale samples to the -1..1 range", () => {
+      const data = Buffer.alloc(4);
+      data.writeInt16LE(-32768, 0);
+      data.writeInt16LE(16384, 2);
+
+      const [channel] = pcmToFloat32(data, 1, 16);
+
+      expect(channel[0]).toBe(-1);
+      expect(channel[1]).toBe(0.5);
+    });
+
+    it("should clip out-of-range floats", () => {
+      const data = float32ToPcm([new Float32Array([2, -2])], 16);
+
+      expect(data.readInt16LE(0)).toBe(32767);
+      expect(data.readInt16LE(2)).toBe(-32768);
+    });
+  });
+
+  describe("encodeFlac", () => {
+    it("should write the fLaC marker and a final STREAMINFO block", () => {
+      const data = extractWavData(createToneWav(100, 440));
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(flac.toString("ascii", 0, 4)).toBe("fLaC");
+      // Last-metadata-block flag set, block type 0, length 34
+      expect(flac[4]).toBe(0x80);
+      expect(flac.readUIntBE(5, 3)).toBe(34);
+    });
+
+    it("should record stream parameters in STREAMINFO", () => {
+      const data = extractWavData(
+        createToneWav(200, 440, { numChannels: 2, sampleRate: 44100 }),
+      );
+      const flac = encodeFlac(data, {
+        sampleRate: 44100,
+        numChannels: 2,
+        bitsPerSample: 16,
+      });
+      const info = readStreamInfo(flac);
+
+      expect(info.sampleRate).toBe(44100);
+      expect(info.numChannels).toBe(2);
+      expect(info.bitsPerSample).toBe(16);
+      expect(info.totalSamples).toBe(data.length / 4);
+      expect(info.minBlockSize).toBe(4096);
+      expect(info.maxBlockSize).toBe(4096);
+    });
+
+    it("should store the MD5 of the unencoded samples", () => {
+      const data = extractWavData(createToneWav(300, 440));
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(readStreamInfo(flac).md5).toBe(
+        createHash("md5").update(data).digest("hex"),
+      );
+    });
+
+    it("should round-trip 16-bit stereo samples", () => {
+      const data = extractWavData(createToneWav(300, 440, { numChannels: 2 }));
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 2,
+        bitsPerSample: 16,
+      });
+
+      expect(decodeFlac(flac)).toEqual([
+        readChannel(data, 0, 2),
+        readChannel(data, 1, 2),
+      ]);
+    });
+
+    it("should round-trip 8-bit input with the MD5 of its signed samples", () => {
+      const data = extractWavData(
+        createToneWav(300, 440, { bitsPerSample: 8 }),
+      );
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 8,
+      });
+      const [decoded] = decodeFlac(flac);
+      const signed = Buffer.from(Int8Array.from(decoded).buffer);
+
+      expect(readStreamInfo(flac).bitsPerSample).toBe(8);
+      expect(Buffer.from(decoded.map((v) => v + 128)).equals(data)).toBe(true);
+      expect(readStreamInfo(flac).md5).toBe(
+        createHash("md5").update(signed).digest("hex"),
+      );
+    });
+
+    it("should start the first frame with a sync code", () => {
+      const data = extractWavData(createToneWav(100, 440));
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(flac[42]).toBe(0xff);
+      expect(flac[43]).toBe(0xf8);
+    });
+
+    it("should compress silence to a fraction of the PCM size", () => {
+      const data = Buffer.alloc(24000 * 2 * 5);
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(flac.length).toBeLessThan(data.length / 100);
+    });
+
+    it("should compress a tone below the PCM size", () => {
+      const data = extractWavData(createToneWav(1000, 440));
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(flac.length).toBeLessThan(data.length);
+    });
+
+    it("should reduce 32-bit input to 24 bits", () => {
+      const data = extractWavData(
+        createToneWav(100, 440, { bitsPerSample: 32 }),
+      );
+      const flac = encodeFlac(data, {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 32,
+      });
+
+      expect(readStreamInfo(flac).bitsPerSample).toBe(24);
+    });
+
+    it("should handle empty input", () => {
+      const flac = encodeFlac(Buffer.alloc(0), {
+        sampleRate: 24000,
+        numChannels: 1,
+        bitsPerSample: 16,
+      });
+
+      expect(flac.length).toBe(42);
+      expect(readStreamInfo(flac).totalSamples).toBe(0);
+    });
+  });
+
+  describe("encodeAudio", () => {
+    const pcm = { sampleRate: 24000, numChannels: 1, bitsPerSample: 16 };
+
+    it("should encode MP3 frames", async () => {
+      const data = extractWavData(createToneWav(500, 440));
+      const mp3 = await encodeAudio(data, "mp3", pcm);
+
+      // MPEG frame sync: 11 set bits
+      expect(mp3[0]).toBe(0xff);
+      expect(mp3[1] & 0xe0).toBe(0xe0);
+      expect(mp3.length).toBeLessThan(data.length);
+    });
+
+    it("should encode an Ogg stream", async () => {
+      const data = extractWavData(createToneWav(500, 440));
+      const ogg = await encodeAudio(data, "ogg", pcm);
+
+      expect(ogg.toString("ascii", 0, 4)).toBe("OggS");
+    });
+
+    it("should encode FLAC", async () => {
+      const data = extractWavData(createToneWav(500, 440));
+      const flac = await encodeAudio(data, "flac", pcm);
+
+      expect(flac.toString("ascii", 0, 4)).toBe("fLaC");
+    });
+
+    it("should reject more than two channels for MP3", async () => {
+      await expect(
+        encodeAudio(Buffer.alloc(60), "mp3", { ...pcm, numChannels: 3 }),
+      ).rejects.toThrow("mono or stereo only");
+    });
+  });
+});
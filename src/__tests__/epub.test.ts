@@ -0,0 +1,263 @@
+/**
+ * Tests for the EPUB exporter
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { vol } from "memfs";
+import { inflateRawSync } from "zlib";
+import { createEpub, exportEpub, formatSmilClock } from "../epub.js";
+import { parseContent } from "../parser.js";
+
+import {
+  BRACKET_FORMAT_STORY,
+  STORY_WITH_CHAPTERS,
+} from "../fixtures/stories.js";
+import type {
+  AudiobookManifest,
+  ManifestSegment,
+  ParsedStory,
+} from "../types.js";
+
+// Mock fs/promises
+vi.mock("fs/promises", async () => {
+  const memfs = await import("memfs");
+  return memfs.fs.promises;
+});
+
+/**
+ * Read every entry of a ZIP archive by walking its local headers
+ */
+function readZip(
+  zip: Buffer,
+): Array<{ name: string; method: number; data: Buffer }> {
+  const entries: Array<{ name: string; method: number; data: Buffer }> = [];
+  let offset = 0;
+  while (zip.readUInt32LE(offset) === 0x04034b50) {
+    const method = zip.readUInt16LE(offset + 8);
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const name = zip.toString("utf-8", offset + 30, offset + 30 + nameLength);
+    const start = offset + 30 + nameLength + extraLength;
+    const body = zip.subarray(start, start + compressedSize);
+    entries.push({
+      name,
+      method,
+      data: method === 8 ? inflateRawSync(body) : body,
+    });
+    offset = start + compressedSize;
+  }
+  return entries;
+}
+
+/**
+ * Read a text entry from an EPUB
+ */
+function readEntry(epub: Buffer, name: string): string {
+  const entry = readZip(epub).find((e) => e.name === name);
+  if (!entry) {
+    throw new Error(`Missing entry: ${name}`);
+  }
+  return entry.data.toString("utf-8");
+}
+
+/**
+ * Build a manifest that places each story segment back to back
+ */
+function createManifest(
+  story: ParsedStory,
+  segmentMs = 1500,
+  omit: number[] = [],
+): AudiobookManifest {
+  const segments: ManifestSegment[] = story.segments
+    .filter((s) => !omit.includes(s.index))
+    .map((s, i) => ({
+      index: s.index,
+      speaker: s.speaker,
+      text: s.text,
+      startMs: i * segmentMs,
+      endMs: (i + 1) * segmentMs,
+      durationMs: segmentMs,
+      audioFile: `seg_${s.index}.wav`,
+    }));
+
+  return {
+    version: "1.0.0",
+    title: "Test Book",
+    sourceFile: "story.txt",
+    outputFile: "story_audiobook.mp3",
+    totalDurationMs: segments.length * segmentMs,
+    format: "mp3",
+    sampleRate: 24000,
+    speakers: story.speakers,
+    segments,
+    chapters: [],
+    generatedAt: "2024-01-15T10:00:00.000Z",
+    provider: "gemini",
+  };
+}
+
+const AUDIO_PATH = "/out/story_audiobook.mp3";
+
+describe("epub", () => {
+  beforeEach(() => {
+    vol.reset();
+    vol.fromJSON({ [AUDIO_PATH]: "fake mp3 data" });
+  });
+
+  describe("formatSmilClock", () => {
+    it("should format full clock values", () => {
+      expect(formatSmilClock(0)).toBe("0:00:00.000");
+      expect(formatSmilClock(1500)).toBe("0:00:01.500");
+      expect(formatSmilClock(3723004)).toBe("1:02:03.004");
+    });
+  });
+
+  describe("createEpub", () => {
+    const story = parseContent(BRACKET_FORMAT_STORY, "story.txt");
+
+    it("should store the mimetype first and uncompressed", async () => {
+      const { epub } = await createEpub(story, createManifest(story), {
+        audioPath: AUDIO_PATH,
+      });
+      const entries = readZip(epub);
+
+      expect(entries[0].name).toBe("mimetype");
+      expect(entries[0].method).toBe(0);
+      expect(entries[0].data.toString()).toBe("application/epub+zip");
+      expect(epub.toString("latin1", 30, 38)).toBe("mimetype");
+    });
+
+    it("should point the container at the package document", async () => {
+      const { epub } = await createEpub(story, createManifest(story), {
+        audioPath: AUDIO_PATH,
+      });
+
+      expect(readEntry(epub, "META-INF/container.xml")).toContain(
+        'full-path="OEBPS/content.opf"',
+      );
+    });
+
+    it("should write one element per segment", async () => {
+      const { epub } = await createEpub(story, createManifest(story), {
+        audioPath: AUDIO_PATH,
+      });
+      const xhtml = readEntry(epub, "OEBPS/chapter-001.xhtml");
+
+      for (const segment of story.segments) {
+        const id = `seg-${segment.index.toString().padStart(4, "0")}`;
+        expect(xhtml).toContain(`<p id="${id}"`);
+      }
+      expect(xhtml.match(/<p id=/g)).toHaveLength(story.segments.length);
+    });
+
+    it("should map each element to its clip in the audio", async () => {
+      const { epub, syncedSegmentCount } = await createEpub(
+        story,
+        createManifest(story),
+        { audioPath: AUDIO_PATH },
+      );
+      const smil = readEntry(epub, "OEBPS/chapter-001.smil");
+
+      expect(syncedSegmentCount).toBe(story.segments.length);
+      expect(smil).toContain('epub:textref="chapter-001.xhtml"');
+      expect(smil).toContain('<text src="chapter-001.xhtml#seg-0001"/>');
+      expect(smil).toContain(
+        '<audio src="audio/story_audiobook.mp3" clipBegin="0:00:01.500" clipEnd="0:00:03.000"/>',
+      );
+    });
+
+    it("should skip segments missing from the manifest", async () => {
+      const { epub, syncedSegmentCount } = await createEpub(
+        story,
+        createManifest(story, 1500, [1]),
+        { audioPath: AUDIO_PATH },
+      );
+      const smil = readEntry(epub, "OEBPS/chapter-001.smil");
+
+      expect(syncedSegmentCount).toBe(story.segments.length - 1);
+      expect(smil).not.toContain("#seg-0001");
+      expect(readEntry(epub, "OEBPS/chapter-001.xhtml")).toContain(
+        'id="seg-0001"',
+      );
+    });
+
+    it("should declare overlays, durations and the audio in the package", async () => {
+      const { epub } = await createEpub(story, createManifest(story), {
+        audioPath: AUDIO_PATH,
+        title: "My Book",
+        author: "A. Writer",
+      });
+      const opf = readEntry(epub, "OEBPS/content.opf");
+
+      expect(opf).toContain("<dc:title>My Book</dc:title>");
+      expect(opf).toContain("<dc:creator>A. Writer</dc:creator>");
+      expect(opf).toContain('media-overlay="chapter-001-overlay"');
+      expect(opf).toContain('media-type="application/smil+xml"');
+      expect(opf).toContain(
+        'href="audio/story_audiobook.mp3" media-type="audio/mpeg"',
+      );
+      expect(opf).toContain(
+        `<meta property="media:duration">${formatSmilClock(story.segments.length * 1500)}</meta>`,
+      );
+      expect(opf).toContain(
+        '<meta property="dcterms:modified">2024-01-15T10:00:00Z</meta>',
+      );
+      expect(
+        readZip(epub).some((e) => e.name === "OEBPS/audio/story_audiobook.mp3"),
+      ).toBe(true);
+    });
+
+    it("should write one document per chapter", async () => {
+      const chaptered = parseContent(STORY_WITH_CHAPTERS, "story.txt");
+      const { epub, documentCount } = await createEpub(
+        chaptered,
+        createManifest(chaptered),
+        { audioPath: AUDIO_PATH },
+      );
+      const nav = readEntry(epub, "OEBPS/nav.xhtml");
+
+      expect(documentCount).toBe(chaptered.chapters.length);
+      expect(nav).toContain("Chapter 1: The Village");
+      expect(nav).toContain("The Storm");
+      expect(readEntry(epub, "OEBPS/chapter-003.xhtml")).toContain(
+        "<h1>The Storm</h1>",
+      );
+      expect(readEntry(epub, "OEBPS/chapter-003.smil")).toContain(
+        'src="chapter-003.xhtml#seg-',
+      );
+    });
+
+    it("should escape markup in segment text", async () => {
+      const escaped = parseContent("[ALICE] Fish & <chips>", "story.txt");
+      const { epub } = await createEpub(escaped, createManifest(escaped), {
+        audioPath: AUDIO_PATH,
+      });
+
+      expect(readEntry(epub, "OEBPS/chapter-001.xhtml")).toContain(
+        "Fish &amp; &lt;chips&gt;",
+      );
+    });
+
+    it("should reject unsupported audio files", async () => {
+      await expect(
+        createEpub(story, createManifest(story), { audioPath: "/out/a.aiff" }),
+      ).rejects.toThrow("Unsupported audio file");
+    });
+  });
+
+  describe("exportEpub", () => {
+    it("should write the EPUB file", async () => {
+      const story = parseContent(BRACKET_FORMAT_STORY, "story.txt");
+      const result = await exportEpub(
+        story,
+        createManifest(story),
+        "/out/book.epub",
+        { audioPath: AUDIO_PATH },
+      );
+
+      expect(result.documentCount).toBe(1);
+      expect(result.fileSize).toBe(vol.statSync("/out/book.epub").size);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Tests for the lexicon module
+ */
+
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { vol } from "memfs";
+import {
+  parseLexicon,
+  loadLexicon,
+  findPronunciations,
+  applyPronunciations,
+  applyLexicon,
+  findUnknownWords,
+  getSpokenText,
+} from "../lexicon.js";
+import { parseContent } from "../parser.js";
+
+// Mock fs/promises
+vi.mock("fs/promises", async () => {
+  const memfs = await import("memfs");
+  return memfs.fs.promises;
+});
+
+const PLS_LEXICON = `<?xml version="1.0" encoding="UTF-8"?>
+<lexicon version="1.0" alphabet="ipa" xml:lang="en">
+  <lexeme>
+    <grapheme>Aelwyn</grapheme>
+    <alias>AEL-win</alias>
+  </lexeme>
+  <lexeme>
+    <grapheme>Caer</grapheme>
+    <grapheme>Kaer</grapheme>
+    <phoneme>kaɪər</phoneme>
+  </lexeme>
+</lexicon>`;
+
+describe("lexicon", () => {
+  beforeEach(() => {
+    vol.reset();
+  });
+
+  describe("parseLexicon", () => {
+    it("should read respellings and IPA from JSON", () => {
+      const lexicon = parseLexicon(
+        JSON.stringify({ Aelwyn: "AEL-win", Caer: { ipa: "kaɪər" } }),
+        "json",
+      );
+
+      expect(lexicon).toEqual({ Aelwyn: "AEL-win", Caer: "/kaɪər/" });
+    });
+
+    it("should read aliases and phonemes from PLS", () => {
+      expect(parseLexicon(PLS_LEXICON, "pls")).toEqual({
+        Aelwyn: "AEL-win",
+        Caer: "/kaɪər/",
+        Kaer: "/kaɪər/",
+      });
+    });
+
+    it("should reject invalid entries", () => {
+      expect(() => parseLexicon('{"Aelwyn": 3}', "json")).toThrow(
+        "Invalid lexicon entry for Aelwyn",
+      );
+      expect(() =>
+        parseLexicon("<lexeme><grapheme>Aelwyn</grapheme></lexeme>", "pls"),
+      ).toThrow("Lexeme for Aelwyn has no alias or phoneme");
+    });
+  });
+
+  describe("loadLexicon", () => {
+    it("should merge files in order, later ones winning", async () => {
+      vol.fromJSON({
+        "/shared/names.json": JSON.stringify({
+          Aelwyn: "AL-win",
+          Morwen: "MOR-wen",
+        }),
+        "/book/lexicon.json": JSON.stringify({ Aelwyn: "AEL-win" }),
+        "/book/places.pls": PLS_LEXICON,
+      });
+
+      const lexicon = await loadLexicon(
+        ["/shared/names.json", "lexicon.json", "places.pls"],
+        "/book",
+      );
+
+      expect(lexicon).toEqual({
+        Aelwyn: "AEL-win",
+        Morwen: "MOR-wen",
+        Caer: "/kaɪər/",
+        Kaer: "/kaɪər/",
+      });
+    });
+
+    it("should fail on missing files", async () => {
+      await expect(loadLexicon(["missing.json"], "/book")).rejects.toThrow(
+        "Lexicon file not found: /book/missing.json",
+      );
+    });
+  });
+
+  describe("findPronunciations", () => {
+    const lexicon = {
+      Aelwyn: "AEL-win",
+      Caer: "/kaɪər/",
+      "Caer Wyn": "KAR win",
+    };
+
+    it("should find only the entries a text uses", () => {
+      expect(findPronunciations("Aelwyn rode on.", lexicon)).toEqual({
+        Aelwyn: "AEL-win",
+      });
+      expect(findPronunciations("Nobody here.", lexicon)).toEqual({});
+    });
+
+    it("should match whole words, case-sensitively", () => {
+      expect(findPronunciations("Aelwyns and aelwyn", lexicon)).toEqual({});
+      expect(findPronunciations("Aelwyn's sword", lexicon)).toEqual({
+        Aelwyn: "AEL-win",
+      });
+    });
+
+    it("should prefer the longest entry", () => {
+      expect(findPronunciations("To Caer Wyn, then Caer.", lexicon)).toEqual({
+        Caer: "/kaɪər/",
+        "Caer Wyn": "KAR win",
+      });
+    });
+  });
+
+  describe("applyPronunciations", () => {
+    it("should replace each matched word", () => {
+      expect(
+        applyPronunciations("Aelwyn rode to Caer Wyn.", {
+          Aelwyn: "AEL-win",
+          "Caer Wyn": "KAR win",
+        }),
+      ).toBe("AEL-win rode to KAR win.");
+    });
+
+    it("should leave text alone without pronunciations", () => {
+      expect(applyPronunciations("Aelwyn.", undefined)).toBe("Aelwyn.");
+    });
+  });
+
+  describe("getSpokenText", () => {
+    it("should apply pronunciations to the normalized text", () => {
+      const story = parseContent(
+        "[NARRATOR] Aelwyn had 3 swords.",
+        "story.txt",
+      );
+      const [segment] = applyLexicon(
+        {
+          ...story,
+          segments: [
+            {
+              ...story.segments[0],
+              normalizedText: "Aelwyn had three swords.",
+            },
+          ],
+        },
+        { Aelwyn: "AEL-win" },
+      ).segments;
+
+      expect(getSpokenText(segment)).toBe("AEL-win had three swords.");
+      expect(getSpokenText(story.segments[0])).toBe("Aelwyn had 3 swords.");
+    });
+  });
+
+  describe("applyLexicon", () => {
+    it("should attach matching entries to speech segments only", () => {
+      const story = parseContent(
+        "[NARRATOR] Aelwyn waited.\n[SFX Aelwyn.wav]\n[NARRATOR] Nothing.",
+        "story.txt",
+      );
+      const segments = applyLexicon(story, { Aelwyn: "AEL-win" }).segments;
+
+      expect(segments[0].pronunciations).toEqual({ Aelwyn: "AEL-win" });
+      expect(segments[0].text).toBe("Aelwyn waited.");
+      expect(segments[1].pronunciations).toBeUndefined();
+      expect(segments[2].pronunciations).toBeUndefined();
+    });
+  });
+
+  describe("findUnknownWords", () => {
+    it("should list capitalized words missing from the lexicon", () => {
+      const story = parseContent(
+        [
+          "[NARRATOR] The road to Caer was long.",
+          "[AELWYN] Morwen, the road is the road.",
+          "[NARRATOR] Morwen's horse stumbled near Caer, and Aelwyn laughed.",
+        ].join("\n"),
+        "story.txt",
+      );
+
+      expect(findUnknownWords(story, { Aelwyn: "AEL-win" })).toEqual([
+        { word: "Caer", count: 2, lineNumber: 1 },
+        { word: "Morwen", count: 2, lineNumber: 2 },
+      ]);
+    });
+
+    it("should treat words of multi-word entries as known", () => {
+      const story = parseContent(
+        "[NARRATOR] they rode to Caer Wyn.",
+        "story.txt",
+      );
+
+      expect(findUnknownWords(story, { "Caer Wyn": "KAR win" })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for the loudness module
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  measureIntegratedLoudness,
+  measureTruePeak,
+  measureLoudness,
+  applyGain,
+  limitTruePeak,
+  normalizeLoudness,
+  normalizeSegmentLoudness,
+  formatLoudness,
+} from "../loudness.js";
+import { createSine } from "../fixtures/audio.js";
+
+describe("loudness", () => {
+  describe("measureIntegratedLoudness", () => {
+    it("should measure a full-scale 1 kHz sine at -3 LUFS", () => {
+      // Reference value from ITU-R BS.1770
+      for (const sampleRate of [48000, 44100, 24000]) {
+        const lufs = measureIntegratedLoudness(
+          [createSine(1000, 1, 3000, sampleRate)],
+          sampleRate,
+        );
+        expect(lufs).toBeCloseTo(-3.01, 1);
+      }
+    });
+
+    it("should follow gain changes", () => {
+      const loud = measureIntegratedLoudness(
+        [createSine(1000, 0.5, 2000, 48000)],
+        48000,
+      );
+      const quiet = measureIntegratedLoudness(
+        [createSine(1000, 0.05, 2000, 48000)],
+        48000,
+      );
+
+      expect(loud - quiet).toBeCloseTo(20, 1);
+    });
+
+    it("should gate out silence", () => {
+      const speech = createSine(1000, 0.5, 2000, 48000);
+      const withPause = new Float32Array(speech.length * 3);
+      withPause.set(speech, 0);
+
+      expect(measureIntegratedLoudness([withPause], 48000)).toBeCloseTo(
+        measureIntegratedLoudness([speech], 48000),
+        0,
+      );
+    });
+
+    it("should sum channels", () => {
+      const mono = measureIntegratedLoudness(
+        [createSine(1000, 0.5, 2000, 48000)],
+        48000,
+      );
+      const stereo = measureIntegratedLoudness(
+        [
+          createSine(1000, 0.5, 2000, 48000),
+          createSine(1000, 0.5, 2000, 48000),
+        ],
+        48000,
+      );
+
+      expect(stereo - mono).toBeCloseTo(3.01, 1);
+    });
+
+    it("should measure audio shorter than one block", () => {
+      expect(
+        measureIntegratedLoudness([createSine(1000, 1, 200, 48000)], 48000),
+      ).toBeCloseTo(-3.01, 0);
+    });
+
+    it("should return -Infinity for silence", () => {
+      expect(measureIntegratedLoudness([new Float32Array(48000)], 48000)).toBe(
+        -Infinity,
+      );
+      expect(measureIntegratedLoudness([], 48000)).toBe(-Infinity);
+    });
+  });
+
+  describe("measureTruePeak", () => {
+    it("should find peaks between samples", () => {
+      // A quarter-rate sine sampled 45 degrees off its peaks: every sample
+      // is 3 dB below the real peak
+      const samples = createSine(12000, 0.5, 100, 48000, Math.PI / 4);
+      const samplePeak = 20 * Math.log10(0.5 * Math.SQRT1_2);
+
+      expect(measureTruePeak([samples])).toBeGreaterThan(samplePeak + 2.5);
+      expect(measureTruePeak([samples])).toBeCloseTo(20 * Math.log10(0.5), 0);
+    });
+
+    it("should return -Infinity for silence", () => {
+      expect(measureTruePeak([new Float32Array(100)])).toBe(-Infinity);
+    });
+  });
+
+  describe("applyGain", () => {
+    it("should scale every channel", () => {
+      const channels = [new Float32Array([0.5, -0.5]), new Float32Array([1])];
+      applyGain(channels, -6.0206);
+
+      expect(channels[0][0]).toBeCloseTo(0.25, 4);
+      expect(channels[0][1]).toBeCloseTo(-0.25, 4);
+      expect(channels[1][0]).toBeCloseTo(0.5, 4);
+    });
+  });
+
+  describe("limitTruePeak", () => {
+    it("should bring peaks under the ceiling", () => {
+      const samples = createSine(440, 0.2, 1000, 48000);
+      // A loud burst in the middle
+      for (let i = 24000; i < 24480; i++) {
+        samples[i] *= 4.5;
+      }
+
+      limitTruePeak([samples], 48000, -1);
+
+      expect(measureTruePeak([samples])).toBeLessThanOrEqual(-0.99);
+    });
+
+    it("should leave audio away from the peaks untouched", () => {
+      const samples = createSine(440, 0.2, 1000, 48000);
+      const original = samples.slice();
+      for (let i = 24000; i < 24480; i++) {
+        samples[i] *= 4.5;
+      }
+
+      limitTruePeak([samples], 48000, -1);
+
+      expect(samples[1000]).toBe(original[1000]);
+      expect(samples[40000]).toBe(original[40000]);
+    });
+
+    it("should share one gain between channels", () => {
+      const left = createSine(440, 0.99, 200, 48000);
+      const right = createSine(440, 0.1, 200, 48000);
+
+      limitTruePeak([left, right], 48000, -1);
+
+      // The quiet channel is reduced as much as the loud one
+      const index = left.findIndex((s) => Math.abs(s) > 0.5);
+      expect(right[index] / left[index]).toBeCloseTo(0.1 / 0.99, 4);
+    });
+  });
+
+  describe("normalizeLoudness", () => {
+    it("should reach the target loudness", () => {
+      const channels = [createSine(1000, 0.05, 3000, 48000)];
+      const { inputLufs, gainDb } = normalizeLoudness(channels, 48000, {
+        targetLufs: -18,
+      });
+
+      expect(gainDb).toBeCloseTo(-18 - inputLufs, 5);
+      expect(measureIntegratedLoudness(channels, 48000)).toBeCloseTo(-18, 1);
+    });
+
+    it("should keep the true peak under the limit", () => {
+      // Speech-like audio with a few loud peaks
+      const samples = createSine(220, 0.05, 3000, 48000);
+      for (let i = 48000; i < 48600; i++) {
+        samples[i] *= 15;
+      }
+
+      normalizeLoudness([samples], 48000, {
+        targetLufs: -16,
+        truePeakLimit: -2,
+      });
+
+      expect(measureTruePeak([samples])).toBeLessThanOrEqual(-1.99);
+    });
+
+    it("should leave silence untouched", () => {
+      const channels = [new Float32Array(48000)];
+      const { gainDb } = normalizeLoudness(channels, 48000);
+
+      expect(gainDb).toBe(0);
+    });
+  });
+
+  describe("normalizeSegmentLoudness", () => {
+    it("should cap the gain for near-silent segments", () => {
+      const { gainDb } = normalizeSegmentLoudness(
+        [createSine(1000, 0.001, 1000, 48000)],
+        48000,
+        { targetLufs: -18 },
+      );
+
+      expect(gainDb).toBe(12);
+    });
+  });
+
+  describe("measureLoudness", () => {
+    it("should report integrated loudness and true peak", () => {
+      const result = measureLoudness(
+        [createSine(1000, 0.5, 2000, 48000)],
+        48000,
+      );
+
+      expect(result.integratedLufs).toBeCloseTo(-9.03, 1);
+      expect(result.truePeakDbtp).toBeCloseTo(-6.02, 1);
+    });
+  });
+
+  describe("formatLoudness", () => {
+    it("should format values and silence", () => {
+      expect(formatLoudness(-18.04, "LUFS")).toBe("-18.0 LUFS");
+      expect(formatLoudness(-Infinity, "dBTP")).toBe("-inf dBTP");
+    });
+  });
+});
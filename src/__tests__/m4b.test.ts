@@ -0,0 +1,193 @@
+/**
+ * Tests for the M4B writer
+ */
+
+import { describe, it, expect } from "vitest";
+import { encodeM4b, getImageMimeType } from "../m4b.js";
+
+import { createToneWav, extractWavData } from "../fixtures/audio.js";
+
+const PCM = { sampleRate: 24000, numChannels: 1, bitsPerSample: 16 };
+
+/** Smallest valid PNG signature plus padding */
+const PNG_COVER = Buffer.concat([
+  Buffer.from("89504e470d0a1a0a", "hex"),
+  Buffer.alloc(16),
+]);
+
+/**
+ * Find a box by path (e.g. ["moov", "udta", "chpl"]) and return its payload
+ */
+function findBox(
+  buffer: Buffer,
+  path: string[],
+  start = 0,
+  end = buffer.length,
+): Buffer | null {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    if (type === path[0]) {
+      return path.length === 1
+        ? buffer.subarray(offset + 8, offset + size)
+        : findBox(buffer, path.slice(1), offset + 8, offset + size);
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Find every box of a type among the children of a payload
+ */
+function findAll(payload: Buffer, type: string): Buffer[] {
+  const found: Buffer[] = [];
+  let offset = 0;
+  while (offset + 8 <= payload.length) {
+    const size = payload.readUInt32BE(offset);
+    if (payload.toString("latin1", offset + 4, offset + 8) === type) {
+      found.push(payload.subarray(offset + 8, offset + size));
+    }
+    offset += size;
+  }
+  return found;
+}
+
+/**
+ * Decode the entries of a chpl payload
+ */
+function readChpl(chpl: Buffer): Array<{ title: string; startMs: number }> {
+  const count = chpl[8];
+  const chapters: Array<{ title: string; startMs: number }> = [];
+  let offset = 9;
+  for (let i = 0; i < count; i++) {
+    const start = Number(chpl.readBigUInt64BE(offset)) / 10000;
+    const length = chpl[offset + 8];
+    const title = chpl.toString("utf-8", offset + 9, offset + 9 + length);
+    chapters.push({ title, startMs: start });
+    offset += 9 + length;
+  }
+  return chapters;
+}
+
+describe("m4b", () => {
+  describe("getImageMimeType", () => {
+    it("should detect JPEG and PNG images", () => {
+      expect(getImageMimeType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe(
+        "image/jpeg",
+      );
+      expect(getImageMimeType(PNG_COVER)).toBe("image/png");
+    });
+
+    it("should return null for other data", () => {
+      expect(getImageMimeType(Buffer.from("GIF89a"))).toBeNull();
+      expect(getImageMimeType(Buffer.alloc(0))).toBeNull();
+    });
+  });
+
+  describe("encodeM4b", () => {
+    const data = extractWavData(createToneWav(1000, 440));
+
+    it("should write an MP4 with the M4B brand and AAC audio", async () => {
+      const m4b = await encodeM4b(data, PCM);
+
+      expect(m4b.toString("latin1", 4, 8)).toBe("ftyp");
+      expect(m4b.toString("latin1", 8, 12)).toBe("M4B ");
+      expect(m4b.includes(Buffer.from("mp4a"))).toBe(true);
+    });
+
+    it("should write title and author tags", async () => {
+      const m4b = await encodeM4b(data, PCM, {
+        title: "The Long Night",
+        author: "A. Writer",
+      });
+
+      expect(m4b.includes(Buffer.from("The Long Night"))).toBe(true);
+      expect(m4b.includes(Buffer.from("A. Writer"))).toBe(true);
+      expect(m4b.includes(Buffer.from("©ART", "latin1"))).toBe(true);
+    });
+
+    it("should write a chpl chapter list", async () => {
+      const m4b = await encodeM4b(data, PCM, {
+        chapters: [
+          { title: "Second", startMs: 400 },
+          { title: "Première", startMs: 0 },
+        ],
+      });
+      const chpl = findBox(m4b, ["moov", "udta", "chpl"]);
+
+      expect(chpl).not.toBeNull();
+      expect(readChpl(chpl!)).toEqual([
+        { title: "Première", startMs: 0 },
+        { title: "Second", startMs: 400 },
+      ]);
+    });
+
+    it("should link a QuickTime chapter track from the audio track", async () => {
+      const m4b = await encodeM4b(data, PCM, {
+        chapters: [
+          { title: "One", startMs: 0 },
+          { title: "Two", startMs: 600 },
+        ],
+      });
+      const moov = findBox(m4b, ["moov"])!;
+      const traks = findAll(moov, "trak");
+
+      expect(traks).toHaveLength(2);
+
+      const chap = findBox(traks[0], ["tref", "chap"])!;
+      const chapterTrackId = chap.readUInt32BE(0);
+      const chapterTkhd = findBox(traks[1], ["tkhd"])!;
+      expect(chapterTkhd.readUInt32BE(12)).toBe(chapterTrackId);
+
+      const hdlr = findBox(traks[1], ["mdia", "hdlr"])!;
+      expect(hdlr.toString("latin1", 8, 12)).toBe("text");
+
+      // Sample durations are in milliseconds and cover the whole file
+      const stts = findBox(traks[1], ["mdia", "minf", "stbl", "stts"])!;
+      expect(stts.readUInt32BE(4)).toBe(2);
+      expect(stts.readUInt32BE(12)).toBe(600);
+
+      // The chunk offset points at the chapter text samples
+      const stco = findBox(traks[1], ["mdia", "minf", "stbl", "stco"])!;
+      const offset = stco.readUInt32BE(8);
+      const length = m4b.readUInt16BE(offset);
+      expect(m4b.toString("utf-8", offset + 2, offset + 2 + length)).toBe(
+        "One",
+      );
+    });
+
+    it("should clamp the first chapter to the start and drop late ones", async () => {
+      const m4b = await encodeM4b(data, PCM, {
+        chapters: [
+          { title: "Intro", startMs: 250 },
+          { title: "Too late", startMs: 5000 },
+        ],
+      });
+
+      expect(readChpl(findBox(m4b, ["moov", "udta", "chpl"])!)).toEqual([
+        { title: "Intro", startMs: 0 },
+      ]);
+    });
+
+    it("should not write chapter atoms without chapters", async () => {
+      const m4b = await encodeM4b(data, PCM);
+
+      expect(findBox(m4b, ["moov", "udta", "chpl"])).toBeNull();
+      expect(findAll(findBox(m4b, ["moov"])!, "trak")).toHaveLength(1);
+    });
+
+    it("should embed cover art", async () => {
+      const m4b = await encodeM4b(data, PCM, { cover: PNG_COVER });
+
+      expect(m4b.includes(Buffer.from("covr"))).toBe(true);
+    });
+
+    it("should reject unsupported cover images", async () => {
+      await expect(
+        encodeM4b(data, PCM, { cover: Buffer.from("GIF89a") }),
+      ).rejects.toThrow("JPEG or PNG");
+    });
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for the mixer module
+ */
+
+import { describe, it, expect } from "vitest";
+import { mixMusic, type DecodedTrack } from "../mixer.js";
+import type { ManifestSegment, MusicTrack } from "../types.js";
+
+const SAMPLE_RATE = 8000;
+
+/**
+ * Create a stereo track holding a constant level
+ */
+function track(
+  level: number,
+  frames: number,
+  settings: Partial<MusicTrack> = {},
+): DecodedTrack {
+  return {
+    settings: { file: "track.wav", ...settings },
+    samples: [
+      new Float32Array(frames).fill(level),
+      new Float32Array(frames).fill(level),
+    ],
+  };
+}
+
+/**
+ * Create manifest segments at the given times
+ */
+function segments(times: Array<[number, number]>): ManifestSegment[] {
+  return times.map(([startMs, endMs], index) => ({
+    index,
+    speaker: "NARRATOR",
+    text: `Line ${index}`,
+    startMs,
+    endMs,
+    durationMs: endMs - startMs,
+    audioFile: `seg_${index}.wav`,
+  }));
+}
+
+/**
+ * Frame at a time in milliseconds
+ */
+function frame(ms: number): number {
+  return (ms * SAMPLE_RATE) / 1000;
+}
+
+describe("mixer", () => {
+  describe("mixMusic", () => {
+    it("should place the intro before the speech and the outro after it", () => {
+      const speech = [new Float32Array(1000).fill(0.5)];
+      const result = mixMusic(speech, SAMPLE_RATE, {
+        segments: segments([[0, 125]]),
+        tracks: { theme: track(0.1, 400), credits: track(0.2, 200) },
+        intro: "theme",
+        outro: "credits",
+      });
+
+      expect(result.introFrames).toBe(400);
+      expect(result.channels).toHaveLength(2);
+      expect(result.channels[0].length).toBe(1600);
+      expect(result.channels[0][0]).toBeCloseTo(0.1, 5);
+      expect(result.channels[0][400]).toBeCloseTo(0.5, 5);
+      expect(result.channels[1][1400]).toBeCloseTo(0.2, 5);
+    });
+
+    it("should fill a scene between its neighbouring segments", () => {
+      const speech = [new Float32Array(frame(1250))];
+      const [left] = mixMusic(speech, SAMPLE_RATE, {
+        segments: segments([
+          [0, 250],
+          [500, 750],
+          [1000, 1250],
+        ]),
+        scenes: [{ bed: "forest", startSegmentIndex: 1, endSegmentIndex: 1 }],
+        tracks: { forest: track(0.25, 100, { loop: true }) },
+      }).channels;
+
+      expect(left[frame(250) - 1]).toBe(0);
+      expect(left[frame(250)]).toBeCloseTo(0.25, 5);
+      expect(left[frame(1000) - 1]).toBeCloseTo(0.25, 5);
+      expect(left[frame(1000)]).toBe(0);
+    });
+
+    it("should stop a bed at its own end unless it loops", () => {
+      const speech = [new Float32Array(frame(1000))];
+      const options = {
+        segments: segments([
+          [0, 250],
+          [500, 1000],
+        ]),
+        scenes: [{ bed: "forest", startSegmentIndex: 1, endSegmentIndex: 1 }],
+      };
+
+      const [once] = mixMusic(speech, SAMPLE_RATE, {
+        ...options,
+        tracks: { forest: track(0.25, 100) },
+      }).channels;
+      const [looped] = mixMusic(speech, SAMPLE_RATE, {
+        ...options,
+        tracks: { forest: track(0.25, 100, { loop: true }) },
+      }).channels;
+
+      expect(once[frame(250) + 99]).toBeCloseTo(0.25, 5);
+      expect(once[frame(250) + 100]).toBe(0);
+      expect(looped[frame(250) + 100]).toBeCloseTo(0.25, 5);
+      expect(looped[frame(1000) - 1]).toBeCloseTo(0.25, 5);
+    });
+
+    it("should apply gain and fades", () => {
+      const speech = [new Float32Array(frame(1000))];
+      const [left] = mixMusic(speech, SAMPLE_RATE, {
+        segments: segments([[0, 1000]]),
+        scenes: [{ bed: "forest", startSegmentIndex: 0, endSegmentIndex: 0 }],
+        tracks: {
+          forest: track(0.5, frame(1000), {
+            gain: -6,
+            fadeIn: 100,
+            fadeOut: 100,
+          }),
+        },
+      }).channels;
+
+      expect(left[0]).toBe(0);
+      expect(left[frame(50)]).toBeCloseTo(0.25 / 2, 2);
+      expect(left[frame(500)]).toBeCloseTo(0.25, 2);
+      expect(left[frame(1000) - 1]).toBe(0);
+    });
+
+    it("should duck beds under speech and recover in long pauses", () => {
+      const speech = [new Float32Array(frame(2250))];
+      const [left] = mixMusic(speech, SAMPLE_RATE, {
+        segments: segments([
+          [0, 250],
+          [2000, 2250],
+        ]),
+        scenes: [{ bed: "forest", startSegmentIndex: 0, endSegmentIndex: 1 }],
+        tracks: { forest: track(0.5, 100, { loop: true, duck: 12 }) },
+      }).channels;
+
+      const ducked = 0.5 * Math.pow(10, -12 / 20);
+      expect(left[frame(100)]).toBeCloseTo(ducked, 5);
+      expect(left[frame(1200)]).toBeCloseTo(0.5, 5);
+      expect(left[frame(1900)]).toBeLessThan(0.5);
+      expect(left[frame(2100)]).toBeCloseTo(ducked, 5);
+    });
+
+    it("should keep mono speech centred", () => {
+      const speech = [new Float32Array([0.1, -0.2, 0.3])];
+      const { channels } = mixMusic(speech, SAMPLE_RATE, {
+        segments: [],
+        tracks: {},
+      });
+
+      expect(Array.from(channels[0])).toEqual(Array.from(speech[0]));
+      expect(Array.from(channels[1])).toEqual(Array.from(speech[0]));
+    });
+
+    it("should reject unknown tracks", () => {
+      expect(() =>
+        mixMusic([new Float32Array(10)], SAMPLE_RATE, {
+          segments: segments([[0, 1]]),
+          scenes: [{ bed: "nope", startSegmentIndex: 0, endSegmentIndex: 0 }],
+          tracks: {},
+        }),
+      ).toThrow("Unknown music track: nope");
+    });
+  });
+});
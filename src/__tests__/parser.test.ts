@@ -12,6 +12,9 @@ import {
   convertFormat,
   filterBySpeaker,
   getSegmentRange,
+  selectSegments,
+  getSfxPath,
+  SFX_SPEAKER,
 } from "../parser.js";
 
 import {
@@ -26,6 +29,7 @@ import {
   EMPTY_STORY,
   STORY_WITH_UNUSUAL_SPEAKERS,
   MULTI_SPEAKER_STORY,
+  STORY_WITH_CHAPTERS,
   EXPECTED_BRACKET_SEGMENTS,
   EXPECTED_BRACKET_SPEAKERS,
   EXPECTED_MULTI_SPEAKERS,
@@ -67,7 +71,7 @@ describe("parser", () => {
           expect(segment.speaker).toBe(EXPECTED_BRACKET_SEGMENTS[index].speaker);
           expect(segment.text).toBe(EXPECTED_BRACKET_SEGMENTS[index].text);
           expect(segment.index).toBe(index);
-          expect(segment.id).toMatch(/^seg_\d{4}_[a-f0-9]{8}$/);
+          expect(segment.id).toMatch(/^seg_[a-f0-9]{8}(_\d+)?$/);
         });
       });
 
@@ -184,6 +188,281 @@ describe("parser", () => {
     });
   });
 
+  describe("chapters", () => {
+    it("should parse ## headings and [CHAPTER] directives", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+
+      expect(story.chapters).toEqual([
+        { title: "Introduction", startSegmentIndex: 0, endSegmentIndex: 0 },
+        { title: "Chapter 1: The Village", startSegmentIndex: 1, endSegmentIndex: 2 },
+        { title: "The Storm", startSegmentIndex: 3, endSegmentIndex: 5 },
+      ]);
+    });
+
+    it("should not turn chapter directives into segments or speakers", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+
+      expect(story.segments).toHaveLength(6);
+      expect(story.speakers).toEqual(["ALICE", "BOB", "NARRATOR"]);
+      expect(story.segments[3].text).toBe("The sky turned dark. The wind began to howl.");
+    });
+
+    it("should treat ### lines as comments", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+
+      expect(story.chapters.map((c) => c.title)).not.toContain(
+        "Not a chapter, just a comment"
+      );
+    });
+
+    it("should return no chapters for stories without headings", () => {
+      const story = parseContent(BRACKET_FORMAT_STORY, "test.txt");
+
+      expect(story.chapters).toEqual([]);
+    });
+
+    it("should not add an opening chapter when the story starts with a heading", () => {
+      const story = parseContent("## One\n[A] Hi there.\n## Two\n[B] Hello.", "test.txt");
+
+      expect(story.chapters.map((c) => c.title)).toEqual(["One", "Two"]);
+    });
+
+    it("should drop headings with no segments", () => {
+      const story = parseContent("## Empty\n## Full\n[A] Some text.", "test.txt");
+
+      expect(story.chapters).toEqual([
+        { title: "Full", startSegmentIndex: 0, endSegmentIndex: 0 },
+      ]);
+    });
+
+    it("should end the current segment at a heading", () => {
+      const story = parseContent("[A] First line\n## Next\n  not a continuation", "test.txt");
+
+      expect(story.segments).toHaveLength(1);
+      expect(story.segments[0].text).toBe("First line");
+    });
+
+    it("should keep segment IDs stable when chapters are added", () => {
+      const withoutChapters = parseContent(
+        STORY_WITH_CHAPTERS.split("\n")
+          .filter((line) => !line.startsWith("## ") && !line.startsWith("[CHAPTER]"))
+          .join("\n"),
+        "test.txt"
+      );
+      const withChapters = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+
+      expect(withChapters.segments.map((s) => s.id)).toEqual(
+        withoutChapters.segments.map((s) => s.id)
+      );
+    });
+
+    it("should ignore [CHAPTER] when detecting format and speakers", () => {
+      expect(extractSpeakers(STORY_WITH_CHAPTERS)).not.toContain("CHAPTER");
+      expect(detectFormat("[CHAPTER] One\nNARRATOR: Hello")).toBe("colon");
+    });
+  });
+
+  describe("pauses and paragraphs", () => {
+    it("should attach [PAUSE] directives to the next segment", () => {
+      const story = parseContent(
+        "[A] One.\n[PAUSE 2s]\n[B] Two.\n[PAUSE 1.5]\n[PAUSE 250ms]\n[B] Three.",
+        "test.txt"
+      );
+
+      expect(story.segments).toHaveLength(3);
+      expect(story.segments[0].pauseBeforeMs).toBeUndefined();
+      expect(story.segments[1].pauseBeforeMs).toBe(2000);
+      expect(story.segments[2].pauseBeforeMs).toBe(1750);
+      expect(story.speakers).toEqual(["A", "B"]);
+    });
+
+    it("should end the current segment at a pause", () => {
+      const story = parseContent("[A] First\n[PAUSE 1s]\n[A] Second", "test.txt", {
+        mergeConsecutive: true,
+      });
+
+      expect(story.segments.map((s) => s.text)).toEqual(["First", "Second"]);
+    });
+
+    it("should keep segment IDs stable when pauses are added", () => {
+      const plain = parseContent("[A] One.\n[B] Two.", "test.txt");
+      const paused = parseContent("[A] One.\n[PAUSE 3s]\n[B] Two.", "test.txt");
+
+      expect(paused.segments.map((s) => s.id)).toEqual(plain.segments.map((s) => s.id));
+    });
+
+    it("should mark segments that follow a blank line", () => {
+      const story = parseContent("\n[A] One.\n[A] Two.\n\n[A] Three.", "test.txt");
+
+      expect(story.segments.map((s) => s.paragraphStart ?? false)).toEqual([
+        false,
+        false,
+        true,
+      ]);
+    });
+
+    it("should keep pauses when converting format", () => {
+      const story = parseContent("[A] One.\n[PAUSE 2s]\n[B] Two.\n[PAUSE 250ms]\n[A] Three.", "test.txt");
+      const converted = convertFormat(story, "colon");
+
+      expect(converted).toContain("[PAUSE 2s]\n\nB: Two.");
+      expect(parseContent(converted, "test.txt").segments.map((s) => s.pauseBeforeMs)).toEqual([
+        undefined,
+        2000,
+        250,
+      ]);
+    });
+  });
+
+  describe("scenes", () => {
+    it("should run scenes until the next marker or the end", () => {
+      const story = parseContent(
+        "[A] One.\n[SCENE forest]\n[A] Two.\n[B] Three.\n[SCENE END]\n[A] Four.\n[SCENE rain]\n[B] Five.",
+        "test.txt"
+      );
+
+      expect(story.segments).toHaveLength(5);
+      expect(story.scenes).toEqual([
+        { bed: "forest", startSegmentIndex: 1, endSegmentIndex: 2 },
+        { bed: "rain", startSegmentIndex: 4, endSegmentIndex: 4 },
+      ]);
+    });
+
+    it("should drop scenes with no segments", () => {
+      const story = parseContent("[SCENE forest]\n[SCENE rain]\n[A] One.\n[SCENE END]", "test.txt");
+
+      expect(story.scenes).toEqual([{ bed: "rain", startSegmentIndex: 0, endSegmentIndex: 0 }]);
+    });
+
+    it("should not treat scene markers as speakers", () => {
+      const story = parseContent("[SCENE forest]\n[A] One.", "test.txt");
+
+      expect(story.speakers).toEqual(["A"]);
+      expect(story.segments[0].id).toBe(parseContent("[A] One.", "test.txt").segments[0].id);
+    });
+
+    it("should keep scenes when converting format", () => {
+      const story = parseContent(
+        "[A] One.\n[SCENE forest]\n[A] Two.\n[SCENE END]\n[A] Three.\n[SCENE rain]\n[A] Four.",
+        "test.txt"
+      );
+      const converted = convertFormat(story, "bracket");
+
+      expect(converted).toContain("[SCENE forest]\n\n[A] Two.");
+      expect(converted).toContain("[SCENE END]\n\n[A] Three.");
+      expect(parseContent(converted, "test.txt").scenes).toEqual(story.scenes);
+    });
+
+    it("should clip scenes to a segment range", () => {
+      const story = parseContent("[SCENE forest]\n[A] One.\n[A] Two.\n[A] Three.", "test.txt");
+
+      expect(getSegmentRange(story, 1, 1).scenes).toEqual([
+        { bed: "forest", startSegmentIndex: 1, endSegmentIndex: 1 },
+      ]);
+      expect(filterBySpeaker(story, ["B"]).scenes).toEqual([]);
+    });
+  });
+
+  describe("sound effects", () => {
+    it("should parse [SFX] directives as their own segments", () => {
+      const story = parseContent(
+        "[NARRATOR] The door opened.\n[SFX sounds/door creak.wav]\n[NARRATOR] Nobody there.",
+        "test.txt"
+      );
+
+      expect(story.segments.map((s) => s.kind)).toEqual(["speech", "sfx", "speech"]);
+      expect(story.segments[1]).toMatchObject({
+        index: 1,
+        speaker: SFX_SPEAKER,
+        text: "sounds/door creak.wav",
+        lineNumber: 2,
+      });
+      expect(story.speakers).toEqual(["NARRATOR"]);
+      expect(story.totalCharacters).toBe("The door opened.".length + "Nobody there.".length);
+    });
+
+    it("should end the current segment and take the pause before it", () => {
+      const story = parseContent("[A] First\n[PAUSE 1s]\n[SFX bang.wav]\n[A] Second", "test.txt", {
+        mergeConsecutive: true,
+      });
+
+      expect(story.segments.map((s) => s.text)).toEqual(["First", "bang.wav", "Second"]);
+      expect(story.segments[1].pauseBeforeMs).toBe(1000);
+      expect(story.segments[2].pauseBeforeMs).toBeUndefined();
+    });
+
+    it("should keep sound effects when converting format", () => {
+      const story = parseContent("[A] One.\n[SFX bang.wav]\n[A] Two.", "test.txt");
+      const converted = convertFormat(story, "colon");
+
+      expect(converted).toBe("A: One.\n\n[SFX bang.wav]\n\nA: Two.");
+      expect(parseContent(converted, "test.txt").segments.map((s) => s.kind)).toEqual([
+        "speech",
+        "sfx",
+        "speech",
+      ]);
+    });
+
+    it("should resolve sound effect paths against the story file", () => {
+      const story = parseContent("[SFX sfx/bang.wav]", "/books/story.txt");
+
+      expect(getSfxPath(story.segments[0], "/books/story.txt")).toBe("/books/sfx/bang.wav");
+    });
+  });
+
+  describe("delivery directions", () => {
+    it("should read directions from the speaker tag", () => {
+      const story = parseContent("[CLARA|whispering] Did you hear that?", "test.txt");
+
+      expect(story.segments[0]).toMatchObject({
+        speaker: "CLARA",
+        text: "Did you hear that?",
+        style: "whispering",
+      });
+      expect(story.speakers).toEqual(["CLARA"]);
+    });
+
+    it("should read a leading parenthetical in either format", () => {
+      const bracket = parseContent("[CLARA] (angrily) Get out!", "test.txt");
+      const colon = parseContent("CLARA: (angrily) Get out!", "test.txt");
+
+      expect(bracket.segments[0]).toMatchObject({ text: "Get out!", style: "angrily" });
+      expect(colon.segments[0]).toMatchObject({ text: "Get out!", style: "angrily" });
+    });
+
+    it("should combine a tag direction with a parenthetical", () => {
+      const story = parseContent("[CLARA|whispering] (urgently) Run.", "test.txt");
+
+      expect(story.segments[0].style).toBe("whispering, urgently");
+    });
+
+    it("should keep segment IDs stable when a line is re-directed", () => {
+      const plain = parseContent("[CLARA] Run.", "test.txt");
+      const directed = parseContent("[CLARA] (urgently) Run.", "test.txt");
+
+      expect(directed.segments[0].id).toBe(plain.segments[0].id);
+      expect(plain.segments[0].style).toBeUndefined();
+    });
+
+    it("should not merge lines with different directions", () => {
+      const story = parseContent("[A|calm] One.\n[A|calm] Two.\n[A|angry] Three!", "test.txt", {
+        mergeConsecutive: true,
+      });
+
+      expect(story.segments.map((s) => s.text)).toEqual(["One. Two.", "Three!"]);
+    });
+
+    it("should keep directions when converting format", () => {
+      const story = parseContent("[CLARA|whispering] Hush.", "test.txt");
+
+      expect(convertFormat(story, "bracket")).toBe("[CLARA|whispering] Hush.");
+      expect(convertFormat(story, "colon")).toBe("CLARA: (whispering) Hush.");
+      expect(parseContent(convertFormat(story, "colon"), "test.txt").segments[0].style).toBe(
+        "whispering"
+      );
+    });
+  });
+
   describe("validateParsedStory", () => {
     it("should return valid for normal story", () => {
       const story = parseContent(BRACKET_FORMAT_STORY, "test.txt");
@@ -328,6 +607,41 @@ describe("parser", () => {
     });
   });
 
+  describe("selectSegments", () => {
+    const story = parseContent(
+      [
+        "[NARRATOR] The storm broke at dawn.",
+        "  Rain hammered the roof.",
+        "[CLARA] Is anyone there?",
+        "",
+        "[MARCUS] Only the storm.",
+        "[CLARA] Then we wait.",
+      ].join("\n"),
+      "test.txt"
+    );
+    const indices = (segments: { index: number }[]) => segments.map((s) => s.index);
+
+    it("should select by ID and speaker", () => {
+      expect(indices(selectSegments(story, { ids: [story.segments[2].id] }))).toEqual([2]);
+      expect(indices(selectSegments(story, { speakers: ["clara"] }))).toEqual([1, 3]);
+    });
+
+    it("should select the segment containing each line", () => {
+      expect(indices(selectSegments(story, { lines: [2, 5] }))).toEqual([0, 2]);
+    });
+
+    it("should select by index range and text", () => {
+      expect(indices(selectSegments(story, { indexRange: { start: 1, end: 2 } }))).toEqual([1, 2]);
+      expect(indices(selectSegments(story, { grep: "STORM" }))).toEqual([0, 2]);
+    });
+
+    it("should require every criterion to match", () => {
+      expect(
+        indices(selectSegments(story, { speakers: ["MARCUS", "NARRATOR"], grep: "only" }))
+      ).toEqual([2]);
+    });
+  });
+
   describe("getSegmentRange", () => {
     it("should return first N segments", () => {
       const story = parseContent(BRACKET_FORMAT_STORY, "test.txt");
@@ -378,6 +692,33 @@ describe("parser", () => {
     });
   });
 
+  describe("chapters in derived stories", () => {
+    it("should clip chapters to a segment range", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+      const range = getSegmentRange(story, 2, 2);
+
+      expect(range.chapters).toEqual([
+        { title: "Chapter 1: The Village", startSegmentIndex: 2, endSegmentIndex: 2 },
+        { title: "The Storm", startSegmentIndex: 3, endSegmentIndex: 3 },
+      ]);
+    });
+
+    it("should drop chapters without segments after filtering by speaker", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+      const filtered = filterBySpeaker(story, ["BOB"]);
+
+      expect(filtered.chapters.map((c) => c.title)).toEqual(["The Storm"]);
+    });
+
+    it("should keep chapter headings when converting format", () => {
+      const story = parseContent(STORY_WITH_CHAPTERS, "test.txt");
+      const converted = convertFormat(story, "colon");
+
+      expect(converted).toContain("## The Storm\n\nNARRATOR: The sky turned dark.");
+      expect(parseContent(converted, "test.txt").chapters).toEqual(story.chapters);
+    });
+  });
+
   describe("segment ID generation", () => {
     it("should generate unique IDs for each segment", () => {
       const story = parseContent(BRACKET_FORMAT_STORY, "test.txt");
@@ -402,5 +743,19 @@ describe("parser", () => {
 
       expect(story1.segments[0].id).not.toBe(story2.segments[0].id);
     });
+
+    it("should keep IDs when lines are inserted before them", () => {
+      const story1 = parseContent("[A] One.\n[B] Two.", "test.txt");
+      const story2 = parseContent("[C] Zero.\n[A] One.\n[B] Two.", "test.txt");
+
+      expect(story2.segments.slice(1).map((s) => s.id)).toEqual(story1.segments.map((s) => s.id));
+      expect(story2.segments[1].index).toBe(1);
+    });
+
+    it("should number repeated lines", () => {
+      const story = parseContent("[A] Yes.\n[B] No.\n[A] Yes.", "test.txt");
+
+      expect(story.segments[2].id).toBe(`${story.segments[0].id}_2`);
+    });
   });
 });
@@ -0,0 +1,145 @@
+/**
+ * Tests for the resample module
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  resample,
+  convertChannels,
+  convertPcm,
+  decodePcm,
+} from "../resample.js";
+import { pcmToFloat32, float32ToPcm } from "../encoder.js";
+import { createSine, innerPeak } from "../fixtures/audio.js";
+
+describe("resample", () => {
+  describe("resample", () => {
+    it("should return the input when the rates match", () => {
+      const channels = [createSine(440, 0.5, 100, 24000)];
+
+      expect(resample(channels, 24000, 24000)).toBe(channels);
+    });
+
+    it("should scale the length by the rate ratio", () => {
+      const [output] = resample(
+        [createSine(440, 0.5, 1000, 24000)],
+        24000,
+        44100,
+      );
+
+      expect(output.length).toBe(44100);
+    });
+
+    it("should preserve the waveform when upsampling", () => {
+      const [output] = resample(
+        [createSine(1000, 0.5, 500, 24000)],
+        24000,
+        48000,
+      );
+      const expected = createSine(1000, 0.5, 500, 48000);
+
+      for (let i = 500; i < output.length - 500; i += 97) {
+        expect(output[i]).toBeCloseTo(expected[i], 3);
+      }
+    });
+
+    it("should filter out frequencies above the new Nyquist", () => {
+      const [output] = resample(
+        [createSine(20000, 0.5, 500, 48000)],
+        48000,
+        24000,
+      );
+
+      expect(innerPeak(output, 200)).toBeLessThan(0.001);
+    });
+
+    it("should keep a constant level", () => {
+      const [output] = resample(
+        [new Float32Array(4800).fill(0.3)],
+        48000,
+        22050,
+      );
+
+      expect(output[1000]).toBeCloseTo(0.3, 3);
+    });
+
+    it("should reject invalid rates", () => {
+      expect(() => resample([new Float32Array(10)], 0, 24000)).toThrow(
+        "Invalid sample rate",
+      );
+    });
+  });
+
+  describe("convertChannels", () => {
+    it("should mix stereo down to mono", () => {
+      const [mono] = convertChannels(
+        [new Float32Array([0.5, 1]), new Float32Array([0.1, 0])],
+        1,
+      );
+
+      expect(mono[0]).toBeCloseTo(0.3, 5);
+      expect(mono[1]).toBeCloseTo(0.5, 5);
+    });
+
+    it("should duplicate mono into stereo", () => {
+      const mono = new Float32Array([0.25, -0.25]);
+      const stereo = convertChannels([mono], 2);
+
+      expect(stereo).toHaveLength(2);
+      expect(stereo[0]).toEqual(mono);
+      expect(stereo[1]).toEqual(mono);
+    });
+  });
+
+  describe("convertPcm", () => {
+    const mono16 = { sampleRate: 24000, numChannels: 1, bitsPerSample: 16 };
+
+    it("should return the input when the formats match", () => {
+      const data = float32ToPcm([createSine(440, 0.5, 10, 24000)], 16);
+
+      expect(convertPcm(data, mono16, { ...mono16 })).toBe(data);
+    });
+
+    it("should convert between bit depths without changing levels", () => {
+      const data = float32ToPcm([new Float32Array([0.5, -0.25])], 16);
+      const converted = convertPcm(data, mono16, {
+        ...mono16,
+        bitsPerSample: 24,
+      });
+
+      expect(converted.length).toBe(6);
+      expect(converted.readIntLE(0, 3)).toBe(0x400000);
+      expect(converted.readIntLE(3, 3)).toBe(-0x200000);
+    });
+
+    it("should convert rate, channels and depth together", () => {
+      const data = float32ToPcm([createSine(440, 0.5, 100, 24000)], 16);
+      const converted = convertPcm(data, mono16, {
+        sampleRate: 48000,
+        numChannels: 2,
+        bitsPerSample: 32,
+      });
+      const channels = pcmToFloat32(converted, 2, 32);
+
+      expect(channels[0].length).toBe(4800);
+      expect(channels[1]).toEqual(channels[0]);
+    });
+  });
+
+  describe("decodePcm", () => {
+    it("should decode to the target rate and channel count", () => {
+      const data = float32ToPcm(
+        [createSine(440, 0.5, 100, 44100), createSine(440, 0.5, 100, 44100)],
+        24,
+      );
+      const channels = decodePcm(
+        data,
+        { sampleRate: 44100, numChannels: 2, bitsPerSample: 24 },
+        { sampleRate: 24000, numChannels: 1 },
+      );
+
+      expect(channels).toHaveLength(1);
+      expect(channels[0].length).toBe(2400);
+    });
+  });
+});
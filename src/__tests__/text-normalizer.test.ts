@@ -0,0 +1,183 @@
+/**
+ * Tests for the text normalizer module
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  normalizeText,
+  normalizeStory,
+  numberToWords,
+  TEXT_NORMALIZERS,
+  type TextNormalizer,
+} from "../text-normalizer.js";
+import { parseContent } from "../parser.js";
+
+const US = { locale: "en-US" };
+const GB = { locale: "en-GB" };
+
+describe("text-normalizer", () => {
+  describe("numberToWords", () => {
+    it("should spell out whole numbers", () => {
+      expect(numberToWords(0)).toBe("zero");
+      expect(numberToWords(42)).toBe("forty-two");
+      expect(numberToWords(1250)).toBe("one thousand two hundred fifty");
+      expect(numberToWords(3000005)).toBe("three million five");
+    });
+
+    it("should add British 'and's", () => {
+      expect(numberToWords(1250, "en-GB")).toBe(
+        "one thousand two hundred and fifty",
+      );
+      expect(numberToWords(1005, "en-GB")).toBe("one thousand and five");
+    });
+  });
+
+  describe("normalizeText", () => {
+    it("should normalize a mixed sentence for each locale", () => {
+      const text = "Dr. Smith paid $1,250 on 3/4/1999.";
+
+      expect(normalizeText(text, US)).toBe(
+        "Doctor Smith paid one thousand two hundred fifty dollars on March fourth, nineteen ninety-nine.",
+      );
+      expect(normalizeText(text, GB)).toBe(
+        "Doctor Smith paid one thousand two hundred and fifty dollars on the third of April, nineteen ninety-nine.",
+      );
+    });
+
+    it("should read numbers, decimals, percentages and years", () => {
+      expect(normalizeText("3.14 and 50% of 007", US)).toBe(
+        "three point one four and fifty percent of zero zero seven",
+      );
+      expect(normalizeText("In 1905, 2005 and 2024", US)).toBe(
+        "In nineteen oh five, two thousand five and twenty twenty-four",
+      );
+    });
+
+    it("should read currency with subunits and scales", () => {
+      expect(normalizeText("$1 and £2.50", US)).toBe(
+        "one dollar and two pounds and fifty pence",
+      );
+      expect(normalizeText("€0.01", US)).toBe("one cent");
+      expect(normalizeText("$1.5 million", US)).toBe(
+        "one point five million dollars",
+      );
+    });
+
+    it("should read ordinals and dates with month names", () => {
+      expect(normalizeText("He came 2nd on March 21st", US)).toBe(
+        "He came second on March twenty-first",
+      );
+      expect(normalizeText("On the 4th of July", US)).toBe(
+        "On the fourth of July",
+      );
+      expect(normalizeText("1999-12-31", GB)).toBe(
+        "the thirty-first of December, nineteen ninety-nine",
+      );
+    });
+
+    it("should read times", () => {
+      expect(normalizeText("At 3:45 pm, not 10:05 or 9:00", US)).toBe(
+        "At three forty-five p.m., not ten oh five or nine o'clock",
+      );
+      expect(normalizeText("At 15:00", US)).toBe("At fifteen hundred");
+    });
+
+    it("should expand abbreviations and titles", () => {
+      expect(
+        normalizeText("Mr Jones met Prof. Lee on Baker St. at No. 5", US),
+      ).toBe("Mister Jones met Professor Lee on Baker Street at Number five");
+      expect(normalizeText("Apples, pears, etc.", US)).toBe(
+        "Apples, pears, et cetera.",
+      );
+      expect(normalizeText("Pets, e.g. cats", US)).toBe(
+        "Pets, for example cats",
+      );
+    });
+
+    it("should expand a title followed by another", () => {
+      expect(normalizeText("Mr. and Mrs. Smith & Dr & Mrs Jones", US)).toBe(
+        "Mister and Missus Smith and Doctor and Missus Jones",
+      );
+      expect(normalizeText("Mr. and then some", US)).toBe("Mr. and then some");
+    });
+
+    it("should read negative numbers", () => {
+      expect(normalizeText("It was -4 (or -4.5) out", US)).toBe(
+        "It was minus four (or minus four point five) out",
+      );
+      expect(normalizeText("A 10-4 and a B-52", US)).toBe(
+        "A ten-four and a B-fifty-two",
+      );
+    });
+
+    it("should read phone numbers digit by digit", () => {
+      expect(normalizeText("Call 555-1234 or (555) 123-4567", US)).toBe(
+        "Call five five five, one two three four or five five five, one two three, four five six seven",
+      );
+      expect(normalizeText("555-123-4567", US)).toBe(
+        "five five five, one two three, four five six seven",
+      );
+    });
+
+    it("should read decades", () => {
+      expect(normalizeText("the 1990s, the '80s and the 1800s", US)).toBe(
+        "the nineteen nineties, the eighties and the eighteen hundreds",
+      );
+    });
+
+    it("should read version numbers part by part", () => {
+      expect(normalizeText("2.0.1 replaced v1.10.3, not 3.14", US)).toBe(
+        "two point zero point one replaced version one point ten point three, not three point one four",
+      );
+    });
+
+    it("should read Roman numerals after chapter words only", () => {
+      expect(normalizeText("Chapter IV and Part XII", US)).toBe(
+        "Chapter four and Part twelve",
+      );
+      expect(normalizeText("Henry VIII", US)).toBe("Henry VIII");
+      expect(normalizeText("Chapter IIII", US)).toBe("Chapter IIII");
+    });
+
+    it("should run only the listed rules", () => {
+      expect(
+        normalizeText("Dr. Who has 2 hearts", { rules: ["numbers"] }),
+      ).toBe("Dr. Who has two hearts");
+    });
+
+    it("should run custom normalizers", () => {
+      const shout: TextNormalizer = {
+        name: "shout",
+        normalize: (text) => text.replace(/!/g, "!!"),
+      };
+
+      expect(
+        normalizeText("2 cats!", {
+          normalizers: [...TEXT_NORMALIZERS, shout],
+        }),
+      ).toBe("two cats!!");
+    });
+
+    it("should reject unsupported locales", () => {
+      expect(() => normalizeText("1", { locale: "fr-FR" })).toThrow(
+        "Unsupported text normalization locale: fr-FR",
+      );
+    });
+  });
+
+  describe("normalizeStory", () => {
+    it("should set normalized text only where it changes", () => {
+      const story = parseContent(
+        "[NARRATOR] He had 3 dogs.\n[SFX 2.wav]\n[NARRATOR] Nothing here.",
+        "story.txt",
+      );
+      const segments = normalizeStory(story, US).segments;
+
+      expect(segments[0].normalizedText).toBe("He had three dogs.");
+      expect(segments[0].text).toBe("He had 3 dogs.");
+      expect(segments[0].id).toBe(story.segments[0].id);
+      expect(segments[1].normalizedText).toBeUndefined();
+      expect(segments[2].normalizedText).toBeUndefined();
+    });
+  });
+});
@@ -2,12 +2,34 @@
  * Tests for the TTS provider module
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  beforeAll,
+  afterAll,
+} from "vitest";
+import { createServer, type IncomingHttpHeaders, type Server } from "http";
+import type { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
 import {
   GeminiTTSProvider,
+  OpenAITTSProvider,
+  ElevenLabsTTSProvider,
+  LocalCommandTTSProvider,
+  parseCommandTemplate,
   createTTSProvider,
+  createProviderPool,
+  getProviderForSpeaker,
   generateSegmentAudio,
+  groupMultiSpeakerSegments,
+  generateSegmentGroupAudio,
   formatDuration,
+  type TTSProvider,
 } from "../tts-provider.js";
 
 import type { Segment, Config, ProviderConfig, VoiceConfig } from "../types.js";
@@ -16,6 +38,7 @@ import {
   FULL_CONFIG,
   VOICE_NARRATOR,
 } from "../fixtures/configs.js";
+import { createToneWav, extractWavData } from "../fixtures/audio.js";
 
 // Mock config to control behavior - defined outside vi.mock for access
 let mockConfig = {
@@ -137,6 +160,63 @@ vi.mock("fs/promises", async () => {
 
 import { vol } from "memfs";
 
+// Local stub of the OpenAI /v1/audio/speech endpoint
+interface StubRequest {
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: Record<string, unknown>;
+}
+
+let stubRequests: StubRequest[] = [];
+let stubResponse = {
+  status: 200,
+  contentType: "audio/wav",
+  body: createToneWav(500, 440),
+};
+
+function setStubResponse(response: Partial<typeof stubResponse>) {
+  stubResponse = { ...stubResponse, ...response };
+}
+
+function resetStub() {
+  stubRequests = [];
+  stubResponse = {
+    status: 200,
+    contentType: "audio/wav",
+    body: createToneWav(500, 440),
+  };
+}
+
+let stubServer: Server;
+let stubBaseUrl: string;
+
+beforeAll(async () => {
+  stubServer = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => {
+      stubRequests.push({
+        url: req.url,
+        headers: req.headers,
+        body: JSON.parse(Buffer.concat(chunks).toString("utf-8") || "{}"),
+      });
+      res.writeHead(stubResponse.status, {
+        "Content-Type": stubResponse.contentType,
+      });
+      res.end(stubResponse.body);
+    });
+  });
+  await new Promise<void>((resolve) =>
+    stubServer.listen(0, "127.0.0.1", resolve),
+  );
+  const { port } = stubServer.address() as AddressInfo;
+  stubBaseUrl = `http://127.0.0.1:${port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => stubServer.close(() => resolve()));
+});
+
 describe("tts-provider", () => {
   beforeEach(() => {
     vol.reset();
@@ -979,6 +1059,528 @@ describe("tts-provider", () => {
     });
   });
 
+  describe("OpenAITTSProvider", () => {
+    const request = (overrides: Partial<VoiceConfig> = {}) => ({
+      text: "Hello from the stub.",
+      voice: { name: "NARRATOR", voiceName: "nova", ...overrides },
+      outputPath: "/output/openai.wav",
+    });
+
+    const createProvider = (config: Partial<ProviderConfig> = {}) =>
+      new OpenAITTSProvider({
+        name: "openai",
+        baseUrl: stubBaseUrl,
+        maxRetries: 0,
+        ...config,
+      });
+
+    beforeEach(() => {
+      resetStub();
+    });
+
+    describe("initialize", () => {
+      it("should require an API key for the default endpoint", async () => {
+        const originalEnv = process.env.OPENAI_API_KEY;
+        delete process.env.OPENAI_API_KEY;
+
+        const provider = new OpenAITTSProvider({ name: "openai" });
+        await expect(provider.initialize()).rejects.toThrow("API key");
+        expect(await provider.isAvailable()).toBe(false);
+
+        if (originalEnv !== undefined) {
+          process.env.OPENAI_API_KEY = originalEnv;
+        }
+      });
+
+      it("should not require an API key for a custom baseUrl", async () => {
+        const provider = createProvider();
+        expect(await provider.isAvailable()).toBe(true);
+      });
+    });
+
+    describe("generateAudio", () => {
+      it("should post a speech request and write the WAV", async () => {
+        const provider = createProvider({ apiKey: "sk-test" });
+        const result = await provider.generateAudio(request());
+
+        expect(result.success).toBe(true);
+        expect(result.durationMs).toBe(500);
+        expect(vol.existsSync("/output/openai.wav")).toBe(true);
+
+        expect(stubRequests).toHaveLength(1);
+        expect(stubRequests[0].url).toBe("/v1/audio/speech");
+        expect(stubRequests[0].headers.authorization).toBe("Bearer sk-test");
+        expect(stubRequests[0].body).toMatchObject({
+          model: "gpt-4o-mini-tts",
+          input: "Hello from the stub.",
+          voice: "nova",
+          response_format: "wav",
+        });
+      });
+
+      it("should map speed and style prompt", async () => {
+        const provider = createProvider();
+        await provider.generateAudio(
+          request({ speed: 1.25, stylePrompt: "Whisper softly" }),
+        );
+
+        expect(stubRequests[0].body.speed).toBe(1.25);
+        expect(stubRequests[0].body.instructions).toBe("Whisper softly");
+      });
+
+      it("should add a line's direction to the style prompt", async () => {
+        const provider = createProvider();
+        await provider.generateAudio({
+          ...request({ stylePrompt: "Warm narrator" }),
+          style: "whispering",
+        });
+
+        expect(stubRequests[0].body.instructions).toBe(
+          "Warm narrator (whispering)",
+        );
+      });
+
+      it("should not send instructions to tts-1 models", async () => {
+        const provider = createProvider({ model: "tts-1" });
+        await provider.generateAudio(request({ stylePrompt: "Excited" }));
+
+        expect(stubRequests[0].body.model).toBe("tts-1");
+        expect(stubRequests[0].body).not.toHaveProperty("instructions");
+      });
+
+      it("should use the default voice for Gemini voice names", async () => {
+        const provider = createProvider();
+        await provider.generateAudio(request({ voiceName: "Zephyr" }));
+
+        expect(stubRequests[0].body.voice).toBe("alloy");
+      });
+
+      it("should pass extraParams through to the request", async () => {
+        const provider = createProvider();
+        await provider.generateAudio(
+          request({ extraParams: { lang_code: "a" } }),
+        );
+
+        expect(stubRequests[0].body.lang_code).toBe("a");
+      });
+
+      it("should not let extraParams replace the model, text or voice", async () => {
+        const provider = createProvider();
+        await provider.generateAudio(
+          request({
+            voiceName: "nova",
+            extraParams: { model: "tts-1", input: "Other", voice: "echo" },
+          }),
+        );
+
+        expect(stubRequests[0].body).toMatchObject({
+          model: "gpt-4o-mini-tts",
+          input: "Hello from the stub.",
+          voice: "nova",
+        });
+      });
+
+      it("should wrap raw PCM responses in a WAV header", async () => {
+        setStubResponse({
+          contentType: "audio/pcm",
+          body: extractWavData(createToneWav(250, 440)),
+        });
+        const provider = createProvider();
+        const result = await provider.generateAudio(
+          request({ extraParams: { response_format: "pcm" } }),
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.durationMs).toBe(250);
+        expect(result.audioData!.readUInt32LE(24)).toBe(24000);
+      });
+
+      it("should fix streaming WAV headers with placeholder sizes", async () => {
+        const wav = Buffer.from(createToneWav(300, 440));
+        wav.writeUInt32LE(0xffffffff, 4);
+        wav.writeUInt32LE(0xffffffff, 40);
+        setStubResponse({ body: wav });
+
+        const provider = createProvider();
+        const result = await provider.generateAudio(request());
+
+        expect(result.success).toBe(true);
+        expect(result.durationMs).toBe(300);
+        expect(result.audioData!.readUInt32LE(40)).toBe(wav.length - 44);
+      });
+
+      it("should fail on unsupported audio formats", async () => {
+        setStubResponse({
+          contentType: "audio/mpeg",
+          body: Buffer.from("ID3fake"),
+        });
+        const provider = createProvider();
+        const result = await provider.generateAudio(request());
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("Unsupported audio response");
+      });
+
+      it("should report API errors with the status code", async () => {
+        setStubResponse({
+          status: 400,
+          contentType: "application/json",
+          body: Buffer.from(
+            JSON.stringify({ error: { message: "Invalid voice" } }),
+          ),
+        });
+        const provider = createProvider();
+        const result = await provider.generateAudio(request());
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain("(400): Invalid voice");
+      });
+    });
+
+    describe("estimateCost", () => {
+      it("should price known models per character", () => {
+        const provider = createProvider({ model: "tts-1" });
+
+        expect(provider.estimateCost("a".repeat(1000000))).toBe(15);
+      });
+
+      it("should return null for unknown models", () => {
+        const provider = createProvider({ model: "kokoro" });
+
+        expect(provider.estimateCost("Hello")).toBeNull();
+      });
+    });
+  });
+
+  describe("ElevenLabsTTSProvider", () => {
+    const request = (overrides: Partial<VoiceConfig> = {}) => ({
+      text: "Hello from the stub.",
+      voice: { name: "CLARA", voiceName: "voice123", ...overrides },
+      outputPath: "/output/elevenlabs.wav",
+    });
+
+    const createProvider = (
+      config: Partial<ProviderConfig> = {},
+      globalSeed?: number,
+    ) =>
+      new ElevenLabsTTSProvider(
+        {
+          name: "elevenlabs",
+          apiKey: "xi-test",
+          baseUrl: stubBaseUrl.replace(/\/v1$/, ""),
+          maxRetries: 0,
+          ...config,
+        },
+        globalSeed,
+      );
+
+    beforeEach(() => {
+      resetStub();
+      setStubResponse({
+        contentType: "audio/pcm",
+        body: extractWavData(createToneWav(400, 440)),
+      });
+    });
+
+    it("should require an API key", async () => {
+      const originalEnv = process.env.ELEVENLABS_API_KEY;
+      delete process.env.ELEVENLABS_API_KEY;
+
+      const provider = createProvider({ apiKey: undefined });
+      await expect(provider.initialize()).rejects.toThrow("API key");
+
+      if (originalEnv !== undefined) {
+        process.env.ELEVENLABS_API_KEY = originalEnv;
+      }
+    });
+
+    it("should request PCM for the voice and write a WAV", async () => {
+      const provider = createProvider();
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(true);
+      expect(result.durationMs).toBe(400);
+      expect(result.audioData!.toString("ascii", 0, 4)).toBe("RIFF");
+      expect(vol.existsSync("/output/elevenlabs.wav")).toBe(true);
+
+      expect(stubRequests[0].url).toBe(
+        "/v1/text-to-speech/voice123?output_format=pcm_24000",
+      );
+      expect(stubRequests[0].headers["xi-api-key"]).toBe("xi-test");
+      expect(stubRequests[0].body).toMatchObject({
+        text: "Hello from the stub.",
+        model_id: "eleven_multilingual_v2",
+      });
+    });
+
+    it("should map extraParams to voice settings", async () => {
+      const provider = createProvider();
+      await provider.generateAudio(
+        request({
+          speed: 1.1,
+          extraParams: {
+            stability: 0.3,
+            similarity_boost: 0.8,
+            style: 0.5,
+            unrelated: true,
+          },
+        }),
+      );
+
+      expect(stubRequests[0].body.voice_settings).toEqual({
+        stability: 0.3,
+        similarity_boost: 0.8,
+        style: 0.5,
+        speed: 1.1,
+      });
+    });
+
+    it("should send the voice seed, falling back to the global seed", async () => {
+      const provider = createProvider({}, 777);
+      await provider.generateAudio(request({ seed: 42 }));
+      await provider.generateAudio(request());
+
+      expect(stubRequests[0].body.seed).toBe(42);
+      expect(stubRequests[1].body.seed).toBe(777);
+    });
+
+    it("should fail without an ElevenLabs voice ID", async () => {
+      const provider = createProvider();
+      const result = await provider.generateAudio(
+        request({ voiceName: "Zephyr" }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("voice ID not configured for CLARA");
+      expect(stubRequests).toHaveLength(0);
+    });
+
+    it("should report API errors with the status code", async () => {
+      setStubResponse({
+        status: 401,
+        contentType: "application/json",
+        body: Buffer.from(
+          JSON.stringify({ detail: { message: "Invalid API key" } }),
+        ),
+      });
+      const provider = createProvider();
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("(401): Invalid API key");
+    });
+
+    it("should estimate cost from character pricing", () => {
+      const text = "a".repeat(1000);
+
+      expect(createProvider().estimateCost(text)).toBeCloseTo(0.3);
+      expect(
+        createProvider({ model: "eleven_flash_v2_5" }).estimateCost(text),
+      ).toBeCloseTo(0.15);
+    });
+  });
+
+  describe("LocalCommandTTSProvider", () => {
+    // Fake engine: logs its arguments and stdin, then writes a 200ms WAV to
+    // the path after --out, or to stdout with streaming placeholder sizes
+    const FAKE_ENGINE = `
+const fs = require("fs");
+const args = process.argv.slice(2);
+let input = "";
+process.stdin.on("data", (d) => (input += d));
+process.stdin.on("end", () => {
+  fs.writeFileSync(process.env.FAKE_TTS_LOG, JSON.stringify({ args, input }));
+  if (args.includes("fail")) {
+    process.stderr.write("model not found");
+    process.exit(3);
+  }
+  if (args.includes("hang")) {
+    setTimeout(() => {}, 10000);
+    return;
+  }
+  const data = Buffer.alloc(9600);
+  const header = Buffer.alloc(44);
+  header.write("RIFF", 0);
+  header.writeUInt32LE(0xffffffff, 4);
+  header.write("WAVEfmt ", 8);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20);
+  header.writeUInt16LE(1, 22);
+  header.writeUInt32LE(24000, 24);
+  header.writeUInt32LE(48000, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write("data", 36);
+  header.writeUInt32LE(0xffffffff, 40);
+  const wav = Buffer.concat([header, data]);
+  const out = args.indexOf("--out");
+  if (out >= 0) fs.writeFileSync(args[out + 1], wav);
+  else process.stdout.write(wav);
+});
+`;
+
+    let realFs: typeof import("fs");
+    let workDir: string;
+    let enginePath: string;
+    let logPath: string;
+
+    const readLog = (): { args: string[]; input: string } =>
+      JSON.parse(realFs.readFileSync(logPath, "utf-8"));
+
+    const createProvider = (command: string, timeout?: number) =>
+      new LocalCommandTTSProvider({ name: "local", command, timeout });
+
+    const node = (args: string) =>
+      `"${process.execPath}" "${enginePath}" ${args}`;
+
+    const request = (overrides: Partial<VoiceConfig> = {}) => ({
+      text: "Hello from\nthe local engine.",
+      voice: { name: "NARRATOR", voiceName: "en_US-lessac.onnx", ...overrides },
+      outputPath: "/output/local.wav",
+    });
+
+    beforeAll(async () => {
+      realFs = await vi.importActual<typeof import("fs")>("fs");
+      workDir = realFs.mkdtempSync(join(tmpdir(), "local-tts-test-"));
+      enginePath = join(workDir, "fake-engine.cjs");
+      logPath = join(workDir, "log.json");
+      realFs.writeFileSync(enginePath, FAKE_ENGINE);
+      process.env.FAKE_TTS_LOG = logPath;
+    });
+
+    afterAll(() => {
+      realFs.rmSync(workDir, { recursive: true, force: true });
+      delete process.env.FAKE_TTS_LOG;
+    });
+
+    describe("parseCommandTemplate", () => {
+      it("should split on whitespace and honour quotes", () => {
+        expect(
+          parseCommandTemplate(
+            `piper --model "{voice}" --output_file '/tmp/my dir/{out}'`,
+          ),
+        ).toEqual([
+          "piper",
+          "--model",
+          "{voice}",
+          "--output_file",
+          "/tmp/my dir/{out}",
+        ]);
+      });
+
+      it("should keep empty quoted arguments", () => {
+        expect(parseCommandTemplate(`cmd "" x`)).toEqual(["cmd", "", "x"]);
+      });
+
+      it("should reject unterminated quotes", () => {
+        expect(() => parseCommandTemplate(`cmd "oops`)).toThrow(
+          "Unterminated quote",
+        );
+      });
+    });
+
+    it("should require a command template", async () => {
+      const provider = new LocalCommandTTSProvider({ name: "local" });
+
+      await expect(provider.initialize()).rejects.toThrow("provider.command");
+      expect(await provider.isAvailable()).toBe(false);
+    });
+
+    it("should read the WAV from stdout and send text on stdin", async () => {
+      const provider = createProvider(node("--model {voice} --speed {speed}"));
+      const result = await provider.generateAudio(request({ speed: 1.5 }));
+
+      expect(result.success).toBe(true);
+      expect(result.durationMs).toBe(200);
+      // Placeholder sizes from the streaming header are fixed up
+      expect(result.audioData!.readUInt32LE(40)).toBe(9600);
+      expect(vol.existsSync("/output/local.wav")).toBe(true);
+
+      const log = readLog();
+      expect(log.args).toEqual([
+        "--model",
+        "en_US-lessac.onnx",
+        "--speed",
+        "1.5",
+      ]);
+      expect(log.input).toBe("Hello from the local engine.\n");
+    });
+
+    it("should read the WAV from the {out} file", async () => {
+      // The engine writes to the real filesystem, which memfs hides
+      const memfs = await import("memfs");
+      const realPromises =
+        await vi.importActual<typeof import("fs/promises")>("fs/promises");
+      vi.spyOn(memfs.fs.promises, "readFile").mockImplementation(
+        realPromises.readFile as never,
+      );
+      vi.spyOn(memfs.fs.promises, "unlink").mockImplementation(
+        realPromises.unlink as never,
+      );
+
+      const provider = createProvider(node("--model {voice} --out {out}"));
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(true);
+      expect(result.durationMs).toBe(200);
+
+      const outPath = readLog().args[3];
+      expect(outPath.endsWith(".wav")).toBe(true);
+      expect(realFs.existsSync(outPath)).toBe(false);
+    });
+
+    it("should report the exit code and stderr on failure", async () => {
+      const provider = createProvider(node("fail"));
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("exited with code 3: model not found");
+    });
+
+    it("should fail when the command is missing", async () => {
+      const provider = createProvider("definitely-not-a-tts-engine {voice}");
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Command not found");
+    });
+
+    it("should stop commands that exceed the timeout", async () => {
+      const provider = createProvider(node("hang"), 300);
+      const result = await provider.generateAudio(request());
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("timed out after 300ms");
+    });
+
+    it("should require a local voice when the template uses {voice}", async () => {
+      const provider = createProvider(node("--model {voice}"));
+      const result = await provider.generateAudio(
+        request({ voiceName: "Zephyr" }),
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Local voice not configured");
+    });
+
+    it("should be free", () => {
+      expect(createProvider("espeak").estimateCost("Hello")).toBe(0);
+    });
+
+    it("should only be rate limited when rateLimit is set", () => {
+      const limited = new LocalCommandTTSProvider({
+        name: "local",
+        command: "espeak",
+        rateLimit: 30,
+      });
+
+      expect(
+        createProvider("espeak").getRateLimitInfo().requestsPerMinute,
+      ).toBe(Infinity);
+      expect(limited.getRateLimitInfo().requestsPerMinute).toBe(30);
+    });
+  });
+
   describe("createTTSProvider", () => {
     it("should create Gemini provider for gemini config", () => {
       const provider = createTTSProvider(MINIMAL_CONFIG);
@@ -1000,6 +1602,33 @@ describe("tts-provider", () => {
       expect(provider.name).toBe("gemini");
     });
 
+    it("should create OpenAI provider for openai config", () => {
+      const config: Config = {
+        ...MINIMAL_CONFIG,
+        provider: { name: "openai", baseUrl: "http://localhost:8880/v1" },
+      };
+
+      expect(createTTSProvider(config)).toBeInstanceOf(OpenAITTSProvider);
+    });
+
+    it("should create ElevenLabs provider for elevenlabs config", () => {
+      const config: Config = {
+        ...MINIMAL_CONFIG,
+        provider: { name: "elevenlabs", apiKey: "xi-test" },
+      };
+
+      expect(createTTSProvider(config)).toBeInstanceOf(ElevenLabsTTSProvider);
+    });
+
+    it("should create local provider for local config", () => {
+      const config: Config = {
+        ...MINIMAL_CONFIG,
+        provider: { name: "local", command: "espeak --stdout" },
+      };
+
+      expect(createTTSProvider(config)).toBeInstanceOf(LocalCommandTTSProvider);
+    });
+
     it("should throw error for unknown provider", () => {
       const config: Config = {
         ...MINIMAL_CONFIG,
@@ -1023,10 +1652,67 @@ describe("tts-provider", () => {
     });
   });
 
+  describe("createProviderPool", () => {
+    const config: Config = {
+      ...MINIMAL_CONFIG,
+      providers: [{ name: "local", command: "espeak-ng --stdout" }],
+      voices: [
+        { name: "NARRATOR", voiceName: "Zephyr" },
+        { name: "ALICE", voiceName: "Kore" },
+        { name: "ROBOT", voiceName: "en", provider: "local" },
+      ],
+    };
+
+    it("should create one provider per provider name", () => {
+      const pool = createProviderPool(config, ["NARRATOR", "ALICE", "ROBOT"]);
+
+      expect([...pool.keys()]).toEqual(["gemini", "local"]);
+      expect(pool.get("gemini")).toBeInstanceOf(GeminiTTSProvider);
+      expect(pool.get("local")).toBeInstanceOf(LocalCommandTTSProvider);
+    });
+
+    it("should only create providers for the given speakers", () => {
+      const pool = createProviderPool(config, ["ROBOT"]);
+
+      expect([...pool.keys()]).toEqual(["local"]);
+    });
+
+    it("should route speakers to their provider", () => {
+      const pool = createProviderPool(config, ["NARRATOR", "ALICE", "ROBOT"]);
+
+      expect(getProviderForSpeaker(pool, config, "NARRATOR")).toBe(
+        getProviderForSpeaker(pool, config, "ALICE"),
+      );
+      expect(getProviderForSpeaker(pool, config, "ROBOT").name).toBe("local");
+    });
+
+    it("should give each provider its own rate limiter", async () => {
+      const pool = createProviderPool(config, ["NARRATOR", "ROBOT"]);
+      const robot = getProviderForSpeaker(pool, config, "ROBOT");
+      await robot.generateAudio({
+        text: "Beep.",
+        voice: { name: "ROBOT" },
+        outputPath: "/output/robot.wav",
+      });
+
+      expect(robot.getRateLimitInfo().currentUsage).toBe(1);
+      expect(pool.get("gemini")!.getRateLimitInfo().currentUsage).toBe(0);
+    });
+
+    it("should throw for speakers outside the pool", () => {
+      const pool = createProviderPool(config, ["NARRATOR"]);
+
+      expect(() => getProviderForSpeaker(pool, config, "ROBOT")).toThrow(
+        'No TTS provider "local"',
+      );
+    });
+  });
+
   describe("generateSegmentAudio", () => {
     const mockSegment: Segment = {
       id: "seg_0001_abc123",
       index: 0,
+      kind: "speech",
       speaker: "NARRATOR",
       text: "Once upon a time...",
       lineNumber: 1,
@@ -1080,6 +1766,188 @@ describe("tts-provider", () => {
 
       expect(response.success).toBe(true);
     });
+
+    it("should use the timeout of the speaker's provider", async () => {
+      const generateAudio = vi.fn().mockResolvedValue({ success: true });
+      const config: Config = {
+        ...MINIMAL_CONFIG,
+        providers: [{ name: "local", command: "piper", timeout: 300000 }],
+        voices: [{ name: "NARRATOR", voiceName: "en", provider: "local" }],
+      };
+
+      await generateSegmentAudio(
+        { generateAudio } as unknown as TTSProvider,
+        mockSegment,
+        config,
+        "/output/segment.wav",
+      );
+
+      expect(generateAudio).toHaveBeenCalledWith(
+        expect.objectContaining({ timeout: 300000 }),
+      );
+    });
+  });
+
+  describe("groupMultiSpeakerSegments", () => {
+    const config: Config = {
+      ...MINIMAL_CONFIG,
+      providers: [{ name: "local", command: "espeak-ng --stdout" }],
+      voices: [{ name: "ROBOT", voiceName: "en", provider: "local" }],
+    };
+
+    const segment = (
+      index: number,
+      speaker: string,
+      text = "Hello.",
+    ): Segment => ({
+      id: `seg_${index.toString().padStart(4, "0")}_test`,
+      index,
+      kind: "speech",
+      speaker,
+      text,
+      lineNumber: index + 1,
+    });
+
+    const ids = (units: Segment[][]) =>
+      units.map((unit) => unit.map((s) => s.index));
+
+    it("should group a run of two-speaker dialogue", () => {
+      const units = groupMultiSpeakerSegments(
+        [
+          segment(0, "ALICE"),
+          segment(1, "BOB"),
+          segment(2, "ALICE"),
+          segment(3, "BOB"),
+        ],
+        config,
+      );
+
+      expect(ids(units)).toEqual([[0, 1, 2, 3]]);
+    });
+
+    it("should start a new group when a third speaker joins", () => {
+      const units = groupMultiSpeakerSegments(
+        [
+          segment(0, "ALICE"),
+          segment(1, "BOB"),
+          segment(2, "NARRATOR"),
+          segment(3, "ALICE"),
+        ],
+        config,
+      );
+
+      expect(ids(units)).toEqual([
+        [0, 1],
+        [2, 3],
+      ]);
+    });
+
+    it("should leave single-speaker runs ungrouped", () => {
+      const units = groupMultiSpeakerSegments(
+        [segment(0, "NARRATOR"), segment(1, "NARRATOR")],
+        config,
+      );
+
+      expect(ids(units)).toEqual([[0], [1]]);
+    });
+
+    it("should not group segments that aren't adjacent in the story", () => {
+      const units = groupMultiSpeakerSegments(
+        [segment(0, "ALICE"), segment(2, "BOB")],
+        config,
+      );
+
+      expect(ids(units)).toEqual([[0], [2]]);
+    });
+
+    it("should not group speakers on other providers", () => {
+      const units = groupMultiSpeakerSegments(
+        [segment(0, "ALICE"), segment(1, "ROBOT"), segment(2, "BOB")],
+        config,
+      );
+
+      expect(ids(units)).toEqual([[0], [1], [2]]);
+    });
+
+    it("should cap the characters per group", () => {
+      const long = "a".repeat(900);
+      const units = groupMultiSpeakerSegments(
+        [
+          segment(0, "ALICE", long),
+          segment(1, "BOB", long),
+          segment(2, "ALICE", "Short."),
+          segment(3, "BOB", "Short."),
+        ],
+        config,
+      );
+
+      expect(ids(units)).toEqual([[0], [1, 2, 3]]);
+    });
+  });
+
+  describe("generateSegmentGroupAudio", () => {
+    const segments: Segment[] = [
+      {
+        id: "seg_0000_a",
+        index: 0,
+        kind: "speech",
+        speaker: "ALICE",
+        text: "Hello there.",
+        lineNumber: 1,
+      },
+      {
+        id: "seg_0001_b",
+        index: 1,
+        kind: "speech",
+        speaker: "BOB",
+        text: "<warmly> Hi, Alice!",
+        lineNumber: 2,
+      },
+    ];
+    const outputPaths = ["/output/a.wav", "/output/b.wav"];
+
+    it("should send the group in one request and cut it per segment", async () => {
+      const provider = createTTSProvider(FULL_CONFIG);
+      await provider.initialize();
+
+      const { response, segments: parts } = await generateSegmentGroupAudio(
+        provider,
+        segments,
+        FULL_CONFIG,
+        "/output/group.wav",
+        outputPaths,
+      );
+
+      expect(response.success).toBe(true);
+      expect(mockGenerateContent).toHaveBeenCalledTimes(1);
+      expect(vol.existsSync("/output/group.wav")).toBe(true);
+      expect(parts.map((p) => p.audioPath)).toEqual(outputPaths);
+      expect(parts[0].timing.startMs).toBe(0);
+      expect(parts[0].timing.endMs).toBe(parts[1].timing.startMs);
+      expect(parts[1].timing.endMs).toBe(response.durationMs);
+      for (const part of parts) {
+        expect(vol.statSync(part.audioPath).size).toBe(part.fileSize);
+      }
+    });
+
+    it("should report providers without multi-speaker support", async () => {
+      const provider = new LocalCommandTTSProvider({
+        name: "local",
+        command: "espeak-ng --stdout",
+      });
+
+      const { response, segments: parts } = await generateSegmentGroupAudio(
+        provider,
+        segments,
+        FULL_CONFIG,
+        "/output/group.wav",
+        outputPaths,
+      );
+
+      expect(response.success).toBe(false);
+      expect(response.error).toContain("does not support multi-speaker");
+      expect(parts).toEqual([]);
+    });
   });
 
   describe("formatDuration", () => {
@@ -3,21 +3,55 @@
  *
  * Handles:
  * - Concatenating multiple audio files
- * - Adding silence padding between segments
+ * - Splitting multi-speaker recordings into segments
+ * - Trimming leading and trailing silence from segments
+ * - Adding pauses between segments
+ * - Converting segments to the output sample rate and bit depth
+ * - Applying voice speed and pitch effects
+ * - Normalizing loudness per segment and for the whole book
+ * - Mixing intro/outro music and scene beds under the speech
+ * - Writing one file per chapter
  * - Generating manifests with timestamps
- * - Basic audio format handling
+ * - Encoding the final output (WAV, MP3, OGG, FLAC)
+ * - Exporting M4B audiobooks with chapters and cover art
  */
 
 import { readFile, writeFile, stat, access } from "fs/promises";
-import { dirname, basename, extname } from "path";
+import { dirname, basename, extname, resolve } from "path";
 import { mkdir } from "fs/promises";
 import type {
   AudioConfig,
   CachedSegment,
   AudiobookManifest,
+  Chapter,
+  ManifestChapter,
   ManifestSegment,
+  MusicConfig,
+  PauseRules,
+  Scene,
   Segment,
+  SegmentKind,
 } from "./types.js";
+import {
+  encodeAudio,
+  isEncodedFormat,
+  pcmToFloat32,
+  float32ToPcm,
+} from "./encoder.js";
+import { encodeM4b } from "./m4b.js";
+import {
+  measureLoudness,
+  normalizeLoudness,
+  normalizeSegmentLoudness,
+  limitTruePeak,
+  formatLoudness,
+  DEFAULT_LOUDNESS_TARGET,
+  DEFAULT_TRUE_PEAK_LIMIT,
+  type LoudnessMeasurement,
+} from "./loudness.js";
+import { convertPcm, decodePcm } from "./resample.js";
+import { applyVoiceEffects, hasVoiceEffects } from "./effects.js";
+import { mixMusic, type DecodedTrack } from "./mixer.js";
 
 // ============================================================================
 // WAV File Utilities
@@ -111,34 +145,275 @@ function extractWavData(buffer: Buffer): Buffer {
 }
 
 /**
- * Generate silence buffer
+ * Calculate duration in milliseconds from WAV data
  */
-function generateSilence(
-  durationMs: number,
+function calculateDuration(
+  dataSize: number,
   sampleRate: number,
   numChannels: number,
   bitsPerSample: number,
-): Buffer {
+): number {
   const bytesPerSample = bitsPerSample / 8;
-  const numSamples = Math.floor((durationMs / 1000) * sampleRate);
-  const bufferSize = numSamples * numChannels * bytesPerSample;
+  const numSamples = dataSize / (numChannels * bytesPerSample);
+  return (numSamples / sampleRate) * 1000;
+}
+
+// ============================================================================
+// Group Splitting
+// ============================================================================
+
+/**
+ * How far an estimated segment boundary may move to land on a pause
+ */
+const BOUNDARY_SEARCH_MS = 400;
+
+/**
+ * Window used to measure loudness when looking for a pause
+ */
+const BOUNDARY_WINDOW_MS = 20;
 
-  // Return zero-filled buffer (silence)
-  return Buffer.alloc(bufferSize, 0);
+/**
+ * One slice of a split WAV file
+ */
+export interface WavSlice {
+  /** WAV file containing the slice */
+  audio: Buffer;
+  /** Start offset in the source audio in milliseconds */
+  startMs: number;
+  /** End offset in the source audio in milliseconds */
+  endMs: number;
 }
 
 /**
- * Calculate duration in milliseconds from WAV data
+ * Find the centre of the quietest window near a target frame
  */
-function calculateDuration(
-  dataSize: number,
+function findQuietestFrame(
+  data: Buffer,
+  header: WavHeader,
+  target: number,
+  minFrame: number,
+  maxFrame: number,
+): number {
+  const clamped = Math.min(Math.max(target, minFrame), maxFrame);
+
+  // Loudness is only measured for 16-bit PCM, which every provider returns
+  if (header.bitsPerSample !== 16) {
+    return clamped;
+  }
+
+  const frameSize = header.numChannels * 2;
+  const window = Math.max(
+    1,
+    Math.round((header.sampleRate * BOUNDARY_WINDOW_MS) / 1000),
+  );
+  const steps = Math.floor(
+    (header.sampleRate * BOUNDARY_SEARCH_MS) / 1000 / window,
+  );
+
+  let best = clamped;
+  let bestEnergy = Infinity;
+  for (let step = -steps; step <= steps; step++) {
+    const centre = target + step * window;
+    const start = centre - Math.floor(window / 2);
+    if (start < minFrame || start + window > maxFrame) {
+      continue;
+    }
+
+    let energy = 0;
+    for (let frame = start; frame < start + window; frame++) {
+      energy += Math.abs(data.readInt16LE(frame * frameSize));
+    }
+
+    // Prefer the window closest to the estimate when several are equally quiet
+    if (
+      energy < bestEnergy ||
+      (energy === bestEnergy &&
+        Math.abs(centre - target) < Math.abs(best - target))
+    ) {
+      bestEnergy = energy;
+      best = centre;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Split a WAV file into consecutive slices
+ *
+ * Boundaries are estimated from the relative weight of each slice (e.g. the
+ * character count of the text spoken in it) and then moved to the quietest
+ * point nearby, so cuts land in the pauses between speakers.
+ */
+export function splitWavAudio(wav: Buffer, weights: number[]): WavSlice[] {
+  const header = parseWavHeader(wav);
+  if (!header) {
+    throw new Error("Invalid WAV data: missing RIFF/WAVE header");
+  }
+  if (weights.length === 0) {
+    return [];
+  }
+
+  const data = extractWavData(wav);
+  const frameSize = (header.numChannels * header.bitsPerSample) / 8;
+  const totalFrames = Math.floor(data.length / frameSize);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const share = (i: number) =>
+    totalWeight > 0 ? weights[i] / totalWeight : 1 / weights.length;
+
+  const boundaries = [0];
+  let cumulative = 0;
+  for (let i = 0; i < weights.length - 1; i++) {
+    cumulative += share(i);
+    boundaries.push(
+      findQuietestFrame(
+        data,
+        header,
+        Math.round(totalFrames * cumulative),
+        boundaries[boundaries.length - 1],
+        totalFrames,
+      ),
+    );
+  }
+  boundaries.push(totalFrames);
+
+  const toMs = (frame: number) =>
+    Math.round((frame / header.sampleRate) * 1000);
+
+  return weights.map((_, i) => {
+    const pcm = data.subarray(
+      boundaries[i] * frameSize,
+      boundaries[i + 1] * frameSize,
+    );
+    return {
+      audio: Buffer.concat([
+        createWavHeader(
+          pcm.length,
+          header.numChannels,
+          header.sampleRate,
+          header.bitsPerSample,
+        ),
+        pcm,
+      ]),
+      startMs: toMs(boundaries[i]),
+      endMs: toMs(boundaries[i + 1]),
+    };
+  });
+}
+
+// ============================================================================
+// Silence and Pauses
+// ============================================================================
+
+/**
+ * Default level below which audio counts as silence when trimming
+ */
+const DEFAULT_SILENCE_THRESHOLD_DB = -50;
+
+/**
+ * Audio kept on either side of the audible part when trimming, so soft
+ * word onsets and breaths aren't cut
+ */
+const TRIM_MARGIN_MS = 30;
+
+/**
+ * Trim leading and trailing silence. Segments that are silent throughout
+ * are returned unchanged.
+ */
+export function trimSegmentSilence(
+  channels: Float32Array[],
   sampleRate: number,
-  numChannels: number,
-  bitsPerSample: number,
+  thresholdDb: number = DEFAULT_SILENCE_THRESHOLD_DB,
+): Float32Array[] {
+  const frameCount = channels[0]?.length ?? 0;
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const isAudible = (i: number) =>
+    channels.some((channel) => Math.abs(channel[i]) > threshold);
+
+  let first = 0;
+  while (first < frameCount && !isAudible(first)) {
+    first++;
+  }
+  if (first === frameCount) {
+    return channels;
+  }
+
+  let last = frameCount - 1;
+  while (last > first && !isAudible(last)) {
+    last--;
+  }
+
+  const margin = Math.round((TRIM_MARGIN_MS * sampleRate) / 1000);
+  const start = Math.max(0, first - margin);
+  const end = Math.min(frameCount, last + 1 + margin);
+  return channels.map((channel) => channel.subarray(start, end));
+}
+
+/**
+ * Resolve the silence before a segment. An explicit [PAUSE] directive
+ * wins, then chapter starts, speaker changes and paragraph breaks.
+ */
+function getPauseMs(
+  previous: AudioFileInfo,
+  next: AudioFileInfo,
+  rules: Required<PauseRules>,
+  chapterStarts: Set<number>,
 ): number {
-  const bytesPerSample = bitsPerSample / 8;
-  const numSamples = dataSize / (numChannels * bytesPerSample);
-  return (numSamples / sampleRate) * 1000;
+  if (next.pauseBeforeMs !== undefined) {
+    return next.pauseBeforeMs;
+  }
+  if (chapterStarts.has(next.index)) {
+    return rules.chapter;
+  }
+  if (previous.speaker !== next.speaker) {
+    return rules.speakerChange;
+  }
+  return next.paragraphStart ? rules.paragraph : rules.sameSpeaker;
+}
+
+// ============================================================================
+// Music
+// ============================================================================
+
+/**
+ * Load the music tracks the mix needs, decoded to stereo at the output
+ * sample rate. Track paths are relative to `musicDir`.
+ */
+async function loadMusicTracks(
+  music: MusicConfig,
+  names: Set<string>,
+  sampleRate: number,
+  musicDir: string,
+): Promise<Record<string, DecodedTrack>> {
+  const tracks: Record<string, DecodedTrack> = {};
+
+  for (const name of names) {
+    const settings = music.tracks[name];
+    if (!settings) {
+      throw new Error(`Unknown music track: ${name}`);
+    }
+
+    const path = resolve(musicDir, settings.file);
+    if (!(await fileExists(path))) {
+      throw new Error(`Music file not found: ${path}`);
+    }
+
+    const wavBuffer = await readFile(path);
+    const header = parseWavHeader(wavBuffer);
+    if (!header) {
+      throw new Error(`Invalid WAV file: ${path}`);
+    }
+
+    tracks[name] = {
+      settings,
+      samples: decodePcm(extractWavData(wavBuffer), header, {
+        sampleRate,
+        numChannels: 2,
+      }),
+    };
+  }
+
+  return tracks;
 }
 
 // ============================================================================
@@ -157,8 +432,20 @@ export interface AudioFileInfo {
   speaker: string;
   /** Text content */
   text: string;
-  /** Duration in milliseconds (will be calculated if not provided) */
+  /** Segment kind (default: speech); sound effects keep their own level and silence */
+  kind?: SegmentKind;
+  /** Cached duration in milliseconds (timestamps are measured from the audio) */
   durationMs?: number;
+  /** Pause before this segment from [PAUSE] directives, in milliseconds */
+  pauseBeforeMs?: number;
+  /** Whether a blank line separates this segment from the previous one */
+  paragraphStart?: boolean;
+  /** Speed multiplier applied while stitching */
+  speed?: number;
+  /** Pitch adjustment (-1.0 to 1.0) applied while stitching */
+  pitch?: number;
+  /** Provider that generated the audio (speech only) */
+  provider?: string;
 }
 
 /**
@@ -175,6 +462,10 @@ export interface StitchResult {
   fileSize: number;
   /** Manifest with timestamps */
   manifest: AudiobookManifest;
+  /** Measured loudness of the output */
+  loudness?: LoudnessMeasurement;
+  /** Loudness target in LUFS, if the output was normalized */
+  loudnessTarget?: number;
 }
 
 /**
@@ -190,48 +481,200 @@ async function fileExists(path: string): Promise<boolean> {
 }
 
 /**
- * Stitch multiple WAV files together
+ * Get the file extension for an output format
  */
-export async function stitchAudioFiles(
+export function getOutputExtension(format: AudioConfig["format"]): string {
+  return `.${format}`;
+}
+
+/**
+ * List the providers that generated the book's speech, in order of first
+ * use, since speakers can be routed to different providers
+ */
+function getManifestProvider(segments: ManifestSegment[]): string {
+  const providers = [
+    ...new Set(segments.flatMap((s) => (s.provider ? [s.provider] : []))),
+  ];
+  return providers.length > 0 ? providers.join(", ") : "unknown";
+}
+
+/**
+ * Compute chapter timestamps from the stitched segments.
+ * Chapters are contiguous: each runs until the next one starts, so the
+ * silence padding between chapters belongs to the earlier chapter.
+ */
+function buildManifestChapters(
+  chapters: Chapter[],
+  segments: ManifestSegment[],
+  totalDurationMs: number,
+): ManifestChapter[] {
+  const resolved: Array<Omit<ManifestChapter, "endMs" | "durationMs">> = [];
+
+  for (const chapter of chapters) {
+    // Only segments that were actually stitched count towards the range
+    const inChapter = segments.filter(
+      (s) =>
+        s.index >= chapter.startSegmentIndex &&
+        s.index <= chapter.endSegmentIndex,
+    );
+    if (inChapter.length === 0) {
+      continue;
+    }
+
+    resolved.push({
+      title: chapter.title,
+      startMs: inChapter[0].startMs,
+      startSegmentIndex: inChapter[0].index,
+      endSegmentIndex: inChapter[inChapter.length - 1].index,
+    });
+  }
+
+  resolved.sort((a, b) => a.startMs - b.startMs);
+
+  return resolved.map((chapter, i) => {
+    const endMs =
+      i < resolved.length - 1 ? resolved[i + 1].startMs : totalDurationMs;
+    return { ...chapter, endMs, durationMs: endMs - chapter.startMs };
+  });
+}
+
+/**
+ * Options for stitching segments into a book
+ */
+export interface StitchOptions {
+  /** Default pause between segments in milliseconds */
+  silencePaddingMs?: number;
+  /** Output sample rate */
+  sampleRate?: number;
+  /** Output channel count (before music is mixed in) */
+  numChannels?: number;
+  /** Output bit depth */
+  bitsPerSample?: number;
+  /** Output format */
+  format?: AudioConfig["format"];
+  /** Title recorded in the manifest */
+  title?: string;
+  /** Story file recorded in the manifest */
+  sourceFile?: string;
+  /** Chapters to timestamp in the manifest */
+  chapters?: Chapter[];
+  /** Normalize loudness per segment and for the whole book */
+  normalize?: boolean;
+  /** Loudness target in LUFS */
+  loudnessTarget?: number;
+  /** True peak ceiling in dBTP */
+  truePeakLimit?: number;
+  /** Pauses by context, overriding silencePaddingMs */
+  pauses?: PauseRules;
+  /** Trim leading and trailing silence from speech segments */
+  trimSilence?: boolean;
+  /** Level below which audio counts as silence, in dBFS */
+  silenceThreshold?: number;
+  /** Intro/outro music and scene beds */
+  music?: MusicConfig;
+  /** Scenes to play beds under */
+  scenes?: Scene[];
+  /** Directory music paths are relative to */
+  musicDir?: string;
+}
+
+/**
+ * Stitched audio before it is encoded
+ */
+interface RenderedAudio {
+  /** Interleaved integer PCM */
+  data: Buffer;
+  /** Format of the PCM data */
+  pcm: { sampleRate: number; numChannels: number; bitsPerSample: number };
+  /** Total duration in milliseconds */
+  totalDurationMs: number;
+  /** Timestamped segments */
+  segments: ManifestSegment[];
+  /** Measured loudness */
+  loudness: LoudnessMeasurement;
+}
+
+/**
+ * Decode, trim, apply voice effects, normalize and mix the segments into
+ * one PCM stream, in segment index order
+ */
+async function renderAudio(
   files: AudioFileInfo[],
-  outputPath: string,
-  options: {
-    silencePaddingMs?: number;
-    sampleRate?: number;
-    numChannels?: number;
-    bitsPerSample?: number;
-    title?: string;
-    sourceFile?: string;
-  } = {},
-): Promise<StitchResult> {
+  options: StitchOptions,
+): Promise<RenderedAudio> {
   const {
     silencePaddingMs = 500,
     sampleRate = 24000,
     numChannels = 1,
     bitsPerSample = 16,
-    title = "Audiobook",
-    sourceFile = "unknown",
+    chapters = [],
+    normalize = false,
+    loudnessTarget = DEFAULT_LOUDNESS_TARGET,
+    truePeakLimit = DEFAULT_TRUE_PEAK_LIMIT,
+    pauses = {},
+    trimSilence = false,
+    silenceThreshold = DEFAULT_SILENCE_THRESHOLD_DB,
+    music,
+    scenes = [],
+    musicDir = ".",
   } = options;
 
   // Sort files by index
   const sortedFiles = [...files].sort((a, b) => a.index - b.index);
 
-  // Read all audio files and extract data
+  // Read all audio files and extract data. When normalizing, segments are
+  // kept as floating point samples so gain changes don't clip.
+  // Segments from providers with a different sample format are converted
+  // to the output format first.
+  const outputFormat = { sampleRate, numChannels, bitsPerSample };
+  const frameSize = numChannels * (bitsPerSample / 8);
   const audioChunks: Buffer[] = [];
+  const sampleChunks: Float32Array[][] = [];
   const manifestSegments: ManifestSegment[] = [];
-  let currentPositionMs = 0;
-
-  // Generate silence padding buffer
-  const silenceBuffer = generateSilence(
-    silencePaddingMs,
-    sampleRate,
-    numChannels,
-    bitsPerSample,
-  );
+
+  // Positions are tracked in frames so manifest timestamps match the
+  // output exactly
+  let currentFrame = 0;
+  const framesToMs = (frames: number) => (frames / sampleRate) * 1000;
+
+  const pauseRules: Required<PauseRules> = {
+    speakerChange: pauses.speakerChange ?? silencePaddingMs,
+    sameSpeaker: pauses.sameSpeaker ?? silencePaddingMs,
+    paragraph: pauses.paragraph ?? silencePaddingMs,
+    chapter: pauses.chapter ?? silencePaddingMs,
+  };
+  const chapterStarts = new Set(chapters.map((c) => c.startSegmentIndex));
 
   for (let i = 0; i < sortedFiles.length; i++) {
     const file = sortedFiles[i];
 
+    // Add a pause between segments (none before the first one)
+    if (i > 0) {
+      const pauseMs = getPauseMs(
+        sortedFiles[i - 1],
+        file,
+        pauseRules,
+        chapterStarts,
+      );
+      const pauseFrames = Math.max(
+        0,
+        Math.round((pauseMs * sampleRate) / 1000),
+      );
+      if (pauseFrames > 0) {
+        if (normalize) {
+          sampleChunks.push(
+            Array.from(
+              { length: numChannels },
+              () => new Float32Array(pauseFrames),
+            ),
+          );
+        } else {
+          audioChunks.push(Buffer.alloc(pauseFrames * frameSize));
+        }
+        currentFrame += pauseFrames;
+      }
+    }
+
     // Check if file exists
     if (!(await fileExists(file.path))) {
       throw new Error(`Audio file not found: ${file.path}`);
@@ -248,51 +691,184 @@ export async function stitchAudioFiles(
     // Extract raw audio data
     const audioData = extractWavData(wavBuffer);
 
-    // Calculate duration
-    const durationMs =
-      file.durationMs ||
-      calculateDuration(
-        audioData.length,
-        header.sampleRate,
-        header.numChannels,
-        header.bitsPerSample,
-      );
+    // Decode segments that need processing; the rest are only converted
+    // to the output format
+    const isSpeech = file.kind !== "sfx";
+    const trim = trimSilence && isSpeech;
+    const effects = { speed: file.speed, pitch: file.pitch };
+    let samples: Float32Array[] | null = null;
+    if (normalize || trim || hasVoiceEffects(effects)) {
+      samples = decodePcm(audioData, header, outputFormat);
+      if (trim) {
+        samples = trimSegmentSilence(samples, sampleRate, silenceThreshold);
+      }
+      samples = applyVoiceEffects(samples, sampleRate, effects);
+    }
+
+    // Add audio data, bringing each voice to the target level first
+    let frameCount: number;
+    if (samples && normalize) {
+      if (isSpeech) {
+        normalizeSegmentLoudness(samples, sampleRate, {
+          targetLufs: loudnessTarget,
+        });
+      }
+      sampleChunks.push(samples);
+      frameCount = samples[0].length;
+    } else {
+      const pcm = samples
+        ? float32ToPcm(samples, bitsPerSample)
+        : convertPcm(audioData, header, outputFormat);
+      audioChunks.push(pcm);
+      frameCount = pcm.length / frameSize;
+    }
 
     // Add to manifest
     manifestSegments.push({
       index: file.index,
       speaker: file.speaker,
       text: file.text,
-      startMs: currentPositionMs,
-      endMs: currentPositionMs + durationMs,
-      durationMs,
-      audioFile: basename(file.path),
+      startMs: framesToMs(currentFrame),
+      endMs: framesToMs(currentFrame + frameCount),
+      durationMs: framesToMs(frameCount),
+      // Sound effects live outside the segment cache, so keep their full path
+      audioFile: isSpeech ? basename(file.path) : file.path,
+      kind: file.kind,
+      provider: isSpeech ? file.provider : undefined,
     });
+    currentFrame += frameCount;
+  }
 
-    // Add audio data
-    audioChunks.push(audioData);
-    currentPositionMs += durationMs;
+  // Music is only mixed in when there is something to play
+  const musicNames = new Set<string>();
+  if (music) {
+    for (const name of [music.intro, music.outro]) {
+      if (name) {
+        musicNames.add(name);
+      }
+    }
+    for (const scene of scenes) {
+      if (
+        manifestSegments.some(
+          (s) =>
+            s.index >= scene.startSegmentIndex &&
+            s.index <= scene.endSegmentIndex,
+        )
+      ) {
+        musicNames.add(scene.bed);
+      }
+    }
+  }
 
-    // Add silence padding between segments (except after the last one)
-    if (i < sortedFiles.length - 1 && silencePaddingMs > 0) {
-      audioChunks.push(silenceBuffer);
-      currentPositionMs += silencePaddingMs;
+  // Combine all audio chunks, normalizing the whole book if requested
+  let combinedAudioData: Buffer;
+  let loudness: LoudnessMeasurement;
+  let outputChannels = numChannels;
+  if (normalize || musicNames.size > 0) {
+    let samples: Float32Array[];
+    if (normalize) {
+      samples = Array.from(
+        { length: numChannels },
+        () => new Float32Array(currentFrame),
+      );
+      let offset = 0;
+      for (const chunk of sampleChunks) {
+        for (let ch = 0; ch < numChannels; ch++) {
+          samples[ch].set(chunk[ch], offset);
+        }
+        offset += chunk[0].length;
+      }
+
+      normalizeLoudness(samples, sampleRate, {
+        targetLufs: loudnessTarget,
+        truePeakLimit,
+      });
+    } else {
+      samples = pcmToFloat32(
+        Buffer.concat(audioChunks),
+        numChannels,
+        bitsPerSample,
+      );
     }
+
+    // Mix music under the speech, moving the segments after the intro
+    if (music && musicNames.size > 0) {
+      const mix = mixMusic(samples, sampleRate, {
+        segments: manifestSegments,
+        scenes,
+        tracks: await loadMusicTracks(music, musicNames, sampleRate, musicDir),
+        intro: music.intro,
+        outro: music.outro,
+      });
+      samples = mix.channels;
+      outputChannels = samples.length;
+      currentFrame = samples[0].length;
+
+      const introMs = framesToMs(mix.introFrames);
+      for (const segment of manifestSegments) {
+        segment.startMs += introMs;
+        segment.endMs += introMs;
+      }
+
+      // Beds add to the speech peaks, so the ceiling needs enforcing again
+      if (normalize) {
+        limitTruePeak(samples, sampleRate, truePeakLimit);
+      }
+    }
+
+    loudness = measureLoudness(samples, sampleRate);
+    combinedAudioData = float32ToPcm(samples, bitsPerSample);
+  } else {
+    combinedAudioData = Buffer.concat(audioChunks);
+    loudness = measureLoudness(
+      pcmToFloat32(combinedAudioData, numChannels, bitsPerSample),
+      sampleRate,
+    );
   }
 
-  // Combine all audio chunks
-  const combinedAudioData = Buffer.concat(audioChunks);
+  return {
+    data: combinedAudioData,
+    pcm: { sampleRate, numChannels: outputChannels, bitsPerSample },
+    totalDurationMs: framesToMs(currentFrame),
+    segments: manifestSegments,
+    loudness,
+  };
+}
 
-  // Create WAV header for the combined file
-  const wavHeader = createWavHeader(
-    combinedAudioData.length,
-    numChannels,
-    sampleRate,
-    bitsPerSample,
+/**
+ * Stitch multiple WAV files together and encode the result
+ */
+export async function stitchAudioFiles(
+  files: AudioFileInfo[],
+  outputPath: string,
+  options: StitchOptions = {},
+): Promise<StitchResult> {
+  const {
+    format = "wav",
+    title = "Audiobook",
+    sourceFile = "unknown",
+    chapters = [],
+    normalize = false,
+    loudnessTarget = DEFAULT_LOUDNESS_TARGET,
+  } = options;
+  const { data, pcm, totalDurationMs, segments, loudness } = await renderAudio(
+    files,
+    options,
   );
 
-  // Combine header and data
-  const finalBuffer = Buffer.concat([wavHeader, combinedAudioData]);
+  // Encode to the configured output format
+  let finalBuffer: Buffer;
+  if (isEncodedFormat(format)) {
+    finalBuffer = await encodeAudio(data, format, pcm);
+  } else {
+    const wavHeader = createWavHeader(
+      data.length,
+      pcm.numChannels,
+      pcm.sampleRate,
+      pcm.bitsPerSample,
+    );
+    finalBuffer = Buffer.concat([wavHeader, data]);
+  }
 
   // Ensure output directory exists
   await mkdir(dirname(outputPath), { recursive: true });
@@ -309,24 +885,75 @@ export async function stitchAudioFiles(
     title,
     sourceFile,
     outputFile: basename(outputPath),
-    totalDurationMs: currentPositionMs,
-    format: "wav",
-    sampleRate,
-    speakers: [...new Set(sortedFiles.map((f) => f.speaker))],
-    segments: manifestSegments,
+    totalDurationMs: totalDurationMs,
+    format,
+    sampleRate: pcm.sampleRate,
+    speakers: [
+      ...new Set(
+        segments.filter((s) => s.kind !== "sfx").map((s) => s.speaker),
+      ),
+    ],
+    segments,
+    chapters: buildManifestChapters(chapters, segments, totalDurationMs),
     generatedAt: new Date().toISOString(),
-    provider: "gemini",
+    provider: getManifestProvider(segments),
   };
 
   return {
     outputPath,
-    totalDurationMs: currentPositionMs,
-    segmentCount: sortedFiles.length,
+    totalDurationMs: totalDurationMs,
+    segmentCount: files.length,
     fileSize: fileStats.size,
     manifest,
+    loudness,
+    loudnessTarget: normalize ? loudnessTarget : undefined,
   };
 }
 
+/**
+ * Stitch one file per chapter, titled after the chapter. Chapters without
+ * segments are skipped. The intro plays only before the first chapter and
+ * the outro only after the last, as they do in the whole book.
+ */
+export async function stitchChapterFiles(
+  files: AudioFileInfo[],
+  chapters: Chapter[],
+  getOutputPath: (chapterIndex: number) => string,
+  options: StitchOptions = {},
+): Promise<StitchResult[]> {
+  const written = chapters
+    .map((chapter, i) => ({
+      chapter,
+      outputPath: getOutputPath(i),
+      files: files.filter(
+        (f) =>
+          f.index >= chapter.startSegmentIndex &&
+          f.index <= chapter.endSegmentIndex,
+      ),
+    }))
+    .filter((c) => c.files.length > 0);
+
+  const results: StitchResult[] = [];
+  for (let i = 0; i < written.length; i++) {
+    const { chapter, outputPath, files: chapterFiles } = written[i];
+    const music = options.music && {
+      ...options.music,
+      intro: i === 0 ? options.music.intro : undefined,
+      outro: i === written.length - 1 ? options.music.outro : undefined,
+    };
+    results.push(
+      await stitchAudioFiles(chapterFiles, outputPath, {
+        ...options,
+        music,
+        title: chapter.title,
+        chapters: [],
+      }),
+    );
+  }
+
+  return results;
+}
+
 /**
  * Stitch cached segments together
  */
@@ -336,6 +963,8 @@ export async function stitchCachedSegments(
   audioConfig: AudioConfig,
   storyPath: string,
   title?: string,
+  chapters?: Chapter[],
+  scenes?: Scene[],
 ): Promise<StitchResult> {
   const files: AudioFileInfo[] = cachedSegments.map(({ segment, cached }) => ({
     path: cached.audioPath,
@@ -343,6 +972,8 @@ export async function stitchCachedSegments(
     speaker: segment.speaker,
     text: segment.text,
     durationMs: cached.durationMs,
+    pauseBeforeMs: segment.pauseBeforeMs,
+    paragraphStart: segment.paragraphStart,
   }));
 
   return stitchAudioFiles(files, outputPath, {
@@ -350,9 +981,96 @@ export async function stitchCachedSegments(
     sampleRate: audioConfig.sampleRate,
     numChannels: 1,
     bitsPerSample: audioConfig.bitDepth,
+    format: audioConfig.format,
     title: title || basename(storyPath, extname(storyPath)),
     sourceFile: storyPath,
+    chapters,
+    normalize: audioConfig.normalize,
+    loudnessTarget: audioConfig.loudnessTarget,
+    truePeakLimit: audioConfig.truePeakLimit,
+    pauses: audioConfig.pauses,
+    trimSilence: audioConfig.trimSilence,
+    silenceThreshold: audioConfig.silenceThreshold,
+    music: audioConfig.music,
+    scenes,
+  });
+}
+
+// ============================================================================
+// M4B Export
+// ============================================================================
+
+/**
+ * Result of an M4B export
+ */
+export interface M4bExportResult {
+  /** Path to the output file */
+  outputPath: string;
+  /** Total duration in milliseconds */
+  totalDurationMs: number;
+  /** Number of chapters written */
+  chapterCount: number;
+  /** Output file size in bytes */
+  fileSize: number;
+}
+
+/**
+ * Export an M4B audiobook with chapters. The segments go through the same
+ * stitching as the other formats, so the book sounds the same; only the
+ * encoding differs.
+ */
+export async function exportM4b(
+  files: AudioFileInfo[],
+  outputPath: string,
+  options: Omit<StitchOptions, "format"> & {
+    author?: string;
+    /** Path to a JPEG or PNG cover image */
+    coverPath?: string;
+    /** AAC bitrate in bits per second */
+    bitrate?: number;
+  } = {},
+): Promise<M4bExportResult> {
+  const { title = "Audiobook", author, coverPath, chapters = [] } = options;
+
+  if (files.length === 0) {
+    throw new Error("No segments to export");
+  }
+
+  const { data, pcm, totalDurationMs, segments } = await renderAudio(
+    files,
+    options,
+  );
+
+  // Without chapters the whole book is one chapter
+  const manifestChapters = buildManifestChapters(
+    chapters,
+    segments,
+    totalDurationMs,
+  );
+  const m4bChapters =
+    manifestChapters.length > 0
+      ? manifestChapters.map((c) => ({ title: c.title, startMs: c.startMs }))
+      : [{ title, startMs: 0 }];
+
+  const cover = coverPath ? await readFile(coverPath) : undefined;
+
+  const m4b = await encodeM4b(data, pcm, {
+    title,
+    author,
+    cover,
+    chapters: m4bChapters,
+    bitrate: options.bitrate,
   });
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, m4b);
+
+  return {
+    outputPath,
+    totalDurationMs,
+    chapterCount: m4bChapters.length,
+    fileSize: m4b.length,
+  };
 }
 
 /**
@@ -374,7 +1092,9 @@ export async function loadManifest(
 ): Promise<AudiobookManifest | null> {
   try {
     const content = await readFile(manifestPath, "utf-8");
-    return JSON.parse(content) as AudiobookManifest;
+    const manifest = JSON.parse(content) as AudiobookManifest;
+    // Manifests written before chapter support have no chapters field
+    return { ...manifest, chapters: manifest.chapters ?? [] };
   } catch {
     return null;
   }
@@ -484,6 +1204,18 @@ export function getStitchSummary(result: StitchResult): string {
   lines.push(`Segments: ${result.segmentCount}`);
   lines.push(`File size: ${formatFileSize(result.fileSize)}`);
   lines.push(`Speakers: ${result.manifest.speakers.join(", ")}`);
+  if (result.manifest.chapters.length > 0) {
+    lines.push(`Chapters: ${result.manifest.chapters.length}`);
+  }
+  if (result.loudness) {
+    const target =
+      result.loudnessTarget !== undefined
+        ? ` (normalized to ${result.loudnessTarget} LUFS)`
+        : "";
+    lines.push(
+      `Loudness: ${formatLoudness(result.loudness.integratedLufs, "LUFS")} integrated, ${formatLoudness(result.loudness.truePeakDbtp, "dBTP")} true peak${target}`,
+    );
+  }
 
   return lines.join("\n");
 }
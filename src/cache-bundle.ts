@@ -0,0 +1,436 @@
+/**
+ * Portable cache bundles
+ *
+ * Handles:
+ * - Packing a story's cache manifest and segment audio into a tar archive
+ * - Verifying the audio checksums of a bundle
+ * - Merging a bundle into a local cache without replacing newer entries,
+ *   pointing each entry at its file in the local output directory
+ *
+ * A bundle holds `bundle.json` (the story name and a checksum per file),
+ * `manifest.json` (the story's cache manifest, with audio paths relative to
+ * the bundle) and the audio under `audio/`. Multi-speaker group recordings
+ * aren't bundled; the segments cut from them are. Entries whose blob key or
+ * audio path could point outside the cache are rejected on import.
+ */
+
+import { access, mkdir, readFile, writeFile } from "fs/promises";
+import { basename, dirname } from "path";
+import { createHash } from "crypto";
+import type { CacheManifest, CachedSegment } from "./types.js";
+import {
+  createEmptyManifest,
+  getCachedAudioPath,
+  hashText,
+  loadCacheManifest,
+  saveCacheManifest,
+  CACHE_VERSION,
+} from "./cache.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Bundle format version
+ */
+export const CACHE_BUNDLE_VERSION = "1";
+
+/**
+ * Contents of a bundle's `bundle.json`
+ */
+export interface CacheBundleInfo {
+  /** Bundle format version */
+  version: string;
+  /** Name of the story file the cache belongs to, without extension */
+  story: string;
+  /** When the bundle was created */
+  createdAt: string;
+  /** MD5 of each audio file in the bundle, by path in the bundle */
+  checksums: Record<string, string>;
+}
+
+/**
+ * A file in a tar archive
+ */
+export interface TarEntry {
+  /** Path in the archive */
+  name: string;
+  /** File contents */
+  data: Buffer;
+}
+
+/**
+ * Outcome of importing a bundle
+ */
+export interface CacheImportResult {
+  /** Story name the segments were imported for */
+  story: string;
+  /** Segments added to or updated in the local cache */
+  imported: number;
+  /** Segments kept because the local entry is as new or newer */
+  skipped: number;
+  /** Segments dropped because their audio failed the checksum */
+  corrupt: string[];
+}
+
+// ============================================================================
+// Tar Archive
+// ============================================================================
+
+const TAR_BLOCK = 512;
+
+/**
+ * Write a number as a NUL-terminated octal field
+ */
+function writeOctal(
+  header: Buffer,
+  value: number,
+  offset: number,
+  length: number,
+): void {
+  header.write(
+    value.toString(8).padStart(length - 1, "0") + "\0",
+    offset,
+    length,
+    "ascii",
+  );
+}
+
+/**
+ * Sum the header bytes, counting the checksum field as spaces
+ */
+function tarChecksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+/**
+ * Build a ustar archive of regular files. File timestamps are left at zero;
+ * the manifest records when each segment was generated.
+ */
+export function createTar(entries: TarEntry[]): Buffer {
+  const parts: Buffer[] = [];
+
+  for (const entry of entries) {
+    if (Buffer.byteLength(entry.name) > 100) {
+      throw new Error(`Tar entry name is too long: ${entry.name}`);
+    }
+
+    const header = Buffer.alloc(TAR_BLOCK);
+    header.write(entry.name, 0, 100, "utf-8");
+    writeOctal(header, 0o644, 100, 8); // mode
+    writeOctal(header, 0, 108, 8); // uid
+    writeOctal(header, 0, 116, 8); // gid
+    writeOctal(header, entry.data.length, 124, 12);
+    writeOctal(header, 0, 136, 12); // mtime
+    header.write("0", 156, 1, "ascii"); // regular file
+    header.write("ustar\0", 257, 6, "ascii");
+    header.write("00", 263, 2, "ascii");
+    header.write(
+      tarChecksum(header).toString(8).padStart(6, "0") + "\0 ",
+      148,
+      8,
+      "ascii",
+    );
+
+    const padding = (TAR_BLOCK - (entry.data.length % TAR_BLOCK)) % TAR_BLOCK;
+    parts.push(header, entry.data, Buffer.alloc(padding));
+  }
+
+  // Two empty blocks end the archive
+  parts.push(Buffer.alloc(TAR_BLOCK * 2));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Read the regular files of a tar archive
+ */
+export function readTar(data: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+
+  while (offset + TAR_BLOCK <= data.length) {
+    const header = data.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((b) => b === 0)) {
+      break;
+    }
+
+    const field = (start: number, length: number) =>
+      header.toString("utf-8", start, start + length).replace(/\0[\s\S]*$/, "");
+    const checksum = parseInt(field(148, 8).trim(), 8);
+    if (checksum !== tarChecksum(header)) {
+      throw new Error(`Corrupt tar header at byte ${offset}`);
+    }
+
+    const prefix = field(345, 155);
+    const name = prefix ? `${prefix}/${field(0, 100)}` : field(0, 100);
+    const size = parseInt(field(124, 12).trim() || "0", 8);
+    const type = field(156, 1);
+    const start = offset + TAR_BLOCK;
+    if (start + size > data.length) {
+      throw new Error(`Truncated tar entry: ${name}`);
+    }
+
+    if (type === "0" || type === "") {
+      entries.push({ name, data: data.subarray(start, start + size) });
+    }
+    offset = start + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+  }
+
+  return entries;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Check if a file exists
+ */
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * MD5 of a file's contents
+ */
+function checksum(data: Buffer): string {
+  return createHash("md5").update(data).digest("hex");
+}
+
+/**
+ * Pack a story's cache into a bundle. Segments whose audio is missing are
+ * left out.
+ */
+export async function createCacheBundle(
+  outputDir: string,
+  story: string,
+): Promise<{ bundle: Buffer; segments: number }> {
+  const storyHash = hashText(story);
+  const manifest = await loadCacheManifest(outputDir, storyHash);
+  if (!manifest) {
+    throw new Error(`No cache found for ${story}`);
+  }
+
+  const audio = new Map<string, Buffer>();
+  const segments: CachedSegment[] = [];
+  for (const segment of manifest.segments) {
+    const path = getCachedAudioPath(outputDir, segment, storyHash);
+    if (!segment.success || !(await fileExists(path))) {
+      continue;
+    }
+    const name = `audio/${basename(path)}`;
+    if (!audio.has(name)) {
+      audio.set(name, await readFile(path));
+    }
+    segments.push({ ...segment, audioPath: name });
+  }
+
+  const info: CacheBundleInfo = {
+    version: CACHE_BUNDLE_VERSION,
+    story,
+    createdAt: new Date().toISOString(),
+    checksums: Object.fromEntries(
+      [...audio].map(([name, data]) => [name, checksum(data)]),
+    ),
+  };
+  const bundledManifest: CacheManifest = {
+    ...manifest,
+    segments,
+    groups: undefined,
+  };
+
+  return {
+    bundle: createTar([
+      { name: "bundle.json", data: Buffer.from(JSON.stringify(info, null, 2)) },
+      {
+        name: "manifest.json",
+        data: Buffer.from(JSON.stringify(bundledManifest, null, 2)),
+      },
+      ...[...audio].map(([name, data]) => ({ name, data })),
+    ]),
+    segments: segments.length,
+  };
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Blob keys are MD5 hex digests
+ */
+const BLOB_KEY_PATTERN = /^[a-f0-9]{32}$/;
+
+/**
+ * Bundled audio sits directly under `audio/`
+ */
+const BUNDLE_AUDIO_PATTERN = /^audio\/(?!\.\.?$)[^/\\]+$/;
+
+/**
+ * Read and check the bundle metadata
+ */
+function readBundle(entries: TarEntry[]): {
+  info: CacheBundleInfo;
+  manifest: CacheManifest;
+  audio: Map<string, Buffer>;
+} {
+  const files = new Map(entries.map((e) => [e.name, e.data]));
+  const infoData = files.get("bundle.json");
+  const manifestData = files.get("manifest.json");
+  if (!infoData || !manifestData) {
+    throw new Error(
+      "Not a cache bundle (missing bundle.json or manifest.json)",
+    );
+  }
+
+  const info = JSON.parse(infoData.toString("utf-8")) as CacheBundleInfo;
+  const manifest = JSON.parse(manifestData.toString("utf-8")) as CacheManifest;
+  if (info.version !== CACHE_BUNDLE_VERSION) {
+    throw new Error(`Unsupported cache bundle version: ${info.version}`);
+  }
+  if (
+    typeof info.story !== "string" ||
+    typeof info.checksums !== "object" ||
+    info.checksums === null ||
+    Array.isArray(info.checksums)
+  ) {
+    throw new Error(
+      "Not a cache bundle (bundle.json is missing its story or checksums)",
+    );
+  }
+  if (!Array.isArray(manifest.segments)) {
+    throw new Error("Not a cache bundle (manifest.json has no segments)");
+  }
+  if (manifest.version !== CACHE_VERSION) {
+    throw new Error(
+      `Bundle cache version ${manifest.version} doesn't match ${CACHE_VERSION}`,
+    );
+  }
+  // Imported paths are built from these, so check them before writing
+  for (const entry of manifest.segments) {
+    if (entry.blobKey !== undefined && !BLOB_KEY_PATTERN.test(entry.blobKey)) {
+      throw new Error(
+        `Invalid bundle entry ${entry.segmentId}: blob key ${entry.blobKey}`,
+      );
+    }
+    if (!BUNDLE_AUDIO_PATTERN.test(entry.audioPath)) {
+      throw new Error(
+        `Invalid bundle entry ${entry.segmentId}: audio path ${entry.audioPath}`,
+      );
+    }
+  }
+
+  return { info, manifest, audio: files };
+}
+
+/**
+ * Merge a bundle into the local cache, under the story it was exported from
+ * or `story` if given.
+ *
+ * Audio that fails its checksum is skipped. Local entries generated at the
+ * same time or later than the bundled ones are kept, and blobs already in
+ * the shared segment store are never overwritten.
+ */
+export async function importCacheBundle(
+  outputDir: string,
+  data: Buffer,
+  story?: string,
+): Promise<CacheImportResult> {
+  const { info, manifest: bundled, audio } = readBundle(readTar(data));
+  const storyName = story ?? info.story;
+  const storyHash = hashText(storyName);
+
+  let manifest =
+    (await loadCacheManifest(outputDir, storyHash)) ??
+    createEmptyManifest(
+      bundled.storyPath,
+      bundled.storyHash,
+      bundled.configHash,
+    );
+  const result: CacheImportResult = {
+    story: storyName,
+    imported: 0,
+    skipped: 0,
+    corrupt: [],
+  };
+
+  for (const entry of bundled.segments) {
+    const file = audio.get(entry.audioPath);
+    if (!file || checksum(file) !== info.checksums[entry.audioPath]) {
+      result.corrupt.push(entry.segmentId);
+      continue;
+    }
+
+    const local = manifest.segments.find(
+      (s) => s.segmentId === entry.segmentId,
+    );
+    if (
+      local?.success &&
+      local.generatedAt >= entry.generatedAt &&
+      (await fileExists(getCachedAudioPath(outputDir, local, storyHash)))
+    ) {
+      result.skipped++;
+      continue;
+    }
+
+    const imported: CachedSegment = {
+      ...entry,
+      audioPath: getCachedAudioPath(
+        outputDir,
+        { ...entry, audioPath: basename(entry.audioPath) },
+        storyHash,
+      ),
+    };
+    if (!entry.blobKey || !(await fileExists(imported.audioPath))) {
+      await mkdir(dirname(imported.audioPath), { recursive: true });
+      await writeFile(imported.audioPath, file);
+    }
+
+    manifest = {
+      ...manifest,
+      segments: [
+        ...manifest.segments.filter((s) => s.segmentId !== entry.segmentId),
+        imported,
+      ].sort((a, b) => a.index - b.index),
+    };
+    result.imported++;
+  }
+
+  await saveCacheManifest(outputDir, manifest, storyHash);
+  return result;
+}
+
+/**
+ * Write a story's cache bundle to a file
+ */
+export async function exportCacheBundle(
+  outputDir: string,
+  story: string,
+  bundlePath: string,
+): Promise<number> {
+  const { bundle, segments } = await createCacheBundle(outputDir, story);
+  await mkdir(dirname(bundlePath), { recursive: true });
+  await writeFile(bundlePath, bundle);
+  return segments;
+}
+
+/**
+ * Import a cache bundle file
+ */
+export async function importCacheBundleFile(
+  outputDir: string,
+  bundlePath: string,
+  story?: string,
+): Promise<CacheImportResult> {
+  return importCacheBundle(outputDir, await readFile(bundlePath), story);
+}
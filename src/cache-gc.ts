@@ -0,0 +1,311 @@
+/**
+ * Cache garbage collection
+ *
+ * Handles:
+ * - Finding cached audio that no manifest uses (blobs, per-story segment
+ *   files and multi-speaker group recordings)
+ * - Expiring audio no generation has used for a given time
+ * - Evicting the least recently used audio to keep the cache within a size
+ *   budget
+ * - Removing the files and dropping their entries from the manifests
+ */
+
+import { readdir, stat, unlink } from "fs/promises";
+import { join } from "path";
+import type { CachedSegment } from "./types.js";
+import {
+  getCachedAudioPath,
+  getBlobStoreDir,
+  listStoryCaches,
+  rebuildBlobRefs,
+  saveBlobRefs,
+  saveCacheManifest,
+} from "./cache.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Why a file is collected
+ */
+export type CacheGcReason = "unreferenced" | "expired" | "evicted";
+
+/**
+ * Limits the collected cache must stay within
+ */
+export interface CacheGcBudget {
+  /** Maximum total size of cached audio in bytes */
+  maxSizeBytes?: number;
+  /** Remove audio not used for this long, in milliseconds */
+  olderThanMs?: number;
+  /** Current time (defaults to now) */
+  now?: Date;
+}
+
+/**
+ * A cached audio file to remove
+ */
+export interface CacheGcRemoval {
+  /** Path of the audio file */
+  path: string;
+  /** File size in bytes */
+  bytes: number;
+  /** Why the file is removed */
+  reason: CacheGcReason;
+  /** When a generation last used the file (null if nothing uses it) */
+  lastAccessedAt: string | null;
+}
+
+/**
+ * What a collection removes
+ */
+export interface CacheGcPlan {
+  /** Files to remove (evicted files least recently used first) */
+  removals: CacheGcRemoval[];
+  /** Size of all cached audio in bytes */
+  totalBytes: number;
+  /** Bytes the removals free */
+  reclaimableBytes: number;
+}
+
+/**
+ * A cached audio file and when it was last used
+ */
+interface CacheFile {
+  path: string;
+  bytes: number;
+  lastAccessedAt: string | null;
+}
+
+// ============================================================================
+// Budgets
+// ============================================================================
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const AGE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a size such as "500MB" or "2G" into bytes
+ */
+export function parseByteSize(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([kmgt]?)(i?b)?$/i);
+  if (!match) {
+    throw new Error(`Invalid size: ${value} (use e.g. 500MB or 2GB)`);
+  }
+  const unit = `${match[2].toLowerCase()}b`;
+  return Math.floor(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
+
+/**
+ * Parse an age such as "30d" or "12h" into milliseconds
+ */
+export function parseAge(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*([mhdw])$/i);
+  if (!match) {
+    throw new Error(`Invalid age: ${value} (use e.g. 45m, 12h, 30d or 2w)`);
+  }
+  return parseFloat(match[1]) * AGE_UNITS[match[2].toLowerCase()];
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+/**
+ * When a generation last used a cached segment
+ */
+function getLastAccess(segment: CachedSegment): string {
+  return segment.lastAccessedAt ?? segment.generatedAt;
+}
+
+/**
+ * Keep the later of two timestamps
+ */
+function latest(a: string | undefined, b: string): string {
+  return a && a > b ? a : b;
+}
+
+/**
+ * List the .wav files in a directory with their sizes
+ */
+async function listWavFiles(
+  dir: string,
+): Promise<Array<{ path: string; bytes: number }>> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const files: Array<{ path: string; bytes: number }> = [];
+  for (const name of names.filter((n) => n.endsWith(".wav")).sort()) {
+    const path = join(dir, name);
+    files.push({ path, bytes: (await stat(path)).size });
+  }
+  return files;
+}
+
+/**
+ * Find every cached audio file with its last use, or null if no manifest
+ * references it
+ */
+async function listCacheFiles(outputDir: string): Promise<CacheFile[]> {
+  const caches = await listStoryCaches(outputDir);
+  const lastUse = new Map<string, string>();
+
+  for (const { dir, storyHash, manifest } of caches) {
+    const groupPaths = new Map<string, string>();
+    for (const group of manifest?.groups ?? []) {
+      const path = join(dir, "groups", `${group.groupId}.wav`);
+      groupPaths.set(group.groupId, path);
+      lastUse.set(path, latest(lastUse.get(path), group.generatedAt));
+    }
+    for (const segment of manifest?.segments ?? []) {
+      if (!segment.success) {
+        continue;
+      }
+      const path = getCachedAudioPath(outputDir, segment, storyHash);
+      lastUse.set(path, latest(lastUse.get(path), getLastAccess(segment)));
+      // A group is in use for as long as the segments cut from it are
+      const groupPath = segment.groupId && groupPaths.get(segment.groupId);
+      if (groupPath) {
+        lastUse.set(
+          groupPath,
+          latest(lastUse.get(groupPath), getLastAccess(segment)),
+        );
+      }
+    }
+  }
+
+  const dirs = caches.flatMap(({ dir }) => [
+    join(dir, "segments"),
+    join(dir, "groups"),
+  ]);
+  const blobDir = getBlobStoreDir(outputDir);
+  try {
+    for (const entry of await readdir(blobDir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        dirs.push(join(blobDir, entry.name));
+      }
+    }
+  } catch {
+    // No shared segment store yet
+  }
+
+  const files: CacheFile[] = [];
+  for (const dir of dirs) {
+    for (const file of await listWavFiles(dir)) {
+      files.push({ ...file, lastAccessedAt: lastUse.get(file.path) ?? null });
+    }
+  }
+  return files;
+}
+
+/**
+ * Work out which cached audio to remove. Files no manifest references are
+ * always removed; `olderThanMs` expires files no generation has used for
+ * that long, and `maxSizeBytes` evicts the least recently used files until
+ * the rest fit.
+ */
+export async function planCacheGc(
+  outputDir: string,
+  budget: CacheGcBudget = {},
+): Promise<CacheGcPlan> {
+  const files = await listCacheFiles(outputDir);
+  const now = (budget.now ?? new Date()).getTime();
+  const removals: CacheGcRemoval[] = [];
+  const kept: CacheFile[] = [];
+
+  for (const file of files) {
+    if (file.lastAccessedAt === null) {
+      removals.push({ ...file, reason: "unreferenced" });
+    } else if (
+      budget.olderThanMs !== undefined &&
+      now - new Date(file.lastAccessedAt).getTime() > budget.olderThanMs
+    ) {
+      removals.push({ ...file, reason: "expired" });
+    } else {
+      kept.push(file);
+    }
+  }
+
+  if (budget.maxSizeBytes !== undefined) {
+    let size = kept.reduce((sum, f) => sum + f.bytes, 0);
+    const byAge = [...kept].sort((a, b) =>
+      a.lastAccessedAt!.localeCompare(b.lastAccessedAt!),
+    );
+    for (const file of byAge) {
+      if (size <= budget.maxSizeBytes) {
+        break;
+      }
+      removals.push({ ...file, reason: "evicted" });
+      size -= file.bytes;
+    }
+  }
+
+  return {
+    removals,
+    totalBytes: files.reduce((sum, f) => sum + f.bytes, 0),
+    reclaimableBytes: removals.reduce((sum, r) => sum + r.bytes, 0),
+  };
+}
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+/**
+ * Remove the planned files, drop the manifest entries that used them and
+ * recount the blob references
+ */
+export async function applyCacheGc(
+  outputDir: string,
+  plan: CacheGcPlan,
+): Promise<void> {
+  const removed = new Set(plan.removals.map((r) => r.path));
+  for (const path of removed) {
+    try {
+      await unlink(path);
+    } catch {
+      // Already gone
+    }
+  }
+
+  for (const { dir, storyHash, manifest } of await listStoryCaches(outputDir)) {
+    if (!manifest) {
+      continue;
+    }
+    const segments = manifest.segments.filter(
+      (s) => !removed.has(getCachedAudioPath(outputDir, s, storyHash)),
+    );
+    const groups = manifest.groups?.filter(
+      (g) => !removed.has(join(dir, "groups", `${g.groupId}.wav`)),
+    );
+    if (
+      segments.length !== manifest.segments.length ||
+      groups?.length !== manifest.groups?.length
+    ) {
+      await saveCacheManifest(
+        outputDir,
+        { ...manifest, segments, groups },
+        storyHash,
+      );
+    }
+  }
+
+  await saveBlobRefs(outputDir, await rebuildBlobRefs(outputDir));
+}
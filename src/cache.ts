@@ -7,6 +7,9 @@
  * - Support resuming interrupted generations
  * - Clean up stale cache entries
  * - Recover cached segments from existing audio files
+ * - Track multi-speaker groups the segments were cut from
+ * - Store segment audio once in a content-addressed store shared by all
+ *   stories, with reference counts for cleanup
  */
 
 import {
@@ -17,18 +20,30 @@ import {
   unlink,
   readdir,
   stat,
+  rm,
 } from "fs/promises";
 import { join, basename } from "path";
 import { createHash } from "crypto";
 import type {
+  BlobRefs,
   CacheManifest,
   CachedSegment,
+  CachedSegmentGroup,
+  GroupSegmentTiming,
   SegmentHash,
   Segment,
   Config,
   GenerationStats,
+  StoryCache,
 } from "./types.js";
-import { hashVoiceConfig, getVoiceConfig } from "./config.js";
+import {
+  hashVoiceConfig,
+  getVoiceConfig,
+  getVoiceProvider,
+  getVoiceProviderName,
+  hasNativeSpeed,
+  getStylePrompt,
+} from "./config.js";
 
 /**
  * Cache directory name
@@ -45,6 +60,16 @@ export const CACHE_MANIFEST_NAME = "manifest.json";
  */
 export const CACHE_VERSION = "1.0.0";
 
+/**
+ * Shared segment store directory name, inside the cache directory
+ */
+export const BLOB_STORE_DIR_NAME = "blobs";
+
+/**
+ * Reference index of the shared segment store
+ */
+export const BLOB_REFS_NAME = "refs.json";
+
 /**
  * Generate a hash of text content
  */
@@ -67,10 +92,33 @@ export function generateSegmentHash(
   config: Config,
 ): SegmentHash {
   const voiceConfig = getVoiceConfig(config, segment.speaker);
-  const textHash = hashText(segment.text);
-  const voiceHash = hashVoiceConfig(voiceConfig);
+  // Normalized text is what's read, so it's what's hashed (segments that
+  // normalization leaves alone keep their hash)
+  const textHash = hashText(segment.normalizedText ?? segment.text);
+  // Hash the effective provider so switching providers invalidates the cache.
+  // Gemini was the only provider before routing, so it's left out to keep
+  // existing caches valid.
+  const provider = getVoiceProviderName(config, voiceConfig);
+  // Speed and pitch applied after generation don't change the provider
+  // output, so they're left out of the hash whether set or not and the raw
+  // audio stays cached when they're tweaked. Pitch is never native.
+  // A line's inline direction hashes as part of its style prompt, so
+  // re-directing one line only regenerates that line.
+  const voiceHash = hashVoiceConfig({
+    ...voiceConfig,
+    stylePrompt: getStylePrompt(voiceConfig, segment.style),
+    provider: provider === "gemini" ? undefined : provider,
+    speed: hasNativeSpeed(config, voiceConfig) ? voiceConfig.speed : undefined,
+    pitch: undefined,
+  });
+  // Only the lexicon entries the segment uses are hashed, and segments
+  // without any keep their old hash
+  const pronunciations =
+    segment.pronunciations && Object.keys(segment.pronunciations).length > 0
+      ? `-${hashText(JSON.stringify(segment.pronunciations))}`
+      : "";
   const combinedHash = createHash("md5")
-    .update(`${textHash}-${voiceHash}`)
+    .update(`${textHash}-${voiceHash}${pronunciations}`)
     .digest("hex");
 
   return {
@@ -118,6 +166,50 @@ export function getCachedSegmentPath(
   );
 }
 
+/**
+ * Get the path for a cached multi-speaker group audio file
+ */
+export function getCachedGroupPath(
+  outputDir: string,
+  groupId: string,
+  storyHash?: string,
+): string {
+  return join(getCacheDir(outputDir, storyHash), "groups", `${groupId}.wav`);
+}
+
+/**
+ * Get the directory of the shared segment store
+ */
+export function getBlobStoreDir(outputDir: string): string {
+  return join(outputDir, CACHE_DIR_NAME, BLOB_STORE_DIR_NAME);
+}
+
+/**
+ * Get the path of a blob in the shared segment store
+ */
+export function getBlobPath(outputDir: string, blobKey: string): string {
+  return join(
+    getBlobStoreDir(outputDir),
+    blobKey.substring(0, 2),
+    `${blobKey}.wav`,
+  );
+}
+
+/**
+ * Get the key a segment's audio is stored under in the shared segment store:
+ * its text and voice hash, plus the provider and model that read it.
+ * Segments with the same key share one file, whichever story, file name or
+ * draft they come from.
+ */
+export function getBlobKey(segment: Segment, config: Config): string {
+  const voiceConfig = getVoiceConfig(config, segment.speaker);
+  const provider = getVoiceProviderName(config, voiceConfig);
+  const model = getVoiceProvider(config, voiceConfig).model ?? "";
+  return hashText(
+    `${generateSegmentHash(segment, config).combinedHash}-${provider}-${model}`,
+  );
+}
+
 /**
  * Check if a file exists
  */
@@ -132,7 +224,9 @@ async function fileExists(path: string): Promise<boolean> {
 
 /**
  * Recover cached segments from existing audio files
- * This is useful when the manifest was lost but audio files still exist
+ * This is useful when the manifest was lost but audio files still exist, and
+ * finds audio in the shared segment store that another story, an earlier
+ * file name or an earlier version of this one generated.
  */
 export async function recoverCachedSegments(
   outputDir: string,
@@ -143,20 +237,25 @@ export async function recoverCachedSegments(
   const recovered: CachedSegment[] = [];
   const cacheDir = getCacheDir(outputDir, storyHash);
   const segmentsDir = join(cacheDir, "segments");
+  const hasSegmentsDir = await fileExists(segmentsDir);
 
-  if (!(await fileExists(segmentsDir))) {
+  if (!hasSegmentsDir && !(await fileExists(getBlobStoreDir(outputDir)))) {
     return recovered;
   }
 
   for (const segment of segments) {
-    const audioPath = getCachedSegmentPath(
+    const blobKey = getBlobKey(segment, config);
+    const blobPath = getBlobPath(outputDir, blobKey);
+    const legacyPath = getCachedSegmentPath(
       outputDir,
       segment.id,
-      config.audio.format,
+      "wav",
       storyHash,
     );
+    const fromBlob = await fileExists(blobPath);
+    const audioPath = fromBlob ? blobPath : legacyPath;
 
-    if (await fileExists(audioPath)) {
+    if (fromBlob || (hasSegmentsDir && (await fileExists(legacyPath)))) {
       try {
         const fileStat = await stat(audioPath);
         const hash = generateSegmentHash(segment, config);
@@ -170,8 +269,12 @@ export async function recoverCachedSegments(
           fileSize: fileStat.size,
           hash,
           generatedAt: fileStat.mtime.toISOString(),
-          provider: config.provider.name,
+          provider: getVoiceProviderName(
+            config,
+            getVoiceConfig(config, segment.speaker),
+          ),
           success: true,
+          ...(fromBlob ? { blobKey } : {}),
         });
       } catch {
         // Ignore errors reading file stats
@@ -268,10 +371,162 @@ export async function saveCacheManifest(
   manifest.lastUpdated = new Date().toISOString();
   const content = JSON.stringify(manifest, null, 2);
   await writeFile(manifestPath, content, "utf-8");
+  await updateBlobRefs(outputDir, manifest, storyHash);
+}
+
+/**
+ * Get the blob keys a manifest uses
+ */
+function getManifestBlobKeys(manifest: CacheManifest): string[] {
+  return manifest.segments
+    .filter((s) => s.success && s.blobKey)
+    .map((s) => s.blobKey!);
+}
+
+/**
+ * List the story folders in the cache directory, starting with the legacy
+ * root cache
+ */
+export async function listStoryCaches(
+  outputDir: string,
+): Promise<StoryCache[]> {
+  const cacheDir = getCacheDir(outputDir);
+  if (!(await fileExists(cacheDir))) {
+    return [];
+  }
+
+  // The root cache's own audio folders aren't stories
+  const reserved = [BLOB_STORE_DIR_NAME, "segments", "groups"];
+  const folders = (await readdir(cacheDir, { withFileTypes: true }))
+    .filter((e) => e.isDirectory() && !reserved.includes(e.name))
+    .map((e) => e.name)
+    .sort();
+  const caches: StoryCache[] = [];
+  for (const storyHash of [undefined, ...folders]) {
+    let manifest: CacheManifest | null = null;
+    try {
+      manifest = JSON.parse(
+        await readFile(getCacheManifestPath(outputDir, storyHash), "utf-8"),
+      ) as CacheManifest;
+    } catch {
+      // Missing or unreadable manifests hold no references
+    }
+    caches.push({
+      folder: storyHash ?? CACHE_DIR_NAME,
+      dir: getCacheDir(outputDir, storyHash),
+      storyHash,
+      manifest,
+    });
+  }
+
+  return caches;
+}
+
+/**
+ * Rebuild the blob references from the manifests on disk
+ */
+export async function rebuildBlobRefs(outputDir: string): Promise<BlobRefs> {
+  const refs: BlobRefs = {};
+
+  for (const { folder, manifest } of await listStoryCaches(outputDir)) {
+    for (const key of new Set(manifest ? getManifestBlobKeys(manifest) : [])) {
+      refs[key] = [...(refs[key] ?? []), folder];
+    }
+  }
+
+  return refs;
+}
+
+/**
+ * Save the blob references
+ */
+export async function saveBlobRefs(
+  outputDir: string,
+  refs: BlobRefs,
+): Promise<void> {
+  await mkdir(getBlobStoreDir(outputDir), { recursive: true });
+  await writeFile(
+    join(getBlobStoreDir(outputDir), BLOB_REFS_NAME),
+    JSON.stringify(refs, null, 2),
+    "utf-8",
+  );
+}
+
+/**
+ * Load the blob references, rebuilding them if the index is missing or
+ * unreadable
+ */
+export async function loadBlobRefs(outputDir: string): Promise<BlobRefs> {
+  const refsPath = join(getBlobStoreDir(outputDir), BLOB_REFS_NAME);
+  if (await fileExists(refsPath)) {
+    try {
+      return JSON.parse(await readFile(refsPath, "utf-8")) as BlobRefs;
+    } catch {
+      // Fall through to rebuild
+    }
+  }
+  return rebuildBlobRefs(outputDir);
+}
+
+/**
+ * Record which blobs a story's manifest uses (none, if it's null)
+ */
+export async function updateBlobRefs(
+  outputDir: string,
+  manifest: CacheManifest | null,
+  storyHash?: string,
+): Promise<BlobRefs> {
+  const story = basename(getCacheDir(outputDir, storyHash));
+  const refs: BlobRefs = {};
+
+  for (const [key, stories] of Object.entries(await loadBlobRefs(outputDir))) {
+    const others = stories.filter((s) => s !== story);
+    if (others.length > 0) {
+      refs[key] = others;
+    }
+  }
+  for (const key of new Set(manifest ? getManifestBlobKeys(manifest) : [])) {
+    refs[key] = [...(refs[key] ?? []), story].sort();
+  }
+
+  await saveBlobRefs(outputDir, refs);
+  return refs;
+}
+
+/**
+ * Find the blobs in the shared segment store that no manifest uses
+ */
+export async function findUnreferencedBlobs(
+  outputDir: string,
+): Promise<string[]> {
+  const blobDir = getBlobStoreDir(outputDir);
+  if (!(await fileExists(blobDir))) {
+    return [];
+  }
+
+  const refs = await loadBlobRefs(outputDir);
+  const unreferenced: string[] = [];
+  const prefixes = (await readdir(blobDir, { withFileTypes: true }))
+    .filter((e) => e.isDirectory())
+    .map((e) => e.name);
+  for (const prefix of prefixes) {
+    for (const file of await readdir(join(blobDir, prefix))) {
+      const key = basename(file, ".wav");
+      if (file.endsWith(".wav") && !refs[key]?.length) {
+        unreferenced.push(key);
+      }
+    }
+  }
+
+  return unreferenced.sort();
 }
 
 /**
  * Check if a segment is cached and valid
+ *
+ * Segments are looked up by ID first, then by text and voice hash, which
+ * finds the audio of a repeated line whose occurrence number changed and of
+ * entries cached under an older ID scheme.
  */
 export function isSegmentCached(
   manifest: CacheManifest | null,
@@ -282,23 +537,42 @@ export function isSegmentCached(
     return null;
   }
 
+  // Verify hash matches (text and voice config haven't changed)
+  const currentHash = generateSegmentHash(segment, config);
   const cached = manifest.segments.find((s) => s.segmentId === segment.id);
-  if (!cached) {
-    return null;
+  if (
+    cached &&
+    cached.success &&
+    cached.hash.combinedHash === currentHash.combinedHash
+  ) {
+    return cached;
   }
 
-  // Check if the segment was successful
-  if (!cached.success) {
-    return null;
-  }
+  return (
+    manifest.segments.find(
+      (s) => s.success && s.hash.combinedHash === currentHash.combinedHash,
+    ) ?? null
+  );
+}
 
-  // Verify hash matches (text and voice config haven't changed)
-  const currentHash = generateSegmentHash(segment, config);
-  if (cached.hash.combinedHash !== currentHash.combinedHash) {
-    return null;
+/**
+ * Get where a cached segment's audio is in this output directory. The
+ * recorded `audioPath` is only trusted for its file name, so cache folders
+ * keep working after they're moved or copied to another machine.
+ */
+export function getCachedAudioPath(
+  outputDir: string,
+  cached: CachedSegment,
+  storyHash?: string,
+): string {
+  if (cached.blobKey) {
+    return getBlobPath(outputDir, cached.blobKey);
   }
-
-  return cached;
+  return join(
+    getCacheDir(outputDir, storyHash),
+    "segments",
+    basename(cached.audioPath),
+  );
 }
 
 /**
@@ -309,9 +583,7 @@ export async function verifyCachedSegment(
   cached: CachedSegment,
   storyHash?: string,
 ): Promise<boolean> {
-  const cacheDir = getCacheDir(outputDir, storyHash);
-  const audioPath = join(cacheDir, "segments", basename(cached.audioPath));
-  return fileExists(audioPath);
+  return fileExists(getCachedAudioPath(outputDir, cached, storyHash));
 }
 
 /**
@@ -327,6 +599,8 @@ export function updateCachedSegment(
     fileSize: number;
     success: boolean;
     error?: string;
+    groupId?: string;
+    blobKey?: string;
   },
 ): CacheManifest {
   const hash = generateSegmentHash(segment, config);
@@ -339,9 +613,14 @@ export function updateCachedSegment(
     fileSize: result.fileSize,
     hash,
     generatedAt: new Date().toISOString(),
-    provider: config.provider.name,
+    provider: getVoiceProviderName(
+      config,
+      getVoiceConfig(config, segment.speaker),
+    ),
     success: result.success,
     error: result.error,
+    groupId: result.groupId,
+    blobKey: result.blobKey,
   };
 
   // Remove existing entry if present
@@ -358,6 +637,158 @@ export function updateCachedSegment(
   };
 }
 
+/**
+ * Record cached segments under their current IDs and positions
+ *
+ * Entries found by hash under another ID are copied to the segment's ID, or
+ * renamed if their old ID is no longer in the story. Every entry of a
+ * current segment takes its current index, so the manifest stays in story
+ * order after lines are inserted or removed.
+ */
+export function relinkCachedSegments(
+  manifest: CacheManifest,
+  cachedSegments: Array<{ segment: Segment; cached: CachedSegment }>,
+  segments: Segment[],
+): CacheManifest {
+  const currentIndexes = new Map(segments.map((s) => [s.id, s.index]));
+  const moved = cachedSegments.filter(
+    ({ segment, cached }) => cached.segmentId !== segment.id,
+  );
+  const movedIds = new Set(moved.map(({ segment }) => segment.id));
+  const renamedIds = new Set(
+    moved
+      .map(({ cached }) => cached.segmentId)
+      .filter((id) => !currentIndexes.has(id)),
+  );
+
+  const kept = manifest.segments
+    .filter((s) => !movedIds.has(s.segmentId) && !renamedIds.has(s.segmentId))
+    .map((s) => {
+      const index = currentIndexes.get(s.segmentId);
+      return index === undefined || index === s.index ? s : { ...s, index };
+    });
+  const relinked = moved.map(({ segment, cached }) => ({
+    ...cached,
+    segmentId: segment.id,
+    index: segment.index,
+    speaker: segment.speaker,
+  }));
+
+  return {
+    ...manifest,
+    segments: [...kept, ...relinked].sort((a, b) => a.index - b.index),
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+/**
+ * Record that a generation used these cached segments, for least recently
+ * used eviction
+ */
+export function touchCachedSegments(
+  manifest: CacheManifest,
+  segmentIds: string[],
+  at: string = new Date().toISOString(),
+): CacheManifest {
+  const ids = new Set(segmentIds);
+  return {
+    ...manifest,
+    segments: manifest.segments.map((s) =>
+      ids.has(s.segmentId) ? { ...s, lastAccessedAt: at } : s,
+    ),
+  };
+}
+
+/**
+ * Generate a hash for a multi-speaker group from its members' hashes
+ */
+export function generateGroupHash(segments: Segment[], config: Config): string {
+  return hashText(
+    segments
+      .map((s) => `${s.id}:${generateSegmentHash(s, config).combinedHash}`)
+      .join("|"),
+  );
+}
+
+/**
+ * Get the ID for a multi-speaker group
+ */
+export function getGroupId(segments: Segment[], config: Config): string {
+  const first = segments[0].index.toString().padStart(4, "0");
+  return `group_${first}_${generateGroupHash(segments, config).substring(0, 8)}`;
+}
+
+/**
+ * Find a cached multi-speaker group for exactly these segments
+ */
+export function findCachedGroup(
+  manifest: CacheManifest | null,
+  segments: Segment[],
+  config: Config,
+): CachedSegmentGroup | null {
+  if (!manifest?.groups) {
+    return null;
+  }
+
+  const hash = generateGroupHash(segments, config);
+  return manifest.groups.find((g) => g.hash === hash) ?? null;
+}
+
+/**
+ * Check if a cached group's audio file exists
+ */
+export async function verifyCachedGroup(
+  outputDir: string,
+  group: CachedSegmentGroup,
+  storyHash?: string,
+): Promise<boolean> {
+  return fileExists(getCachedGroupPath(outputDir, group.groupId, storyHash));
+}
+
+/**
+ * Add or update a multi-speaker group in the cache manifest
+ *
+ * Groups that share a segment with the new group are replaced.
+ */
+export function updateCachedGroup(
+  manifest: CacheManifest,
+  segments: Segment[],
+  config: Config,
+  result: {
+    audioPath: string;
+    durationMs: number;
+    fileSize: number;
+    timings: GroupSegmentTiming[];
+  },
+): CacheManifest {
+  const segmentIds = segments.map((s) => s.id);
+  const group: CachedSegmentGroup = {
+    groupId: getGroupId(segments, config),
+    segmentIds,
+    speakers: [...new Set(segments.map((s) => s.speaker))],
+    audioPath: result.audioPath,
+    durationMs: result.durationMs,
+    fileSize: result.fileSize,
+    hash: generateGroupHash(segments, config),
+    timings: result.timings,
+    generatedAt: new Date().toISOString(),
+    provider: getVoiceProviderName(
+      config,
+      getVoiceConfig(config, segments[0].speaker),
+    ),
+  };
+
+  const otherGroups = (manifest.groups ?? []).filter(
+    (g) => !g.segmentIds.some((id) => segmentIds.includes(id)),
+  );
+
+  return {
+    ...manifest,
+    groups: [...otherGroups, group],
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
 /**
  * Remove a segment from the cache
  */
@@ -367,8 +798,13 @@ export async function removeCachedSegment(
   segmentId: string,
 ): Promise<CacheManifest> {
   const cached = manifest.segments.find((s) => s.segmentId === segmentId);
+  // Relinked entries can share an audio file
+  const shared = manifest.segments.some(
+    (s) => s.segmentId !== segmentId && s.audioPath === cached?.audioPath,
+  );
 
-  if (cached) {
+  // Blobs are shared with other stories and are removed once unreferenced
+  if (cached && !cached.blobKey && !shared) {
     // Try to delete the audio file
     const audioPath = getCachedSegmentPath(outputDir, segmentId);
     try {
@@ -419,6 +855,46 @@ export function getCachedSegments(
   return results;
 }
 
+/**
+ * Find the audio of cached segments in this output directory. Segments that
+ * aren't cached with the current settings, or whose audio is gone, are
+ * returned as missing.
+ */
+export async function findCachedAudio(
+  outputDir: string,
+  manifest: CacheManifest | null,
+  segments: Segment[],
+  config: Config,
+  storyHash?: string,
+): Promise<{
+  found: Array<{ segment: Segment; cached: CachedSegment; path: string }>;
+  missing: Segment[];
+}> {
+  const found: Array<{
+    segment: Segment;
+    cached: CachedSegment;
+    path: string;
+  }> = [];
+  const missing: Segment[] = [];
+
+  for (const segment of segments) {
+    const cached = isSegmentCached(manifest, segment, config);
+    if (!cached) {
+      missing.push(segment);
+      continue;
+    }
+
+    const path = getCachedAudioPath(outputDir, cached, storyHash);
+    if (await fileExists(path)) {
+      found.push({ segment, cached, path });
+    } else {
+      missing.push(segment);
+    }
+  }
+
+  return { found, missing };
+}
+
 /**
  * Get segments that need regeneration due to style changes
  */
@@ -443,13 +919,20 @@ export function getSegmentsWithStyleChanges(
       return false;
     }
 
-    const cached = manifest.segments.find((s) => s.segmentId === segment.id);
+    // Moved segments are matched on their text
+    const currentHash = generateSegmentHash(segment, config);
+    const cached =
+      manifest.segments.find((s) => s.segmentId === segment.id) ??
+      manifest.segments.find(
+        (s) =>
+          s.speaker === segment.speaker &&
+          s.hash.textHash === currentHash.textHash,
+      );
     if (!cached) {
       return true; // Not cached, needs generation
     }
 
     // Check if voice config has changed
-    const currentHash = generateSegmentHash(segment, config);
     return cached.hash.voiceHash !== currentHash.voiceHash;
   });
 }
@@ -519,6 +1002,9 @@ export function getCacheStats(manifest: CacheManifest | null): {
 
 /**
  * Clear all cache for a project (or a specific story's cache)
+ *
+ * Clearing a story's cache drops its blob references; the blobs stay for
+ * other stories until nothing uses them.
  */
 export async function clearCache(
   outputDir: string,
@@ -530,12 +1016,14 @@ export async function clearCache(
     return;
   }
 
-  // Delete all files in the segments directory
-  const segmentsDir = join(cacheDir, "segments");
-  if (await fileExists(segmentsDir)) {
-    const files = await readdir(segmentsDir);
-    for (const file of files) {
-      await unlink(join(segmentsDir, file));
+  // Delete all files in the segments and groups directories
+  for (const dir of ["segments", "groups"]) {
+    const audioDir = join(cacheDir, dir);
+    if (await fileExists(audioDir)) {
+      const files = await readdir(audioDir);
+      for (const file of files) {
+        await unlink(join(audioDir, file));
+      }
     }
   }
 
@@ -544,6 +1032,12 @@ export async function clearCache(
   if (await fileExists(manifestPath)) {
     await unlink(manifestPath);
   }
+
+  if (storyHash) {
+    await updateBlobRefs(outputDir, null, storyHash);
+  } else {
+    await rm(getBlobStoreDir(outputDir), { recursive: true, force: true });
+  }
 }
 
 /**
@@ -650,7 +1144,13 @@ export async function invalidateSpeakerCache(
     normalizedSpeakers.includes(s.speaker.toUpperCase()),
   );
 
-  let updatedManifest = { ...manifest };
+  let updatedManifest: CacheManifest = {
+    ...manifest,
+    groups: manifest.groups?.filter(
+      (g) =>
+        !g.speakers.some((s) => normalizedSpeakers.includes(s.toUpperCase())),
+    ),
+  };
 
   for (const segment of toInvalidate) {
     updatedManifest = await removeCachedSegment(
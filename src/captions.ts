@@ -0,0 +1,324 @@
+/**
+ * Caption export module
+ *
+ * Handles:
+ * - Building timed cues from the audiobook manifest
+ * - Splitting long segments at sentence boundaries
+ * - Writing SRT, WebVTT (with voice tags) and LRC files
+ */
+
+import { writeFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { AudiobookManifest } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported caption formats
+ */
+export type CaptionFormat = "srt" | "vtt" | "lrc";
+
+/**
+ * All supported caption formats, in CLI order
+ */
+export const CAPTION_FORMATS: CaptionFormat[] = ["srt", "vtt", "lrc"];
+
+/**
+ * A single timed caption
+ */
+export interface Cue {
+  /** Start timestamp in milliseconds */
+  startMs: number;
+  /** End timestamp in milliseconds */
+  endMs: number;
+  /** Speaker name */
+  speaker: string;
+  /** Caption text */
+  text: string;
+}
+
+/**
+ * Options for building and writing captions
+ */
+export interface CaptionOptions {
+  /** Maximum characters per cue before a segment is split (default: 84) */
+  maxCueChars?: number;
+  /** Prefix SRT and LRC lines with "SPEAKER: " (VTT always uses voice tags) */
+  speakerLabels?: boolean;
+}
+
+/**
+ * Default maximum cue length (two subtitle lines of ~42 characters)
+ */
+const DEFAULT_MAX_CUE_CHARS = 84;
+
+// ============================================================================
+// Cue Building
+// ============================================================================
+
+/**
+ * Split text into sentences, keeping closing punctuation and quotes
+ */
+function splitSentences(text: string): string[] {
+  const sentences =
+    text.match(/[.!?…]*[^.!?…]+(?:[.!?…]+["'”’)\]]*|$)|[.!?…]+/g) || [];
+  return sentences.map((s) => s.trim()).filter((s) => s.length > 0);
+}
+
+/**
+ * Split an overlong sentence at word boundaries
+ */
+function splitWords(sentence: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const word of sentence.split(/\s+/)) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      chunks.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Break segment text into cue-sized chunks, grouping whole sentences
+ */
+export function splitCueText(text: string, maxChars: number): string[] {
+  if (text.length <= maxChars) {
+    return [text];
+  }
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const sentence of splitSentences(text)) {
+    const pieces =
+      sentence.length > maxChars ? splitWords(sentence, maxChars) : [sentence];
+
+    for (const piece of pieces) {
+      if (current && current.length + 1 + piece.length > maxChars) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current = current ? `${current} ${piece}` : piece;
+      }
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Build timed cues from the manifest segments.
+ * Split segments share their time range in proportion to character count.
+ */
+export function buildCues(
+  manifest: AudiobookManifest,
+  options: CaptionOptions = {},
+): Cue[] {
+  const maxChars = options.maxCueChars ?? DEFAULT_MAX_CUE_CHARS;
+  const cues: Cue[] = [];
+
+  // Sound effects have nothing to caption
+  const segments = manifest.segments
+    .filter((s) => s.kind !== "sfx")
+    .sort((a, b) => a.startMs - b.startMs);
+
+  for (const segment of segments) {
+    const chunks = splitCueText(segment.text.trim(), maxChars);
+    const totalChars = chunks.reduce((sum, c) => sum + c.length, 0);
+    const durationMs = segment.endMs - segment.startMs;
+    let charsBefore = 0;
+
+    for (const chunk of chunks) {
+      const startMs =
+        segment.startMs + (durationMs * charsBefore) / (totalChars || 1);
+      charsBefore += chunk.length;
+      const endMs =
+        segment.startMs + (durationMs * charsBefore) / (totalChars || 1);
+
+      cues.push({
+        startMs: Math.round(startMs),
+        endMs: Math.round(endMs),
+        speaker: segment.speaker,
+        text: chunk,
+      });
+    }
+  }
+
+  return cues;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Format milliseconds as HH:MM:SS + separator + mmm
+ */
+function formatClock(ms: number, separator: "," | "."): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+
+  return (
+    `${hours.toString().padStart(2, "0")}:` +
+    `${minutes.toString().padStart(2, "0")}:` +
+    `${seconds.toString().padStart(2, "0")}${separator}` +
+    millis.toString().padStart(3, "0")
+  );
+}
+
+/**
+ * Format milliseconds as an LRC [mm:ss.xx] tag
+ */
+function formatLrcTime(ms: number): string {
+  const centis = Math.max(0, Math.round(ms / 10));
+  const minutes = Math.floor(centis / 6000);
+  const seconds = Math.floor((centis % 6000) / 100);
+  const hundredths = centis % 100;
+
+  return `[${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${hundredths.toString().padStart(2, "0")}]`;
+}
+
+/**
+ * Escape text for WebVTT cue payloads
+ */
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+/**
+ * Prefix the cue text with its speaker if requested
+ */
+function labelCue(cue: Cue, speakerLabels: boolean): string {
+  return speakerLabels ? `${cue.speaker}: ${cue.text}` : cue.text;
+}
+
+/**
+ * Format cues as SubRip (SRT)
+ */
+export function formatSrt(cues: Cue[], options: CaptionOptions = {}): string {
+  return cues
+    .map(
+      (cue, i) =>
+        `${i + 1}\n` +
+        `${formatClock(cue.startMs, ",")} --> ${formatClock(cue.endMs, ",")}\n` +
+        `${labelCue(cue, options.speakerLabels ?? false)}\n`,
+    )
+    .join("\n");
+}
+
+/**
+ * Format cues as WebVTT with <v Speaker> voice tags
+ */
+export function formatVtt(cues: Cue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatClock(cue.startMs, ".")} --> ${formatClock(cue.endMs, ".")}\n` +
+        `<v ${escapeVtt(cue.speaker)}>${escapeVtt(cue.text)}\n`,
+    )
+    .join("\n");
+
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Format cues as LRC. A blank timed line clears the text during gaps.
+ */
+export function formatLrc(
+  cues: Cue[],
+  options: CaptionOptions & { title?: string } = {},
+): string {
+  const lines: string[] = [];
+
+  if (options.title) {
+    lines.push(`[ti:${options.title}]`);
+  }
+
+  cues.forEach((cue, i) => {
+    lines.push(
+      `${formatLrcTime(cue.startMs)}${labelCue(cue, options.speakerLabels ?? false)}`,
+    );
+
+    const next = cues[i + 1];
+    if (!next || next.startMs > cue.endMs) {
+      lines.push(formatLrcTime(cue.endMs));
+    }
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Format cues in the given caption format
+ */
+function formatCues(
+  cues: Cue[],
+  format: CaptionFormat,
+  options: CaptionOptions & { title?: string },
+): string {
+  switch (format) {
+    case "srt":
+      return formatSrt(cues, options);
+    case "vtt":
+      return formatVtt(cues);
+    case "lrc":
+      return formatLrc(cues, options);
+    default:
+      throw new Error(`Unsupported caption format: ${format}`);
+  }
+}
+
+/**
+ * Render the manifest as captions in the given format
+ */
+export function renderCaptions(
+  manifest: AudiobookManifest,
+  format: CaptionFormat,
+  options: CaptionOptions = {},
+): string {
+  return formatCues(buildCues(manifest, options), format, {
+    ...options,
+    title: manifest.title,
+  });
+}
+
+/**
+ * Write captions for the manifest to a file
+ */
+export async function exportCaptions(
+  manifest: AudiobookManifest,
+  outputPath: string,
+  format: CaptionFormat,
+  options: CaptionOptions = {},
+): Promise<{ outputPath: string; cueCount: number }> {
+  const cues = buildCues(manifest, options);
+  const content = formatCues(cues, format, {
+    ...options,
+    title: manifest.title,
+  });
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, content, "utf-8");
+
+  return { outputPath, cueCount: cues.length };
+}
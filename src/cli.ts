@@ -5,7 +5,13 @@
  * - generate: Parse and generate full audiobook
  * - preview: Generate just first N segments for testing
  * - update-styles: Regenerate segments with changed style prompts
+ * - regenerate: Regenerate selected segments, taking the rest from cache
+ * - export: Export a generated audiobook to another container (M4B, EPUB)
+ * - export-captions: Write SRT, WebVTT or LRC captions from the manifest
+ * - lexicon check: List words that probably need a pronunciation entry
  * - clean: Clear cache and regenerated files
+ * - cache gc: Remove unused cached audio within size and age budgets
+ * - cache export / import: Share a story's cached segments as a tar bundle
  */
 
 import { Command } from "commander";
@@ -20,7 +26,7 @@ import {
   unlink,
   readdir,
 } from "fs/promises";
-import { join, basename, extname } from "path";
+import { join, basename, extname, dirname, resolve } from "path";
 
 import type {
   Config,
@@ -28,8 +34,12 @@ import type {
   Segment,
   SegmentGenerationResult,
   AudiobookResult,
+  AudiobookManifest,
   GenerateOptions,
   PreviewOptions,
+  RegenerateOptions,
+  SegmentSelection,
+  CacheGcOptions,
 } from "./types.js";
 
 import { DEFAULT_CONCURRENCY } from "./types.js";
@@ -40,6 +50,8 @@ import {
   getStorySummary,
   getSegmentRange,
   filterBySpeaker,
+  selectSegments,
+  getSfxPath,
 } from "./parser.js";
 
 import {
@@ -49,6 +61,9 @@ import {
   createConfigForSpeakers,
   getConfigSummary,
   hashConfig,
+  getVoiceConfig,
+  getVoiceEffects,
+  getVoiceProviderName,
   DEFAULT_CONFIG,
 } from "./config.js";
 
@@ -69,24 +84,44 @@ import {
   getCachedSegments,
   getSegmentsWithStyleChanges,
   clearCache,
-  getCachedSegmentPath,
+  getBlobKey,
+  getBlobPath,
   getCacheSummary,
   getCacheStats,
   ensureCacheDir,
   getCacheDir,
   hashText,
   recoverCachedSegments,
+  relinkCachedSegments,
+  touchCachedSegments,
+  getCachedAudioPath,
+  findCachedAudio,
+  findCachedGroup,
+  verifyCachedGroup,
+  updateCachedGroup,
+  getCachedGroupPath,
+  getGroupId,
 } from "./cache.js";
 
 import {
-  createTTSProvider,
+  createProviderPool,
+  getProviderForSpeaker,
   generateSegmentAudio,
+  generateSegmentGroupAudio,
+  splitGroupAudio,
+  groupMultiSpeakerSegments,
   formatDuration,
-  type TTSProvider,
+  type ProviderPool,
 } from "./tts-provider.js";
 
 import { setDebugLogCacheDir, processWithConcurrency } from "./utils.js";
 
+import {
+  exportCaptions,
+  CAPTION_FORMATS,
+  type CaptionFormat,
+} from "./captions.js";
+
 import {
   analyzeStory,
   formatAnalysisResult,
@@ -105,14 +140,44 @@ import {
 
 import {
   stitchAudioFiles,
+  stitchChapterFiles,
   saveManifest,
   getStitchSummary,
   formatFileSize,
   estimateCost,
   estimateAudioDuration,
+  getOutputExtension,
+  loadManifest,
+  exportM4b,
+  getWavInfo,
   type AudioFileInfo,
+  type StitchOptions,
 } from "./audio.js";
 
+import { exportEpub } from "./epub.js";
+
+import {
+  loadLexicon,
+  applyLexicon,
+  findUnknownWords,
+  type Lexicon,
+} from "./lexicon.js";
+
+import { normalizeStory } from "./text-normalizer.js";
+import {
+  planCacheGc,
+  applyCacheGc,
+  parseAge,
+  parseByteSize,
+  type CacheGcBudget,
+  type CacheGcReason,
+} from "./cache-gc.js";
+import {
+  exportCacheBundle,
+  importCacheBundleFile,
+  type CacheImportResult,
+} from "./cache-bundle.js";
+
 // ============================================================================
 // CLI Utilities
 // ============================================================================
@@ -151,6 +216,96 @@ function exitWithError(message: string): never {
   process.exit(1);
 }
 
+/**
+ * Load the config's pronunciation lexicon (empty without one)
+ */
+async function loadConfigLexicon(
+  config: Config,
+  configDir: string,
+): Promise<Lexicon> {
+  try {
+    return await loadLexicon(config.lexicon ?? [], configDir);
+  } catch (error) {
+    exitWithError(
+      `Failed to load lexicon: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+/**
+ * Normalize a parsed story and attach its lexicon entries, as configured,
+ * so segments are generated and hashed the way they'll be read
+ */
+async function prepareStory(
+  story: ParsedStory,
+  config: Config,
+  configDir: string,
+): Promise<ParsedStory> {
+  if (config.textNormalization?.enabled) {
+    try {
+      story = normalizeStory(story, config.textNormalization);
+    } catch (error) {
+      exitWithError(
+        `Failed to normalize text: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+  if (config.lexicon?.length) {
+    story = applyLexicon(story, await loadConfigLexicon(config, configDir));
+  }
+  return story;
+}
+
+/**
+ * Stitching options from the audio config. Music paths are relative to the
+ * config file directory.
+ */
+function getStitchOptions(config: Config, configDir?: string): StitchOptions {
+  return {
+    silencePaddingMs: config.audio.silencePadding,
+    sampleRate: config.audio.sampleRate,
+    bitsPerSample: config.audio.bitDepth,
+    format: config.audio.format,
+    normalize: config.audio.normalize,
+    loudnessTarget: config.audio.loudnessTarget,
+    truePeakLimit: config.audio.truePeakLimit,
+    pauses: config.audio.pauses,
+    trimSilence: config.audio.trimSilence,
+    silenceThreshold: config.audio.silenceThreshold,
+    music: config.audio.music,
+    musicDir: configDir,
+  };
+}
+
+/**
+ * Describe a segment's audio for stitching. Speed and pitch the provider
+ * couldn't apply are added while stitching.
+ */
+function getAudioFileInfo(
+  segment: Segment,
+  path: string,
+  config: Config,
+  durationMs?: number,
+): AudioFileInfo {
+  const voice = getVoiceConfig(config, segment.speaker);
+  return {
+    path,
+    index: segment.index,
+    speaker: segment.speaker,
+    text: segment.text,
+    durationMs,
+    kind: segment.kind,
+    pauseBeforeMs: segment.pauseBeforeMs,
+    paragraphStart: segment.paragraphStart,
+    ...(segment.kind === "speech"
+      ? {
+          ...getVoiceEffects(config, voice),
+          provider: getVoiceProviderName(config, voice),
+        }
+      : {}),
+  };
+}
+
 /**
  * Print warning
  */
@@ -172,6 +327,39 @@ function printInfo(message: string): void {
   console.log(chalk.blue(`ℹ ${message}`));
 }
 
+/**
+ * Find the most recently generated manifest for a story in the output dir
+ */
+async function findLatestManifest(
+  outputDir: string,
+  storyBasename: string,
+): Promise<{ path: string; manifest: AudiobookManifest } | null> {
+  if (!(await fileExists(outputDir))) {
+    return null;
+  }
+
+  let latest: { path: string; manifest: AudiobookManifest } | null = null;
+  for (const file of await readdir(outputDir)) {
+    const rest = file.startsWith(storyBasename)
+      ? file.slice(storyBasename.length)
+      : "";
+    if (!/^(_\d+)?_manifest\.json$/.test(rest)) {
+      continue;
+    }
+
+    const path = join(outputDir, file);
+    const manifest = await loadManifest(path);
+    if (
+      manifest &&
+      (!latest || manifest.generatedAt > latest.manifest.generatedAt)
+    ) {
+      latest = { path, manifest };
+    }
+  }
+
+  return latest;
+}
+
 // ============================================================================
 // Generation Logic
 // ============================================================================
@@ -192,6 +380,12 @@ async function generateAudiobook(
     speakers?: string[];
     timestamp?: string;
     concurrency?: number;
+    splitChapters?: boolean;
+    multiSpeaker?: boolean;
+    /** Config file directory (music and lexicon paths are relative to it) */
+    configDir?: string;
+    /** IDs of segments to regenerate even if cached */
+    regenerate?: string[];
   } = {},
 ): Promise<AudiobookResult> {
   const spinner = ora();
@@ -222,6 +416,20 @@ async function generateAudiobook(
     }
   }
 
+  // Normalize and apply the lexicon before filtering, so each segment's
+  // spoken text (and hash) is the same however the story is sliced
+  story = await prepareStory(story, config, options.configDir ?? ".");
+
+  // Catch scene beds missing from the config before any API calls
+  const unknownBeds = [...new Set(story.scenes.map((s) => s.bed))].filter(
+    (bed) => !config.audio.music?.tracks[bed],
+  );
+  if (unknownBeds.length > 0) {
+    exitWithError(
+      `Unknown music tracks in scene markers: ${unknownBeds.join(", ")}`,
+    );
+  }
+
   // Apply filters if provided
   let segmentsToProcess = story.segments;
   if (options.speakers && options.speakers.length > 0) {
@@ -239,6 +447,31 @@ async function generateAudiobook(
     );
   }
 
+  // Sound effects are played from local files and never sent to TTS
+  const speechSegments = segmentsToProcess.filter((s) => s.kind === "speech");
+  const sfxResults: SegmentGenerationResult[] = [];
+  for (const segment of segmentsToProcess) {
+    if (segment.kind !== "sfx") {
+      continue;
+    }
+    const sfxPath = getSfxPath(segment, storyPath);
+    const info = await getWavInfo(sfxPath);
+    if (!info) {
+      exitWithError(
+        `Sound effect not found or not a WAV file: ${sfxPath} (line ${segment.lineNumber})`,
+      );
+    }
+    sfxResults.push({
+      segment,
+      success: true,
+      audioPath: sfxPath,
+      durationMs: info.durationMs,
+      fileSize: info.fileSize,
+      fromCache: true,
+      timeTakenMs: 0,
+    });
+  }
+
   if (options.verbose) {
     console.log("\n" + getStorySummary(story) + "\n");
   }
@@ -285,11 +518,15 @@ async function generateAudiobook(
   let manifest =
     loadedManifest ?? createEmptyManifest(storyPath, contentHash, configHash);
 
-  // Try to recover cached segments from existing audio files if manifest is empty or incomplete
-  if (!options.force && manifest.segments.length < segmentsToProcess.length) {
+  // Try to recover uncached segments from existing audio files, including
+  // the shared segment store (renamed stories, forks and earlier versions)
+  const uncached = options.force
+    ? []
+    : getSegmentsToGenerate(manifest, speechSegments, config);
+  if (uncached.length > 0) {
     const recovered = await recoverCachedSegments(
       outputDir,
-      segmentsToProcess,
+      uncached,
       config,
       folderHash,
     );
@@ -298,14 +535,17 @@ async function generateAudiobook(
       // Merge recovered segments into manifest, counting only newly added ones
       let newlyRecoveredCount = 0;
       for (const recoveredSegment of recovered) {
-        // Only add if not already in manifest
-        if (
-          !manifest.segments.find(
-            (s) => s.segmentId === recoveredSegment.segmentId,
-          )
-        ) {
+        const existing = manifest.segments.findIndex(
+          (s) => s.segmentId === recoveredSegment.segmentId,
+        );
+        // Story files are only trusted when the manifest has no entry for
+        // them (it may be audio of an older voice); blobs always match
+        if (existing === -1) {
           manifest.segments.push(recoveredSegment);
           newlyRecoveredCount++;
+        } else if (recoveredSegment.blobKey) {
+          manifest.segments[existing] = recoveredSegment;
+          newlyRecoveredCount++;
         }
       }
 
@@ -324,8 +564,11 @@ async function generateAudiobook(
   }
 
   // Determine which segments need generation
+  const regenerate = new Set(options.regenerate ?? []);
   if (options.force) {
     printInfo("Force flag enabled - regenerating all segments");
+  } else if (regenerate.size > 0) {
+    printInfo(`Regenerating ${regenerate.size} selected segments`);
   }
 
   // Update manifest hashes if they changed (content or config)
@@ -336,13 +579,21 @@ async function generateAudiobook(
     manifest = { ...manifest, storyHash: contentHash, configHash };
   }
 
-  let segmentsToGenerate = options.force
-    ? segmentsToProcess
-    : getSegmentsToGenerate(manifest, segmentsToProcess, config);
+  // Forced segments skip the cache; the rest are generated only if they
+  // aren't cached
+  const forced = speechSegments.filter(
+    (s) => options.force || regenerate.has(s.id),
+  );
+  const unforced = speechSegments.filter(
+    (s) => !options.force && !regenerate.has(s.id),
+  );
 
-  let cachedSegmentsInfo = options.force
-    ? []
-    : getCachedSegments(manifest, segmentsToProcess, config);
+  let segmentsToGenerate = [
+    ...forced,
+    ...getSegmentsToGenerate(manifest, unforced, config),
+  ].sort((a, b) => a.index - b.index);
+
+  let cachedSegmentsInfo = getCachedSegments(manifest, unforced, config);
 
   // Verify cached files actually exist - move any with missing files to generation queue
   if (cachedSegmentsInfo.length > 0) {
@@ -377,6 +628,28 @@ async function generateAudiobook(
     }
   }
 
+  // Keep cached segments that moved in the story under their new IDs
+  manifest = relinkCachedSegments(manifest, cachedSegmentsInfo, speechSegments);
+  // Cache garbage collection evicts the least recently used audio first
+  manifest = touchCachedSegments(
+    manifest,
+    cachedSegmentsInfo.map(({ segment }) => segment.id),
+  );
+
+  // Segments read with the same text and voice share a blob, so each blob is
+  // generated once and its copies reuse the audio
+  const blobOwners = new Map<string, Segment>();
+  const blobCopies: Segment[] = [];
+  segmentsToGenerate = segmentsToGenerate.filter((segment) => {
+    const blobKey = getBlobKey(segment, config);
+    if (blobOwners.has(blobKey)) {
+      blobCopies.push(segment);
+      return false;
+    }
+    blobOwners.set(blobKey, segment);
+    return true;
+  });
+
   if (options.verbose) {
     printInfo(
       `Force: ${options.force}, Segments to generate: ${segmentsToGenerate.length}, Cached: ${cachedSegmentsInfo.length}`,
@@ -384,23 +657,55 @@ async function generateAudiobook(
   }
 
   if (options.verbose) {
-    console.log(getCacheSummary(manifest, segmentsToProcess.length));
+    console.log(getCacheSummary(manifest, speechSegments.length));
     printInfo(
       `Segments to generate: ${segmentsToGenerate.length}, from cache: ${cachedSegmentsInfo.length}`,
     );
   }
 
+  // Each unit is generated with one request: a single segment, or a run of
+  // two-speaker dialogue in multi-speaker mode
+  const generationUnits = options.multiSpeaker
+    ? groupMultiSpeakerSegments(segmentsToGenerate, config)
+    : segmentsToGenerate.map((segment) => [segment]);
+  const groupCount = generationUnits.filter((u) => u.length > 1).length;
+
   // Dry run - just show what would be done
   if (options.dryRun) {
     console.log("\n" + chalk.cyan("=== Dry Run ==="));
     console.log(`Would generate ${segmentsToGenerate.length} segments`);
+    if (options.multiSpeaker) {
+      console.log(
+        `Would send ${generationUnits.length} requests (${groupCount} multi-speaker groups)`,
+      );
+    }
     console.log(`Would use ${cachedSegmentsInfo.length} cached segments`);
+    if (sfxResults.length > 0) {
+      console.log(`Would insert ${sfxResults.length} sound effects`);
+    }
     console.log(
       `Estimated audio duration: ${formatDuration(estimateAudioDuration(story.totalCharacters))}`,
     );
-    console.log(
-      `Estimated cost: $${estimateCost(story.totalCharacters).toFixed(4)}`,
+    // Prefer each provider's own pricing, falling back to a generic estimate
+    const pool = createProviderPool(config, story.speakers);
+    const estimatedCost = speechSegments.reduce(
+      (sum, segment) =>
+        sum +
+        (getProviderForSpeaker(pool, config, segment.speaker).estimateCost?.(
+          segment.text,
+        ) ?? estimateCost(segment.text.length)),
+      0,
     );
+    console.log(`Estimated cost: $${estimatedCost.toFixed(4)}`);
+
+    const normalized = segmentsToGenerate.filter((s) => s.normalizedText);
+    if (options.verbose && normalized.length > 0) {
+      console.log(chalk.cyan("\nNormalized text:"));
+      for (const segment of normalized) {
+        console.log(`  [${segment.index + 1}] ${segment.text}`);
+        console.log(chalk.gray(`      → ${segment.normalizedText}`));
+      }
+    }
 
     return {
       outputPath: "",
@@ -419,18 +724,22 @@ async function generateAudiobook(
     };
   }
 
-  // Initialize TTS provider
+  // Initialize one provider per provider used by the speakers being generated
   spinner.start("Initializing TTS provider...");
-  let provider: TTSProvider;
+  let providerPool: ProviderPool;
   try {
-    provider = createTTSProvider(config);
-    await provider.initialize();
+    providerPool = createProviderPool(config, [
+      ...new Set(segmentsToGenerate.map((s) => s.speaker)),
+    ]);
+    for (const provider of providerPool.values()) {
+      await provider.initialize();
+    }
   } catch (error) {
     spinner.fail("Failed to initialize TTS provider");
     throw error;
   }
   spinner.succeed(
-    `TTS provider initialized: ${config.provider.name} (${config.provider.model})`,
+    `TTS provider${providerPool.size > 1 ? "s" : ""} initialized: ${[...providerPool.keys()].join(", ") || config.provider.name}`,
   );
 
   // Generate segments with progress bar
@@ -448,6 +757,11 @@ async function generateAudiobook(
   console.log(
     `  Total: ${totalSegments} | Cached: ${chalk.green(cachedCount)} | To generate: ${chalk.yellow(toGenerateCount)} | Concurrency: ${chalk.cyan(concurrency)}`,
   );
+  if (options.multiSpeaker) {
+    console.log(
+      `  Multi-speaker groups: ${chalk.cyan(groupCount)} | Requests: ${chalk.cyan(generationUnits.length)}`,
+    );
+  }
 
   if (segmentsToGenerate.length > 0) {
     console.log("\n" + chalk.cyan("Generating audio segments..."));
@@ -455,34 +769,91 @@ async function generateAudiobook(
     // Track completed count for periodic manifest saves
     let completedSinceLastSave = 0;
 
-    // Process segments in parallel with concurrency limit
+    // Process units in parallel with concurrency limit
     const processResults = await processWithConcurrency(
-      segmentsToGenerate,
-      async (segment: Segment, _index: number) => {
-        const segmentStartTime = Date.now();
+      generationUnits,
+      async (unit: Segment[], _index: number) => {
+        const unitStartTime = Date.now();
+        const provider = getProviderForSpeaker(
+          providerPool,
+          config,
+          unit[0].speaker,
+        );
+
+        // Segments are always cached as WAV in the shared segment store;
+        // only the final book is encoded
+        const outputPaths = unit.map((segment) =>
+          getBlobPath(outputDir, getBlobKey(segment, config)),
+        );
+
+        if (unit.length === 1) {
+          const response = await generateSegmentAudio(
+            provider,
+            unit[0],
+            config,
+            outputPaths[0],
+          );
+
+          if (!response.success || !response.audioPath) {
+            throw new Error(response.error || "Unknown generation error");
+          }
+
+          return {
+            parts: [
+              {
+                segment: unit[0],
+                audioPath: response.audioPath,
+                durationMs: response.durationMs || 0,
+                fileSize: response.fileSize || 0,
+              },
+            ],
+            timeTakenMs: Date.now() - unitStartTime,
+          };
+        }
 
-        const outputPath = getCachedSegmentPath(
+        // Cut the segments again from a cached group recording if there is one
+        const groupPath = getCachedGroupPath(
           outputDir,
-          segment.id,
-          config.audio.format,
+          getGroupId(unit, config),
           folderHash,
         );
+        const cachedGroup = findCachedGroup(manifest, unit, config);
+        if (
+          cachedGroup &&
+          (await verifyCachedGroup(outputDir, cachedGroup, folderHash))
+        ) {
+          // The group may have been cached at another position
+          return {
+            parts: await splitGroupAudio(
+              getCachedGroupPath(outputDir, cachedGroup.groupId, folderHash),
+              unit,
+              outputPaths,
+            ),
+            timeTakenMs: Date.now() - unitStartTime,
+          };
+        }
 
-        const response = await generateSegmentAudio(
+        const { response, segments: parts } = await generateSegmentGroupAudio(
           provider,
-          segment,
+          unit,
           config,
-          outputPath,
+          groupPath,
+          outputPaths,
         );
 
-        if (!response.success || !response.audioPath) {
+        if (!response.success) {
           throw new Error(response.error || "Unknown generation error");
         }
 
         return {
-          segment,
-          response,
-          timeTakenMs: Date.now() - segmentStartTime,
+          parts,
+          group: {
+            audioPath: groupPath,
+            durationMs: response.durationMs || 0,
+            fileSize: response.fileSize || 0,
+            timings: parts.map((part) => part.timing),
+          },
+          timeTakenMs: Date.now() - unitStartTime,
         };
       },
       {
@@ -490,32 +861,51 @@ async function generateAudiobook(
         stopOnError: true,
         onProgress: async (completed, total, result) => {
           if (result.success && result.result) {
-            const { segment, response, timeTakenMs } = result.result;
-
-            // Update cache manifest (will be saved periodically)
-            manifest = updateCachedSegment(manifest, segment, config, {
-              audioPath: response.audioPath!,
-              durationMs: response.durationMs || 0,
-              fileSize: response.fileSize || 0,
-              success: true,
-            });
-
-            totalAudioDurationMs += response.durationMs || 0;
-
-            segmentResults.push({
-              segment,
-              success: true,
-              audioPath: response.audioPath,
-              durationMs: response.durationMs,
-              fileSize: response.fileSize,
-              fromCache: false,
-              timeTakenMs,
-            });
+            const { parts, group, timeTakenMs } = result.result;
+            const unit = result.item;
+            const groupId =
+              unit.length > 1 ? getGroupId(unit, config) : undefined;
+
+            if (group) {
+              manifest = updateCachedGroup(manifest, unit, config, group);
+            }
+
+            for (const part of parts) {
+              // Update cache manifest (will be saved periodically)
+              manifest = updateCachedSegment(manifest, part.segment, config, {
+                audioPath: part.audioPath,
+                durationMs: part.durationMs,
+                fileSize: part.fileSize,
+                success: true,
+                groupId,
+                blobKey: getBlobKey(part.segment, config),
+              });
+
+              totalAudioDurationMs += part.durationMs;
+
+              segmentResults.push({
+                segment: part.segment,
+                success: true,
+                audioPath: part.audioPath,
+                durationMs: part.durationMs,
+                fileSize: part.fileSize,
+                fromCache: false,
+                timeTakenMs,
+              });
+            }
 
             // Log progress - show audio duration
+            const unitDurationMs = parts.reduce(
+              (sum, part) => sum + part.durationMs,
+              0,
+            );
+            const label =
+              unit.length > 1
+                ? `${groupId} (${unit.length} segments)`
+                : unit[0].id;
             console.log(
               chalk.gray(
-                `  [${completed}/${total}] ${segment.id} - ${formatDuration(response.durationMs || 0)} audio`,
+                `  [${completed}/${total}] ${label} - ${formatDuration(unitDurationMs)} audio`,
               ),
             );
 
@@ -538,29 +928,51 @@ async function generateAudiobook(
     const failures = processResults.filter((r) => !r.success);
     if (failures.length > 0) {
       const firstFailure = failures[0];
-      const segment = firstFailure.item;
-      const successCount = processResults.filter((r) => r.success).length;
+      const failedIds = firstFailure.item.map((s) => s.id).join(", ");
+      const successCount = processResults
+        .filter((r) => r.success)
+        .reduce((sum, r) => sum + r.item.length, 0);
 
       console.log(
         chalk.red(
           `\n✖ Generation failed after ${successCount}/${toGenerateCount} segments`,
         ),
       );
-      console.log(chalk.red(`  Failed segment: ${segment.id}`));
+      console.log(chalk.red(`  Failed segment: ${failedIds}`));
       console.log(chalk.red(`  Error: ${firstFailure.error}`));
 
       exitWithError(
-        `Failed to generate segment ${segment.id}:\n${firstFailure.error}`,
+        `Failed to generate segment ${failedIds}:\n${firstFailure.error}`,
       );
     }
   }
 
+  // Copies reuse the audio generated for their blob
+  for (const segment of blobCopies) {
+    const blobKey = getBlobKey(segment, config);
+    const owner = segmentResults.find(
+      (r) => r.segment.id === blobOwners.get(blobKey)?.id,
+    );
+    if (!owner?.audioPath) {
+      continue;
+    }
+    manifest = updateCachedSegment(manifest, segment, config, {
+      audioPath: owner.audioPath,
+      durationMs: owner.durationMs ?? 0,
+      fileSize: owner.fileSize ?? 0,
+      success: true,
+      blobKey,
+    });
+    segmentResults.push({ ...owner, segment, fromCache: true, timeTakenMs: 0 });
+    totalAudioDurationMs += owner.durationMs ?? 0;
+  }
+
   // Add cached segments to results (already verified earlier)
   for (const { segment, cached } of cachedSegmentsInfo) {
     segmentResults.push({
       segment,
       success: true,
-      audioPath: cached.audioPath,
+      audioPath: getCachedAudioPath(outputDir, cached, folderHash),
       durationMs: cached.durationMs,
       fileSize: cached.fileSize,
       fromCache: true,
@@ -569,6 +981,9 @@ async function generateAudiobook(
     totalAudioDurationMs += cached.durationMs;
   }
 
+  // Sound effects go straight to the stitcher
+  segmentResults.push(...sfxResults);
+
   // Save final manifest
   await saveCacheManifest(outputDir, manifest, folderHash);
 
@@ -586,24 +1001,20 @@ async function generateAudiobook(
   spinner.start("Stitching audio files...");
 
   const timestampSuffix = options.timestamp ? `_${options.timestamp}` : "";
-  const outputFileName = `${basename(storyPath, extname(storyPath))}${timestampSuffix}_audiobook.wav`;
+  const outputFileName = `${basename(storyPath, extname(storyPath))}${timestampSuffix}_audiobook${getOutputExtension(config.audio.format)}`;
   const outputPath = join(outputDir, outputFileName);
 
-  const audioFiles: AudioFileInfo[] = successfulResults.map((r) => ({
-    path: r.audioPath!,
-    index: r.segment.index,
-    speaker: r.segment.speaker,
-    text: r.segment.text,
-    durationMs: r.durationMs,
-  }));
+  const audioFiles = successfulResults.map((r) =>
+    getAudioFileInfo(r.segment, r.audioPath!, config, r.durationMs),
+  );
 
   try {
     const stitchResult = await stitchAudioFiles(audioFiles, outputPath, {
-      silencePaddingMs: config.audio.silencePadding,
-      sampleRate: config.audio.sampleRate,
-      bitsPerSample: config.audio.bitDepth,
+      ...getStitchOptions(config, options.configDir),
+      scenes: story.scenes,
       title: basename(storyPath, extname(storyPath)),
       sourceFile: storyPath,
+      chapters: story.chapters,
     });
 
     // Save manifest
@@ -618,6 +1029,32 @@ async function generateAudiobook(
     // Print summary
     console.log("\n" + getStitchSummary(stitchResult));
 
+    // Write one file per chapter alongside the combined book
+    const chapterPaths: string[] = [];
+    if (options.splitChapters && story.chapters.length > 0) {
+      spinner.start("Writing chapter files...");
+
+      const chapterResults = await stitchChapterFiles(
+        audioFiles,
+        story.chapters,
+        (i) =>
+          join(
+            outputDir,
+            `${basename(storyPath, extname(storyPath))}${timestampSuffix}_chapter_${(i + 1).toString().padStart(2, "0")}${getOutputExtension(config.audio.format)}`,
+          ),
+        {
+          ...getStitchOptions(config, options.configDir),
+          scenes: story.scenes,
+          sourceFile: storyPath,
+        },
+      );
+      chapterPaths.push(...chapterResults.map((r) => r.outputPath));
+
+      spinner.succeed(`Wrote ${chapterPaths.length} chapter files`);
+    } else if (options.splitChapters) {
+      printWarning("Story has no chapters; skipping per-chapter output");
+    }
+
     const totalTimeMs = Date.now() - startTime;
 
     return {
@@ -634,6 +1071,7 @@ async function generateAudiobook(
       segmentResults,
       success: true, // We exit immediately on failure, so this is always true
       errors,
+      chapterPaths: options.splitChapters ? chapterPaths : undefined,
     };
   } catch (error) {
     spinner.fail("Failed to stitch audio files");
@@ -740,6 +1178,12 @@ program
     `Number of segments to generate in parallel (default: ${DEFAULT_CONCURRENCY})`,
     (val) => parseInt(val, 10),
   )
+  .option("--split-chapters", "Also write one audio file per chapter", false)
+  .option(
+    "--multi-speaker",
+    "Generate two-speaker dialogue runs in a single Gemini request",
+    false,
+  )
   .action(async (storyFile: string, options: GenerateOptions) => {
     // Check story file exists
     if (!(await fileExists(storyFile))) {
@@ -776,6 +1220,9 @@ program
           dryRun: options.dryRun,
           timestamp,
           concurrency: options.concurrency,
+          splitChapters: options.splitChapters,
+          multiSpeaker: options.multiSpeaker,
+          configDir: dirname(options.config || getDefaultConfigPath()),
         },
       );
 
@@ -863,6 +1310,7 @@ program
           speakers,
           timestamp,
           concurrency: options.concurrency,
+          configDir: dirname(options.config || getDefaultConfigPath()),
         },
       );
 
@@ -921,8 +1369,12 @@ program
 
       console.log(chalk.cyan("\nChecking for style changes..."));
 
-      // Parse story
-      const story = await parseFile(storyFile);
+      // Parse story, prepared the way its segments are hashed
+      const story = await prepareStory(
+        await parseFile(storyFile),
+        config,
+        dirname(options.config || getDefaultConfigPath()),
+      );
       const outputDir = options.output || getDefaultOutputDir();
 
       // Generate folder hash from filename (stable across content changes)
@@ -937,6 +1389,7 @@ program
         await generateAudiobook(storyFile, config, outputDir, {
           verbose: options.verbose,
           timestamp,
+          configDir: dirname(options.config || getDefaultConfigPath()),
         });
         return;
       }
@@ -944,7 +1397,7 @@ program
       // Find segments with style changes
       const changedSegments = getSegmentsWithStyleChanges(
         manifest,
-        story.segments,
+        story.segments.filter((s) => s.kind === "speech"),
         config,
         speakers,
       );
@@ -958,18 +1411,447 @@ program
         `Found ${changedSegments.length} segments to update${speakers ? ` for speakers: ${speakers.join(", ")}` : ""}`,
       );
 
-      // Regenerate changed segments
+      // Regenerate only the changed segments (every segment of the selected
+      // speakers with --force); the rest of the book comes from cache
+      const targets = options.force
+        ? selectSegments(story, { speakers }).filter((s) => s.kind === "speech")
+        : changedSegments;
       const timestamp = Date.now().toString();
       await generateAudiobook(storyFile, config, outputDir, {
-        force: true, // Force regeneration of all segments
+        regenerate: targets.map((s) => s.id),
         verbose: options.verbose,
         timestamp,
+        configDir: dirname(options.config || getDefaultConfigPath()),
       });
 
       printSuccess("Style update complete!");
     },
   );
 
+/**
+ * Build a segment selection from the regenerate command's options
+ */
+function parseSelection(options: RegenerateOptions): SegmentSelection {
+  const list = (value?: string) =>
+    value
+      ?.split(",")
+      .map((v) => v.trim())
+      .filter(Boolean);
+
+  const selection: SegmentSelection = {
+    ids: list(options.id),
+    speakers: list(options.speakers),
+    grep: options.grep,
+  };
+  if (options.line) {
+    const lines = (list(options.line) ?? []).map(Number);
+    if (lines.some((n) => !Number.isInteger(n) || n < 1)) {
+      exitWithError(`Invalid line numbers: ${options.line}`);
+    }
+    selection.lines = lines;
+  }
+  if (options.range) {
+    const match = options.range.match(/^(\d+)(?:-(\d+))?$/);
+    if (
+      !match ||
+      Number(match[1]) < 1 ||
+      Number(match[2] ?? match[1]) < Number(match[1])
+    ) {
+      exitWithError(`Invalid range: ${options.range} (expected e.g. 12-20)`);
+    }
+    selection.indexRange = {
+      start: Number(match[1]) - 1,
+      end: Number(match[2] ?? match[1]) - 1,
+    };
+  }
+  return selection;
+}
+
+/**
+ * Regenerate command - regenerate selected segments, reusing the cache
+ */
+program
+  .command("regenerate <storyFile>")
+  .description("Regenerate selected segments, taking the rest from cache")
+  .option("-c, --config <path>", "Path to config file", getDefaultConfigPath())
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .option("--id <ids>", "Segment IDs (comma-separated)")
+  .option("--line <numbers>", "Source line numbers (comma-separated)")
+  .option("--range <from-to>", "Segment numbers, e.g. 12-20")
+  .option("-s, --speakers <names>", "Speakers (comma-separated)")
+  .option("-g, --grep <pattern>", "Regular expression matched against text")
+  .option("-v, --verbose", "Verbose output", false)
+  .option(
+    "-d, --dry-run",
+    "Show what would be regenerated without generating",
+    false,
+  )
+  .option(
+    "-p, --concurrency <number>",
+    `Number of segments to generate in parallel (default: ${DEFAULT_CONCURRENCY})`,
+    (val) => parseInt(val, 10),
+  )
+  .action(async (storyFile: string, options: RegenerateOptions) => {
+    if (!(await fileExists(storyFile))) {
+      exitWithError(`Story file not found: ${storyFile}`);
+    }
+    if (
+      !options.id &&
+      !options.line &&
+      !options.range &&
+      !options.speakers &&
+      !options.grep
+    ) {
+      exitWithError(
+        "Select segments with --id, --line, --range, --speakers or --grep",
+      );
+    }
+
+    let config: Config;
+    try {
+      config = await loadConfig(options.config || getDefaultConfigPath());
+    } catch (error) {
+      exitWithError(
+        `Failed to load config: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    const configDir = dirname(options.config || getDefaultConfigPath());
+    const story = await prepareStory(
+      await parseFile(storyFile),
+      config,
+      configDir,
+    );
+
+    let selected: Segment[];
+    try {
+      selected = selectSegments(story, parseSelection(options)).filter(
+        (s) => s.kind === "speech",
+      );
+    } catch (error) {
+      exitWithError(
+        `Invalid selection: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (selected.length === 0) {
+      exitWithError("No segments match the selection");
+    }
+
+    console.log(chalk.cyan(`\nSelected ${selected.length} segments:`));
+    for (const segment of selected) {
+      const preview =
+        segment.text.length > 60
+          ? `${segment.text.slice(0, 57)}...`
+          : segment.text;
+      console.log(`  [${segment.index + 1}] ${segment.speaker}: ${preview}`);
+    }
+
+    try {
+      await generateAudiobook(
+        storyFile,
+        config,
+        options.output || getDefaultOutputDir(),
+        {
+          regenerate: selected.map((s) => s.id),
+          verbose: options.verbose,
+          dryRun: options.dryRun,
+          timestamp: Date.now().toString(),
+          concurrency: options.concurrency,
+          configDir,
+        },
+      );
+    } catch (error) {
+      exitWithError(
+        `Regeneration failed: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    if (!options.dryRun) {
+      printSuccess("Regeneration complete!");
+    }
+  });
+
+/**
+ * Export command - convert a generated audiobook to another container
+ */
+program
+  .command("export <storyFile>")
+  .description(
+    "Export a generated audiobook (M4B with chapters, or EPUB 3 read-along)",
+  )
+  .option("-f, --format <format>", "Export format (m4b, epub)", "m4b")
+  .option("-c, --config <path>", "Path to config file", getDefaultConfigPath())
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .action(
+    async (
+      storyFile: string,
+      options: { format: string; config?: string; output?: string },
+    ) => {
+      if (options.format !== "m4b" && options.format !== "epub") {
+        exitWithError(
+          `Unsupported export format: ${options.format} (supported: m4b, epub)`,
+        );
+      }
+
+      const outputDir = options.output || getDefaultOutputDir();
+      const configPath = options.config || getDefaultConfigPath();
+      const storyBasename = basename(storyFile, extname(storyFile));
+
+      // Metadata is optional, so a missing config file is not an error
+      let config: Config | undefined;
+      if (await fileExists(configPath)) {
+        try {
+          config = await loadConfig(configPath);
+        } catch (error) {
+          exitWithError(
+            `Failed to load config: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      }
+
+      const latest = await findLatestManifest(outputDir, storyBasename);
+      if (!latest) {
+        exitWithError(
+          `No generated audiobook found for ${storyBasename}. Run 'generate' first.`,
+        );
+      }
+
+      // Cover paths are relative to the config file
+      const metadata = config?.metadata;
+      const coverPath = metadata?.cover
+        ? resolve(dirname(configPath), metadata.cover)
+        : undefined;
+      if (coverPath && !(await fileExists(coverPath))) {
+        exitWithError(`Cover image not found: ${coverPath}`);
+      }
+
+      const outputBase = basename(
+        latest.manifest.outputFile,
+        extname(latest.manifest.outputFile),
+      );
+
+      if (options.format === "epub") {
+        const audioPath = join(outputDir, latest.manifest.outputFile);
+        if (!(await fileExists(audioPath))) {
+          exitWithError(`Audiobook file not found: ${audioPath}`);
+        }
+
+        const spinner = ora("Exporting EPUB...").start();
+
+        try {
+          const story = await parseFile(storyFile);
+          const result = await exportEpub(
+            story,
+            latest.manifest,
+            join(outputDir, `${outputBase}.epub`),
+            {
+              audioPath,
+              title: metadata?.title,
+              author: metadata?.author,
+              language: metadata?.language,
+              coverPath,
+            },
+          );
+
+          spinner.succeed(`Exported ${result.outputPath}`);
+          console.log(`Documents: ${result.documentCount}`);
+          console.log(`Synced segments: ${result.syncedSegmentCount}`);
+          console.log(`Size: ${formatFileSize(result.fileSize)}`);
+        } catch (error) {
+          spinner.fail("Export failed");
+          exitWithError(error instanceof Error ? error.message : String(error));
+        }
+        return;
+      }
+
+      // The book is stitched again with the generation settings
+      if (!config) {
+        exitWithError(`Config file not found: ${configPath}`);
+      }
+
+      // Segment audio is looked up in the cache the way generate finds it,
+      // so blobs shared with other stories are found too
+      const configDir = dirname(configPath);
+      let story: ParsedStory;
+      try {
+        story = await prepareStory(
+          await parseFile(storyFile),
+          config,
+          configDir,
+        );
+      } catch (error) {
+        exitWithError(
+          `Failed to parse story file: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+      const storyHash = hashText(storyBasename);
+      const { found, missing } = await findCachedAudio(
+        outputDir,
+        await loadCacheManifest(outputDir, storyHash),
+        story.segments.filter((s) => s.kind === "speech"),
+        config,
+        storyHash,
+      );
+      if (missing.length > 0) {
+        exitWithError(
+          `${missing.length} segment(s) are not cached with the current config (first: ${missing[0].id}). Run 'generate' first.`,
+        );
+      }
+      const files = [
+        ...found.map(({ segment, cached, path }) =>
+          getAudioFileInfo(segment, path, config, cached.durationMs),
+        ),
+        ...story.segments
+          .filter((s) => s.kind === "sfx")
+          .map((s) => getAudioFileInfo(s, getSfxPath(s, storyFile), config)),
+      ];
+
+      const outputPath = join(outputDir, `${outputBase}.m4b`);
+      const spinner = ora("Exporting M4B...").start();
+
+      try {
+        const result = await exportM4b(files, outputPath, {
+          ...getStitchOptions(config, configDir),
+          chapters: story.chapters,
+          scenes: story.scenes,
+          title: metadata?.title ?? latest.manifest.title,
+          author: metadata?.author,
+          coverPath,
+        });
+
+        spinner.succeed(`Exported ${result.outputPath}`);
+        console.log(`Duration: ${formatDuration(result.totalDurationMs)}`);
+        console.log(`Chapters: ${result.chapterCount}`);
+        console.log(`Size: ${formatFileSize(result.fileSize)}`);
+      } catch (error) {
+        spinner.fail("Export failed");
+        exitWithError(error instanceof Error ? error.message : String(error));
+      }
+    },
+  );
+
+/**
+ * Export-captions command - write captions from the latest manifest
+ */
+program
+  .command("export-captions <storyFile>")
+  .description("Export SRT, WebVTT or LRC captions for a generated audiobook")
+  .option(
+    "-f, --format <formats>",
+    `Caption formats, comma-separated (${CAPTION_FORMATS.join(", ")})`,
+    "srt",
+  )
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .option(
+    "--max-chars <number>",
+    "Maximum characters per cue before splitting (default: 84)",
+    (val) => parseInt(val, 10),
+  )
+  .option("--speaker-labels", "Prefix SRT/LRC lines with the speaker", false)
+  .action(
+    async (
+      storyFile: string,
+      options: {
+        format: string;
+        output?: string;
+        maxChars?: number;
+        speakerLabels?: boolean;
+      },
+    ) => {
+      const formats = options.format
+        .split(",")
+        .map((f) => f.trim().toLowerCase());
+      const unsupported = formats.filter(
+        (f) => !CAPTION_FORMATS.includes(f as CaptionFormat),
+      );
+      if (unsupported.length > 0) {
+        exitWithError(
+          `Unsupported caption format: ${unsupported.join(", ")} (supported: ${CAPTION_FORMATS.join(", ")})`,
+        );
+      }
+
+      const outputDir = options.output || getDefaultOutputDir();
+      const storyBasename = basename(storyFile, extname(storyFile));
+
+      const latest = await findLatestManifest(outputDir, storyBasename);
+      if (!latest) {
+        exitWithError(
+          `No generated audiobook found for ${storyBasename}. Run 'generate' first.`,
+        );
+      }
+
+      const outputBase = basename(
+        latest.manifest.outputFile,
+        extname(latest.manifest.outputFile),
+      );
+
+      for (const format of formats as CaptionFormat[]) {
+        const result = await exportCaptions(
+          latest.manifest,
+          join(outputDir, `${outputBase}.${format}`),
+          format,
+          {
+            maxCueChars: options.maxChars,
+            speakerLabels: options.speakerLabels,
+          },
+        );
+        printSuccess(`Wrote ${result.cueCount} cues to ${result.outputPath}`);
+      }
+    },
+  );
+
+/**
+ * Lexicon command - pronunciation lexicon tools
+ */
+const lexiconCommand = program
+  .command("lexicon")
+  .description("Pronunciation lexicon tools");
+
+lexiconCommand
+  .command("check <storyFile>")
+  .description(
+    "List capitalized words with no lexicon entry that probably need one",
+  )
+  .option("-c, --config <path>", "Path to config file", getDefaultConfigPath())
+  .action(async (storyFile: string, options: { config?: string }) => {
+    if (!(await fileExists(storyFile))) {
+      exitWithError(`Story file not found: ${storyFile}`);
+    }
+
+    const configPath = options.config || getDefaultConfigPath();
+    let lexicon: Lexicon = {};
+    if (await fileExists(configPath)) {
+      let config: Config;
+      try {
+        config = await loadConfig(configPath);
+      } catch (error) {
+        exitWithError(
+          `Failed to load config: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+      lexicon = await loadConfigLexicon(config, dirname(configPath));
+    }
+
+    const story = await parseFile(storyFile);
+    const unknown = findUnknownWords(story, lexicon);
+    printInfo(`Lexicon entries: ${Object.keys(lexicon).length}`);
+
+    if (unknown.length === 0) {
+      printSuccess("Every capitalized word has a lexicon entry.");
+      return;
+    }
+
+    console.log(
+      chalk.cyan(`\n${unknown.length} words probably need an entry:\n`),
+    );
+    for (const { word, count, lineNumber } of unknown) {
+      console.log(
+        `  ${word.padEnd(20)} ${chalk.gray(`${count}× (first on line ${lineNumber})`)}`,
+      );
+    }
+    console.log();
+  });
+
 /**
  * Clean command - clear cache and output files
  */
@@ -1017,10 +1899,22 @@ program
         }
 
         if (!options.cacheOnly) {
-          // Clear output files (WAV and JSON files in output dir)
+          // Clear output files (audiobooks and JSON files in output dir)
           const files = await readdir(outputDir);
+          const outputExtensions = [
+            ".wav",
+            ".mp3",
+            ".ogg",
+            ".flac",
+            ".m4b",
+            ".epub",
+            ...CAPTION_FORMATS.map((f) => `.${f}`),
+          ];
           for (const file of files) {
-            if (file.endsWith(".wav") || file.endsWith("_manifest.json")) {
+            if (
+              outputExtensions.includes(extname(file)) ||
+              file.endsWith("_manifest.json")
+            ) {
               await unlink(join(outputDir, file));
             }
           }
@@ -1034,6 +1928,162 @@ program
     },
   );
 
+/**
+ * Cache command - cache maintenance tools
+ */
+const cacheCommand = program
+  .command("cache")
+  .description("Cache maintenance tools");
+
+const GC_REASON_LABELS: Record<CacheGcReason, string> = {
+  unreferenced: "Unreferenced",
+  expired: "Not used recently",
+  evicted: "Evicted (least recently used)",
+};
+
+cacheCommand
+  .command("gc")
+  .description(
+    "Remove cached audio no story uses, and old or least recently used audio",
+  )
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .option(
+    "--max-size <size>",
+    "Evict least recently used audio above this size (e.g. 2GB)",
+  )
+  .option(
+    "--older-than <age>",
+    "Remove audio not used for this long (e.g. 30d, 12h)",
+  )
+  .option("-d, --dry-run", "Report what would be removed", false)
+  .option("-v, --verbose", "List every file", false)
+  .action(async (options: CacheGcOptions) => {
+    const outputDir = options.output || getDefaultOutputDir();
+
+    const budget: CacheGcBudget = {};
+    try {
+      if (options.maxSize) {
+        budget.maxSizeBytes = parseByteSize(options.maxSize);
+      }
+      if (options.olderThan) {
+        budget.olderThanMs = parseAge(options.olderThan);
+      }
+    } catch (error) {
+      exitWithError(error instanceof Error ? error.message : String(error));
+    }
+
+    const plan = await planCacheGc(outputDir, budget);
+    printInfo(`Cached audio: ${formatFileSize(plan.totalBytes)}`);
+
+    for (const reason of Object.keys(GC_REASON_LABELS) as CacheGcReason[]) {
+      const removals = plan.removals.filter((r) => r.reason === reason);
+      if (removals.length === 0) {
+        continue;
+      }
+      const bytes = removals.reduce((sum, r) => sum + r.bytes, 0);
+      console.log(
+        `  ${GC_REASON_LABELS[reason]}: ${removals.length} files (${formatFileSize(bytes)})`,
+      );
+      if (options.verbose) {
+        for (const removal of removals) {
+          console.log(
+            chalk.gray(
+              `    ${removal.path}${removal.lastAccessedAt ? ` (last used ${removal.lastAccessedAt})` : ""}`,
+            ),
+          );
+        }
+      }
+    }
+
+    if (plan.removals.length === 0) {
+      printSuccess("Nothing to collect.");
+      return;
+    }
+
+    if (options.dryRun) {
+      printInfo(
+        `Would reclaim ${formatFileSize(plan.reclaimableBytes)} from ${plan.removals.length} files`,
+      );
+      return;
+    }
+
+    await applyCacheGc(outputDir, plan);
+    printSuccess(
+      `Reclaimed ${formatFileSize(plan.reclaimableBytes)} from ${plan.removals.length} files`,
+    );
+  });
+
+cacheCommand
+  .command("export <storyFile> <bundle>")
+  .description("Pack a story's cached segments into a tar bundle")
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .action(
+    async (
+      storyFile: string,
+      bundlePath: string,
+      options: { output?: string },
+    ) => {
+      const outputDir = options.output || getDefaultOutputDir();
+      const story = basename(storyFile, extname(storyFile));
+
+      let count: number;
+      try {
+        count = await exportCacheBundle(outputDir, story, bundlePath);
+      } catch (error) {
+        exitWithError(error instanceof Error ? error.message : String(error));
+      }
+      printSuccess(
+        `Exported ${count} cached segments of ${story} to ${bundlePath}`,
+      );
+    },
+  );
+
+cacheCommand
+  .command("import <bundle>")
+  .description("Merge a cache bundle into the local cache")
+  .option("-o, --output <path>", "Output directory", getDefaultOutputDir())
+  .option(
+    "-s, --story <storyFile>",
+    "Import into this story's cache instead of the bundle's",
+  )
+  .action(
+    async (
+      bundlePath: string,
+      options: { output?: string; story?: string },
+    ) => {
+      const outputDir = options.output || getDefaultOutputDir();
+      if (!(await fileExists(bundlePath))) {
+        exitWithError(`Bundle not found: ${bundlePath}`);
+      }
+
+      const story = options.story
+        ? basename(options.story, extname(options.story))
+        : undefined;
+      let result: CacheImportResult;
+      try {
+        result = await importCacheBundleFile(outputDir, bundlePath, story);
+      } catch (error) {
+        exitWithError(
+          `Failed to import ${bundlePath}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+
+      if (result.corrupt.length > 0) {
+        printWarning(
+          `Skipped ${result.corrupt.length} segments whose audio failed the checksum: ${result.corrupt.join(", ")}`,
+        );
+      }
+      if (result.skipped > 0) {
+        printInfo(
+          `Kept ${result.skipped} local segments that are as new or newer`,
+        );
+      }
+      printSuccess(
+        `Imported ${result.imported} cached segments for ${result.story}`,
+      );
+    },
+  );
+
 /**
  * Info command - show project information
  */
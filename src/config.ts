@@ -7,7 +7,13 @@
 import { readFile, writeFile, access } from "fs/promises";
 
 import { createHash } from "crypto";
-import type { Config, VoiceConfig } from "./types.js";
+import type { Config, VoiceConfig, ProviderConfig } from "./types.js";
+import type { VoiceEffects } from "./effects.js";
+import {
+  NORMALIZATION_LOCALES,
+  TEXT_NORMALIZATION_RULES,
+  type NormalizationLocale,
+} from "./text-normalizer.js";
 
 /**
  * Default configuration values
@@ -168,19 +174,34 @@ export async function saveConfig(
  * Merge configuration with defaults
  */
 export function mergeWithDefaults(config: Partial<Config>): Config {
+  // The default API key and model are Gemini-specific, and the default rate
+  // limit is for network APIs, not local engines
+  const { apiKey, model, rateLimit, ...providerDefaults } =
+    DEFAULT_CONFIG.provider;
+  const providerName = (
+    config.provider?.name || DEFAULT_CONFIG.provider.name
+  ).toLowerCase();
+  const isGemini = providerName === "gemini" || providerName === "google";
+
   return {
     version: config.version || DEFAULT_CONFIG.version,
     provider: {
-      ...DEFAULT_CONFIG.provider,
+      ...providerDefaults,
+      ...(isGemini ? { apiKey, model } : {}),
+      ...(providerName !== "local" ? { rateLimit } : {}),
       ...config.provider,
     },
     audio: {
       ...DEFAULT_CONFIG.audio,
       ...config.audio,
     },
+    providers: config.providers,
     voices: config.voices || [],
     defaultVoice: config.defaultVoice,
     globalSeed: config.globalSeed ?? DEFAULT_CONFIG.globalSeed,
+    metadata: config.metadata,
+    lexicon: config.lexicon,
+    textNormalization: config.textNormalization,
   };
 }
 
@@ -193,6 +214,11 @@ export interface ConfigValidationResult {
   warnings: string[];
 }
 
+/**
+ * OpenAI request fields the provider always sets itself
+ */
+const OPENAI_RESERVED_PARAMS = ["model", "input", "voice"];
+
 /**
  * Validate configuration
  */
@@ -212,17 +238,32 @@ export function validateConfig(config: Config): ConfigValidationResult {
     if (!config.provider.name) {
       errors.push("Missing provider name");
     }
-    if (!config.provider.apiKey) {
+    if (config.provider.name === "local") {
+      if (!config.provider.command) {
+        errors.push("Local provider requires a command template");
+      }
+    } else if (!config.provider.apiKey) {
       warnings.push("No API key configured (may be set via environment)");
     }
   }
 
+  // Check additional providers
+  for (const provider of config.providers || []) {
+    if (!provider.name) {
+      errors.push("Additional provider missing name");
+    } else if (provider.name === "local" && !provider.command) {
+      errors.push("Local provider requires a command template");
+    }
+  }
+
   // Check audio config
   if (!config.audio) {
     errors.push("Missing audio configuration");
   } else {
     if (!["mp3", "wav", "ogg", "flac"].includes(config.audio.format)) {
-      errors.push(`Invalid audio format: ${config.audio.format}`);
+      errors.push(
+        `Invalid audio format: ${config.audio.format} (use wav, mp3, flac or ogg, which is Ogg Vorbis; Opus isn't supported)`,
+      );
     }
     if (
       config.audio.sampleRate &&
@@ -230,6 +271,93 @@ export function validateConfig(config: Config): ConfigValidationResult {
     ) {
       warnings.push(`Unusual sample rate: ${config.audio.sampleRate}Hz`);
     }
+    if (
+      config.audio.bitDepth !== undefined &&
+      ![16, 24, 32].includes(config.audio.bitDepth)
+    ) {
+      errors.push(
+        `Invalid bit depth: ${config.audio.bitDepth} (must be 16, 24 or 32)`,
+      );
+    }
+    for (const [rule, ms] of Object.entries(config.audio.pauses ?? {})) {
+      if (typeof ms !== "number" || ms < 0) {
+        errors.push(`Invalid pause for ${rule}: ${ms} (must be 0 or more ms)`);
+      }
+    }
+    if (
+      config.audio.silenceThreshold !== undefined &&
+      (config.audio.silenceThreshold < -100 ||
+        config.audio.silenceThreshold > 0)
+    ) {
+      errors.push(
+        `Invalid silence threshold: ${config.audio.silenceThreshold} dBFS (must be between -100 and 0)`,
+      );
+    }
+    if (
+      config.audio.loudnessTarget !== undefined &&
+      (config.audio.loudnessTarget < -70 || config.audio.loudnessTarget > 0)
+    ) {
+      errors.push(
+        `Invalid loudness target: ${config.audio.loudnessTarget} LUFS (must be between -70 and 0)`,
+      );
+    }
+    if (
+      config.audio.truePeakLimit !== undefined &&
+      (config.audio.truePeakLimit < -20 || config.audio.truePeakLimit > 0)
+    ) {
+      errors.push(
+        `Invalid true-peak limit: ${config.audio.truePeakLimit} dBTP (must be between -20 and 0)`,
+      );
+    }
+
+    const music = config.audio.music;
+    if (music) {
+      for (const name of [music.intro, music.outro]) {
+        if (name && !music.tracks?.[name]) {
+          errors.push(`Unknown music track: ${name}`);
+        }
+      }
+      for (const [name, track] of Object.entries(music.tracks ?? {})) {
+        if (!track.file) {
+          errors.push(`Music track ${name} is missing a file`);
+        }
+        for (const setting of ["fadeIn", "fadeOut", "duck"] as const) {
+          const value = track[setting];
+          if (value !== undefined && (typeof value !== "number" || value < 0)) {
+            errors.push(
+              `Invalid ${setting} for music track ${name}: ${value} (must be 0 or more)`,
+            );
+          }
+        }
+      }
+    }
+  }
+
+  if (
+    config.lexicon !== undefined &&
+    (!Array.isArray(config.lexicon) ||
+      config.lexicon.some((path) => typeof path !== "string" || !path))
+  ) {
+    errors.push("lexicon must be a list of file paths");
+  }
+
+  const normalization = config.textNormalization;
+  if (normalization) {
+    if (
+      normalization.locale !== undefined &&
+      !NORMALIZATION_LOCALES.includes(
+        normalization.locale as NormalizationLocale,
+      )
+    ) {
+      errors.push(
+        `Unsupported text normalization locale: ${normalization.locale} (must be ${NORMALIZATION_LOCALES.join(" or ")})`,
+      );
+    }
+    for (const rule of normalization.rules ?? []) {
+      if (!TEXT_NORMALIZATION_RULES.includes(rule)) {
+        errors.push(`Unknown text normalization rule: ${rule}`);
+      }
+    }
   }
 
   // Validate voice configs
@@ -251,6 +379,37 @@ export function validateConfig(config: Config): ConfigValidationResult {
         `Voice ${voice.name} has out-of-range pitch: ${voice.pitch}`,
       );
     }
+    if (
+      voice.provider?.toLowerCase() === "local" &&
+      config.provider?.name !== "local" &&
+      !config.providers?.some((p) => p.name === "local")
+    ) {
+      errors.push(
+        `Voice ${voice.name} uses the local provider, which needs an entry with a command in "providers"`,
+      );
+    }
+  }
+
+  // OpenAI extraParams are merged into the request body, which keeps the
+  // model, text and voice it was built with
+  if (config.provider) {
+    const voices = [
+      ...(config.voices || []),
+      ...(config.defaultVoice ? [config.defaultVoice] : []),
+    ];
+    for (const voice of voices) {
+      const reserved = Object.keys(voice.extraParams ?? {}).filter((key) =>
+        OPENAI_RESERVED_PARAMS.includes(key),
+      );
+      if (
+        reserved.length > 0 &&
+        getVoiceProviderName(config, voice) === "openai"
+      ) {
+        errors.push(
+          `Voice ${voice.name} can't set ${reserved.join(", ")} in extraParams (use provider.model and voiceName)`,
+        );
+      }
+    }
   }
 
   return {
@@ -306,6 +465,89 @@ export function getVoiceConfig(config: Config, speaker: string): VoiceConfig {
   };
 }
 
+/**
+ * Get the provider configuration a voice should use.
+ * Overrides match the main provider or an entry in `providers` by name;
+ * unknown names get that provider's defaults.
+ */
+export function getVoiceProvider(
+  config: Config,
+  voice: VoiceConfig,
+): ProviderConfig {
+  if (!voice.provider) {
+    return config.provider;
+  }
+
+  const name = voice.provider.toLowerCase();
+  if (config.provider.name.toLowerCase() === name) {
+    return config.provider;
+  }
+
+  return (
+    config.providers?.find((p) => p.name.toLowerCase() === name) ?? {
+      name: voice.provider,
+    }
+  );
+}
+
+/**
+ * Get the normalized name of the provider a voice uses
+ * ("google" is an alias for "gemini")
+ */
+export function getVoiceProviderName(
+  config: Config,
+  voice: VoiceConfig,
+): string {
+  const name = getVoiceProvider(config, voice).name.toLowerCase();
+  return name === "google" ? "gemini" : name;
+}
+
+/**
+ * Providers whose API takes a speaking speed. No provider supports pitch.
+ */
+const NATIVE_SPEED_PROVIDERS = ["openai", "elevenlabs"];
+
+/**
+ * Whether a voice's provider applies its speed itself.
+ * The local provider handles speed when its command uses {speed}.
+ */
+export function hasNativeSpeed(config: Config, voice: VoiceConfig): boolean {
+  const name = getVoiceProviderName(config, voice);
+  return (
+    NATIVE_SPEED_PROVIDERS.includes(name) ||
+    (name === "local" &&
+      (getVoiceProvider(config, voice).command ?? "").includes("{speed}"))
+  );
+}
+
+/**
+ * Get the speed and pitch changes that must be applied to a voice's audio
+ * after generation, because its provider can't apply them itself.
+ */
+export function getVoiceEffects(
+  config: Config,
+  voice: VoiceConfig,
+): VoiceEffects {
+  return {
+    speed: hasNativeSpeed(config, voice) ? 1 : (voice.speed ?? 1),
+    pitch: voice.pitch ?? 0,
+  };
+}
+
+/**
+ * Get the style prompt for one line: the voice's stylePrompt with the
+ * line's inline delivery direction (e.g., "whispering") added
+ */
+export function getStylePrompt(
+  voice: VoiceConfig,
+  style?: string,
+): string | undefined {
+  if (!style) {
+    return voice.stylePrompt;
+  }
+  return voice.stylePrompt ? `${voice.stylePrompt} (${style})` : style;
+}
+
 /**
  * Generate a hash of the voice configuration (for cache invalidation)
  */
@@ -318,6 +560,8 @@ export function hashVoiceConfig(voice: VoiceConfig): string {
     speed: voice.speed,
     pitch: voice.pitch,
     extraParams: voice.extraParams,
+    // Omitted from the JSON when unset, so existing hashes are unchanged
+    provider: voice.provider,
   };
   return createHash("md5").update(JSON.stringify(relevantFields)).digest("hex");
 }
@@ -0,0 +1,255 @@
+/**
+ * Voice effects applied to generated audio
+ *
+ * Handles:
+ * - Changing speaking speed without changing pitch (WSOLA time-stretch)
+ * - Shifting pitch without changing duration
+ *
+ * Used for VoiceConfig.speed and pitch when the provider can't apply them
+ * itself. Effects run while stitching, so the cache keeps the raw provider
+ * output and tweaking them never needs another API call.
+ */
+
+import { resample } from "./resample.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Length of each overlap-add frame; long enough to hold a couple of pitch
+ * periods of a low voice
+ */
+const FRAME_MS = 40;
+
+/**
+ * How far a frame may move from its ideal position to line up with the
+ * previous one
+ */
+const SEEK_MS = 10;
+
+/**
+ * Sample stride of the coarse similarity search; the best coarse match is
+ * then refined at full resolution
+ */
+const COARSE_STRIDE = 4;
+
+/**
+ * Pitch shift in semitones at pitch = 1.0 (and -1.0)
+ */
+const MAX_PITCH_SEMITONES = 12;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Voice effects to apply to a segment
+ */
+export interface VoiceEffects {
+  /** Speaking speed multiplier (1.0 = unchanged) */
+  speed?: number;
+  /** Pitch adjustment from -1.0 (one octave down) to 1.0 (one octave up) */
+  pitch?: number;
+}
+
+// ============================================================================
+// Time-Stretch
+// ============================================================================
+
+/**
+ * Similarity between the audio at two positions, normalized by the energy
+ * at the candidate position
+ */
+function similarity(
+  guide: Float32Array,
+  reference: number,
+  candidate: number,
+  length: number,
+  stride: number,
+): number {
+  // Audio past the end is silence and adds nothing
+  const end = Math.min(
+    length,
+    guide.length - reference,
+    guide.length - candidate,
+  );
+  let correlation = 0;
+  let energy = 0;
+
+  for (let i = 0; i < end; i += stride) {
+    const a = guide[reference + i];
+    const b = guide[candidate + i];
+    correlation += a * b;
+    energy += b * b;
+  }
+
+  return energy > 0 ? correlation / Math.sqrt(energy) : 0;
+}
+
+/**
+ * Find the position near `target` whose audio best continues the frame
+ * that would naturally follow the previous one
+ */
+function findBestPosition(
+  guide: Float32Array,
+  natural: number,
+  target: number,
+  seek: number,
+  length: number,
+): number {
+  const first = Math.max(0, target - seek);
+  const last = Math.min(guide.length - 1, target + seek);
+  let best = Math.min(Math.max(target, first), last);
+  let bestScore = -Infinity;
+
+  for (let position = first; position <= last; position += COARSE_STRIDE) {
+    const score = similarity(guide, natural, position, length, COARSE_STRIDE);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+
+  const coarse = best;
+  bestScore = -Infinity;
+  for (
+    let position = Math.max(first, coarse - COARSE_STRIDE + 1);
+    position <= Math.min(last, coarse + COARSE_STRIDE - 1);
+    position++
+  ) {
+    const score = similarity(guide, natural, position, length, 1);
+    if (score > bestScore) {
+      bestScore = score;
+      best = position;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Change the tempo of audio without changing its pitch, using waveform
+ * similarity overlap-add. A tempo of 2 halves the duration.
+ * Returns the input unchanged for a tempo of 1.
+ */
+export function timeStretch(
+  channels: Float32Array[],
+  sampleRate: number,
+  tempo: number,
+): Float32Array[] {
+  if (tempo === 1 || channels.length === 0) {
+    return channels;
+  }
+  if (!(tempo > 0)) {
+    throw new Error(`Invalid tempo: ${tempo}`);
+  }
+
+  const inputLength = channels[0].length;
+  const outputLength = Math.round(inputLength / tempo);
+  const frameLength =
+    2 * Math.max(1, Math.round((FRAME_MS * sampleRate) / 2000));
+  const hop = frameLength / 2;
+  const seek = Math.round((SEEK_MS * sampleRate) / 1000);
+
+  // Frame positions are chosen on a mono mix so every channel stays in sync
+  const guide = new Float32Array(inputLength);
+  for (const channel of channels) {
+    for (let i = 0; i < inputLength; i++) {
+      guide[i] += channel[i] / channels.length;
+    }
+  }
+
+  const window = new Float32Array(frameLength);
+  for (let i = 0; i < frameLength; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameLength);
+  }
+
+  const outputs = channels.map(
+    () => new Float32Array(outputLength + frameLength),
+  );
+  const weights = new Float32Array(outputLength + frameLength);
+  let previous = 0;
+
+  for (let k = 0; k * hop < outputLength; k++) {
+    const target = Math.round(k * hop * tempo);
+    const position =
+      k === 0 ? 0 : findBestPosition(guide, previous + hop, target, seek, hop);
+    const offset = k * hop;
+
+    for (let ch = 0; ch < channels.length; ch++) {
+      const input = channels[ch];
+      const output = outputs[ch];
+      for (let i = 0; i < frameLength; i++) {
+        output[offset + i] += (input[position + i] ?? 0) * window[i];
+      }
+    }
+    for (let i = 0; i < frameLength; i++) {
+      weights[offset + i] += window[i];
+    }
+
+    previous = position;
+  }
+
+  // Dividing by the summed window keeps the edges, where fewer frames
+  // overlap, at full level
+  return outputs.map((output) => {
+    const result = output.subarray(0, outputLength);
+    for (let i = 0; i < outputLength; i++) {
+      if (weights[i] > 1e-6) {
+        result[i] /= weights[i];
+      }
+    }
+    return result;
+  });
+}
+
+// ============================================================================
+// Voice Effects
+// ============================================================================
+
+/**
+ * Shift pitch without changing duration, by stretching and then
+ * resampling back to the original length
+ */
+export function pitchShift(
+  channels: Float32Array[],
+  sampleRate: number,
+  semitones: number,
+): Float32Array[] {
+  return applyVoiceEffects(channels, sampleRate, {
+    pitch: semitones / MAX_PITCH_SEMITONES,
+  });
+}
+
+/**
+ * Check whether effects would change the audio
+ */
+export function hasVoiceEffects(effects: VoiceEffects): boolean {
+  return (effects.speed ?? 1) !== 1 || (effects.pitch ?? 0) !== 0;
+}
+
+/**
+ * Apply speed and pitch changes. Returns the input unchanged if there is
+ * nothing to do.
+ */
+export function applyVoiceEffects(
+  channels: Float32Array[],
+  sampleRate: number,
+  effects: VoiceEffects,
+): Float32Array[] {
+  if (!hasVoiceEffects(effects)) {
+    return channels;
+  }
+
+  const speed = effects.speed ?? 1;
+  const pitchRatio = Math.pow(
+    2,
+    ((effects.pitch ?? 0) * MAX_PITCH_SEMITONES) / 12,
+  );
+
+  // Stretching by speed / pitchRatio and then playing back pitchRatio times
+  // faster gives the requested duration and pitch
+  const stretched = timeStretch(channels, sampleRate, speed / pitchRatio);
+  return resample(stretched, sampleRate * pitchRatio, sampleRate);
+}
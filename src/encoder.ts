@@ -0,0 +1,788 @@
+/**
+ * Audio encoding module for compressed audiobook output
+ *
+ * Handles:
+ * - Converting raw PCM between integer and float representations
+ * - MP3 and Ogg Vorbis encoding (via the LAME/libvorbis WASM builds)
+ * - FLAC encoding (pure TypeScript, fixed-predictor subframes)
+ *
+ * No system binaries (ffmpeg, lame, flac) are required. "ogg" output is
+ * Vorbis; there is no Opus encoder.
+ */
+
+import { createHash } from "crypto";
+import { createMp3Encoder, createOggEncoder } from "wasm-media-encoders";
+import type { AudioConfig } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Output formats that require encoding (everything except raw WAV)
+ */
+export type EncodedFormat = Exclude<AudioConfig["format"], "wav">;
+
+/**
+ * Layout of interleaved little-endian PCM data
+ */
+export interface PcmFormat {
+  /** Sample rate in Hz */
+  sampleRate: number;
+  /** Number of interleaved channels */
+  numChannels: number;
+  /** Bits per sample (8, 16, 24 or 32) */
+  bitsPerSample: number;
+}
+
+/**
+ * Number of sample frames converted and encoded per chunk.
+ * Keeps memory bounded for multi-hour books.
+ */
+const ENCODE_CHUNK_FRAMES = 65536;
+
+/**
+ * Default VBR quality for MP3 output (LAME -V scale, 0 = best)
+ */
+const MP3_VBR_QUALITY = 4;
+
+/**
+ * Default VBR quality for Ogg Vorbis output (-1 to 10, higher = better)
+ */
+const OGG_VBR_QUALITY = 3;
+
+// ============================================================================
+// PCM Conversion Utilities
+// ============================================================================
+
+/**
+ * Read one signed integer sample from interleaved PCM data
+ */
+function readSample(
+  data: Buffer,
+  offset: number,
+  bitsPerSample: number,
+): number {
+  switch (bitsPerSample) {
+    case 8:
+      return data.readUInt8(offset) - 128;
+    case 16:
+      return data.readInt16LE(offset);
+    case 24:
+      return data.readIntLE(offset, 3);
+    case 32:
+      return data.readInt32LE(offset);
+    default:
+      throw new Error(`Unsupported bit depth: ${bitsPerSample}`);
+  }
+}
+
+/**
+ * Write one signed integer sample into interleaved PCM data
+ */
+function writeSample(
+  data: Buffer,
+  offset: number,
+  value: number,
+  bitsPerSample: number,
+): void {
+  switch (bitsPerSample) {
+    case 8:
+      data.writeUInt8(value + 128, offset);
+      break;
+    case 16:
+      data.writeInt16LE(value, offset);
+      break;
+    case 24:
+      data.writeIntLE(value, offset, 3);
+      break;
+    case 32:
+      data.writeInt32LE(value, offset);
+      break;
+    default:
+      throw new Error(`Unsupported bit depth: ${bitsPerSample}`);
+  }
+}
+
+/**
+ * Convert interleaved integer PCM to one Float32Array per channel (-1..1).
+ * This is the layout the loudness, resampling, effects and mixing modules
+ * work on; samples may go past full scale until float32ToPcm clips them.
+ */
+export function pcmToFloat32(
+  data: Buffer,
+  numChannels: number,
+  bitsPerSample: number,
+): Float32Array[] {
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(data.length / (bytesPerSample * numChannels));
+  const scale = Math.pow(2, bitsPerSample - 1);
+  const channels: Float32Array[] = [];
+
+  for (let ch = 0; ch < numChannels; ch++) {
+    channels.push(new Float32Array(frameCount));
+  }
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const offset = (i * numChannels + ch) * bytesPerSample;
+      channels[ch][i] = readSample(data, offset, bitsPerSample) / scale;
+    }
+  }
+
+  return channels;
+}
+
+/**
+ * Convert per-channel float samples (-1..1) to interleaved integer PCM.
+ * Values outside the range are clipped.
+ */
+export function float32ToPcm(
+  channels: Float32Array[],
+  bitsPerSample: number,
+): Buffer {
+  const numChannels = channels.length;
+  const frameCount = numChannels > 0 ? channels[0].length : 0;
+  const bytesPerSample = bitsPerSample / 8;
+  const max = Math.pow(2, bitsPerSample - 1) - 1;
+  const min = -Math.pow(2, bitsPerSample - 1);
+  const data = Buffer.alloc(frameCount * numChannels * bytesPerSample);
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const scaled = Math.round(channels[ch][i] * (max + 1));
+      const value = Math.max(min, Math.min(max, scaled));
+      writeSample(
+        data,
+        (i * numChannels + ch) * bytesPerSample,
+        value,
+        bitsPerSample,
+      );
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Convert interleaved integer PCM to one Int32Array per channel
+ */
+function pcmToInt32(
+  data: Buffer,
+  numChannels: number,
+  bitsPerSample: number,
+): Int32Array[] {
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(data.length / (bytesPerSample * numChannels));
+  const channels: Int32Array[] = [];
+
+  for (let ch = 0; ch < numChannels; ch++) {
+    channels.push(new Int32Array(frameCount));
+  }
+
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const offset = (i * numChannels + ch) * bytesPerSample;
+      channels[ch][i] = readSample(data, offset, bitsPerSample);
+    }
+  }
+
+  return channels;
+}
+
+// ============================================================================
+// MP3 / Ogg Vorbis (WASM)
+// ============================================================================
+
+/**
+ * Encode PCM with one of the WASM encoders, feeding it in bounded chunks
+ */
+async function encodeWithWasm(
+  data: Buffer,
+  pcm: PcmFormat,
+  format: "mp3" | "ogg",
+): Promise<Buffer> {
+  if (pcm.numChannels !== 1 && pcm.numChannels !== 2) {
+    throw new Error(
+      `${format.toUpperCase()} encoding supports mono or stereo only (got ${pcm.numChannels} channels)`,
+    );
+  }
+
+  const channels = pcm.numChannels as 1 | 2;
+  const outputChunks: Buffer[] = [];
+
+  // Encoder output views point into WASM memory that is reused by the next
+  // call, so every chunk is copied before continuing.
+  let encode: (samples: Float32Array[]) => Uint8Array;
+  let finalize: () => Uint8Array;
+
+  if (format === "mp3") {
+    const encoder = await createMp3Encoder();
+    encoder.configure({
+      sampleRate: pcm.sampleRate,
+      channels,
+      vbrQuality: MP3_VBR_QUALITY,
+    });
+    encode = (samples) => encoder.encode(samples);
+    finalize = () => encoder.finalize();
+  } else {
+    const encoder = await createOggEncoder();
+    encoder.configure({
+      sampleRate: pcm.sampleRate,
+      channels,
+      vbrQuality: OGG_VBR_QUALITY,
+    });
+    encode = (samples) => encoder.encode(samples);
+    finalize = () => encoder.finalize();
+  }
+
+  const bytesPerFrame = (pcm.bitsPerSample / 8) * pcm.numChannels;
+  const chunkBytes = ENCODE_CHUNK_FRAMES * bytesPerFrame;
+
+  for (let offset = 0; offset < data.length; offset += chunkBytes) {
+    const chunk = data.subarray(
+      offset,
+      Math.min(offset + chunkBytes, data.length),
+    );
+    const samples = pcmToFloat32(chunk, pcm.numChannels, pcm.bitsPerSample);
+    outputChunks.push(Buffer.from(encode(samples)));
+  }
+
+  outputChunks.push(Buffer.from(finalize()));
+
+  return Buffer.concat(outputChunks);
+}
+
+// ============================================================================
+// FLAC (pure TypeScript)
+// ============================================================================
+
+/**
+ * Samples per FLAC frame (per channel)
+ */
+const FLAC_BLOCK_SIZE = 4096;
+
+/**
+ * Highest fixed predictor order defined by the FLAC format
+ */
+const FLAC_MAX_FIXED_ORDER = 4;
+
+/**
+ * Highest Rice partition order tried when searching for the smallest encoding
+ */
+const FLAC_MAX_PARTITION_ORDER = 6;
+
+/**
+ * Largest Rice parameter expressible with the 4-bit RICE coding method
+ * (15 is reserved as the escape code)
+ */
+const FLAC_MAX_RICE_PARAM = 14;
+
+/**
+ * Frame header codes for common sample rates
+ */
+const FLAC_SAMPLE_RATE_CODES: Record<number, number> = {
+  8000: 0b0100,
+  16000: 0b0101,
+  22050: 0b0110,
+  24000: 0b0111,
+  32000: 0b1000,
+  44100: 0b1001,
+  48000: 0b1010,
+  96000: 0b1011,
+};
+
+/**
+ * Frame header codes for sample sizes
+ */
+const FLAC_SAMPLE_SIZE_CODES: Record<number, number> = {
+  8: 0b001,
+  16: 0b100,
+  24: 0b110,
+};
+
+/**
+ * MSB-first bit writer backed by a growable byte array
+ */
+class BitWriter {
+  private bytes: Uint8Array;
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  constructor(initialSize: number = 1024) {
+    this.bytes = new Uint8Array(initialSize);
+  }
+
+  /** Write the low `bits` bits of an unsigned value (bits <= 32) */
+  write(value: number, bits: number): void {
+    if (bits > 16) {
+      this.write(Math.floor(value / 65536) & 0xffff, bits - 16);
+      this.write(value & 0xffff, 16);
+      return;
+    }
+    if (bits === 0) {
+      return;
+    }
+
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1));
+    this.accBits += bits;
+
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.pushByte((this.acc >>> this.accBits) & 0xff);
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  /** Write a two's-complement signed value in `bits` bits */
+  writeSigned(value: number, bits: number): void {
+    this.write(value < 0 ? value + Math.pow(2, bits) : value, bits);
+  }
+
+  /** Write `count` zero bits followed by a single one bit */
+  writeUnary(count: number): void {
+    let remaining = count;
+    while (remaining >= 16) {
+      this.write(0, 16);
+      remaining -= 16;
+    }
+    this.write(1, remaining + 1);
+  }
+
+  /** Pad with zero bits up to the next byte boundary */
+  alignToByte(): void {
+    if (this.accBits > 0) {
+      this.write(0, 8 - this.accBits);
+    }
+  }
+
+  /** Bytes written so far (must be byte-aligned) */
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes.buffer, this.bytes.byteOffset, this.length);
+  }
+
+  private pushByte(byte: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = byte;
+  }
+}
+
+/**
+ * CRC-8 (polynomial x^8 + x^2 + x + 1) used for FLAC frame headers
+ */
+function crc8(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * CRC-16 (polynomial x^16 + x^15 + x^2 + 1) used for whole FLAC frames
+ */
+function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Encode a frame number using FLAC's extended UTF-8 scheme
+ */
+function writeUtf8Number(writer: BitWriter, value: number): void {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+
+  const limits = [0x800, 0x10000, 0x200000, 0x4000000, 0x80000000];
+  let extraBytes = 1;
+  while (extraBytes < limits.length && value >= limits[extraBytes - 1]) {
+    extraBytes++;
+  }
+
+  const leadBits = 6 - extraBytes;
+  const leadMarker = (0xff << (7 - extraBytes)) & 0xff;
+  writer.write(
+    leadMarker |
+      (Math.floor(value / Math.pow(2, 6 * extraBytes)) & ((1 << leadBits) - 1)),
+    8,
+  );
+  for (let i = extraBytes - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / Math.pow(2, 6 * i)) & 0x3f), 8);
+  }
+}
+
+/**
+ * Compute fixed-predictor residuals for the given order
+ */
+function fixedResiduals(samples: Int32Array, order: number): Float64Array {
+  const residuals = new Float64Array(samples.length - order);
+
+  for (let i = order; i < samples.length; i++) {
+    const s0 = samples[i];
+    let r: number;
+    switch (order) {
+      case 0:
+        r = s0;
+        break;
+      case 1:
+        r = s0 - samples[i - 1];
+        break;
+      case 2:
+        r = s0 - 2 * samples[i - 1] + samples[i - 2];
+        break;
+      case 3:
+        r = s0 - 3 * samples[i - 1] + 3 * samples[i - 2] - samples[i - 3];
+        break;
+      default:
+        r =
+          s0 -
+          4 * samples[i - 1] +
+          6 * samples[i - 2] -
+          4 * samples[i - 3] +
+          samples[i - 4];
+        break;
+    }
+    residuals[i - order] = r;
+  }
+
+  return residuals;
+}
+
+/**
+ * Map a signed residual to an unsigned value for Rice coding
+ */
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+/**
+ * Rice coding plan for one residual block
+ */
+interface RicePlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+/**
+ * Find the partition order and per-partition Rice parameters that minimize
+ * the encoded residual size
+ */
+function planRice(
+  unsigned: Float64Array,
+  blockSize: number,
+  predictorOrder: number,
+): RicePlan {
+  let best: RicePlan | null = null;
+
+  for (let order = 0; order <= FLAC_MAX_PARTITION_ORDER; order++) {
+    const partitions = 1 << order;
+    if (blockSize % partitions !== 0) break;
+    const partitionSize = blockSize / partitions;
+    if (partitionSize <= predictorOrder) break;
+
+    const params: number[] = [];
+    let bits = 2 + 4; // coding method + partition order
+
+    let start = 0;
+    for (let p = 0; p < partitions; p++) {
+      const count = p === 0 ? partitionSize - predictorOrder : partitionSize;
+      let sum = 0;
+      for (let i = start; i < start + count; i++) {
+        sum += unsigned[i];
+      }
+
+      // Estimate the parameter from the mean, then check its neighbours
+      const mean = count > 0 ? sum / count : 0;
+      const estimate = mean > 1 ? Math.floor(Math.log2(mean)) : 0;
+      let bestParam = 0;
+      let bestBits = Infinity;
+      for (
+        let k = Math.max(0, estimate - 1);
+        k <= Math.min(FLAC_MAX_RICE_PARAM, estimate + 1);
+        k++
+      ) {
+        let cost = count * (k + 1);
+        const divisor = Math.pow(2, k);
+        for (let i = start; i < start + count; i++) {
+          cost += Math.floor(unsigned[i] / divisor);
+        }
+        if (cost < bestBits) {
+          bestBits = cost;
+          bestParam = k;
+        }
+      }
+
+      params.push(bestParam);
+      bits += 4 + bestBits;
+      start += count;
+    }
+
+    if (!best || bits < best.bits) {
+      best = { partitionOrder: order, params, bits };
+    }
+  }
+
+  return best!;
+}
+
+/**
+ * Write one channel of a FLAC frame as the smallest of the
+ * constant, verbatim and fixed-predictor subframe types
+ */
+function writeSubframe(
+  writer: BitWriter,
+  samples: Int32Array,
+  bitsPerSample: number,
+): void {
+  const blockSize = samples.length;
+
+  // Constant subframe (common for silence padding)
+  let constant = true;
+  for (let i = 1; i < blockSize; i++) {
+    if (samples[i] !== samples[0]) {
+      constant = false;
+      break;
+    }
+  }
+  if (constant) {
+    writer.write(0, 1); // zero padding bit
+    writer.write(0b000000, 6);
+    writer.write(0, 1); // no wasted bits
+    writer.writeSigned(samples[0], bitsPerSample);
+    return;
+  }
+
+  // Pick the cheapest fixed predictor order
+  let bestOrder = -1;
+  let bestPlan: RicePlan | null = null;
+  let bestUnsigned: Float64Array | null = null;
+  let bestBits = 8 + blockSize * bitsPerSample; // verbatim cost
+
+  for (
+    let order = 0;
+    order <= Math.min(FLAC_MAX_FIXED_ORDER, blockSize - 1);
+    order++
+  ) {
+    const residuals = fixedResiduals(samples, order);
+    const unsigned = residuals.map(zigzag);
+    const plan = planRice(unsigned, blockSize, order);
+    const bits = 8 + order * bitsPerSample + plan.bits;
+    if (bits < bestBits) {
+      bestBits = bits;
+      bestOrder = order;
+      bestPlan = plan;
+      bestUnsigned = unsigned;
+    }
+  }
+
+  if (bestOrder < 0 || !bestPlan || !bestUnsigned) {
+    // Verbatim subframe
+    writer.write(0, 1);
+    writer.write(0b000001, 6);
+    writer.write(0, 1);
+    for (let i = 0; i < blockSize; i++) {
+      writer.writeSigned(samples[i], bitsPerSample);
+    }
+    return;
+  }
+
+  // Fixed subframe: 001xxx where xxx is the predictor order
+  writer.write(0, 1);
+  writer.write(0b001000 | bestOrder, 6);
+  writer.write(0, 1);
+  for (let i = 0; i < bestOrder; i++) {
+    writer.writeSigned(samples[i], bitsPerSample);
+  }
+
+  writer.write(0b00, 2); // RICE coding method (4-bit parameters)
+  writer.write(bestPlan.partitionOrder, 4);
+
+  const partitions = 1 << bestPlan.partitionOrder;
+  const partitionSize = blockSize / partitions;
+  let index = 0;
+  for (let p = 0; p < partitions; p++) {
+    const k = bestPlan.params[p];
+    const divisor = Math.pow(2, k);
+    const count = p === 0 ? partitionSize - bestOrder : partitionSize;
+    writer.write(k, 4);
+    for (let i = 0; i < count; i++, index++) {
+      const value = bestUnsigned[index];
+      const quotient = Math.floor(value / divisor);
+      writer.writeUnary(quotient);
+      writer.write(value - quotient * divisor, k);
+    }
+  }
+}
+
+/**
+ * Build the 34-byte STREAMINFO metadata block body
+ */
+function createStreamInfo(
+  pcm: PcmFormat,
+  bitsPerSample: number,
+  totalFrames: number,
+  md5: Buffer,
+): Buffer {
+  const writer = new BitWriter(34);
+  writer.write(FLAC_BLOCK_SIZE, 16); // min block size
+  writer.write(FLAC_BLOCK_SIZE, 16); // max block size
+  writer.write(0, 24); // min frame size (unknown)
+  writer.write(0, 24); // max frame size (unknown)
+  writer.write(pcm.sampleRate, 20);
+  writer.write(pcm.numChannels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(totalFrames / Math.pow(2, 32)), 4);
+  writer.write(totalFrames >>> 0, 32);
+  const body = writer.toBuffer();
+  return Buffer.concat([body, md5]);
+}
+
+/**
+ * Encode interleaved PCM as a FLAC stream.
+ * 32-bit input is reduced to 24 bits, the widest depth most players decode.
+ */
+export function encodeFlac(data: Buffer, pcm: PcmFormat): Buffer {
+  if (pcm.numChannels < 1 || pcm.numChannels > 8) {
+    throw new Error(
+      `FLAC encoding supports 1-8 channels (got ${pcm.numChannels})`,
+    );
+  }
+
+  const flacBits = Math.min(pcm.bitsPerSample, 24);
+  const shift = pcm.bitsPerSample - flacBits;
+  const bytesPerFrame = (pcm.bitsPerSample / 8) * pcm.numChannels;
+  const totalFrames = Math.floor(data.length / bytesPerFrame);
+  const md5 = createHash("md5");
+  const frames: Buffer[] = [];
+
+  // Frame headers carry the sample rate and size explicitly so that decoders
+  // can sync mid-stream; uncommon rates are written as 16-bit Hz when possible
+  const sampleRateCode =
+    FLAC_SAMPLE_RATE_CODES[pcm.sampleRate] ??
+    (pcm.sampleRate < 65536 ? 0b1101 : 0b0000);
+
+  let frameNumber = 0;
+  for (let start = 0; start < totalFrames; start += FLAC_BLOCK_SIZE) {
+    const blockFrames = Math.min(FLAC_BLOCK_SIZE, totalFrames - start);
+    const block = data.subarray(
+      start * bytesPerFrame,
+      (start + blockFrames) * bytesPerFrame,
+    );
+    const channels = pcmToInt32(block, pcm.numChannels, pcm.bitsPerSample);
+    if (shift > 0) {
+      for (const channel of channels) {
+        for (let i = 0; i < channel.length; i++) {
+          channel[i] >>= shift;
+        }
+      }
+    }
+
+    // MD5 of the encoded signed samples, interleaved LE. 8-bit WAV is
+    // unsigned and 32-bit input is reduced, so those are rewritten first.
+    if (shift > 0 || flacBits === 8) {
+      const bytesPerSample = flacBits / 8;
+      const signed = Buffer.alloc(
+        blockFrames * pcm.numChannels * bytesPerSample,
+      );
+      for (let i = 0; i < blockFrames; i++) {
+        for (let ch = 0; ch < pcm.numChannels; ch++) {
+          signed.writeIntLE(
+            channels[ch][i],
+            (i * pcm.numChannels + ch) * bytesPerSample,
+            bytesPerSample,
+          );
+        }
+      }
+      md5.update(signed);
+    } else {
+      md5.update(block);
+    }
+
+    // Frame header
+    const writer = new BitWriter(blockFrames * pcm.numChannels * 4 + 64);
+    writer.write(0b11111111111110, 14); // sync code
+    writer.write(0, 1); // reserved
+    writer.write(0, 1); // fixed block size stream
+    writer.write(0b0111, 4); // block size: 16-bit (n-1) follows header
+    writer.write(sampleRateCode, 4);
+    writer.write(pcm.numChannels - 1, 4); // independent channels
+    writer.write(FLAC_SAMPLE_SIZE_CODES[flacBits] ?? 0b000, 3);
+    writer.write(0, 1); // reserved
+    writeUtf8Number(writer, frameNumber);
+    writer.write(blockFrames - 1, 16);
+    if (sampleRateCode === 0b1101) {
+      writer.write(pcm.sampleRate, 16);
+    }
+    writer.write(crc8(writer.toBuffer()), 8);
+
+    for (const channel of channels) {
+      writeSubframe(writer, channel, flacBits);
+    }
+
+    writer.alignToByte();
+    writer.write(crc16(writer.toBuffer()), 16);
+    frames.push(Buffer.from(writer.toBuffer()));
+    frameNumber++;
+  }
+
+  const streamInfo = createStreamInfo(pcm, flacBits, totalFrames, md5.digest());
+  const blockHeader = Buffer.alloc(4);
+  blockHeader.writeUInt8(0x80, 0); // last metadata block, type 0 (STREAMINFO)
+  blockHeader.writeUIntBE(streamInfo.length, 1, 3);
+
+  return Buffer.concat([
+    Buffer.from("fLaC", "ascii"),
+    blockHeader,
+    streamInfo,
+    ...frames,
+  ]);
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Check whether a configured output format needs encoding
+ */
+export function isEncodedFormat(
+  format: AudioConfig["format"],
+): format is EncodedFormat {
+  return format !== "wav";
+}
+
+/**
+ * Encode raw interleaved PCM data to a compressed output format
+ */
+export async function encodeAudio(
+  data: Buffer,
+  format: EncodedFormat,
+  pcm: PcmFormat,
+): Promise<Buffer> {
+  switch (format) {
+    case "mp3":
+    case "ogg":
+      return encodeWithWasm(data, pcm, format);
+    case "flac":
+      return encodeFlac(data, pcm);
+    default:
+      throw new Error(`Unsupported output format: ${format}`);
+  }
+}
@@ -0,0 +1,517 @@
+/**
+ * EPUB 3 read-along export
+ *
+ * Handles:
+ * - One XHTML element per story segment, grouped into chapter documents
+ * - SMIL Media Overlays mapping each element to its clip in the stitched audio
+ * - Package document, navigation and ZIP (OCF) container
+ */
+
+import { createHash } from "crypto";
+import { deflateRawSync } from "zlib";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { basename, dirname, extname } from "path";
+import type { AudiobookManifest, ParsedStory, Segment } from "./types.js";
+import { getImageMimeType } from "./m4b.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for building an EPUB
+ */
+export interface EpubOptions {
+  /** Path to the stitched audiobook referenced by the overlays */
+  audioPath: string;
+  /** Book title (defaults to the manifest title) */
+  title?: string;
+  /** Author name */
+  author?: string;
+  /** BCP 47 language tag (default: "en") */
+  language?: string;
+  /** Path to a JPEG or PNG cover image */
+  coverPath?: string;
+}
+
+/**
+ * Result of an EPUB export
+ */
+export interface EpubExportResult {
+  /** Path to the output file */
+  outputPath: string;
+  /** Number of content documents (chapters) */
+  documentCount: number;
+  /** Number of segments with a media overlay clip */
+  syncedSegmentCount: number;
+  /** Output file size in bytes */
+  fileSize: number;
+}
+
+/**
+ * A content document: a chapter title and its segments
+ */
+interface EpubDocument {
+  /** Chapter title */
+  title: string;
+  /** Segments in the document */
+  segments: Segment[];
+}
+
+/**
+ * Class applied by reading systems to the element being read aloud
+ */
+const ACTIVE_CLASS = "-epub-media-overlay-active";
+
+/**
+ * Media types for audio files that may be referenced from overlays
+ */
+const AUDIO_MEDIA_TYPES: Record<string, string> = {
+  ".mp3": "audio/mpeg",
+  ".m4a": "audio/mp4",
+  ".m4b": "audio/mp4",
+  ".mp4": "audio/mp4",
+  ".ogg": "audio/ogg",
+  ".flac": "audio/flac",
+  ".wav": "audio/wav",
+};
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 1em; }
+h1 { text-align: center; }
+.speaker { font-variant: small-caps; font-weight: bold; }
+.${ACTIVE_CLASS} { background-color: #fff3a0; }
+`;
+
+// ============================================================================
+// ZIP (OCF) Container
+// ============================================================================
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC-32 used by ZIP
+ */
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC32_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive. The first entry is stored uncompressed, as OCF
+ * requires for the `mimetype` file; the rest are deflated.
+ */
+function createZip(entries: Array<{ name: string; data: Buffer }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach((entry, i) => {
+    const name = Buffer.from(entry.name, "utf-8");
+    const stored = i === 0;
+    const body = stored ? entry.data : deflateRawSync(entry.data);
+    const crc = crc32(entry.data);
+
+    if (offset + body.length > 0xffffffff) {
+      throw new Error("EPUB is too large for a ZIP32 container");
+    }
+
+    // Fixed DOS timestamp (1980-01-01) keeps the output reproducible
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(0x21, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(entry.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(entry.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, name, body);
+    centralParts.push(central, name);
+    offset += local.length + name.length + body.length;
+  });
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+// ============================================================================
+// Document Builders
+// ============================================================================
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Format milliseconds as a SMIL full clock value (h:mm:ss.mmm)
+ */
+export function formatSmilClock(ms: number): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor((total % 3600000) / 60000);
+  const seconds = Math.floor((total % 60000) / 1000);
+  const millis = total % 1000;
+
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${millis.toString().padStart(3, "0")}`;
+}
+
+/**
+ * Element ID for a segment in the XHTML and SMIL documents
+ */
+function segmentElementId(segment: Segment): string {
+  return `seg-${segment.index.toString().padStart(4, "0")}`;
+}
+
+/**
+ * Split the story into content documents, one per chapter
+ */
+function groupDocuments(story: ParsedStory, title: string): EpubDocument[] {
+  // Sound effects have no text to show
+  const spoken = story.segments.filter((s) => s.kind === "speech");
+  if (story.chapters.length === 0) {
+    return [{ title, segments: spoken }];
+  }
+
+  return story.chapters.map((chapter) => ({
+    title: chapter.title,
+    segments: spoken.filter(
+      (s) =>
+        s.index >= chapter.startSegmentIndex &&
+        s.index <= chapter.endSegmentIndex,
+    ),
+  }));
+}
+
+/**
+ * Build a chapter XHTML document with one paragraph per segment
+ */
+function createContentDocument(doc: EpubDocument, language: string): string {
+  const paragraphs = doc.segments.map((segment) => {
+    const speaker =
+      segment.speaker === "NARRATOR"
+        ? ""
+        : `<span class="speaker">${escapeXml(segment.speaker)}:</span> `;
+    return `    <p id="${segmentElementId(segment)}" data-speaker="${escapeXml(segment.speaker)}">${speaker}${escapeXml(segment.text)}</p>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(doc.title)}</title>
+    <link rel="stylesheet" type="text/css" href="style.css"/>
+  </head>
+  <body>
+    <section epub:type="chapter">
+    <h1>${escapeXml(doc.title)}</h1>
+${paragraphs.join("\n")}
+    </section>
+  </body>
+</html>
+`;
+}
+
+/**
+ * Build the SMIL overlay for a chapter document.
+ * Returns null if none of its segments have audio.
+ */
+function createOverlay(
+  doc: EpubDocument,
+  documentName: string,
+  audioName: string,
+  timings: Map<number, { startMs: number; endMs: number }>,
+): { smil: string; durationMs: number; clipCount: number } | null {
+  const pars: string[] = [];
+  let durationMs = 0;
+
+  for (const segment of doc.segments) {
+    const timing = timings.get(segment.index);
+    if (!timing) {
+      continue;
+    }
+
+    const id = segmentElementId(segment);
+    pars.push(
+      `      <par id="par-${id}">
+        <text src="${documentName}#${id}"/>
+        <audio src="audio/${escapeXml(audioName)}" clipBegin="${formatSmilClock(timing.startMs)}" clipEnd="${formatSmilClock(timing.endMs)}"/>
+      </par>`,
+    );
+    durationMs += timing.endMs - timing.startMs;
+  }
+
+  if (pars.length === 0) {
+    return null;
+  }
+
+  const smil = `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="seq-${documentName.replace(/\.xhtml$/, "")}" epub:textref="${documentName}" epub:type="chapter">
+${pars.join("\n")}
+    </seq>
+  </body>
+</smil>
+`;
+
+  return { smil, durationMs, clipCount: pars.length };
+}
+
+/**
+ * Build the navigation document (table of contents)
+ */
+function createNavDocument(
+  title: string,
+  documents: Array<{ title: string; name: string }>,
+  language: string,
+): string {
+  const items = documents
+    .map(
+      (doc) =>
+        `        <li><a href="${doc.name}">${escapeXml(doc.title)}</a></li>`,
+    )
+    .join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+  <head>
+    <meta charset="UTF-8"/>
+    <title>${escapeXml(title)}</title>
+  </head>
+  <body>
+    <nav epub:type="toc" id="toc">
+      <h1>Contents</h1>
+      <ol>
+${items}
+      </ol>
+    </nav>
+  </body>
+</html>
+`;
+}
+
+// ============================================================================
+// EPUB Packaging
+// ============================================================================
+
+/**
+ * Build an EPUB 3 package with Media Overlays for a story and its manifest
+ */
+export async function createEpub(
+  story: ParsedStory,
+  manifest: AudiobookManifest,
+  options: EpubOptions,
+): Promise<{
+  epub: Buffer;
+  documentCount: number;
+  syncedSegmentCount: number;
+}> {
+  const title = options.title || manifest.title;
+  const language = options.language || "en";
+  const audioName = basename(options.audioPath);
+  const audioType = AUDIO_MEDIA_TYPES[extname(audioName).toLowerCase()];
+
+  if (!audioType) {
+    throw new Error(`Unsupported audio file for EPUB: ${audioName}`);
+  }
+
+  const timings = new Map(
+    manifest.segments.map((s) => [
+      s.index,
+      { startMs: s.startMs, endMs: s.endMs },
+    ]),
+  );
+
+  const files: Array<{ name: string; data: Buffer }> = [];
+  const manifestItems: string[] = [];
+  const spineItems: string[] = [];
+  const durationMeta: string[] = [];
+  const navEntries: Array<{ title: string; name: string }> = [];
+  let totalOverlayMs = 0;
+  let syncedSegmentCount = 0;
+
+  const documents = groupDocuments(story, title);
+
+  documents.forEach((doc, i) => {
+    const id = `chapter-${(i + 1).toString().padStart(3, "0")}`;
+    const name = `${id}.xhtml`;
+
+    files.push({
+      name: `OEBPS/${name}`,
+      data: Buffer.from(createContentDocument(doc, language), "utf-8"),
+    });
+    navEntries.push({ title: doc.title, name });
+
+    const overlay = createOverlay(doc, name, audioName, timings);
+    if (overlay) {
+      files.push({
+        name: `OEBPS/${id}.smil`,
+        data: Buffer.from(overlay.smil, "utf-8"),
+      });
+      manifestItems.push(
+        `    <item id="${id}" href="${name}" media-type="application/xhtml+xml" media-overlay="${id}-overlay"/>`,
+        `    <item id="${id}-overlay" href="${id}.smil" media-type="application/smil+xml"/>`,
+      );
+      durationMeta.push(
+        `    <meta property="media:duration" refines="#${id}-overlay">${formatSmilClock(overlay.durationMs)}</meta>`,
+      );
+      totalOverlayMs += overlay.durationMs;
+      syncedSegmentCount += overlay.clipCount;
+    } else {
+      manifestItems.push(
+        `    <item id="${id}" href="${name}" media-type="application/xhtml+xml"/>`,
+      );
+    }
+    spineItems.push(`    <itemref idref="${id}"/>`);
+  });
+
+  files.push({
+    name: "OEBPS/nav.xhtml",
+    data: Buffer.from(createNavDocument(title, navEntries, language), "utf-8"),
+  });
+  files.push({
+    name: "OEBPS/style.css",
+    data: Buffer.from(STYLESHEET, "utf-8"),
+  });
+  files.push({
+    name: `OEBPS/audio/${audioName}`,
+    data: await readFile(options.audioPath),
+  });
+
+  manifestItems.push(
+    `    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `    <item id="style" href="style.css" media-type="text/css"/>`,
+    `    <item id="audio" href="audio/${escapeXml(audioName)}" media-type="${audioType}"/>`,
+  );
+
+  if (options.coverPath) {
+    const cover = await readFile(options.coverPath);
+    const mimeType = getImageMimeType(cover);
+    if (!mimeType) {
+      throw new Error("Cover image must be a JPEG or PNG file");
+    }
+    const coverName = `cover${mimeType === "image/png" ? ".png" : ".jpg"}`;
+    files.push({ name: `OEBPS/${coverName}`, data: cover });
+    manifestItems.push(
+      `    <item id="cover" href="${coverName}" media-type="${mimeType}" properties="cover-image"/>`,
+    );
+  }
+
+  // Stable identifier and modification date so re-exports are reproducible
+  const identifier = createHash("md5")
+    .update(`${title}\n${manifest.sourceFile}`)
+    .digest("hex")
+    .replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, "$1-$2-$3-$4-$5");
+  const modified = new Date(manifest.generatedAt)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "Z");
+
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${identifier}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${language}</dc:language>
+${options.author ? `    <dc:creator>${escapeXml(options.author)}</dc:creator>\n` : ""}    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="media:duration">${formatSmilClock(totalOverlayMs)}</meta>
+${durationMeta.join("\n")}${durationMeta.length > 0 ? "\n" : ""}    <meta property="media:active-class">${ACTIVE_CLASS}</meta>
+  </metadata>
+  <manifest>
+${manifestItems.join("\n")}
+  </manifest>
+  <spine>
+${spineItems.join("\n")}
+  </spine>
+</package>
+`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+  const epub = createZip([
+    { name: "mimetype", data: Buffer.from("application/epub+zip", "ascii") },
+    { name: "META-INF/container.xml", data: Buffer.from(container, "utf-8") },
+    { name: "OEBPS/content.opf", data: Buffer.from(opf, "utf-8") },
+    ...files,
+  ]);
+
+  return { epub, documentCount: documents.length, syncedSegmentCount };
+}
+
+/**
+ * Write an EPUB 3 read-along book for a story and its manifest
+ */
+export async function exportEpub(
+  story: ParsedStory,
+  manifest: AudiobookManifest,
+  outputPath: string,
+  options: EpubOptions,
+): Promise<EpubExportResult> {
+  const { epub, documentCount, syncedSegmentCount } = await createEpub(
+    story,
+    manifest,
+    options,
+  );
+
+  await mkdir(dirname(outputPath), { recursive: true });
+  await writeFile(outputPath, epub);
+
+  return {
+    outputPath,
+    documentCount,
+    syncedSegmentCount,
+    fileSize: epub.length,
+  };
+}
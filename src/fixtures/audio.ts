@@ -102,7 +102,10 @@ export function createToneWav(
 
     for (let channel = 0; channel < numChannels; channel++) {
       const offset = (i * numChannels + channel) * bytesPerSample;
-      if (bitsPerSample === 16) {
+      if (bitsPerSample === 8) {
+        // 8-bit WAV is unsigned
+        data.writeUInt8(intValue + 128, offset);
+      } else if (bitsPerSample === 16) {
         data.writeInt16LE(intValue, offset);
       } else if (bitsPerSample === 24) {
         // Write 24-bit as 3 bytes
@@ -241,3 +244,34 @@ export const MOCK_API_AUDIO_RESPONSE = {
   mimeType: "audio/L16;rate=24000",
   data: createBase64AudioData(500),
 };
+
+/**
+ * Create a sine wave at a peak amplitude, as float samples (-1..1)
+ */
+export function createSine(
+  frequency: number,
+  amplitude: number,
+  durationMs: number,
+  sampleRate: number,
+  phase: number = 0,
+): Float32Array {
+  const samples = new Float32Array(
+    Math.round((durationMs / 1000) * sampleRate),
+  );
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] =
+      amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate + phase);
+  }
+  return samples;
+}
+
+/**
+ * Largest absolute sample, ignoring `margin` samples at each edge
+ */
+export function innerPeak(samples: Float32Array, margin: number): number {
+  let peak = 0;
+  for (let i = margin; i < samples.length - margin; i++) {
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  return peak;
+}
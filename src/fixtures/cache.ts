@@ -0,0 +1,79 @@
+/**
+ * Test fixtures for cache manifests and the shared segment store.
+ * Tests using them mock fs/promises with memfs.
+ */
+
+import { vol } from "memfs";
+import {
+  createEmptyManifest,
+  getBlobPath,
+  saveCacheManifest,
+} from "../cache.js";
+import type {
+  CachedSegment,
+  CachedSegmentGroup,
+  CacheManifest,
+} from "../types.js";
+
+/**
+ * A cached segment whose audio is blob `blobKey` of the shared segment store
+ */
+export function createBlobEntry(
+  outputDir: string,
+  segmentId: string,
+  blobKey: string,
+  overrides: Partial<CachedSegment> = {},
+): CachedSegment {
+  return {
+    segmentId,
+    index: 0,
+    speaker: "NARRATOR",
+    audioPath: getBlobPath(outputDir, blobKey),
+    durationMs: 1000,
+    fileSize: 100,
+    hash: { textHash: "t", voiceHash: "v", combinedHash: blobKey },
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    provider: "gemini",
+    success: true,
+    blobKey,
+    ...overrides,
+  };
+}
+
+/**
+ * Options for writing a story cache
+ */
+export interface StoryCacheOptions {
+  /** Contents of every audio file (default: `fileSize` bytes) */
+  audio?: string;
+  /** Story file the manifest belongs to (default: `<storyHash>.txt`) */
+  storyPath?: string;
+  /** Multi-speaker groups, written along with their audio */
+  groups?: CachedSegmentGroup[];
+}
+
+/**
+ * Save a story cache manifest with the given entries and write their audio
+ */
+export async function writeStoryCache(
+  outputDir: string,
+  storyHash: string,
+  segments: CachedSegment[],
+  options: StoryCacheOptions = {},
+): Promise<void> {
+  const { audio, storyPath = `${storyHash}.txt`, groups } = options;
+  vol.fromJSON(
+    Object.fromEntries(
+      [...segments, ...(groups ?? [])].map((entry) => [
+        entry.audioPath,
+        audio ?? "x".repeat(entry.fileSize),
+      ]),
+    ),
+  );
+  const manifest: CacheManifest = {
+    ...createEmptyManifest(storyPath, "content", "config"),
+    segments,
+    groups,
+  };
+  await saveCacheManifest(outputDir, manifest, storyHash);
+}
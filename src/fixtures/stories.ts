@@ -131,6 +131,25 @@ export const MULTI_SPEAKER_STORY = `
 [NARRATOR] The battle was about to begin.
 `.trim();
 
+/**
+ * Story with chapters (both directive styles and a preamble)
+ */
+export const STORY_WITH_CHAPTERS = `
+[NARRATOR] A note before the first chapter.
+
+## Chapter 1: The Village
+[NARRATOR] Once upon a time, there was a small village.
+[ALICE] Hello, world!
+
+[CHAPTER] The Storm
+[NARRATOR] The sky turned dark.
+  The wind began to howl.
+[BOB] We should go inside.
+
+### Not a chapter, just a comment
+[NARRATOR] And so, they waited.
+`.trim();
+
 /**
  * Expected parsed segments for BRACKET_FORMAT_STORY
  */
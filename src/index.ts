@@ -11,16 +11,29 @@
 export type {
   // Parser types
   Segment,
+  SegmentKind,
+  SegmentSelection,
+  Chapter,
+  Scene,
   ParsedStory,
   // Config types
   VoiceConfig,
   ProviderConfig,
   AudioConfig,
+  PauseRules,
+  MusicTrack,
+  MusicConfig,
+  TextNormalizationConfig,
+  BookMetadata,
   Config,
   // Cache types
   SegmentHash,
   CachedSegment,
+  CachedSegmentGroup,
+  GroupSegmentTiming,
   CacheManifest,
+  BlobRefs,
+  StoryCache,
   // Generation types
   GenerationStats,
   GenerationProgress,
@@ -28,6 +41,7 @@ export type {
   AudiobookResult,
   // Manifest types
   ManifestSegment,
+  ManifestChapter,
   AudiobookManifest,
   // TTS types
   TTSRequest,
@@ -37,7 +51,9 @@ export type {
   GenerateOptions,
   PreviewOptions,
   UpdateStylesOptions,
+  RegenerateOptions,
   CleanOptions,
+  CacheGcOptions,
   // Event types
   GenerationEvent,
   GenerationEventHandler,
@@ -54,6 +70,9 @@ export {
   convertFormat,
   filterBySpeaker,
   getSegmentRange,
+  selectSegments,
+  getSfxPath,
+  SFX_SPEAKER,
   type ParserOptions,
   type ValidationResult,
 } from "./parser.js";
@@ -66,6 +85,10 @@ export {
   mergeWithDefaults,
   validateConfig,
   getVoiceConfig,
+  getVoiceProvider,
+  getVoiceProviderName,
+  getVoiceEffects,
+  hasNativeSpeed,
   hashVoiceConfig,
   hashConfig,
   updateVoiceConfig,
@@ -97,8 +120,27 @@ export {
   verifyCachedSegment,
   updateCachedSegment,
   removeCachedSegment,
+  relinkCachedSegments,
+  touchCachedSegments,
+  generateGroupHash,
+  getGroupId,
+  getCachedGroupPath,
+  getCachedAudioPath,
+  getBlobStoreDir,
+  getBlobPath,
+  getBlobKey,
+  listStoryCaches,
+  rebuildBlobRefs,
+  loadBlobRefs,
+  saveBlobRefs,
+  updateBlobRefs,
+  findUnreferencedBlobs,
+  findCachedGroup,
+  verifyCachedGroup,
+  updateCachedGroup,
   getSegmentsToGenerate,
   getCachedSegments,
+  findCachedAudio,
   getSegmentsWithStyleChanges,
   cleanStaleCacheEntries,
   getCacheStats,
@@ -111,15 +153,54 @@ export {
   CACHE_DIR_NAME,
   CACHE_MANIFEST_NAME,
   CACHE_VERSION,
+  BLOB_STORE_DIR_NAME,
+  BLOB_REFS_NAME,
 } from "./cache.js";
 
+// Export cache garbage collection
+export {
+  planCacheGc,
+  applyCacheGc,
+  parseByteSize,
+  parseAge,
+  type CacheGcReason,
+  type CacheGcBudget,
+  type CacheGcRemoval,
+  type CacheGcPlan,
+} from "./cache-gc.js";
+
+// Export cache bundles
+export {
+  createTar,
+  readTar,
+  createCacheBundle,
+  importCacheBundle,
+  exportCacheBundle,
+  importCacheBundleFile,
+  CACHE_BUNDLE_VERSION,
+  type CacheBundleInfo,
+  type TarEntry,
+  type CacheImportResult,
+} from "./cache-bundle.js";
+
 // Export TTS provider functions and classes
 export {
   GeminiTTSProvider,
+  OpenAITTSProvider,
+  ElevenLabsTTSProvider,
+  LocalCommandTTSProvider,
+  parseCommandTemplate,
   createTTSProvider,
+  createProviderPool,
+  getProviderForSpeaker,
   generateSegmentAudio,
+  groupMultiSpeakerSegments,
+  splitGroupAudio,
+  generateSegmentGroupAudio,
   formatDuration as formatTTSDuration,
   type TTSProvider,
+  type ProviderPool,
+  type GroupSegmentAudio,
 } from "./tts-provider.js";
 
 // Export utility functions
@@ -138,6 +219,7 @@ export { DEFAULT_CONCURRENCY } from "./types.js";
 export {
   stitchAudioFiles,
   stitchCachedSegments,
+  stitchChapterFiles,
   saveManifest,
   loadManifest,
   getWavInfo,
@@ -146,10 +228,128 @@ export {
   estimateCost,
   estimateAudioDuration,
   getStitchSummary,
+  getOutputExtension,
+  trimSegmentSilence,
+  exportM4b,
+  splitWavAudio,
   type AudioFileInfo,
+  type WavSlice,
   type StitchResult,
+  type StitchOptions,
+  type M4bExportResult,
 } from "./audio.js";
 
+// Export encoder functions
+export {
+  encodeAudio,
+  encodeFlac,
+  isEncodedFormat,
+  pcmToFloat32,
+  float32ToPcm,
+  type EncodedFormat,
+  type PcmFormat,
+} from "./encoder.js";
+
+// Export loudness functions
+export {
+  measureLoudness,
+  measureIntegratedLoudness,
+  measureTruePeak,
+  applyGain,
+  limitTruePeak,
+  normalizeLoudness,
+  normalizeSegmentLoudness,
+  formatLoudness,
+  DEFAULT_LOUDNESS_TARGET,
+  DEFAULT_TRUE_PEAK_LIMIT,
+  type LoudnessMeasurement,
+  type NormalizeOptions,
+} from "./loudness.js";
+
+// Export resampling functions
+export {
+  resample,
+  convertChannels,
+  convertPcm,
+  decodePcm,
+} from "./resample.js";
+
+// Export voice effect functions
+export {
+  applyVoiceEffects,
+  hasVoiceEffects,
+  timeStretch,
+  pitchShift,
+  type VoiceEffects,
+} from "./effects.js";
+
+// Export music mixing functions
+export {
+  mixMusic,
+  type DecodedTrack,
+  type MixOptions,
+  type MixResult,
+} from "./mixer.js";
+
+// Export lexicon functions
+export {
+  parseLexicon,
+  loadLexicon,
+  findPronunciations,
+  applyPronunciations,
+  applyLexicon,
+  findUnknownWords,
+  type Lexicon,
+  type LexiconFormat,
+  getSpokenText,
+  type UnknownWord,
+} from "./lexicon.js";
+
+// Export text normalization functions
+export {
+  normalizeText,
+  normalizeStory,
+  numberToWords,
+  TEXT_NORMALIZERS,
+  TEXT_NORMALIZATION_RULES,
+  NORMALIZATION_LOCALES,
+  type TextNormalizer,
+  type TextNormalizeOptions,
+  type NormalizationLocale,
+} from "./text-normalizer.js";
+
+// Export M4B functions
+export {
+  encodeM4b,
+  getImageMimeType,
+  type M4bChapter,
+  type M4bOptions,
+} from "./m4b.js";
+
+// Export EPUB functions
+export {
+  createEpub,
+  exportEpub,
+  formatSmilClock,
+  type EpubOptions,
+  type EpubExportResult,
+} from "./epub.js";
+
+// Export caption functions
+export {
+  buildCues,
+  splitCueText,
+  formatSrt,
+  formatVtt,
+  formatLrc,
+  renderCaptions,
+  exportCaptions,
+  CAPTION_FORMATS,
+  type Cue,
+  type CaptionFormat,
+  type CaptionOptions,
+} from "./captions.js";
+
 // Export converter functions
 export {
   convertToStoryFormat,
@@ -202,8 +402,15 @@ export {
 } from "./voices.js";
 
 // Re-export for convenience
-import { parseFile } from "./parser.js";
-import { loadConfig, createConfigForSpeakers } from "./config.js";
+import type { SegmentKind } from "./types.js";
+import { parseFile, getSfxPath } from "./parser.js";
+import {
+  loadConfig,
+  createConfigForSpeakers,
+  getVoiceConfig,
+  getVoiceEffects,
+  getVoiceProviderName,
+} from "./config.js";
 
 /**
  * Quick start function for programmatic usage
@@ -225,11 +432,10 @@ export async function quickGenerate(
     configPath?: string;
   } = {},
 ): Promise<void> {
-  const { stitchAudioFiles } = await import("./audio.js");
+  const { stitchAudioFiles, getOutputExtension } = await import("./audio.js");
   const { ensureCacheDir, getCachedSegmentPath } = await import("./cache.js");
-  const { createTTSProvider, generateSegmentAudio } = await import(
-    "./tts-provider.js"
-  );
+  const { createProviderPool, getProviderForSpeaker, generateSegmentAudio } =
+    await import("./tts-provider.js");
   const { mkdir } = await import("fs/promises");
   const { join, basename, extname } = await import("path");
 
@@ -253,9 +459,11 @@ export async function quickGenerate(
   await mkdir(outputDir, { recursive: true });
   await ensureCacheDir(outputDir);
 
-  // Initialize provider
-  const provider = createTTSProvider(config);
-  await provider.initialize();
+  // Initialize one provider per provider used by the story's voices
+  const pool = createProviderPool(config, story.speakers);
+  for (const provider of pool.values()) {
+    await provider.initialize();
+  }
 
   // Generate all segments
   const audioFiles: Array<{
@@ -263,40 +471,73 @@ export async function quickGenerate(
     index: number;
     speaker: string;
     text: string;
+    kind?: SegmentKind;
+    pauseBeforeMs?: number;
+    paragraphStart?: boolean;
+    speed?: number;
+    pitch?: number;
+    provider?: string;
   }> = [];
 
   for (const segment of story.segments) {
-    const outputPath = getCachedSegmentPath(
-      outputDir,
-      segment.id,
-      config.audio.format,
-    );
+    // Sound effects are played from local files without TTS
+    if (segment.kind === "sfx") {
+      audioFiles.push({
+        path: getSfxPath(segment, storyPath),
+        index: segment.index,
+        speaker: segment.speaker,
+        text: segment.text,
+        kind: segment.kind,
+        pauseBeforeMs: segment.pauseBeforeMs,
+        paragraphStart: segment.paragraphStart,
+      });
+      continue;
+    }
+
+    const outputPath = getCachedSegmentPath(outputDir, segment.id, "wav");
 
     const response = await generateSegmentAudio(
-      provider,
+      getProviderForSpeaker(pool, config, segment.speaker),
       segment,
       config,
       outputPath,
     );
 
     if (response.success && response.audioPath) {
+      const voice = getVoiceConfig(config, segment.speaker);
       audioFiles.push({
         path: response.audioPath,
         index: segment.index,
         speaker: segment.speaker,
         text: segment.text,
+        pauseBeforeMs: segment.pauseBeforeMs,
+        paragraphStart: segment.paragraphStart,
+        ...getVoiceEffects(config, voice),
+        provider: getVoiceProviderName(config, voice),
       });
     }
   }
 
   // Stitch together
-  const outputFileName = `${basename(storyPath, extname(storyPath))}_audiobook.wav`;
+  const outputFileName = `${basename(storyPath, extname(storyPath))}_audiobook${getOutputExtension(config.audio.format)}`;
   const outputPath = join(outputDir, outputFileName);
 
   await stitchAudioFiles(audioFiles, outputPath, {
     silencePaddingMs: config.audio.silencePadding,
+    sampleRate: config.audio.sampleRate,
+    bitsPerSample: config.audio.bitDepth,
+    format: config.audio.format,
+    normalize: config.audio.normalize,
+    loudnessTarget: config.audio.loudnessTarget,
+    truePeakLimit: config.audio.truePeakLimit,
+    pauses: config.audio.pauses,
+    trimSilence: config.audio.trimSilence,
+    silenceThreshold: config.audio.silenceThreshold,
+    music: config.audio.music,
+    scenes: story.scenes,
     title: basename(storyPath, extname(storyPath)),
     sourceFile: storyPath,
+    chapters: story.chapters,
   });
 
   console.log(`Audiobook generated: ${outputPath}`);
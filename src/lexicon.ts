@@ -0,0 +1,298 @@
+/**
+ * Pronunciation lexicon
+ *
+ * Handles:
+ * - Loading lexicon files (JSON or PLS) and merging them in order
+ * - Finding the entries that match each segment and applying them to the
+ *   text sent to the TTS provider
+ * - Listing capitalized words that probably need an entry
+ *
+ * Entries map a word as written to what the provider reads instead: a
+ * respelling ("AEL-win") or an IPA pronunciation, which is read as
+ * "/ˈaɛl.wɪn/". Matching is case-sensitive and on whole words only.
+ */
+
+import { readFile } from "fs/promises";
+import { homedir } from "os";
+import { extname, resolve } from "path";
+import type { ParsedStory, Segment } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Loaded lexicon: word as written -> text read instead
+ */
+export type Lexicon = Record<string, string>;
+
+/**
+ * Lexicon file formats
+ */
+export type LexiconFormat = "json" | "pls";
+
+/**
+ * A capitalized word with no lexicon entry
+ */
+export interface UnknownWord {
+  /** The word as written */
+  word: string;
+  /** Number of times it appears */
+  count: number;
+  /** Line number of its first appearance */
+  lineNumber: number;
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Decode the XML entities used in PLS files
+ */
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+/**
+ * Parse a PLS lexicon. Each <lexeme> maps its <grapheme>s to an <alias>
+ * (respelling) or a <phoneme> (IPA).
+ */
+function parsePls(content: string): Lexicon {
+  const lexicon: Lexicon = {};
+
+  for (const [, body] of content.matchAll(
+    /<lexeme\b[^>]*>([\s\S]*?)<\/lexeme>/g,
+  )) {
+    const graphemes = [
+      ...body.matchAll(/<grapheme>([\s\S]*?)<\/grapheme>/g),
+    ].map((m) => decodeXml(m[1]));
+    const alias = body.match(/<alias>([\s\S]*?)<\/alias>/);
+    const phoneme = body.match(/<phoneme\b[^>]*>([\s\S]*?)<\/phoneme>/);
+    if (!alias && !phoneme) {
+      throw new Error(
+        `Lexeme for ${graphemes.join(", ") || "unknown word"} has no alias or phoneme`,
+      );
+    }
+
+    const reading = alias ? decodeXml(alias[1]) : `/${decodeXml(phoneme![1])}/`;
+    for (const grapheme of graphemes) {
+      lexicon[grapheme] = reading;
+    }
+  }
+
+  return lexicon;
+}
+
+/**
+ * Parse a JSON lexicon: { "Aelwyn": "AEL-win", "Caer": { "ipa": "kaɪər" } }
+ */
+function parseJson(content: string): Lexicon {
+  const entries = JSON.parse(content) as Record<string, unknown>;
+  const lexicon: Lexicon = {};
+
+  for (const [word, entry] of Object.entries(entries)) {
+    if (typeof entry === "string") {
+      lexicon[word] = entry;
+    } else if (
+      entry &&
+      typeof entry === "object" &&
+      typeof (entry as { ipa?: unknown }).ipa === "string"
+    ) {
+      lexicon[word] = `/${(entry as { ipa: string }).ipa}/`;
+    } else {
+      throw new Error(`Invalid lexicon entry for ${word}`);
+    }
+  }
+
+  return lexicon;
+}
+
+/**
+ * Parse lexicon file content
+ */
+export function parseLexicon(content: string, format: LexiconFormat): Lexicon {
+  return format === "pls" ? parsePls(content) : parseJson(content);
+}
+
+/**
+ * Load and merge lexicon files. Paths are relative to `baseDir` (or the home
+ * directory for "~/" paths, for dictionaries shared between books). Later
+ * files override earlier ones, so list global dictionaries first.
+ */
+export async function loadLexicon(
+  paths: string[],
+  baseDir: string,
+): Promise<Lexicon> {
+  const lexicon: Lexicon = {};
+
+  for (const file of paths) {
+    const path = file.startsWith("~/")
+      ? resolve(homedir(), file.slice(2))
+      : resolve(baseDir, file);
+
+    let content: string;
+    try {
+      content = await readFile(path, "utf-8");
+    } catch {
+      throw new Error(`Lexicon file not found: ${path}`);
+    }
+
+    const ext = extname(path).toLowerCase();
+    const format = ext === ".pls" || ext === ".xml" ? "pls" : "json";
+    try {
+      Object.assign(lexicon, parseLexicon(content, format));
+    } catch (error) {
+      throw new Error(
+        `Failed to parse lexicon ${path}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  }
+
+  return lexicon;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Build a regex matching any of the words on their own, longest first so
+ * multi-word entries win over the words inside them
+ */
+function buildWordPattern(words: string[]): RegExp {
+  const alternatives = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}_])(?:${alternatives.join("|")})(?![\\p{L}\\p{N}_])`,
+    "gu",
+  );
+}
+
+/**
+ * Find the lexicon entries used by a text, sorted by word
+ */
+export function findPronunciations(text: string, lexicon: Lexicon): Lexicon {
+  const words = Object.keys(lexicon);
+  if (words.length === 0) {
+    return {};
+  }
+
+  const found = new Set(text.match(buildWordPattern(words)) ?? []);
+  const pronunciations: Lexicon = {};
+  for (const word of [...found].sort()) {
+    pronunciations[word] = lexicon[word];
+  }
+  return pronunciations;
+}
+
+/**
+ * Replace the words in a text with their pronunciations
+ */
+export function applyPronunciations(
+  text: string,
+  pronunciations: Lexicon | undefined,
+): string {
+  if (!pronunciations || Object.keys(pronunciations).length === 0) {
+    return text;
+  }
+  const lookup = pronunciations;
+  return text.replace(
+    buildWordPattern(Object.keys(lookup)),
+    (word) => lookup[word],
+  );
+}
+
+/**
+ * Get the text the provider reads for a segment: its normalized text, with
+ * its lexicon entries applied
+ */
+export function getSpokenText(segment: Segment): string {
+  return applyPronunciations(
+    segment.normalizedText ?? segment.text,
+    segment.pronunciations,
+  );
+}
+
+/**
+ * Attach the matching lexicon entries to each spoken segment of a story.
+ * Segments only carry the entries they use, so editing one entry only
+ * changes the cache hashes of the segments that contain the word.
+ */
+export function applyLexicon(
+  story: ParsedStory,
+  lexicon: Lexicon,
+): ParsedStory {
+  return {
+    ...story,
+    segments: story.segments.map((segment) => {
+      if (segment.kind !== "speech") {
+        return segment;
+      }
+      const pronunciations = findPronunciations(
+        segment.normalizedText ?? segment.text,
+        lexicon,
+      );
+      return Object.keys(pronunciations).length > 0
+        ? { ...segment, pronunciations }
+        : segment;
+    }),
+  };
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * List capitalized words with no lexicon entry, most frequent first.
+ *
+ * Words that also appear in lower case elsewhere in the story are taken to
+ * be ordinary words capitalized at the start of a sentence, so what's left
+ * is mostly names and other coinages the provider may mispronounce.
+ */
+export function findUnknownWords(
+  story: ParsedStory,
+  lexicon: Lexicon,
+): UnknownWord[] {
+  const known = new Set(Object.keys(lexicon).flatMap((w) => w.split(/\s+/)));
+  const lowercase = new Set<string>();
+  const candidates = new Map<string, UnknownWord>();
+
+  for (const segment of story.segments) {
+    if (segment.kind !== "speech") {
+      continue;
+    }
+    for (const [token] of segment.text.matchAll(/\p{L}+(?:['’-]\p{L}+)*/gu)) {
+      const word = token.replace(/['’]s$/u, "");
+      if (!/^\p{Lu}/u.test(word)) {
+        lowercase.add(word.toLowerCase());
+        continue;
+      }
+      if (word.length < 2 || known.has(word) || known.has(token)) {
+        continue;
+      }
+      const entry = candidates.get(word);
+      if (entry) {
+        entry.count++;
+      } else {
+        candidates.set(word, {
+          word,
+          count: 1,
+          lineNumber: segment.lineNumber,
+        });
+      }
+    }
+  }
+
+  return [...candidates.values()]
+    .filter((c) => !lowercase.has(c.word.toLowerCase()))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+}
@@ -0,0 +1,491 @@
+/**
+ * Loudness measurement and normalization
+ *
+ * Handles:
+ * - Measuring integrated loudness (ITU-R BS.1770 / EBU R128)
+ * - Measuring true peak with 4x oversampling
+ * - Normalizing to a LUFS target with a true-peak limiter
+ *
+ * Each segment is normalized on its own first, with the gain capped so
+ * near-silent lines aren't boosted into noise, and the stitched book is
+ * normalized again, so voices from different providers sit at one level.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default integrated loudness target in LUFS
+ */
+export const DEFAULT_LOUDNESS_TARGET = -18;
+
+/**
+ * Default true-peak ceiling in dBTP
+ */
+export const DEFAULT_TRUE_PEAK_LIMIT = -1;
+
+/**
+ * Largest gain applied to a single segment, so near-silent segments
+ * (breaths, style-only lines) aren't boosted into noise
+ */
+const MAX_SEGMENT_GAIN_DB = 12;
+
+/**
+ * Gating block length and step from BS.1770
+ */
+const BLOCK_MS = 400;
+const BLOCK_STEP_MS = 100;
+
+/**
+ * Gate thresholds from BS.1770
+ */
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+/**
+ * Oversampling factor for true-peak measurement
+ */
+const OVERSAMPLING = 4;
+
+/**
+ * Taps on each side of the interpolation point
+ */
+const INTERPOLATION_HALF_TAPS = 6;
+
+/**
+ * How far ahead of a peak the limiter starts reducing gain; the gain
+ * ramps down and back up over twice this length
+ */
+const LIMITER_LOOKAHEAD_MS = 5;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Loudness of a piece of audio
+ */
+export interface LoudnessMeasurement {
+  /** Integrated loudness in LUFS (-Infinity for silence) */
+  integratedLufs: number;
+  /** True peak in dBTP (-Infinity for silence) */
+  truePeakDbtp: number;
+}
+
+/**
+ * Options for loudness normalization
+ */
+export interface NormalizeOptions {
+  /** Target integrated loudness in LUFS */
+  targetLufs?: number;
+  /** True-peak ceiling in dBTP */
+  truePeakLimit?: number;
+  /** Largest gain to apply in dB */
+  maxGainDb?: number;
+}
+
+// ============================================================================
+// Integrated Loudness
+// ============================================================================
+
+/**
+ * Biquad coefficients as [b0, b1, b2, a1, a2]
+ */
+type Biquad = [number, number, number, number, number];
+
+/**
+ * K-weighting filters for a sample rate: a high shelf modelling the head
+ * followed by the RLB high-pass. Coefficients are derived for any sample
+ * rate rather than using the 48 kHz table from the standard.
+ */
+function getKWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  // High shelf
+  let f0 = 1681.974450955533;
+  let q = 0.7071752369554196;
+  const gain = 3.999843853973347;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = [
+    (vh + (vb * k) / q + k * k) / a0,
+    (2 * (k * k - vh)) / a0,
+    (vh - (vb * k) / q + k * k) / a0,
+    (2 * (k * k - 1)) / a0,
+    (1 - k / q + k * k) / a0,
+  ];
+
+  // High-pass
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = [
+    1,
+    -2,
+    1,
+    (2 * (k * k - 1)) / a0,
+    (1 - k / q + k * k) / a0,
+  ];
+
+  return [shelf, highPass];
+}
+
+/**
+ * Convert a mean square power to LUFS
+ */
+function powerToLufs(power: number): number {
+  return power > 0 ? -0.691 + 10 * Math.log10(power) : -Infinity;
+}
+
+/**
+ * Measure integrated loudness in LUFS
+ *
+ * Audio shorter than one gating block is measured as a single block.
+ */
+export function measureIntegratedLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+): number {
+  const frames = channels.length > 0 ? channels[0].length : 0;
+  const stepFrames = Math.round((sampleRate * BLOCK_STEP_MS) / 1000);
+  const stepsPerBlock = BLOCK_MS / BLOCK_STEP_MS;
+  if (frames === 0 || stepFrames === 0) {
+    return -Infinity;
+  }
+
+  // K-weighted energy summed over channels, per 100ms step
+  const stepCount = Math.ceil(frames / stepFrames);
+  const stepEnergy = new Float64Array(stepCount);
+  const [shelf, highPass] = getKWeightingFilters(sampleRate);
+
+  for (const samples of channels) {
+    // Direct form II transposed state for both filters
+    let s1 = 0;
+    let s2 = 0;
+    let h1 = 0;
+    let h2 = 0;
+    for (let i = 0; i < frames; i++) {
+      const x = samples[i];
+      const y = shelf[0] * x + s1;
+      s1 = shelf[1] * x - shelf[3] * y + s2;
+      s2 = shelf[2] * x - shelf[4] * y;
+      const z = highPass[0] * y + h1;
+      h1 = highPass[1] * y - highPass[3] * z + h2;
+      h2 = highPass[2] * y - highPass[4] * z;
+      stepEnergy[Math.floor(i / stepFrames)] += z * z;
+    }
+  }
+
+  // Overlapping 400ms blocks
+  const blockPowers: number[] = [];
+  if (stepCount < stepsPerBlock) {
+    blockPowers.push(stepEnergy.reduce((sum, e) => sum + e, 0) / frames);
+  } else {
+    for (let start = 0; start + stepsPerBlock <= stepCount; start++) {
+      let energy = 0;
+      for (let i = start; i < start + stepsPerBlock; i++) {
+        energy += stepEnergy[i];
+      }
+      const blockFrames = Math.min(
+        stepsPerBlock * stepFrames,
+        frames - start * stepFrames,
+      );
+      blockPowers.push(energy / blockFrames);
+    }
+  }
+
+  // Absolute gate, then relative gate against the absolute-gated mean
+  const mean = (powers: number[]) =>
+    powers.reduce((sum, p) => sum + p, 0) / powers.length;
+  const audible = blockPowers.filter(
+    (p) => powerToLufs(p) > ABSOLUTE_GATE_LUFS,
+  );
+  if (audible.length === 0) {
+    return -Infinity;
+  }
+  const relativeGate = powerToLufs(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter((p) => powerToLufs(p) > relativeGate);
+
+  return powerToLufs(mean(gated.length > 0 ? gated : audible));
+}
+
+// ============================================================================
+// True Peak
+// ============================================================================
+
+/**
+ * Windowed-sinc interpolation coefficients for the points between two
+ * samples, one row per oversampled phase
+ */
+const INTERPOLATION_PHASES: number[][] = Array.from(
+  { length: OVERSAMPLING - 1 },
+  (_, p) => {
+    const fraction = (p + 1) / OVERSAMPLING;
+    const taps: number[] = [];
+    for (
+      let k = -INTERPOLATION_HALF_TAPS + 1;
+      k <= INTERPOLATION_HALF_TAPS;
+      k++
+    ) {
+      const t = k - fraction;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window =
+        0.5 * (1 + Math.cos((Math.PI * t) / INTERPOLATION_HALF_TAPS));
+      taps.push(sinc * window);
+    }
+    return taps;
+  },
+);
+
+/**
+ * Get the highest absolute value between a sample and the next one,
+ * including the oversampled points in between
+ */
+function getSamplePeak(samples: Float32Array, index: number): number {
+  let peak = Math.abs(samples[index]);
+
+  for (const taps of INTERPOLATION_PHASES) {
+    let value = 0;
+    for (let i = 0; i < taps.length; i++) {
+      const source = index + i - INTERPOLATION_HALF_TAPS + 1;
+      if (source >= 0 && source < samples.length) {
+        value += taps[i] * samples[source];
+      }
+    }
+    peak = Math.max(peak, Math.abs(value));
+  }
+
+  return peak;
+}
+
+/**
+ * Find each frame whose true peak exceeds a threshold on any channel
+ *
+ * Oversampling every frame is slow on book-length audio, so only frames
+ * next to a sample above half the threshold are checked; inter-sample
+ * peaks more than 6 dB above their neighbours don't occur in speech.
+ */
+function findPeaksAbove(
+  channels: Float32Array[],
+  threshold: number,
+  onPeak: (frame: number, peak: number) => void,
+): void {
+  const frames = channels.length > 0 ? channels[0].length : 0;
+  const candidate = threshold / 2;
+
+  for (let i = 0; i < frames; i++) {
+    let peak = 0;
+    for (const samples of channels) {
+      const next = Math.min(i + 1, frames - 1);
+      if (
+        Math.abs(samples[i]) > candidate ||
+        Math.abs(samples[next]) > candidate
+      ) {
+        peak = Math.max(peak, getSamplePeak(samples, i));
+      }
+    }
+    if (peak > threshold) {
+      onPeak(i, peak);
+    }
+  }
+}
+
+/**
+ * Measure the true peak in dBTP
+ */
+export function measureTruePeak(channels: Float32Array[]): number {
+  let samplePeak = 0;
+  for (const samples of channels) {
+    for (let i = 0; i < samples.length; i++) {
+      samplePeak = Math.max(samplePeak, Math.abs(samples[i]));
+    }
+  }
+  if (samplePeak === 0) {
+    return -Infinity;
+  }
+
+  let truePeak = samplePeak;
+  findPeaksAbove(channels, samplePeak, (_frame, peak) => {
+    truePeak = Math.max(truePeak, peak);
+  });
+
+  return 20 * Math.log10(truePeak);
+}
+
+/**
+ * Measure integrated loudness and true peak
+ */
+export function measureLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+): LoudnessMeasurement {
+  return {
+    integratedLufs: measureIntegratedLoudness(channels, sampleRate),
+    truePeakDbtp: measureTruePeak(channels),
+  };
+}
+
+// ============================================================================
+// Gain and Limiting
+// ============================================================================
+
+/**
+ * Apply a gain in dB in place
+ */
+export function applyGain(channels: Float32Array[], gainDb: number): void {
+  if (gainDb === 0) {
+    return;
+  }
+  const factor = Math.pow(10, gainDb / 20);
+  for (const samples of channels) {
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] *= factor;
+    }
+  }
+}
+
+/**
+ * Limit true peaks to a ceiling in place
+ *
+ * Gain is only reduced around peaks over the ceiling. Around each one the
+ * gain is held at the reduction the peak needs for the look-ahead time on
+ * either side, then smoothed with a moving average of the same length, so
+ * it ramps down before the peak and back up after it without clicks.
+ * Channels share one gain so the stereo image doesn't shift.
+ */
+export function limitTruePeak(
+  channels: Float32Array[],
+  sampleRate: number,
+  ceilingDbtp: number,
+): void {
+  const ceiling = Math.pow(10, ceilingDbtp / 20);
+  const frames = channels.length > 0 ? channels[0].length : 0;
+  const lookahead = Math.max(
+    1,
+    Math.round((sampleRate * LIMITER_LOOKAHEAD_MS) / 1000),
+  );
+
+  // Frames whose peak is over the ceiling, with the gain each one needs
+  const overs: Array<{ frame: number; gain: number }> = [];
+  findPeaksAbove(channels, ceiling, (frame, peak) => {
+    overs.push({ frame, gain: ceiling / peak });
+  });
+
+  // Process each run of overs close enough to affect each other's gain
+  let i = 0;
+  while (i < overs.length) {
+    let j = i;
+    while (
+      j + 1 < overs.length &&
+      overs[j + 1].frame - overs[j].frame <= 4 * lookahead
+    ) {
+      j++;
+    }
+
+    const start = Math.max(0, overs[i].frame - 2 * lookahead);
+    const end = Math.min(frames - 1, overs[j].frame + 2 * lookahead);
+    const held = new Float32Array(end - start + 1).fill(1);
+    for (let k = i; k <= j; k++) {
+      const { frame, gain } = overs[k];
+      const from = Math.max(start, frame - lookahead);
+      const to = Math.min(end, frame + lookahead + 1);
+      for (let f = from; f <= to; f++) {
+        held[f - start] = Math.min(held[f - start], gain);
+      }
+    }
+
+    // Every frame within the look-ahead of a peak holds at most the peak's
+    // gain, so their average never lets the peak through
+    const heldAt = (f: number) =>
+      f >= start && f <= end ? held[f - start] : 1;
+    const width = 2 * lookahead + 1;
+    let sum = 0;
+    for (let m = start - lookahead; m <= start + lookahead; m++) {
+      sum += heldAt(m);
+    }
+    for (let f = start; f <= end; f++) {
+      const gain = sum / width;
+      for (const samples of channels) {
+        samples[f] *= gain;
+      }
+      sum += heldAt(f + lookahead + 1) - heldAt(f - lookahead);
+    }
+
+    i = j + 1;
+  }
+}
+
+/**
+ * Apply the gain that brings audio to a loudness target in place.
+ * Returns the loudness before normalization and the gain applied
+ * (silence is left untouched).
+ */
+function applyLoudnessGain(
+  channels: Float32Array[],
+  sampleRate: number,
+  targetLufs: number,
+  maxGainDb: number,
+): { inputLufs: number; gainDb: number } {
+  const inputLufs = measureIntegratedLoudness(channels, sampleRate);
+  const gainDb = Number.isFinite(inputLufs)
+    ? Math.max(-maxGainDb, Math.min(maxGainDb, targetLufs - inputLufs))
+    : 0;
+
+  applyGain(channels, gainDb);
+  return { inputLufs, gainDb };
+}
+
+/**
+ * Normalize a single segment to the loudness target in place, so voices
+ * match before they're stitched. The gain is capped so near-silent
+ * segments aren't boosted into noise; peaks are left for the final limiter.
+ */
+export function normalizeSegmentLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: NormalizeOptions = {},
+): { inputLufs: number; gainDb: number } {
+  return applyLoudnessGain(
+    channels,
+    sampleRate,
+    options.targetLufs ?? DEFAULT_LOUDNESS_TARGET,
+    options.maxGainDb ?? MAX_SEGMENT_GAIN_DB,
+  );
+}
+
+/**
+ * Normalize audio to a loudness target in place, limiting true peaks to
+ * the ceiling. Returns the loudness before normalization and the gain
+ * applied (silence is left untouched).
+ */
+export function normalizeLoudness(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: NormalizeOptions = {},
+): { inputLufs: number; gainDb: number } {
+  const result = applyLoudnessGain(
+    channels,
+    sampleRate,
+    options.targetLufs ?? DEFAULT_LOUDNESS_TARGET,
+    options.maxGainDb ?? Infinity,
+  );
+
+  limitTruePeak(
+    channels,
+    sampleRate,
+    options.truePeakLimit ?? DEFAULT_TRUE_PEAK_LIMIT,
+  );
+
+  return result;
+}
+
+/**
+ * Format a loudness value for display
+ */
+export function formatLoudness(value: number, unit: "LUFS" | "dBTP"): string {
+  return Number.isFinite(value)
+    ? `${value.toFixed(1)} ${unit}`
+    : `-inf ${unit}`;
+}
@@ -0,0 +1,573 @@
+/**
+ * M4B audiobook writer
+ *
+ * Handles:
+ * - Encoding PCM to AAC in an MP4 container (via the mediabunny WASM encoder)
+ * - Title, author and cover art metadata
+ * - Chapter lists as both a Nero `chpl` atom and a QuickTime chapter track
+ *
+ * Apple Books reads the QuickTime chapter track; most other players
+ * (VLC, Audible-style apps, ffmpeg-based tools) read `chpl`.
+ */
+
+import {
+  AudioSample,
+  AudioSampleSource,
+  BufferTarget,
+  Mp4OutputFormat,
+  Output,
+  type AttachedImage,
+} from "mediabunny";
+import { registerAacEncoder } from "@mediabunny/aac-encoder";
+import { pcmToFloat32, type PcmFormat } from "./encoder.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A chapter marker in the output file
+ */
+export interface M4bChapter {
+  /** Chapter title shown by players */
+  title: string;
+  /** Chapter start in milliseconds */
+  startMs: number;
+}
+
+/**
+ * Options for writing an M4B file
+ */
+export interface M4bOptions {
+  /** Book title */
+  title?: string;
+  /** Author name */
+  author?: string;
+  /** Cover image (JPEG or PNG) */
+  cover?: Buffer;
+  /** Chapter markers (sorted or unsorted) */
+  chapters?: M4bChapter[];
+  /** AAC bitrate in bits per second */
+  bitrate?: number;
+}
+
+/**
+ * Default AAC bitrate (spoken word, mono)
+ */
+const DEFAULT_AAC_BITRATE = 64000;
+
+/**
+ * Number of sample frames handed to the AAC encoder per call
+ */
+const ENCODE_CHUNK_FRAMES = 65536;
+
+/**
+ * Maximum number of chapters a `chpl` atom can hold (8-bit count)
+ */
+const CHPL_MAX_CHAPTERS = 255;
+
+/**
+ * Packed ISO-639-2 code for "und" (undetermined language)
+ */
+const LANGUAGE_UNDETERMINED = 0x55c4;
+
+/**
+ * Track header flag: track is part of the presentation but not played
+ */
+const TKHD_FLAG_IN_MOVIE = 0x2;
+
+/**
+ * Unity transformation matrix used by tkhd and the text media header
+ */
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+let aacEncoderRegistered = false;
+
+// ============================================================================
+// Cover Images
+// ============================================================================
+
+/**
+ * Detect the MIME type of a cover image from its magic bytes
+ */
+export function getImageMimeType(data: Buffer): string | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8) {
+    return "image/jpeg";
+  }
+  if (
+    data.length >= 8 &&
+    data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))
+  ) {
+    return "image/png";
+  }
+  return null;
+}
+
+// ============================================================================
+// MP4 Box Utilities
+// ============================================================================
+
+/**
+ * Location of a box within a buffer
+ */
+interface Mp4Box {
+  /** Four-character box type */
+  type: string;
+  /** Offset of the box header */
+  start: number;
+  /** Header length (8, or 16 for 64-bit sizes) */
+  headerSize: number;
+  /** Total box length including the header */
+  size: number;
+}
+
+/**
+ * List the boxes between two offsets of a buffer
+ */
+function readBoxes(buffer: Buffer, start: number, end: number): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+
+    if (size < headerSize || offset + size > end) {
+      throw new Error(`Malformed MP4 box "${type}" at offset ${offset}`);
+    }
+
+    boxes.push({ type, start: offset, headerSize, size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Get the payload of a box (everything after the header)
+ */
+function boxPayload(buffer: Buffer, box: Mp4Box): Buffer {
+  return buffer.subarray(box.start + box.headerSize, box.start + box.size);
+}
+
+/**
+ * Build a box from its type and payload
+ */
+function makeBox(type: string, ...payload: Buffer[]): Buffer {
+  const header = Buffer.alloc(8);
+  const body = Buffer.concat(payload);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, "latin1");
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * Build a full box (version + 24-bit flags prefix)
+ */
+function makeFullBox(
+  type: string,
+  version: number,
+  flags: number,
+  ...payload: Buffer[]
+): Buffer {
+  const versionAndFlags = Buffer.alloc(4);
+  versionAndFlags.writeUInt32BE(((version << 24) | flags) >>> 0, 0);
+  return makeBox(type, versionAndFlags, ...payload);
+}
+
+/**
+ * Pack unsigned 32-bit integers big-endian
+ */
+function uint32s(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value >>> 0, i * 4));
+  return buffer;
+}
+
+/**
+ * Pack unsigned 16-bit integers big-endian
+ */
+function uint16s(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 2);
+  values.forEach((value, i) => buffer.writeUInt16BE(value, i * 2));
+  return buffer;
+}
+
+/**
+ * Truncate a string so its UTF-8 encoding fits in a byte budget
+ */
+function truncateUtf8(text: string, maxBytes: number): Buffer {
+  let encoded = Buffer.from(text, "utf-8");
+  let chars = [...text];
+  while (encoded.length > maxBytes) {
+    chars = chars.slice(0, -1);
+    encoded = Buffer.from(chars.join(""), "utf-8");
+  }
+  return encoded;
+}
+
+// ============================================================================
+// Chapter Atoms
+// ============================================================================
+
+/**
+ * Chapter with its resolved duration
+ */
+interface TimedChapter {
+  title: string;
+  startMs: number;
+  durationMs: number;
+}
+
+/**
+ * Sort chapters, drop ones past the end and make them cover the whole file
+ */
+function resolveChapters(
+  chapters: M4bChapter[],
+  totalDurationMs: number,
+): TimedChapter[] {
+  const sorted = chapters
+    .map((c) => ({ title: c.title, startMs: Math.round(c.startMs) }))
+    .filter((c) => c.startMs < totalDurationMs)
+    .sort((a, b) => a.startMs - b.startMs);
+
+  if (sorted.length === 0) {
+    return [];
+  }
+
+  // Players expect the first chapter to start at the beginning
+  sorted[0].startMs = 0;
+
+  return sorted.map((chapter, i) => {
+    const endMs =
+      i < sorted.length - 1 ? sorted[i + 1].startMs : totalDurationMs;
+    return { ...chapter, durationMs: Math.max(0, endMs - chapter.startMs) };
+  });
+}
+
+/**
+ * Build a Nero-style `chpl` atom (start times in 100ns units)
+ */
+function createChplBox(chapters: TimedChapter[]): Buffer {
+  const entries = chapters.slice(0, CHPL_MAX_CHAPTERS).map((chapter) => {
+    const start = Buffer.alloc(8);
+    start.writeBigUInt64BE(BigInt(chapter.startMs) * 10000n, 0);
+    const title = truncateUtf8(chapter.title, 255);
+    return Buffer.concat([start, Buffer.from([title.length]), title]);
+  });
+
+  return makeFullBox(
+    "chpl",
+    1,
+    0,
+    uint32s(0),
+    Buffer.from([entries.length]),
+    ...entries,
+  );
+}
+
+/**
+ * Build one chapter text sample: 16-bit length, UTF-8 text, `encd` atom
+ */
+function createChapterSample(title: string): Buffer {
+  const text = truncateUtf8(title, 0xffff);
+  return Buffer.concat([
+    uint16s(text.length),
+    text,
+    makeBox("encd", uint32s(0x00000100)),
+  ]);
+}
+
+/**
+ * Build the `trak` for a QuickTime chapter text track
+ */
+function createChapterTrack(
+  trackId: number,
+  chapters: TimedChapter[],
+  samples: Buffer[],
+  chunkOffset: number,
+  movieTimescale: number,
+  totalDurationMs: number,
+): Buffer {
+  const movieDuration = Math.round((totalDurationMs * movieTimescale) / 1000);
+
+  const tkhd = makeFullBox(
+    "tkhd",
+    0,
+    TKHD_FLAG_IN_MOVIE,
+    uint32s(0, 0, trackId, 0, movieDuration, 0, 0),
+    uint16s(0, 0, 0, 0), // layer, alternate group, volume, reserved
+    uint32s(...IDENTITY_MATRIX),
+    uint32s(0, 0), // width, height
+  );
+
+  const mdhd = makeFullBox(
+    "mdhd",
+    0,
+    0,
+    uint32s(0, 0, 1000, totalDurationMs),
+    uint16s(LANGUAGE_UNDETERMINED, 0),
+  );
+
+  const hdlr = makeFullBox(
+    "hdlr",
+    0,
+    0,
+    uint32s(0),
+    Buffer.from("text", "latin1"),
+    Buffer.alloc(12),
+    Buffer.from("Chapters\0", "utf-8"),
+  );
+
+  const gmhd = makeBox(
+    "gmhd",
+    makeFullBox("gmin", 0, 0, uint16s(0x40, 0x8000, 0x8000, 0x8000, 0, 0)),
+    makeBox("text", uint32s(...IDENTITY_MATRIX)),
+  );
+
+  const dinf = makeBox(
+    "dinf",
+    makeFullBox("dref", 0, 0, uint32s(1), makeFullBox("url ", 0, 1)),
+  );
+
+  // QuickTime text sample entry with a 3GPP-style default style record
+  const textEntry = makeBox(
+    "text",
+    Buffer.alloc(6), // reserved
+    uint16s(1), // data reference index
+    uint32s(1), // display flags
+    Buffer.alloc(2), // justification
+    Buffer.alloc(4), // background colour
+    Buffer.alloc(8), // default text box
+    uint16s(0, 0, 1), // style: start char, end char, font ID
+    Buffer.alloc(2), // style flags, font size
+    Buffer.alloc(4), // foreground colour
+    makeBox("ftab", uint16s(1, 1), Buffer.from([0])),
+  );
+
+  const stbl = makeBox(
+    "stbl",
+    makeFullBox("stsd", 0, 0, uint32s(1), textEntry),
+    makeFullBox(
+      "stts",
+      0,
+      0,
+      uint32s(chapters.length),
+      ...chapters.map((c) => uint32s(1, c.durationMs)),
+    ),
+    makeFullBox("stsc", 0, 0, uint32s(1, 1, samples.length, 1)),
+    makeFullBox(
+      "stsz",
+      0,
+      0,
+      uint32s(0, samples.length),
+      ...samples.map((s) => uint32s(s.length)),
+    ),
+    makeFullBox("stco", 0, 0, uint32s(1, chunkOffset)),
+  );
+
+  return makeBox(
+    "trak",
+    tkhd,
+    makeBox("mdia", mdhd, hdlr, makeBox("minf", gmhd, dinf, stbl)),
+  );
+}
+
+/**
+ * Add chapters to an MP4 whose `moov` follows its `mdat`.
+ *
+ * The chapter samples go into a new `mdat` placed just before `moov`, so
+ * the offsets of the existing audio samples stay valid.
+ */
+function addChapters(
+  mp4: Buffer,
+  chapters: TimedChapter[],
+  totalDurationMs: number,
+): Buffer {
+  const topLevel = readBoxes(mp4, 0, mp4.length);
+  const moov = topLevel.find((b) => b.type === "moov");
+  if (!moov) {
+    throw new Error("MP4 output has no moov box");
+  }
+  if (topLevel.some((b) => b.type === "mdat" && b.start > moov.start)) {
+    throw new Error("MP4 output must place moov after mdat");
+  }
+
+  const moovChildren = readBoxes(
+    mp4,
+    moov.start + moov.headerSize,
+    moov.start + moov.size,
+  );
+  const mvhd = moovChildren.find((b) => b.type === "mvhd");
+  if (!mvhd) {
+    throw new Error("MP4 output has no mvhd box");
+  }
+
+  // mvhd: timescale and next_track_ID sit at version-dependent offsets
+  const mvhdPayload = Buffer.from(boxPayload(mp4, mvhd));
+  const mvhdVersion = mvhdPayload[0];
+  const movieTimescale = mvhdPayload.readUInt32BE(mvhdVersion === 1 ? 20 : 12);
+  const nextTrackIdOffset = mvhdVersion === 1 ? 108 : 96;
+  const chapterTrackId = mvhdPayload.readUInt32BE(nextTrackIdOffset);
+  mvhdPayload.writeUInt32BE(chapterTrackId + 1, nextTrackIdOffset);
+
+  const samples = chapters.map((c) => createChapterSample(c.title));
+  const chapterMdat = makeBox("mdat", ...samples);
+  const chunkOffset = moov.start + 8;
+
+  const children: Buffer[] = [];
+  let hasUdta = false;
+
+  for (const child of moovChildren) {
+    const raw = mp4.subarray(child.start, child.start + child.size);
+
+    if (child.type === "mvhd") {
+      children.push(makeBox("mvhd", mvhdPayload));
+    } else if (child.type === "trak") {
+      // Point the audio track at the chapter track, right after its tkhd
+      const trakChildren = readBoxes(
+        mp4,
+        child.start + child.headerSize,
+        child.start + child.size,
+      );
+      const parts = trakChildren.map((b) =>
+        mp4.subarray(b.start, b.start + b.size),
+      );
+      const tkhdIndex = trakChildren.findIndex((b) => b.type === "tkhd");
+      parts.splice(
+        tkhdIndex + 1,
+        0,
+        makeBox("tref", makeBox("chap", uint32s(chapterTrackId))),
+      );
+      children.push(makeBox("trak", ...parts));
+      children.push(
+        createChapterTrack(
+          chapterTrackId,
+          chapters,
+          samples,
+          chunkOffset,
+          movieTimescale,
+          totalDurationMs,
+        ),
+      );
+    } else if (child.type === "udta") {
+      hasUdta = true;
+      children.push(
+        makeBox("udta", boxPayload(mp4, child), createChplBox(chapters)),
+      );
+    } else {
+      children.push(raw);
+    }
+  }
+
+  if (!hasUdta) {
+    children.push(makeBox("udta", createChplBox(chapters)));
+  }
+
+  return Buffer.concat([
+    mp4.subarray(0, moov.start),
+    chapterMdat,
+    makeBox("moov", ...children),
+    mp4.subarray(moov.start + moov.size),
+  ]);
+}
+
+// ============================================================================
+// M4B Encoding
+// ============================================================================
+
+/**
+ * Encode interleaved PCM to an M4B audiobook with metadata and chapters
+ */
+export async function encodeM4b(
+  data: Buffer,
+  pcm: PcmFormat,
+  options: M4bOptions = {},
+): Promise<Buffer> {
+  const { title, author, cover, chapters = [] } = options;
+  const bytesPerFrame = (pcm.bitsPerSample / 8) * pcm.numChannels;
+  const totalFrames = Math.floor(data.length / bytesPerFrame);
+  const totalDurationMs = Math.round((totalFrames / pcm.sampleRate) * 1000);
+
+  if (!aacEncoderRegistered) {
+    registerAacEncoder();
+    aacEncoderRegistered = true;
+  }
+
+  const output = new Output({
+    format: new Mp4OutputFormat({ fastStart: false }),
+    target: new BufferTarget(),
+  });
+  const source = new AudioSampleSource({
+    codec: "aac",
+    bitrate: options.bitrate ?? DEFAULT_AAC_BITRATE,
+  });
+  output.addAudioTrack(source);
+
+  const images: AttachedImage[] = [];
+  if (cover) {
+    const mimeType = getImageMimeType(cover);
+    if (!mimeType) {
+      throw new Error("Cover image must be a JPEG or PNG file");
+    }
+    images.push({ data: new Uint8Array(cover), mimeType, kind: "coverFront" });
+  }
+
+  output.setMetadataTags({
+    title,
+    album: title,
+    artist: author,
+    albumArtist: author,
+    genre: "Audiobook",
+    images,
+  });
+
+  await output.start();
+
+  const chunkBytes = ENCODE_CHUNK_FRAMES * bytesPerFrame;
+  for (let offset = 0; offset < totalFrames * bytesPerFrame;) {
+    const chunk = data.subarray(
+      offset,
+      Math.min(offset + chunkBytes, totalFrames * bytesPerFrame),
+    );
+    const channels = pcmToFloat32(chunk, pcm.numChannels, pcm.bitsPerSample);
+    const planar = new Float32Array(channels.length * channels[0].length);
+    channels.forEach((channel, ch) => planar.set(channel, ch * channel.length));
+
+    const sample = new AudioSample({
+      data: planar,
+      format: "f32-planar",
+      numberOfChannels: pcm.numChannels,
+      sampleRate: pcm.sampleRate,
+      timestamp: offset / bytesPerFrame / pcm.sampleRate,
+    });
+    await source.add(sample);
+    sample.close();
+
+    offset += chunk.length;
+  }
+
+  await output.finalize();
+
+  let mp4: Buffer = Buffer.from(output.target.buffer!);
+
+  // Mark the file as an audiobook (major brand "M4B ")
+  if (mp4.toString("latin1", 4, 8) === "ftyp") {
+    mp4.write("M4B ", 8, "latin1");
+  }
+
+  const timedChapters = resolveChapters(chapters, totalDurationMs);
+  if (timedChapters.length > 0) {
+    mp4 = addChapters(mp4, timedChapters, totalDurationMs);
+  }
+
+  return mp4;
+}
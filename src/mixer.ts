@@ -0,0 +1,261 @@
+/**
+ * Music and ambience bed mixing
+ *
+ * Handles:
+ * - Placing intro and outro stings around the speech
+ * - Playing beds under scenes, looped or once, with fades
+ * - Ducking beds while speech plays
+ *
+ * Runs on the stitched speech, using the manifest segment timestamps to
+ * find scenes and speech. The mix is always stereo.
+ */
+
+import type { ManifestSegment, MusicTrack, Scene } from "./types.js";
+import { convertChannels } from "./resample.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * How long before speech starts a ducked bed begins to drop, so it is
+ * already down when the first word lands
+ */
+const DUCK_ATTACK_MS = 150;
+
+/**
+ * How long a ducked bed takes to come back up after speech stops; longer
+ * than a typical pause, so beds don't pump between lines
+ */
+const DUCK_RELEASE_MS = 600;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A music track decoded to stereo at the output sample rate
+ */
+export interface DecodedTrack {
+  /** Track settings */
+  settings: MusicTrack;
+  /** Left and right channels */
+  samples: Float32Array[];
+}
+
+/**
+ * Music to mix under the speech
+ */
+export interface MixOptions {
+  /** Stitched segments, timed from the start of the speech */
+  segments: ManifestSegment[];
+  /** Scenes with beds, by segment index */
+  scenes?: Scene[];
+  /** Decoded tracks by name */
+  tracks: Record<string, DecodedTrack>;
+  /** Track played before the speech */
+  intro?: string;
+  /** Track played after the speech */
+  outro?: string;
+}
+
+/**
+ * Result of mixing
+ */
+export interface MixResult {
+  /** Left and right channels of the mix */
+  channels: Float32Array[];
+  /** Frames of intro before the speech starts */
+  introFrames: number;
+}
+
+/**
+ * A track placed on the timeline
+ */
+interface BedPlacement {
+  /** Track to play */
+  track: DecodedTrack;
+  /** Frame where the track starts */
+  startFrame: number;
+  /** Frame where the track must stop (exclusive) */
+  endFrame: number;
+}
+
+// ============================================================================
+// Mixing
+// ============================================================================
+
+/**
+ * Look up a track by name
+ */
+function getTrack(
+  tracks: Record<string, DecodedTrack>,
+  name: string,
+): DecodedTrack {
+  const track = tracks[name];
+  if (!track) {
+    throw new Error(`Unknown music track: ${name}`);
+  }
+  return track;
+}
+
+/**
+ * Build how far beds are ducked at each frame, from 0 (not at all) to 1
+ * (fully, during speech), ramping in before speech and out after it
+ */
+function buildDuckingEnvelope(
+  speechRanges: Array<{ startFrame: number; endFrame: number }>,
+  frameCount: number,
+  sampleRate: number,
+): Float32Array {
+  const envelope = new Float32Array(frameCount);
+  const attack = Math.max(1, Math.round((DUCK_ATTACK_MS * sampleRate) / 1000));
+  const release = Math.max(
+    1,
+    Math.round((DUCK_RELEASE_MS * sampleRate) / 1000),
+  );
+
+  for (const { startFrame, endFrame } of speechRanges) {
+    const from = Math.max(0, startFrame - attack);
+    const to = Math.min(frameCount, endFrame + release);
+    for (let f = from; f < to; f++) {
+      let amount = 1;
+      if (f < startFrame) {
+        amount = 1 - (startFrame - f) / attack;
+      } else if (f >= endFrame) {
+        amount = 1 - (f - endFrame + 1) / release;
+      }
+      envelope[f] = Math.max(envelope[f], amount);
+    }
+  }
+
+  return envelope;
+}
+
+/**
+ * Add a placed track to the mix in place, applying its gain, fades and
+ * ducking. Tracks that don't loop stop at their own end, and fade out there
+ * if that comes first.
+ */
+function addBed(
+  mix: Float32Array[],
+  placement: BedPlacement,
+  envelope: Float32Array,
+  sampleRate: number,
+): void {
+  const { track, startFrame, endFrame } = placement;
+  const { settings, samples } = track;
+  const trackLength = samples[0].length;
+  if (trackLength === 0) {
+    return;
+  }
+
+  const length = settings.loop
+    ? endFrame - startFrame
+    : Math.min(endFrame - startFrame, trackLength);
+  const gain = Math.pow(10, (settings.gain ?? 0) / 20);
+  const duck = settings.duck ?? 0;
+  const fadeIn = Math.round(((settings.fadeIn ?? 0) * sampleRate) / 1000);
+  const fadeOut = Math.round(((settings.fadeOut ?? 0) * sampleRate) / 1000);
+
+  for (let i = 0; i < length; i++) {
+    const frame = startFrame + i;
+    let factor = gain;
+    if (i < fadeIn) {
+      factor *= i / fadeIn;
+    }
+    if (length - i <= fadeOut) {
+      factor *= (length - i - 1) / fadeOut;
+    }
+    if (duck > 0 && envelope[frame] > 0) {
+      factor *= Math.pow(10, (-duck * envelope[frame]) / 20);
+    }
+
+    const source = i % trackLength;
+    for (let ch = 0; ch < mix.length; ch++) {
+      mix[ch][frame] += samples[ch][source] * factor;
+    }
+  }
+}
+
+/**
+ * Mix music under stitched speech.
+ *
+ * The intro plays before the speech and the outro after it, so the mix is
+ * longer than the speech by both. Each scene's bed fills the time from the
+ * end of the segment before the scene to the start of the segment after
+ * it, so beds start and stop in the pauses rather than under a line.
+ */
+export function mixMusic(
+  speech: Float32Array[],
+  sampleRate: number,
+  options: MixOptions,
+): MixResult {
+  const { segments, scenes = [], tracks } = options;
+  const intro = options.intro ? getTrack(tracks, options.intro) : null;
+  const outro = options.outro ? getTrack(tracks, options.outro) : null;
+
+  const speechFrames = speech.length > 0 ? speech[0].length : 0;
+  const introFrames = intro ? intro.samples[0].length : 0;
+  const outroFrames = outro ? outro.samples[0].length : 0;
+  const totalFrames = introFrames + speechFrames + outroFrames;
+  const toFrame = (ms: number) =>
+    introFrames + Math.round((ms * sampleRate) / 1000);
+
+  const mix = convertChannels(speech, 2).map((channel) => {
+    const padded = new Float32Array(totalFrames);
+    padded.set(channel, introFrames);
+    return padded;
+  });
+
+  const sorted = [...segments].sort((a, b) => a.index - b.index);
+  const speechRanges = sorted.map((s) => ({
+    startFrame: toFrame(s.startMs),
+    endFrame: toFrame(s.endMs),
+  }));
+
+  const placements: BedPlacement[] = [];
+  if (intro) {
+    placements.push({ track: intro, startFrame: 0, endFrame: introFrames });
+  }
+  for (const scene of scenes) {
+    // Only segments that were actually stitched count towards the range
+    const first = sorted.findIndex(
+      (s) =>
+        s.index >= scene.startSegmentIndex && s.index <= scene.endSegmentIndex,
+    );
+    if (first === -1) {
+      continue;
+    }
+    let last = first;
+    while (
+      last + 1 < sorted.length &&
+      sorted[last + 1].index <= scene.endSegmentIndex
+    ) {
+      last++;
+    }
+
+    placements.push({
+      track: getTrack(tracks, scene.bed),
+      startFrame: first > 0 ? speechRanges[first - 1].endFrame : introFrames,
+      endFrame:
+        last < sorted.length - 1
+          ? speechRanges[last + 1].startFrame
+          : introFrames + speechFrames,
+    });
+  }
+  if (outro) {
+    placements.push({
+      track: outro,
+      startFrame: introFrames + speechFrames,
+      endFrame: totalFrames,
+    });
+  }
+
+  const envelope = buildDuckingEnvelope(speechRanges, totalFrames, sampleRate);
+  for (const placement of placements) {
+    addBed(mix, placement, envelope, sampleRate);
+  }
+
+  return { channels: mix, introFrames };
+}
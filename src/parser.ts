@@ -9,29 +9,73 @@
  * Also supports colon format:
  * NARRATOR: Once upon a time...
  * CHARACTER1: Hello there!
+ *
+ * Chapters are started with either directive:
+ * ## Chapter 3: The Storm
+ * [CHAPTER] The Storm
+ *
+ * Explicit pauses go on their own line:
+ * [PAUSE 2s]
+ * [PAUSE 500ms]
+ *
+ * Scene markers start and stop music beds:
+ * [SCENE forest]
+ * [SCENE END]
+ *
+ * Sound effects play a local audio file as their own segment:
+ * [SFX door_creak.wav]
  */
 
 import { createHash } from "crypto";
 import { readFile } from "fs/promises";
-import { basename } from "path";
-import type { Segment, ParsedStory } from "./types.js";
+import { basename, dirname, resolve } from "path";
+import type {
+  Segment,
+  SegmentKind,
+  SegmentSelection,
+  ParsedStory,
+  Chapter,
+  Scene,
+} from "./types.js";
 
 /**
  * Regular expression patterns for parsing
  */
 const PATTERNS = {
-  // Matches [SPEAKER] text format
-  bracketFormat: /^\[([A-Z][A-Z0-9_]*)\]\s*(.+)$/i,
+  // Matches [SPEAKER] text format, with an optional [SPEAKER|style] direction
+  bracketFormat: /^\[([A-Z][A-Z0-9_]*)(?:\|([^\]]*))?\]\s*(.+)$/i,
   // Matches SPEAKER: text format (speaker must be at start of line)
   colonFormat: /^([A-Z][A-Z0-9_]*)\s*:\s*(.+)$/i,
   // Matches continuation lines (no speaker tag)
   continuationLine: /^\s{2,}(.+)$/,
+  // Leading delivery direction in the text: (angrily) How dare you!
+  parentheticalStyle: /^\(([^()]+)\)\s*(.+)$/,
   // Empty or whitespace-only line
   emptyLine: /^\s*$/,
   // Comment line (starts with # or //)
   commentLine: /^\s*(#|\/\/)/,
+  // Chapter heading: ## Chapter 3: The Storm (checked before comments)
+  chapterHeading: /^\s*##(?!#)\s+(.+?)\s*$/,
+  // Chapter directive: [CHAPTER] The Storm (checked before speaker tags)
+  chapterDirective: /^\s*\[CHAPTER\]\s*(.+?)\s*$/i,
+  // Pause directive: [PAUSE 2s], [PAUSE 1.5s] or [PAUSE 500ms]
+  pauseDirective: /^\s*\[PAUSE\s+(\d+(?:\.\d+)?)\s*(ms|s)?\]\s*$/i,
+  // Scene directive: [SCENE forest] starts a bed, [SCENE END] stops it
+  sceneDirective: /^\s*\[SCENE\s+([\w-]+)\]\s*$/i,
+  // Sound effect directive: [SFX door_creak.wav]
+  sfxDirective: /^\s*\[SFX\s+(.+?)\]\s*$/i,
 };
 
+/**
+ * Speaker name given to sound-effect segments
+ */
+export const SFX_SPEAKER = "SFX";
+
+/**
+ * Title used for segments that precede the first chapter heading
+ */
+const OPENING_CHAPTER_TITLE = "Introduction";
+
 /**
  * Options for parsing
  */
@@ -53,14 +97,126 @@ const DEFAULT_OPTIONS: ParserOptions = {
 };
 
 /**
- * Generate a unique segment ID
+ * Generate a segment ID from its content, so segments keep their ID (and
+ * cached audio) when lines are inserted or removed before them. Repeats of
+ * the same line are told apart by their occurrence number.
+ */
+function generateSegmentId(speaker: string, text: string, occurrence: number): string {
+  const hash = createHash("md5").update(`${speaker}-${text}`).digest("hex").substring(0, 8);
+  return occurrence > 1 ? `seg_${hash}_${occurrence}` : `seg_${hash}`;
+}
+
+/**
+ * Count the characters that will be spoken
+ */
+function countCharacters(segments: Segment[]): number {
+  return segments
+    .filter((s) => s.kind === "speech")
+    .reduce((sum, s) => sum + s.text.length, 0);
+}
+
+/**
+ * Extract the chapter title if the line is a chapter directive
+ */
+function parseChapterLine(line: string): string | null {
+  const match =
+    line.match(PATTERNS.chapterHeading) ||
+    line.match(PATTERNS.chapterDirective);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract the pause length in milliseconds if the line is a pause directive
+ * (seconds when no unit is given)
+ */
+function parsePauseLine(line: string): number | null {
+  const match = line.match(PATTERNS.pauseDirective);
+  if (!match) {
+    return null;
+  }
+  const value = parseFloat(match[1]);
+  return match[2]?.toLowerCase() === "ms" ? value : value * 1000;
+}
+
+/**
+ * Extract the bed name if the line is a scene directive
+ * (null for [SCENE END])
+ */
+function parseSceneLine(line: string): { bed: string | null } | null {
+  const match = line.match(PATTERNS.sceneDirective);
+  if (!match) {
+    return null;
+  }
+  return { bed: match[1].toUpperCase() === "END" ? null : match[1] };
+}
+
+/**
+ * Extract the audio file path if the line is a sound effect directive
+ */
+function parseSfxLine(line: string): string | null {
+  const match = line.match(PATTERNS.sfxDirective);
+  return match ? match[1] : null;
+}
+
+/**
+ * Format a pause length as a directive
+ */
+function formatPauseLine(ms: number): string {
+  return ms % 1000 === 0 ? `[PAUSE ${ms / 1000}s]` : `[PAUSE ${ms}ms]`;
+}
+
+/**
+ * Turn chapter start positions into segment ranges.
+ * Segments before the first heading form an opening chapter, and headings
+ * with no segments after them are dropped.
  */
-function generateSegmentId(index: number, speaker: string, text: string): string {
-  const hash = createHash("md5")
-    .update(`${index}-${speaker}-${text}`)
-    .digest("hex")
-    .substring(0, 8);
-  return `seg_${index.toString().padStart(4, "0")}_${hash}`;
+function buildChapters(
+  starts: Array<{ title: string; startSegmentIndex: number }>,
+  segmentCount: number
+): Chapter[] {
+  if (starts.length === 0) {
+    return [];
+  }
+
+  const allStarts =
+    starts[0].startSegmentIndex > 0
+      ? [{ title: OPENING_CHAPTER_TITLE, startSegmentIndex: 0 }, ...starts]
+      : starts;
+
+  const chapters: Chapter[] = [];
+  for (let i = 0; i < allStarts.length; i++) {
+    const { title, startSegmentIndex } = allStarts[i];
+    const endSegmentIndex =
+      i < allStarts.length - 1
+        ? allStarts[i + 1].startSegmentIndex - 1
+        : segmentCount - 1;
+    if (endSegmentIndex >= startSegmentIndex) {
+      chapters.push({ title, startSegmentIndex, endSegmentIndex });
+    }
+  }
+
+  return chapters;
+}
+
+/**
+ * Turn scene markers into segment ranges. Each scene runs until the next
+ * marker or the end of the story; scenes with no segments are dropped.
+ */
+function buildScenes(
+  starts: Array<{ bed: string | null; startSegmentIndex: number }>,
+  segmentCount: number
+): Scene[] {
+  const scenes: Scene[] = [];
+  for (let i = 0; i < starts.length; i++) {
+    const { bed, startSegmentIndex } = starts[i];
+    const endSegmentIndex =
+      i < starts.length - 1 ? starts[i + 1].startSegmentIndex - 1 : segmentCount - 1;
+    if (bed !== null && endSegmentIndex >= startSegmentIndex) {
+      scenes.push({ bed, startSegmentIndex, endSegmentIndex });
+    }
+  }
+
+  return scenes;
 }
 
 /**
@@ -74,6 +230,9 @@ export function detectFormat(content: string): "bracket" | "colon" | "mixed" | "
 
   for (const line of lines.slice(0, 50)) {
     // Check first 50 non-empty lines
+    if (parseChapterLine(line) !== null) {
+      continue;
+    }
     if (PATTERNS.bracketFormat.test(line)) {
       bracketCount++;
     } else if (PATTERNS.colonFormat.test(line)) {
@@ -92,12 +251,35 @@ export function detectFormat(content: string): "bracket" | "colon" | "mixed" | "
 }
 
 /**
- * Parse a single line and extract speaker and text
+ * Split the delivery direction off a speaker line. Directions come from the
+ * tag ([CLARA|whispering]) and a leading parenthetical ((angrily) ...); when
+ * both are given they're combined.
+ */
+function extractStyle(
+  text: string,
+  tagStyle: string | undefined
+): { text: string; style?: string } {
+  const styles: string[] = [];
+  if (tagStyle?.trim()) {
+    styles.push(tagStyle.trim());
+  }
+
+  const parenthetical = text.trim().match(PATTERNS.parentheticalStyle);
+  if (parenthetical) {
+    styles.push(parenthetical[1].trim());
+    text = parenthetical[2];
+  }
+
+  return styles.length > 0 ? { text, style: styles.join(", ") } : { text };
+}
+
+/**
+ * Parse a single line and extract speaker, text and delivery direction
  */
 function parseLine(
   line: string,
   options: ParserOptions
-): { speaker: string; text: string } | null {
+): { speaker: string; text: string; style?: string } | null {
   // Skip empty lines and comments
   if (PATTERNS.emptyLine.test(line) || PATTERNS.commentLine.test(line)) {
     return null;
@@ -118,18 +300,22 @@ function parseLine(
   // Try bracket format: [SPEAKER] text
   const bracketMatch = line.match(PATTERNS.bracketFormat);
   if (bracketMatch) {
+    const { text, style } = extractStyle(bracketMatch[3], bracketMatch[2]);
     return {
       speaker: bracketMatch[1].toUpperCase(),
-      text: options.trimText ? bracketMatch[2].trim() : bracketMatch[2],
+      text: options.trimText ? text.trim() : text,
+      style,
     };
   }
 
   // Try colon format: SPEAKER: text
   const colonMatch = line.match(PATTERNS.colonFormat);
   if (colonMatch) {
+    const { text, style } = extractStyle(colonMatch[2], undefined);
     return {
       speaker: colonMatch[1].toUpperCase(),
-      text: options.trimText ? colonMatch[2].trim() : colonMatch[2],
+      text: options.trimText ? text.trim() : text,
+      style,
     };
   }
 
@@ -148,25 +334,51 @@ export function parseContent(
   const lines = content.split("\n");
   const segments: Segment[] = [];
   const speakersSet = new Set<string>();
+  const chapterStarts: Array<{ title: string; startSegmentIndex: number }> = [];
+  const sceneStarts: Array<{ bed: string | null; startSegmentIndex: number }> = [];
 
   let currentSpeaker: string | null = null;
+  let currentKind: SegmentKind = "speech";
+  let currentStyle: string | undefined;
   let currentText: string[] = [];
   let currentLineNumber = 0;
   let segmentIndex = 0;
+  // Times each speaker and text has been seen, for repeated lines
+  const occurrences = new Map<string, number>();
+  // Pause and paragraph break seen since the last segment started
+  let pendingPauseMs = 0;
+  let pendingParagraph = false;
+  let currentPauseMs = 0;
+  let currentParagraph = false;
 
   const flushSegment = () => {
     if (currentSpeaker && currentText.length > 0) {
       const text = currentText.join(" ").trim();
       if (text) {
+        const key = `${currentSpeaker}-${text}`;
+        const occurrence = (occurrences.get(key) ?? 0) + 1;
+        occurrences.set(key, occurrence);
         const segment: Segment = {
-          id: generateSegmentId(segmentIndex, currentSpeaker, text),
+          id: generateSegmentId(currentSpeaker, text, occurrence),
           index: segmentIndex,
+          kind: currentKind,
           speaker: currentSpeaker,
           text,
           lineNumber: currentLineNumber,
         };
+        if (currentPauseMs > 0) {
+          segment.pauseBeforeMs = currentPauseMs;
+        }
+        if (currentParagraph) {
+          segment.paragraphStart = true;
+        }
+        if (currentStyle) {
+          segment.style = currentStyle;
+        }
         segments.push(segment);
-        speakersSet.add(currentSpeaker);
+        if (currentKind === "speech") {
+          speakersSet.add(currentSpeaker);
+        }
         segmentIndex++;
       }
     }
@@ -177,6 +389,54 @@ export function parseContent(
     const line = lines[i];
     const lineNumber = i + 1;
 
+    // Chapter directives end the current segment and open a new chapter.
+    // They don't produce segments, so segment indices and IDs are unchanged.
+    const chapterTitle = parseChapterLine(line);
+    if (chapterTitle !== null) {
+      flushSegment();
+      currentSpeaker = null;
+      chapterStarts.push({ title: chapterTitle, startSegmentIndex: segmentIndex });
+      continue;
+    }
+
+    // Scene directives end the current segment and start or stop a bed
+    const scene = parseSceneLine(line);
+    if (scene !== null) {
+      flushSegment();
+      currentSpeaker = null;
+      sceneStarts.push({ bed: scene.bed, startSegmentIndex: segmentIndex });
+      continue;
+    }
+
+    // Sound effects end the current segment and form one of their own,
+    // taking any pause or paragraph break before them
+    const sfxFile = parseSfxLine(line);
+    if (sfxFile !== null) {
+      flushSegment();
+      currentSpeaker = SFX_SPEAKER;
+      currentKind = "sfx";
+      currentStyle = undefined;
+      currentText = [sfxFile];
+      currentLineNumber = lineNumber;
+      currentPauseMs = pendingPauseMs;
+      currentParagraph = pendingParagraph;
+      pendingPauseMs = 0;
+      pendingParagraph = false;
+      flushSegment();
+      currentSpeaker = null;
+      currentKind = "speech";
+      continue;
+    }
+
+    // Pause directives also end the current segment; consecutive pauses add up
+    const pauseMs = parsePauseLine(line);
+    if (pauseMs !== null) {
+      flushSegment();
+      currentSpeaker = null;
+      pendingPauseMs += pauseMs;
+      continue;
+    }
+
     // Skip comments
     if (PATTERNS.commentLine.test(line)) {
       continue;
@@ -188,6 +448,9 @@ export function parseContent(
         flushSegment();
         currentSpeaker = null;
       }
+      if (currentSpeaker || segmentIndex > 0) {
+        pendingParagraph = true;
+      }
       continue;
     }
 
@@ -195,10 +458,12 @@ export function parseContent(
     const parsed = parseLine(line, opts);
 
     if (parsed) {
-      // Check if we should merge with previous segment
+      // Check if we should merge with previous segment (lines directed
+      // differently stay apart, so each keeps its own delivery)
       if (
         opts.mergeConsecutive &&
         currentSpeaker === parsed.speaker &&
+        currentStyle === parsed.style &&
         currentText.length > 0
       ) {
         currentText.push(parsed.text);
@@ -206,14 +471,20 @@ export function parseContent(
         // Flush previous segment and start new one
         flushSegment();
         currentSpeaker = parsed.speaker;
+        currentStyle = parsed.style;
         currentText = [parsed.text];
         currentLineNumber = lineNumber;
+        currentPauseMs = pendingPauseMs;
+        currentParagraph = pendingParagraph;
+        pendingPauseMs = 0;
       }
+      pendingParagraph = false;
     } else {
       // Check if this is a continuation line
       const continuationMatch = line.match(PATTERNS.continuationLine);
       if (continuationMatch && currentSpeaker) {
         currentText.push(opts.trimText ? continuationMatch[1].trim() : continuationMatch[1]);
+        pendingParagraph = false;
       }
       // If no current speaker and not a continuation, treat as narrator or skip
     }
@@ -222,11 +493,13 @@ export function parseContent(
   // Flush any remaining segment
   flushSegment();
 
-  // Calculate total characters
-  const totalCharacters = segments.reduce((sum, seg) => sum + seg.text.length, 0);
+  // Calculate total characters (sound effects aren't spoken)
+  const totalCharacters = countCharacters(segments);
 
   return {
     segments,
+    chapters: buildChapters(chapterStarts, segmentIndex),
+    scenes: buildScenes(sceneStarts, segmentIndex),
     speakers: Array.from(speakersSet).sort(),
     totalCharacters,
     sourcePath,
@@ -263,7 +536,8 @@ export function validateParsedStory(story: ParsedStory): ValidationResult {
   }
 
   // Check for very short segments
-  const shortSegments = story.segments.filter((s) => s.text.length < 5);
+  const spoken = story.segments.filter((s) => s.kind === "speech");
+  const shortSegments = spoken.filter((s) => s.text.length < 5);
   if (shortSegments.length > 0) {
     warnings.push(
       `Found ${shortSegments.length} very short segments (less than 5 characters)`
@@ -271,7 +545,7 @@ export function validateParsedStory(story: ParsedStory): ValidationResult {
   }
 
   // Check for very long segments
-  const longSegments = story.segments.filter((s) => s.text.length > 5000);
+  const longSegments = spoken.filter((s) => s.text.length > 5000);
   if (longSegments.length > 0) {
     warnings.push(
       `Found ${longSegments.length} very long segments (more than 5000 characters). Consider splitting.`
@@ -305,6 +579,16 @@ export function getStorySummary(story: ParsedStory): string {
   lines.push(`Total segments: ${story.segments.length}`);
   lines.push(`Total characters: ${story.totalCharacters.toLocaleString()}`);
   lines.push(`Speakers (${story.speakers.length}): ${story.speakers.join(", ")}`);
+  if (story.chapters.length > 0) {
+    lines.push(`Chapters: ${story.chapters.length}`);
+  }
+  if (story.scenes.length > 0) {
+    lines.push(`Scenes: ${story.scenes.length}`);
+  }
+  const sfxCount = story.segments.filter((s) => s.kind === "sfx").length;
+  if (sfxCount > 0) {
+    lines.push(`Sound effects: ${sfxCount}`);
+  }
 
   // Segment count per speaker
   const segmentsBySpeaker = new Map<string, number>();
@@ -340,6 +624,10 @@ export function extractSpeakers(content: string): string[] {
   const lines = content.split("\n");
 
   for (const line of lines) {
+    if (parseChapterLine(line) !== null) {
+      continue;
+    }
+
     const bracketMatch = line.match(PATTERNS.bracketFormat);
     if (bracketMatch) {
       speakers.add(bracketMatch[1].toUpperCase());
@@ -364,15 +652,53 @@ export function convertFormat(
 ): string {
   return story.segments
     .map((segment) => {
-      if (format === "bracket") {
-        return `[${segment.speaker}] ${segment.text}`;
+      const lines: string[] = [];
+
+      // Keep chapter headings in front of each chapter's first segment
+      const chapter = story.chapters.find(
+        (c) => c.startSegmentIndex === segment.index
+      );
+      if (chapter) {
+        lines.push(`## ${chapter.title}`);
+      }
+
+      // Start scenes where they begin, and stop them where a scene ended
+      // without another one taking over
+      const scene = story.scenes.find((s) => s.startSegmentIndex === segment.index);
+      if (scene) {
+        lines.push(`[SCENE ${scene.bed}]`);
+      } else if (story.scenes.some((s) => s.endSegmentIndex === segment.index - 1)) {
+        lines.push("[SCENE END]");
+      }
+
+      if (segment.pauseBeforeMs) {
+        lines.push(formatPauseLine(segment.pauseBeforeMs));
+      }
+      if (segment.kind === "sfx") {
+        lines.push(`[SFX ${segment.text}]`);
       } else {
-        return `${segment.speaker}: ${segment.text}`;
+        const tag = segment.style
+          ? `${segment.speaker}|${segment.style}`
+          : segment.speaker;
+        lines.push(
+          format === "bracket"
+            ? `[${tag}] ${segment.text}`
+            : `${segment.speaker}: ${segment.style ? `(${segment.style}) ` : ""}${segment.text}`
+        );
       }
+      return lines.join("\n\n");
     })
     .join("\n\n");
 }
 
+/**
+ * Resolve the audio file of a sound-effect segment. Paths in [SFX]
+ * directives are relative to the story file.
+ */
+export function getSfxPath(segment: Segment, storyPath: string): string {
+  return resolve(dirname(storyPath), segment.text);
+}
+
 /**
  * Filter segments by speaker
  */
@@ -382,14 +708,51 @@ export function filterBySpeaker(story: ParsedStory, speakers: string[]): ParsedS
     normalizedSpeakers.includes(s.speaker)
   );
 
+  // Keep only chapters and scenes that still have segments
+  const hasSegments = (range: { startSegmentIndex: number; endSegmentIndex: number }) =>
+    filteredSegments.some(
+      (s) => s.index >= range.startSegmentIndex && s.index <= range.endSegmentIndex
+    );
+
   return {
     ...story,
     segments: filteredSegments,
+    chapters: story.chapters.filter(hasSegments),
+    scenes: story.scenes.filter(hasSegments),
     speakers: story.speakers.filter((s) => normalizedSpeakers.includes(s)),
-    totalCharacters: filteredSegments.reduce((sum, s) => sum + s.text.length, 0),
+    totalCharacters: countCharacters(filteredSegments),
   };
 }
 
+/**
+ * Select segments by ID, source line, index range, speaker or text
+ */
+export function selectSegments(story: ParsedStory, selection: SegmentSelection): Segment[] {
+  const { ids, lines, indexRange, speakers, grep } = selection;
+  const speakerNames = speakers?.map((s) => s.toUpperCase());
+  const pattern = grep ? new RegExp(grep, "i") : null;
+
+  return story.segments.filter((segment, i) => {
+    if (ids && !ids.includes(segment.id)) {
+      return false;
+    }
+    if (lines) {
+      // A segment runs from its first line up to where the next one starts
+      const nextLine = story.segments[i + 1]?.lineNumber ?? Infinity;
+      if (!lines.some((line) => line >= segment.lineNumber && line < nextLine)) {
+        return false;
+      }
+    }
+    if (indexRange && (segment.index < indexRange.start || segment.index > indexRange.end)) {
+      return false;
+    }
+    if (speakerNames && !speakerNames.includes(segment.speaker)) {
+      return false;
+    }
+    return !pattern || pattern.test(segment.text);
+  });
+}
+
 /**
  * Get a range of segments
  */
@@ -399,11 +762,29 @@ export function getSegmentRange(
   count: number
 ): ParsedStory {
   const slicedSegments = story.segments.slice(start, start + count);
+  const firstIndex = slicedSegments[0]?.index ?? 0;
+  const lastIndex = slicedSegments[slicedSegments.length - 1]?.index ?? -1;
+
+  // Keep only chapters and scenes that overlap the range, clipped to it
+  const clip = <T extends { startSegmentIndex: number; endSegmentIndex: number }>(
+    ranges: T[]
+  ): T[] =>
+    ranges
+      .filter((c) => c.endSegmentIndex >= firstIndex && c.startSegmentIndex <= lastIndex)
+      .map((c) => ({
+        ...c,
+        startSegmentIndex: Math.max(c.startSegmentIndex, firstIndex),
+        endSegmentIndex: Math.min(c.endSegmentIndex, lastIndex),
+      }));
 
   return {
     ...story,
     segments: slicedSegments,
-    speakers: [...new Set(slicedSegments.map((s) => s.speaker))].sort(),
-    totalCharacters: slicedSegments.reduce((sum, s) => sum + s.text.length, 0),
+    chapters: clip(story.chapters),
+    scenes: clip(story.scenes),
+    speakers: [
+      ...new Set(slicedSegments.filter((s) => s.kind === "speech").map((s) => s.speaker)),
+    ].sort(),
+    totalCharacters: countCharacters(slicedSegments),
   };
 }
@@ -0,0 +1,193 @@
+/**
+ * Sample format conversion for stitching
+ *
+ * Handles:
+ * - Resampling between arbitrary sample rates (windowed sinc)
+ * - Mixing between mono and stereo
+ * - Converting interleaved PCM between bit depths (16/24/32)
+ *
+ * Providers return audio at their own sample rate, channel count and bit
+ * depth; segments are converted to the output format before stitching.
+ */
+
+import { pcmToFloat32, float32ToPcm, type PcmFormat } from "./encoder.js";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Zero crossings of the sinc kernel on each side of the interpolation point
+ */
+const KERNEL_ZERO_CROSSINGS = 12;
+
+/**
+ * Kernel table entries per zero crossing; values in between are
+ * linearly interpolated
+ */
+const KERNEL_RESOLUTION = 256;
+
+/**
+ * Filter cutoff as a fraction of the lower Nyquist frequency, leaving
+ * room for the transition band below it
+ */
+const CUTOFF_RATIO = 0.95;
+
+/**
+ * Windowed sinc kernel sampled from 0 to KERNEL_ZERO_CROSSINGS, shared by
+ * every conversion
+ */
+const KERNEL = buildKernel();
+
+// ============================================================================
+// Resampling
+// ============================================================================
+
+/**
+ * Tabulate a Blackman-windowed sinc over its positive half
+ */
+function buildKernel(): Float64Array {
+  const size = KERNEL_ZERO_CROSSINGS * KERNEL_RESOLUTION + 1;
+  const kernel = new Float64Array(size + 1);
+
+  for (let i = 0; i < size; i++) {
+    const x = i / KERNEL_RESOLUTION;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const phase = (Math.PI * x) / KERNEL_ZERO_CROSSINGS;
+    const window = 0.42 + 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+    kernel[i] = sinc * window;
+  }
+
+  // Trailing zero so interpolation at the very edge stays in bounds
+  kernel[size] = 0;
+  return kernel;
+}
+
+/**
+ * Resample one channel. Samples outside the input are treated as silence.
+ */
+function resampleChannel(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+): Float32Array {
+  const outputLength = Math.round((input.length * toRate) / fromRate);
+  const output = new Float32Array(outputLength);
+  const step = fromRate / toRate;
+
+  // When downsampling the kernel is stretched so it also filters out
+  // frequencies above the new Nyquist
+  const cutoff = Math.min(1, toRate / fromRate) * CUTOFF_RATIO;
+  const halfWidth = KERNEL_ZERO_CROSSINGS / cutoff;
+  const tableScale = cutoff * KERNEL_RESOLUTION;
+
+  for (let n = 0; n < outputLength; n++) {
+    const position = n * step;
+    const first = Math.max(0, Math.ceil(position - halfWidth));
+    const last = Math.min(input.length - 1, Math.floor(position + halfWidth));
+    let sum = 0;
+
+    for (let k = first; k <= last; k++) {
+      const index = Math.abs(position - k) * tableScale;
+      const whole = Math.floor(index);
+      const fraction = index - whole;
+      const weight =
+        KERNEL[whole] + (KERNEL[whole + 1] - KERNEL[whole]) * fraction;
+      sum += input[k] * weight;
+    }
+
+    output[n] = sum * cutoff;
+  }
+
+  return output;
+}
+
+/**
+ * Resample every channel from one sample rate to another.
+ * Returns the input unchanged if the rates match.
+ */
+export function resample(
+  channels: Float32Array[],
+  fromRate: number,
+  toRate: number,
+): Float32Array[] {
+  if (fromRate === toRate) {
+    return channels;
+  }
+  if (fromRate <= 0 || toRate <= 0) {
+    throw new Error(`Invalid sample rate: ${fromRate}Hz to ${toRate}Hz`);
+  }
+
+  return channels.map((channel) => resampleChannel(channel, fromRate, toRate));
+}
+
+// ============================================================================
+// Channel and Bit-Depth Conversion
+// ============================================================================
+
+/**
+ * Convert audio to a channel count. Mixing down averages every channel;
+ * mixing up repeats the existing channels (mono becomes dual mono).
+ */
+export function convertChannels(
+  channels: Float32Array[],
+  numChannels: number,
+): Float32Array[] {
+  if (channels.length === numChannels) {
+    return channels;
+  }
+  if (channels.length === 0) {
+    return Array.from({ length: numChannels }, () => new Float32Array(0));
+  }
+
+  if (numChannels === 1) {
+    const mixed = new Float32Array(channels[0].length);
+    for (const channel of channels) {
+      for (let i = 0; i < mixed.length; i++) {
+        mixed[i] += channel[i] / channels.length;
+      }
+    }
+    return [mixed];
+  }
+
+  return Array.from(
+    { length: numChannels },
+    (_, ch) => channels[ch % channels.length],
+  );
+}
+
+/**
+ * Decode interleaved PCM and convert it to a target sample rate and
+ * channel count
+ */
+export function decodePcm(
+  data: Buffer,
+  from: PcmFormat,
+  to: Omit<PcmFormat, "bitsPerSample">,
+): Float32Array[] {
+  const channels = convertChannels(
+    pcmToFloat32(data, from.numChannels, from.bitsPerSample),
+    to.numChannels,
+  );
+  return resample(channels, from.sampleRate, to.sampleRate);
+}
+
+/**
+ * Convert interleaved PCM to another sample rate, channel count and bit
+ * depth. Returns the input unchanged if the formats match.
+ */
+export function convertPcm(
+  data: Buffer,
+  from: PcmFormat,
+  to: PcmFormat,
+): Buffer {
+  if (
+    from.sampleRate === to.sampleRate &&
+    from.numChannels === to.numChannels &&
+    from.bitsPerSample === to.bitsPerSample
+  ) {
+    return data;
+  }
+
+  return float32ToPcm(decodePcm(data, from, to), to.bitsPerSample);
+}
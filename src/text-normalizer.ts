@@ -0,0 +1,669 @@
+/**
+ * Text normalization
+ *
+ * Handles:
+ * - Spelling out numbers, currency, ordinals, dates and times
+ * - Expanding common abbreviations and titles
+ * - Roman numerals after words like "Chapter" and "Part"
+ *
+ * Runs between parsing and generation: each rule rewrites the text in turn,
+ * and the result is stored on the segment as `normalizedText`, which is what
+ * the provider reads and what the cache hashes. Rules are pluggable; pass
+ * extra normalizers to `normalizeText` to add your own.
+ */
+
+import type { ParsedStory } from "./types.js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported locales
+ */
+export type NormalizationLocale = "en-US" | "en-GB";
+
+/**
+ * All supported locales
+ */
+export const NORMALIZATION_LOCALES: NormalizationLocale[] = ["en-US", "en-GB"];
+
+/**
+ * A normalization rule
+ */
+export interface TextNormalizer {
+  /** Rule name, as listed in the config's `rules` */
+  name: string;
+  /** Rewrite text so it reads aloud as written */
+  normalize(text: string, locale: NormalizationLocale): string;
+}
+
+/**
+ * Options for normalizing text
+ */
+export interface TextNormalizeOptions {
+  /** Locale (default: "en-US") */
+  locale?: string;
+  /** Names of the rules to run (default: all) */
+  rules?: string[];
+  /** Normalizers to pick rules from, in the order they run */
+  normalizers?: TextNormalizer[];
+}
+
+// ============================================================================
+// Number Words
+// ============================================================================
+
+const ONES = [
+  "zero",
+  "one",
+  "two",
+  "three",
+  "four",
+  "five",
+  "six",
+  "seven",
+  "eight",
+  "nine",
+  "ten",
+  "eleven",
+  "twelve",
+  "thirteen",
+  "fourteen",
+  "fifteen",
+  "sixteen",
+  "seventeen",
+  "eighteen",
+  "nineteen",
+];
+
+const TENS = [
+  "",
+  "",
+  "twenty",
+  "thirty",
+  "forty",
+  "fifty",
+  "sixty",
+  "seventy",
+  "eighty",
+  "ninety",
+];
+
+const SCALES = ["", "thousand", "million", "billion", "trillion"];
+
+const IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first",
+  two: "second",
+  three: "third",
+  five: "fifth",
+  eight: "eighth",
+  nine: "ninth",
+  twelve: "twelfth",
+};
+
+const MONTHS = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+/**
+ * Spell out 0-99
+ */
+function tensToWords(n: number): string {
+  if (n < 20) {
+    return ONES[n];
+  }
+  const ones = n % 10;
+  return ones ? `${TENS[Math.floor(n / 10)]}-${ONES[ones]}` : TENS[n / 10];
+}
+
+/**
+ * Spell out 1-999. British English puts "and" after the hundreds.
+ */
+function hundredsToWords(n: number, locale: NormalizationLocale): string {
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  const words: string[] = [];
+  if (hundreds) {
+    words.push(`${ONES[hundreds]} hundred`);
+  }
+  if (rest) {
+    words.push(
+      hundreds && locale === "en-GB"
+        ? `and ${tensToWords(rest)}`
+        : tensToWords(rest),
+    );
+  }
+  return words.join(" ");
+}
+
+/**
+ * Spell out a whole number below a quadrillion
+ */
+export function numberToWords(
+  n: number,
+  locale: NormalizationLocale = "en-US",
+): string {
+  if (n === 0) {
+    return "zero";
+  }
+
+  const groups: number[] = [];
+  for (let rest = n; rest > 0; rest = Math.floor(rest / 1000)) {
+    groups.push(rest % 1000);
+  }
+
+  const words: string[] = [];
+  for (let i = groups.length - 1; i >= 0; i--) {
+    if (!groups[i]) {
+      continue;
+    }
+    // "one thousand and five" in British English
+    if (i === 0 && locale === "en-GB" && groups.length > 1 && groups[i] < 100) {
+      words.push("and");
+    }
+    const scale = SCALES[i] ? ` ${SCALES[i]}` : "";
+    words.push(hundredsToWords(groups[i], locale) + scale);
+  }
+  return words.join(" ");
+}
+
+/**
+ * Turn spelled-out cardinal words into ordinal words
+ * ("twenty-one" -> "twenty-first")
+ */
+function toOrdinalWords(words: string): string {
+  const match = words.match(/^(.*?)([a-z]+)$/);
+  if (!match) {
+    return words;
+  }
+  const [, prefix, last] = match;
+  const ordinal =
+    IRREGULAR_ORDINALS[last] ??
+    (last.endsWith("y") ? `${last.slice(0, -1)}ieth` : `${last}th`);
+  return prefix + ordinal;
+}
+
+/**
+ * Read digits one at a time ("007" -> "zero zero seven")
+ */
+function digitsToWords(digits: string): string {
+  return [...digits].map((d) => ONES[Number(d)]).join(" ");
+}
+
+/**
+ * Spell out a number written with optional thousands separators and decimals
+ */
+function numeralToWords(
+  integer: string,
+  decimals: string | undefined,
+  locale: NormalizationLocale,
+): string {
+  const digits = integer.replace(/,/g, "");
+  const whole =
+    digits.length > 15 || (digits.length > 1 && digits.startsWith("0"))
+      ? digitsToWords(digits)
+      : numberToWords(Number(digits), locale);
+  return decimals ? `${whole} point ${digitsToWords(decimals)}` : whole;
+}
+
+/**
+ * Spell out a year the way it's said ("1999" -> "nineteen ninety-nine",
+ * "2005" -> "two thousand five", "1905" -> "nineteen oh five")
+ */
+function yearToWords(year: number, locale: NormalizationLocale): string {
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (year >= 2000 && year < 2010) {
+    return numberToWords(year, locale);
+  }
+  if (rest === 0) {
+    return `${tensToWords(century)} hundred`;
+  }
+  return rest < 10
+    ? `${tensToWords(century)} oh ${ONES[rest]}`
+    : `${tensToWords(century)} ${tensToWords(rest)}`;
+}
+
+/**
+ * Spell out the year of a date, which may have two digits
+ */
+function dateYearToWords(year: string, locale: NormalizationLocale): string {
+  if (year.length === 4) {
+    return yearToWords(Number(year), locale);
+  }
+  const n = Number(year);
+  return n < 10 ? `oh ${ONES[n]}` : tensToWords(n);
+}
+
+/**
+ * Parse a Roman numeral, or return null if it isn't a valid one
+ */
+function parseRoman(numeral: string): number | null {
+  const values: Record<string, number> = {
+    I: 1,
+    V: 5,
+    X: 10,
+    L: 50,
+    C: 100,
+    D: 500,
+    M: 1000,
+  };
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = values[numeral[i]];
+    const next = values[numeral[i + 1]] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total > 0 && toRoman(total) === numeral ? total : null;
+}
+
+/**
+ * Write a number as a Roman numeral
+ */
+function toRoman(n: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, "M"],
+    [900, "CM"],
+    [500, "D"],
+    [400, "CD"],
+    [100, "C"],
+    [90, "XC"],
+    [50, "L"],
+    [40, "XL"],
+    [10, "X"],
+    [9, "IX"],
+    [5, "V"],
+    [4, "IV"],
+    [1, "I"],
+  ];
+  let result = "";
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Titles before a name, or before "and" and another title ("Mr. and Mrs.
+ * Smith"). The full stop is optional for the ones British English writes
+ * without it.
+ */
+const TITLE_PATTERN =
+  /\b(?:(Mr|Mrs|Ms|Dr|St)\.?|(Prof|Capt|Gen|Lt|Sgt|Col|Rev|Mt)\.)(?=\s+(?:\p{Lu}|(?:and|&)\s+(?:Mr|Mrs|Ms|Dr|Prof)\b))/gu;
+
+const TITLES: Record<string, string> = {
+  Mr: "Mister",
+  Mrs: "Missus",
+  Ms: "Miz",
+  Dr: "Doctor",
+  St: "Saint",
+  Prof: "Professor",
+  Capt: "Captain",
+  Gen: "General",
+  Lt: "Lieutenant",
+  Sgt: "Sergeant",
+  Col: "Colonel",
+  Rev: "Reverend",
+  Mt: "Mount",
+};
+
+/**
+ * Abbreviations expanded anywhere. Those that can end a sentence keep
+ * their full stop when they do.
+ */
+const ABBREVIATIONS: Record<string, { words: string; endsSentence?: boolean }> =
+  {
+    "etc.": { words: "et cetera", endsSentence: true },
+    "e.g.": { words: "for example" },
+    "i.e.": { words: "that is" },
+    "vs.": { words: "versus" },
+    "approx.": { words: "approximately" },
+    "Jr.": { words: "Junior", endsSentence: true },
+    "Sr.": { words: "Senior", endsSentence: true },
+  };
+
+const ABBREVIATION_PATTERN = new RegExp(
+  `(?<![\\p{L}.])(${Object.keys(ABBREVIATIONS)
+    .map((a) => a.replace(/\./g, "\\."))
+    .join("|")})`,
+  "gu",
+);
+
+const CURRENCIES: Record<string, [string, string, string, string]> = {
+  $: ["dollar", "dollars", "cent", "cents"],
+  "£": ["pound", "pounds", "penny", "pence"],
+  "€": ["euro", "euros", "cent", "cents"],
+};
+
+const MONTH_NAMES = MONTHS.join("|");
+
+const ROMAN_CONTEXT = new Set([
+  "chapter",
+  "book",
+  "part",
+  "volume",
+  "act",
+  "scene",
+  "section",
+]);
+
+/**
+ * Say a day and month in the locale's order
+ */
+function formatDayMonth(
+  day: number,
+  month: number,
+  locale: NormalizationLocale,
+): string {
+  const dayWords = toOrdinalWords(numberToWords(day, locale));
+  return locale === "en-GB"
+    ? `the ${dayWords} of ${MONTHS[month - 1]}`
+    : `${MONTHS[month - 1]} ${dayWords}`;
+}
+
+const abbreviations: TextNormalizer = {
+  name: "abbreviations",
+  normalize(text) {
+    return text
+      .replace(TITLE_PATTERN, (_, short, long) => TITLES[short ?? long])
+      .replace(/(?<=\p{Lu}\p{Ll}*\s)St\.(?!\s+\p{Lu})/gu, "Street")
+      .replace(/\b([Nn])o\.(?=\s*\d)/g, (_, n) => `${n}umber`)
+      .replace(/\s&\s/g, " and ")
+      .replace(
+        ABBREVIATION_PATTERN,
+        (match, abbreviation: string, offset: number, whole: string) => {
+          const { words, endsSentence } = ABBREVIATIONS[abbreviation];
+          const rest = whole.slice(offset + match.length);
+          return endsSentence && /^(\s+\p{Lu}|\s*$)/u.test(rest)
+            ? `${words}.`
+            : words;
+        },
+      );
+  },
+};
+
+const dates: TextNormalizer = {
+  name: "dates",
+  normalize(text, locale) {
+    const format = (day: number, month: number, year?: string) => {
+      const date = formatDayMonth(day, month, locale);
+      return year ? `${date}, ${dateYearToWords(year, locale)}` : date;
+    };
+
+    return (
+      text
+        // 1999-03-04
+        .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, y, m, d) =>
+          Number(m) >= 1 && Number(m) <= 12 && Number(d) >= 1 && Number(d) <= 31
+            ? format(Number(d), Number(m), y)
+            : match,
+        )
+        // 3/4/1999: month first in the US, day first in the UK
+        .replace(
+          /\b(\d{1,2})\/(\d{1,2})\/(\d{4}|\d{2})\b/g,
+          (match, a, b, y) => {
+            const [m, d] =
+              locale === "en-GB"
+                ? [Number(b), Number(a)]
+                : [Number(a), Number(b)];
+            return m >= 1 && m <= 12 && d >= 1 && d <= 31
+              ? format(d, m, y)
+              : match;
+          },
+        )
+        // 4 March, (the) 4th of March
+        .replace(
+          new RegExp(
+            `\\b([Tt]he\\s+)?(\\d{1,2})(?:st|nd|rd|th)?(?:\\s+of)?\\s+(${MONTH_NAMES})\\b`,
+            "g",
+          ),
+          (match, the: string | undefined, d, month) =>
+            Number(d) >= 1 && Number(d) <= 31
+              ? `${the ?? "the "}${toOrdinalWords(numberToWords(Number(d), locale))} of ${month}`
+              : match,
+        )
+        // March 4, March 4th
+        .replace(
+          new RegExp(
+            `\\b(${MONTH_NAMES})\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b(?!:)`,
+            "g",
+          ),
+          (match, month, d) => {
+            if (Number(d) < 1 || Number(d) > 31) {
+              return match;
+            }
+            const day = toOrdinalWords(numberToWords(Number(d), locale));
+            return locale === "en-GB"
+              ? `${month} the ${day}`
+              : `${month} ${day}`;
+          },
+        )
+    );
+  },
+};
+
+const times: TextNormalizer = {
+  name: "times",
+  normalize(text, locale) {
+    return text.replace(
+      /\b(\d{1,2}):(\d{2})(?:\s*([ap])\.?\s?m\b\.?)?/gi,
+      (match, h, m, meridiem: string | undefined) => {
+        const hour = Number(h);
+        const minute = Number(m);
+        if (hour > 23 || minute > 59) {
+          return match;
+        }
+
+        let words = numberToWords(hour, locale);
+        if (minute === 0) {
+          if (!meridiem) {
+            words += hour > 12 ? " hundred" : " o'clock";
+          }
+        } else if (minute < 10) {
+          words += ` oh ${ONES[minute]}`;
+        } else {
+          words += ` ${tensToWords(minute)}`;
+        }
+        return meridiem ? `${words} ${meridiem.toLowerCase()}.m.` : words;
+      },
+    );
+  },
+};
+
+const currency: TextNormalizer = {
+  name: "currency",
+  normalize(text, locale) {
+    return text.replace(
+      /([$£€])\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(?:\s+(thousand|million|billion|trillion)\b)?/g,
+      (_, symbol: string, integer: string, decimals, scale) => {
+        const [unit, units, subunit, subunits] = CURRENCIES[symbol];
+        // $1.5 million, $2.125: read as a number of whole units
+        if (scale || (decimals && decimals.length > 2)) {
+          const amount = numeralToWords(integer, decimals, locale);
+          return `${amount}${scale ? ` ${scale}` : ""} ${units}`;
+        }
+
+        const major = Number(integer.replace(/,/g, ""));
+        const minor = decimals ? Number(decimals.padEnd(2, "0")) : 0;
+        const parts: string[] = [];
+        if (major > 0 || minor === 0) {
+          const amount = numeralToWords(integer, undefined, locale);
+          parts.push(`${amount} ${major === 1 ? unit : units}`);
+        }
+        if (minor > 0) {
+          const amount = numberToWords(minor, locale);
+          parts.push(`${amount} ${minor === 1 ? subunit : subunits}`);
+        }
+        return parts.join(" and ");
+      },
+    );
+  },
+};
+
+const ordinals: TextNormalizer = {
+  name: "ordinals",
+  normalize(text, locale) {
+    return text.replace(/\b(\d+)(st|nd|rd|th)\b/g, (_, n) =>
+      toOrdinalWords(numeralToWords(n, undefined, locale)),
+    );
+  },
+};
+
+const roman: TextNormalizer = {
+  name: "roman",
+  normalize(text, locale) {
+    return text.replace(
+      /\b(\p{L}+)\s+([IVXLCDM]+)\b/gu,
+      (match, word: string, numeral: string) => {
+        const value = ROMAN_CONTEXT.has(word.toLowerCase())
+          ? parseRoman(numeral)
+          : null;
+        return value ? `${word} ${numberToWords(value, locale)}` : match;
+      },
+    );
+  },
+};
+
+/**
+ * Four-digit numbers from 1100 to 2099 are read as years
+ */
+function isYear(integer: string): boolean {
+  return (
+    /^\d{4}$/.test(integer) && Number(integer) >= 1100 && Number(integer) < 2100
+  );
+}
+
+const numbers: TextNormalizer = {
+  name: "numbers",
+  normalize(text, locale) {
+    return (
+      text
+        // 555-1234, (555) 123-4567: read digit by digit
+        .replace(
+          /(?<![\p{L}\p{N}-])(?:\((\d{3})\)\s?|(\d{3})-)?(\d{3})-(\d{4})(?![\p{L}\p{N}]|-\d)/gu,
+          (_, area: string | undefined, prefix: string | undefined, a, b) =>
+            [area ?? prefix, a, b]
+              .filter((group) => group !== undefined)
+              .map(digitsToWords)
+              .join(", "),
+        )
+        // 2.0.1, v1.10.3: read each part
+        .replace(
+          /(?<![\p{L}\p{N}.])(v)?(\d+(?:\.\d+){2,})(?![\p{L}\p{N}]|\.\d)/gu,
+          (_, v: string | undefined, version: string) =>
+            (v ? "version " : "") +
+            version
+              .split(".")
+              .map((part) => numeralToWords(part, undefined, locale))
+              .join(" point "),
+        )
+        // 1990s, '90s
+        .replace(
+          /(?<![\p{L}\p{N}])(?:'(?=\d0'?s))?(\d{3}0|\d0)'?s(?!\p{L}|\p{N})/gu,
+          (_, decade: string) => {
+            const words = isYear(decade)
+              ? yearToWords(Number(decade), locale)
+              : numberToWords(Number(decade), locale);
+            return words.endsWith("y")
+              ? `${words.slice(0, -1)}ies`
+              : `${words}s`;
+          },
+        )
+        .replace(
+          /(?:(?<=^|[\s(\[])([-−]))?(?<![\p{L}\p{N}])(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?(%)?(?!\p{L}|\p{N})/gu,
+          (_, minus, integer: string, decimals, percent) => {
+            const words =
+              !minus && !decimals && !percent && isYear(integer)
+                ? yearToWords(Number(integer), locale)
+                : numeralToWords(integer, decimals, locale);
+            const signed = minus ? `minus ${words}` : words;
+            return percent ? `${signed} percent` : signed;
+          },
+        )
+    );
+  },
+};
+
+/**
+ * Built-in normalizers, in the order they run. Numbers go last so the other
+ * rules see the digits they need.
+ */
+export const TEXT_NORMALIZERS: TextNormalizer[] = [
+  abbreviations,
+  dates,
+  times,
+  currency,
+  ordinals,
+  roman,
+  numbers,
+];
+
+/**
+ * Names of the built-in rules
+ */
+export const TEXT_NORMALIZATION_RULES = TEXT_NORMALIZERS.map((n) => n.name);
+
+// ============================================================================
+// Normalizing
+// ============================================================================
+
+/**
+ * Normalize text for reading aloud
+ */
+export function normalizeText(
+  text: string,
+  options: TextNormalizeOptions = {},
+): string {
+  const { locale = "en-US", rules, normalizers = TEXT_NORMALIZERS } = options;
+  if (!NORMALIZATION_LOCALES.includes(locale as NormalizationLocale)) {
+    throw new Error(`Unsupported text normalization locale: ${locale}`);
+  }
+
+  return normalizers
+    .filter((n) => !rules || rules.includes(n.name))
+    .reduce(
+      (result, n) => n.normalize(result, locale as NormalizationLocale),
+      text,
+    );
+}
+
+/**
+ * Normalize each spoken segment of a story, setting `normalizedText` where
+ * it differs from the text as written
+ */
+export function normalizeStory(
+  story: ParsedStory,
+  options: TextNormalizeOptions = {},
+): ParsedStory {
+  return {
+    ...story,
+    segments: story.segments.map((segment) => {
+      if (segment.kind !== "speech") {
+        return segment;
+      }
+      const normalizedText = normalizeText(segment.text, options);
+      return normalizedText !== segment.text
+        ? { ...segment, normalizedText }
+        : segment;
+    }),
+  };
+}
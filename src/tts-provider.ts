@@ -1,8 +1,9 @@
 /**
  * TTS Provider Interface and Implementations
  *
- * Provides an abstract interface for TTS providers and a concrete
- * implementation for Google's Gemini TTS API
+ * Provides an abstract interface for TTS providers and concrete
+ * implementations for Google's Gemini TTS API, OpenAI-compatible
+ * /v1/audio/speech endpoints, ElevenLabs and local command-line engines
  */
 
 import {
@@ -12,9 +13,12 @@ import {
   HarmBlockThreshold,
 } from "@google/genai";
 import type { GenerateContentConfig } from "@google/genai";
-import { writeFile, stat } from "fs/promises";
-import { dirname } from "path";
+import { writeFile, stat, readFile, unlink } from "fs/promises";
+import { dirname, join } from "path";
 import { mkdir } from "fs/promises";
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { tmpdir } from "os";
 import type {
   TTSRequest,
   TTSResponse,
@@ -22,9 +26,19 @@ import type {
   ProviderConfig,
   Segment,
   Config,
+  GroupSegmentTiming,
 } from "./types.js";
-import { getVoiceConfig, resolveEnvVars } from "./config.js";
+import {
+  getVoiceConfig,
+  getVoiceProvider,
+  getVoiceProviderName,
+  getStylePrompt,
+  resolveEnvVars,
+  GEMINI_VOICES,
+} from "./config.js";
 import { debugLog } from "./utils.js";
+import { getSpokenText } from "./lexicon.js";
+import { splitWavAudio } from "./audio.js";
 
 // ============================================================================
 // Abstract TTS Provider Interface
@@ -127,6 +141,48 @@ function convertToWav(rawData: string, mimeType: string): Buffer {
   return Buffer.concat([wavHeader, buffer]);
 }
 
+/**
+ * Rewrite a PCM WAV with a clean 44-byte header.
+ * Streaming servers often write placeholder sizes (0 or 0xFFFFFFFF) and
+ * extra chunks, so the data chunk is taken to run to the end of the file.
+ */
+function normalizeWav(buffer: Buffer): Buffer {
+  let offset = 12;
+  let format: WavConversionOptions | null = null;
+
+  while (offset + 8 <= buffer.length) {
+    const chunkId = buffer.toString("ascii", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+
+    if (chunkId === "fmt ") {
+      const audioFormat = buffer.readUInt16LE(offset + 8);
+      if (audioFormat !== 1) {
+        throw new Error(`Unsupported WAV encoding: format ${audioFormat}`);
+      }
+      format = {
+        numChannels: buffer.readUInt16LE(offset + 10),
+        sampleRate: buffer.readUInt32LE(offset + 12),
+        bitsPerSample: buffer.readUInt16LE(offset + 22),
+      };
+    } else if (chunkId === "data") {
+      if (!format) {
+        throw new Error("Invalid WAV: data chunk before fmt chunk");
+      }
+      const start = offset + 8;
+      const end =
+        chunkSize === 0 || start + chunkSize > buffer.length
+          ? buffer.length
+          : start + chunkSize;
+      const data = buffer.subarray(start, end);
+      return Buffer.concat([createWavHeader(data.length, format), data]);
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("Invalid WAV: no data chunk found");
+}
+
 // ============================================================================
 // Duration Estimation and Validation
 // ============================================================================
@@ -448,17 +504,8 @@ export class GeminiTTSProvider implements TTSProvider {
 
             // Build the prompt with style instructions
             let textPrompt = request.text;
-            let stylePrompt = request.voice.stylePrompt;
+            const stylePrompt = getStylePrompt(request.voice, request.style);
             if (stylePrompt) {
-              if (
-                textPrompt.length < 20 &&
-                textPrompt.includes("<") &&
-                textPrompt.endsWith(">")
-              ) {
-                const soundPrompt =
-                  "emotion_thought Only short moans, whimpers, gasps of overwhelming pleasure and surrender.emotion_intensity medium";
-                stylePrompt = soundPrompt;
-              }
               textPrompt = `${stylePrompt}: ${request.text}`;
             }
 
@@ -729,9 +776,10 @@ export class GeminiTTSProvider implements TTSProvider {
             const textContent = request.segments
               .map((seg) => {
                 const voice = request.voices.get(seg.speaker);
-                const styleHint = voice?.stylePrompt
-                  ? ` [Style: ${voice.stylePrompt}]`
-                  : "";
+                const stylePrompt = voice
+                  ? getStylePrompt(voice, seg.style)
+                  : seg.style;
+                const styleHint = stylePrompt ? ` [Style: ${stylePrompt}]` : "";
                 return `${seg.speaker}:${styleHint} ${seg.text}`;
               })
               .join("\n\n");
@@ -927,22 +975,846 @@ export class GeminiTTSProvider implements TTSProvider {
   }
 }
 
+// ============================================================================
+// HTTP Provider Helpers
+// ============================================================================
+
+/**
+ * Wrap raw 16-bit mono PCM in a WAV header
+ */
+function pcmToWav(pcm: Buffer, sampleRate: number): Buffer {
+  return Buffer.concat([
+    createWavHeader(pcm.length, {
+      numChannels: 1,
+      sampleRate,
+      bitsPerSample: 16,
+    }),
+    pcm,
+  ]);
+}
+
+/**
+ * Read the error message from a failed HTTP response.
+ * JSON bodies are passed to `extract`; anything else is returned as-is.
+ */
+async function readErrorMessage(
+  response: Response,
+  extract: (body: unknown) => unknown,
+): Promise<string> {
+  const text = await response.text();
+  try {
+    const message = extract(JSON.parse(text));
+    return typeof message === "string" && message ? message : text;
+  } catch {
+    // Not JSON, use the raw body
+    return text;
+  }
+}
+
+/**
+ * Write a generated WAV to the request's output path
+ */
+async function saveWavAudio(
+  outputPath: string,
+  wav: Buffer,
+): Promise<TTSResponse> {
+  // Ensure output directory exists
+  await mkdir(dirname(outputPath), { recursive: true });
+
+  // Write audio file
+  await writeFile(outputPath, wav);
+
+  // Get file stats
+  const fileStats = await stat(outputPath);
+
+  return {
+    success: true,
+    audioPath: outputPath,
+    durationMs: estimateWavDuration(wav),
+    fileSize: fileStats.size,
+    audioData: wav,
+  };
+}
+
+// ============================================================================
+// OpenAI-compatible TTS Provider
+// ============================================================================
+
+const OPENAI_DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini-tts";
+const OPENAI_DEFAULT_VOICE = "alloy";
+
+/**
+ * Sample rate of raw PCM responses from the OpenAI speech API
+ */
+const OPENAI_PCM_SAMPLE_RATE = 24000;
+
+/**
+ * Approximate USD per million input characters, by model
+ */
+const OPENAI_PRICE_PER_MILLION_CHARS: Record<string, number> = {
+  "tts-1": 15,
+  "tts-1-hd": 30,
+  // Billed per audio token; ~$0.015/minute at ~750 characters/minute
+  "gpt-4o-mini-tts": 20,
+};
+
+/**
+ * TTS provider for OpenAI's /v1/audio/speech API and compatible servers
+ */
+export class OpenAITTSProvider implements TTSProvider {
+  readonly name = "openai";
+
+  private config: ProviderConfig;
+  private rateLimiter: RateLimiter;
+  private apiKey: string | undefined;
+  private initialized = false;
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+    this.rateLimiter = new RateLimiter(config.rateLimit || 60);
+  }
+
+  private get baseUrl(): string {
+    return (this.config.baseUrl || OPENAI_DEFAULT_BASE_URL).replace(/\/+$/, "");
+  }
+
+  private get model(): string {
+    return this.config.model || OPENAI_DEFAULT_MODEL;
+  }
+
+  async initialize(): Promise<void> {
+    const apiKey = this.config.apiKey
+      ? resolveEnvVars(this.config.apiKey)
+      : process.env.OPENAI_API_KEY;
+
+    // Local OpenAI-compatible servers usually don't need a key
+    if (!apiKey && !this.config.baseUrl) {
+      throw new Error(
+        "OpenAI API key not found. Set OPENAI_API_KEY environment variable or configure in config.json",
+      );
+    }
+
+    this.apiKey = apiKey;
+    this.initialized = true;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.initialized) {
+      try {
+        await this.initialize();
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Build the JSON body for a speech request
+   */
+  private buildRequestBody(request: TTSRequest): Record<string, unknown> {
+    // Fall back to the default voice for Gemini voice names (e.g. built-in defaults)
+    const voiceName = request.voice.voiceName;
+    const voice =
+      !voiceName || (GEMINI_VOICES as readonly string[]).includes(voiceName)
+        ? OPENAI_DEFAULT_VOICE
+        : voiceName;
+
+    const body: Record<string, unknown> = {
+      model: this.model,
+      input: request.text,
+      voice,
+      response_format: "wav",
+    };
+
+    if (request.voice.speed !== undefined) {
+      body.speed = request.voice.speed;
+    }
+
+    // tts-1 models don't accept instructions
+    const instructions = getStylePrompt(request.voice, request.style);
+    if (instructions && !this.model.startsWith("tts-1")) {
+      body.instructions = instructions;
+    }
+
+    // extraParams can add fields or override the format, but the model, text
+    // and voice always come from the config and story
+    return {
+      ...body,
+      ...request.voice.extraParams,
+      model: this.model,
+      input: request.text,
+      voice,
+    };
+  }
+
+  async generateAudio(request: TTSRequest): Promise<TTSResponse> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    // Wait for rate limit slot
+    await this.rateLimiter.waitForSlot();
+
+    try {
+      const body = this.buildRequestBody(request);
+
+      await debugLog(
+        "\n=== DEBUG: OpenAI Speech Request ===\n" +
+          `Segment: ${request.segmentId || "unknown"}\n` +
+          `URL: ${this.baseUrl}/audio/speech\n` +
+          `Model: ${body.model}\n` +
+          `Voice: ${body.voice}\n` +
+          request.text.slice(0, 100) +
+          "\n=== END DEBUG ===\n",
+      );
+
+      const result = await withRetry(
+        async () => {
+          const headers: Record<string, string> = {
+            "Content-Type": "application/json",
+          };
+          if (this.apiKey) {
+            headers.Authorization = `Bearer ${this.apiKey}`;
+          }
+
+          const timeout = request.timeout ?? this.config.timeout;
+          const response = await fetch(`${this.baseUrl}/audio/speech`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify(body),
+            signal: timeout ? AbortSignal.timeout(timeout) : undefined,
+          });
+
+          if (!response.ok) {
+            const message = await readErrorMessage(
+              response,
+              (body) =>
+                (body as { error?: { message?: string } })?.error?.message,
+            );
+            throw new Error(
+              `OpenAI TTS request failed (${response.status}): ${message}`,
+            );
+          }
+
+          const audio = Buffer.from(await response.arrayBuffer());
+          const contentType = response.headers.get("content-type") || "";
+
+          return this.toWav(audio, contentType, body.response_format);
+        },
+        {
+          maxRetries: this.config.maxRetries ?? 3,
+          baseDelayMs: 1000,
+          maxDelayMs: 30000,
+        },
+      );
+
+      if (result.length <= 44) {
+        return {
+          success: false,
+          error: "No audio data received from OpenAI API",
+        };
+      }
+
+      return await saveWavAudio(request.outputPath, result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `OpenAI TTS generation failed: ${errorMessage}`,
+      };
+    }
+  }
+
+  /**
+   * Convert a speech response (WAV or raw 16-bit PCM) to WAV
+   */
+  private toWav(
+    audio: Buffer,
+    contentType: string,
+    responseFormat: unknown,
+  ): Buffer {
+    if (
+      audio.length >= 12 &&
+      audio.toString("ascii", 0, 4) === "RIFF" &&
+      audio.toString("ascii", 8, 12) === "WAVE"
+    ) {
+      return normalizeWav(audio);
+    }
+
+    const mimeType = contentType.toLowerCase();
+    if (
+      responseFormat === "pcm" ||
+      mimeType.startsWith("audio/pcm") ||
+      mimeType.startsWith("audio/l16")
+    ) {
+      const rate = /rate=(\d+)/.exec(mimeType);
+      return pcmToWav(
+        audio,
+        rate ? parseInt(rate[1], 10) : OPENAI_PCM_SAMPLE_RATE,
+      );
+    }
+
+    throw new Error(
+      `Unsupported audio response: ${contentType || "unknown content type"} (expected WAV or PCM)`,
+    );
+  }
+
+  estimateCost(text: string): number | null {
+    const pricePerMillion = OPENAI_PRICE_PER_MILLION_CHARS[this.model];
+    if (pricePerMillion === undefined) {
+      return null;
+    }
+    return (text.length / 1000000) * pricePerMillion;
+  }
+
+  getRateLimitInfo(): { requestsPerMinute: number; currentUsage: number } {
+    return {
+      requestsPerMinute: this.config.rateLimit || 60,
+      currentUsage: this.rateLimiter.getCurrentUsage(),
+    };
+  }
+}
+
+// ============================================================================
+// ElevenLabs TTS Provider
+// ============================================================================
+
+const ELEVENLABS_DEFAULT_BASE_URL = "https://api.elevenlabs.io";
+const ELEVENLABS_DEFAULT_MODEL = "eleven_multilingual_v2";
+
+/**
+ * PCM sample rate requested from ElevenLabs (matches the default audio config)
+ */
+const ELEVENLABS_SAMPLE_RATE = 24000;
+
+/**
+ * Approximate USD per 1,000 credits (Creator plan overage rate)
+ */
+const ELEVENLABS_USD_PER_1K_CREDITS = 0.3;
+
+/**
+ * Credits charged per character; Flash and Turbo models cost half
+ */
+function getElevenLabsCreditsPerChar(model: string): number {
+  return /flash|turbo/.test(model) ? 0.5 : 1;
+}
+
+/**
+ * Voice settings read from `VoiceConfig.extraParams`
+ */
+const ELEVENLABS_VOICE_SETTINGS = [
+  "stability",
+  "similarity_boost",
+  "style",
+  "use_speaker_boost",
+] as const;
+
+/**
+ * TTS provider for the ElevenLabs text-to-speech API
+ */
+export class ElevenLabsTTSProvider implements TTSProvider {
+  readonly name = "elevenlabs";
+
+  private config: ProviderConfig;
+  private rateLimiter: RateLimiter;
+  private globalSeed?: number;
+  private apiKey: string | undefined;
+  private initialized = false;
+
+  constructor(config: ProviderConfig, globalSeed?: number) {
+    this.config = config;
+    this.globalSeed = globalSeed;
+    this.rateLimiter = new RateLimiter(config.rateLimit || 60);
+  }
+
+  private get baseUrl(): string {
+    return (this.config.baseUrl || ELEVENLABS_DEFAULT_BASE_URL).replace(
+      /\/+$/,
+      "",
+    );
+  }
+
+  private get model(): string {
+    return this.config.model || ELEVENLABS_DEFAULT_MODEL;
+  }
+
+  async initialize(): Promise<void> {
+    const apiKey = this.config.apiKey
+      ? resolveEnvVars(this.config.apiKey)
+      : process.env.ELEVENLABS_API_KEY;
+
+    if (!apiKey) {
+      throw new Error(
+        "ElevenLabs API key not found. Set ELEVENLABS_API_KEY environment variable or configure in config.json",
+      );
+    }
+
+    this.apiKey = apiKey;
+    this.initialized = true;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    if (!this.initialized) {
+      try {
+        await this.initialize();
+      } catch {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Build the JSON body for a text-to-speech request
+   */
+  private buildRequestBody(request: TTSRequest): Record<string, unknown> {
+    const voiceSettings: Record<string, unknown> = {};
+    const extraParams = request.voice.extraParams || {};
+
+    for (const key of ELEVENLABS_VOICE_SETTINGS) {
+      if (extraParams[key] !== undefined) {
+        voiceSettings[key] = extraParams[key];
+      }
+    }
+    if (request.voice.speed !== undefined) {
+      voiceSettings.speed = request.voice.speed;
+    }
+
+    const body: Record<string, unknown> = {
+      text: request.text,
+      model_id: this.model,
+    };
+
+    if (Object.keys(voiceSettings).length > 0) {
+      body.voice_settings = voiceSettings;
+    }
+
+    const seed = request.voice.seed ?? this.globalSeed;
+    if (seed !== undefined) {
+      body.seed = seed;
+    }
+
+    return body;
+  }
+
+  async generateAudio(request: TTSRequest): Promise<TTSResponse> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    // ElevenLabs voices are IDs, so Gemini defaults can't be mapped
+    const voiceId = request.voice.voiceName;
+    if (!voiceId || (GEMINI_VOICES as readonly string[]).includes(voiceId)) {
+      return {
+        success: false,
+        error: `ElevenLabs voice ID not configured for ${request.voice.name} (set voiceName to an ElevenLabs voice ID)`,
+      };
+    }
+
+    // Wait for rate limit slot
+    await this.rateLimiter.waitForSlot();
+
+    try {
+      const body = this.buildRequestBody(request);
+      const url =
+        `${this.baseUrl}/v1/text-to-speech/${encodeURIComponent(voiceId)}` +
+        `?output_format=pcm_${ELEVENLABS_SAMPLE_RATE}`;
+
+      await debugLog(
+        "\n=== DEBUG: ElevenLabs Request ===\n" +
+          `Segment: ${request.segmentId || "unknown"}\n` +
+          `Voice: ${voiceId}\n` +
+          `Model: ${body.model_id}\n` +
+          `Seed: ${body.seed}\n` +
+          request.text.slice(0, 100) +
+          "\n=== END DEBUG ===\n",
+      );
+
+      const result = await withRetry(
+        async () => {
+          const timeout = request.timeout ?? this.config.timeout;
+          const response = await fetch(url, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              "xi-api-key": this.apiKey!,
+            },
+            body: JSON.stringify(body),
+            signal: timeout ? AbortSignal.timeout(timeout) : undefined,
+          });
+
+          if (!response.ok) {
+            const message = await readErrorMessage(response, (body) => {
+              const detail = (body as { detail?: unknown })?.detail;
+              return typeof detail === "string"
+                ? detail
+                : (detail as { message?: string })?.message;
+            });
+            throw new Error(
+              `ElevenLabs TTS request failed (${response.status}): ${message}`,
+            );
+          }
+
+          const audio = Buffer.from(await response.arrayBuffer());
+          return audio.toString("ascii", 0, 4) === "RIFF"
+            ? normalizeWav(audio)
+            : pcmToWav(audio, ELEVENLABS_SAMPLE_RATE);
+        },
+        {
+          maxRetries: this.config.maxRetries ?? 3,
+          baseDelayMs: 1000,
+          maxDelayMs: 30000,
+        },
+      );
+
+      if (result.length <= 44) {
+        return {
+          success: false,
+          error: "No audio data received from ElevenLabs API",
+        };
+      }
+
+      return await saveWavAudio(request.outputPath, result);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `ElevenLabs TTS generation failed: ${errorMessage}`,
+      };
+    }
+  }
+
+  estimateCost(text: string): number | null {
+    const credits = text.length * getElevenLabsCreditsPerChar(this.model);
+    return (credits / 1000) * ELEVENLABS_USD_PER_1K_CREDITS;
+  }
+
+  getRateLimitInfo(): { requestsPerMinute: number; currentUsage: number } {
+    return {
+      requestsPerMinute: this.config.rateLimit || 60,
+      currentUsage: this.rateLimiter.getCurrentUsage(),
+    };
+  }
+}
+
+// ============================================================================
+// Local Command TTS Provider
+// ============================================================================
+
+/**
+ * Split a command template into arguments, honouring single and double quotes
+ */
+export function parseCommandTemplate(template: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (const char of template) {
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        args.push(current);
+        current = "";
+        hasToken = false;
+      }
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated quote in command template: ${template}`);
+  }
+  if (hasToken) {
+    args.push(current);
+  }
+
+  return args;
+}
+
+/**
+ * Run a command with text on stdin, collecting stdout
+ */
+function runCommand(
+  args: string[],
+  input: string,
+  timeoutMs?: number,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(args[0], args.slice(1), {
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    const stdout: Buffer[] = [];
+    let stderr = "";
+    let timedOut = false;
+
+    const timer = timeoutMs
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill();
+        }, timeoutMs)
+      : undefined;
+
+    child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString("utf-8");
+    });
+    // The engine may exit before reading all input; the exit code reports why
+    child.stdin.on("error", () => {});
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`Command not found: ${args[0]}`)
+          : error,
+      );
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`Command timed out after ${timeoutMs}ms`));
+      } else if (code !== 0) {
+        const details = stderr.trim().slice(-500);
+        reject(
+          new Error(
+            `Command exited with code ${code}${details ? `: ${details}` : ""}`,
+          ),
+        );
+      } else {
+        resolve(Buffer.concat(stdout));
+      }
+    });
+
+    child.stdin.end(input);
+  });
+}
+
+/**
+ * TTS provider that shells out to a local engine such as Piper or espeak.
+ *
+ * The command template supports {voice} (the voice's voiceName, e.g. a model
+ * path), {out} (a temporary WAV path) and {speed}. Text is sent on stdin.
+ * Without {out}, the WAV is read from stdout.
+ */
+export class LocalCommandTTSProvider implements TTSProvider {
+  readonly name = "local";
+
+  private config: ProviderConfig;
+  private rateLimiter: RateLimiter;
+  private template: string[] = [];
+
+  constructor(config: ProviderConfig) {
+    this.config = config;
+    // Local engines are only throttled when rateLimit is set
+    this.rateLimiter = new RateLimiter(config.rateLimit || Infinity);
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.config.command) {
+      throw new Error(
+        'Local TTS provider requires provider.command (e.g. "piper --model {voice} --output_file {out}")',
+      );
+    }
+
+    this.template = parseCommandTemplate(this.config.command);
+    if (this.template.length === 0) {
+      throw new Error("Local TTS provider command is empty");
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.initialize();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generateAudio(request: TTSRequest): Promise<TTSResponse> {
+    if (this.template.length === 0) {
+      await this.initialize();
+    }
+
+    const usesVoice = this.template.some((arg) => arg.includes("{voice}"));
+    const voice = request.voice.voiceName;
+    if (
+      usesVoice &&
+      (!voice || (GEMINI_VOICES as readonly string[]).includes(voice))
+    ) {
+      return {
+        success: false,
+        error: `Local voice not configured for ${request.voice.name} (set voiceName to a local model)`,
+      };
+    }
+
+    await this.rateLimiter.waitForSlot();
+
+    const usesOutputFile = this.template.some((arg) => arg.includes("{out}"));
+    const tempPath = join(tmpdir(), `audiobook-tts-${randomUUID()}.wav`);
+    const args = this.template.map((arg) =>
+      arg
+        .replace(/\{voice\}/g, voice || "")
+        .replace(/\{out\}/g, tempPath)
+        .replace(/\{speed\}/g, String(request.voice.speed ?? 1)),
+    );
+
+    await debugLog(
+      "\n=== DEBUG: Local TTS Command ===\n" +
+        `Segment: ${request.segmentId || "unknown"}\n` +
+        `Command: ${args.join(" ")}\n` +
+        request.text.slice(0, 100) +
+        "\n=== END DEBUG ===\n",
+    );
+
+    try {
+      // Engines like Piper treat each line as a separate utterance
+      const input = request.text.replace(/\s*\n\s*/g, " ") + "\n";
+      const stdout = await runCommand(
+        args,
+        input,
+        request.timeout ?? this.config.timeout,
+      );
+      const audio = usesOutputFile ? await readFile(tempPath) : stdout;
+
+      if (
+        audio.length < 12 ||
+        audio.toString("ascii", 0, 4) !== "RIFF" ||
+        audio.toString("ascii", 8, 12) !== "WAVE"
+      ) {
+        throw new Error(
+          usesOutputFile
+            ? "Command did not write a WAV file to {out}"
+            : "Command did not write a WAV file to stdout",
+        );
+      }
+
+      return await saveWavAudio(request.outputPath, normalizeWav(audio));
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: `Local TTS generation failed: ${errorMessage}`,
+      };
+    } finally {
+      if (usesOutputFile) {
+        await unlink(tempPath).catch(() => {});
+      }
+    }
+  }
+
+  estimateCost(_text: string): number | null {
+    return 0;
+  }
+
+  getRateLimitInfo(): { requestsPerMinute: number; currentUsage: number } {
+    return {
+      requestsPerMinute: this.config.rateLimit || Infinity,
+      currentUsage: this.rateLimiter.getCurrentUsage(),
+    };
+  }
+}
+
 // ============================================================================
 // Provider Factory
 // ============================================================================
 
 /**
- * Create a TTS provider based on configuration
+ * Create a TTS provider from a provider configuration
  */
-export function createTTSProvider(config: Config): TTSProvider {
-  switch (config.provider.name.toLowerCase()) {
+function createProviderFromConfig(
+  provider: ProviderConfig,
+  globalSeed?: number,
+): TTSProvider {
+  switch (provider.name.toLowerCase()) {
     case "gemini":
     case "google":
-      return new GeminiTTSProvider(config.provider, config.globalSeed);
+      return new GeminiTTSProvider(provider, globalSeed);
+
+    case "openai":
+      return new OpenAITTSProvider(provider);
+
+    case "elevenlabs":
+      return new ElevenLabsTTSProvider(provider, globalSeed);
+
+    case "local":
+      return new LocalCommandTTSProvider(provider);
 
     default:
-      throw new Error(`Unknown TTS provider: ${config.provider.name}`);
+      throw new Error(`Unknown TTS provider: ${provider.name}`);
+  }
+}
+
+/**
+ * Create a TTS provider based on configuration
+ */
+export function createTTSProvider(config: Config): TTSProvider {
+  return createProviderFromConfig(config.provider, config.globalSeed);
+}
+
+/**
+ * TTS providers keyed by provider name. Each provider has its own
+ * rate limiter, so voices on different providers don't throttle each other.
+ */
+export type ProviderPool = Map<string, TTSProvider>;
+
+/**
+ * Create one provider for each provider used by the given speakers
+ */
+export function createProviderPool(
+  config: Config,
+  speakers: string[],
+): ProviderPool {
+  const pool: ProviderPool = new Map();
+
+  for (const speaker of speakers) {
+    const voice = getVoiceConfig(config, speaker);
+    const name = getVoiceProviderName(config, voice);
+    if (!pool.has(name)) {
+      pool.set(
+        name,
+        createProviderFromConfig(
+          getVoiceProvider(config, voice),
+          config.globalSeed,
+        ),
+      );
+    }
   }
+
+  return pool;
+}
+
+/**
+ * Get the pooled provider for a speaker
+ */
+export function getProviderForSpeaker(
+  pool: ProviderPool,
+  config: Config,
+  speaker: string,
+): TTSProvider {
+  const name = getVoiceProviderName(config, getVoiceConfig(config, speaker));
+  const provider = pool.get(name);
+  if (!provider) {
+    throw new Error(`No TTS provider "${name}" in pool for ${speaker}`);
+  }
+  return provider;
 }
 
 /**
@@ -957,14 +1829,178 @@ export async function generateSegmentAudio(
   const voiceConfig = getVoiceConfig(config, segment.speaker);
 
   return provider.generateAudio({
-    text: segment.text,
+    text: getSpokenText(segment),
     voice: voiceConfig,
     outputPath,
-    timeout: config.provider.timeout,
+    // The provider the speaker is routed to may set its own timeout
+    timeout: getVoiceProvider(config, voiceConfig).timeout,
     segmentId: segment.id,
+    style: segment.style,
   });
 }
 
+// ============================================================================
+// Multi-Speaker Groups
+// ============================================================================
+
+/**
+ * Number of speakers Gemini accepts in one multi-speaker request
+ */
+const MAX_GROUP_SPEAKERS = 2;
+
+/**
+ * Maximum segments per multi-speaker request
+ */
+const MAX_GROUP_SEGMENTS = 10;
+
+/**
+ * Maximum characters per multi-speaker request, kept well below the
+ * duration at which a recording is treated as runaway
+ */
+const MAX_GROUP_CHARACTERS = 1500;
+
+/**
+ * Audio for one segment cut from a multi-speaker group
+ */
+export interface GroupSegmentAudio {
+  /** The segment */
+  segment: Segment;
+  /** Path to the segment audio file */
+  audioPath: string;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** File size in bytes */
+  fileSize: number;
+  /** Position of the segment in the group audio */
+  timing: GroupSegmentTiming;
+}
+
+/**
+ * Split segments into generation units for multi-speaker mode
+ *
+ * Runs of adjacent Gemini segments with exactly two speakers become one
+ * unit; every other segment is a unit of its own.
+ */
+export function groupMultiSpeakerSegments(
+  segments: Segment[],
+  config: Config,
+): Segment[][] {
+  const units: Segment[][] = [];
+  const isGemini = (segment: Segment) =>
+    getVoiceProviderName(config, getVoiceConfig(config, segment.speaker)) ===
+    "gemini";
+
+  let i = 0;
+  while (i < segments.length) {
+    const group = [segments[i]];
+    const speakers = new Set([segments[i].speaker]);
+    let characters = segments[i].text.length;
+
+    if (isGemini(segments[i])) {
+      for (let j = i + 1; j < segments.length; j++) {
+        const next = segments[j];
+        if (
+          next.index !== group[group.length - 1].index + 1 ||
+          !isGemini(next) ||
+          group.length >= MAX_GROUP_SEGMENTS ||
+          characters + next.text.length > MAX_GROUP_CHARACTERS ||
+          (!speakers.has(next.speaker) && speakers.size >= MAX_GROUP_SPEAKERS)
+        ) {
+          break;
+        }
+        group.push(next);
+        speakers.add(next.speaker);
+        characters += next.text.length;
+      }
+    }
+
+    if (speakers.size === MAX_GROUP_SPEAKERS) {
+      units.push(group);
+    } else {
+      // A single-speaker run gains nothing from a multi-speaker request
+      units.push(...group.map((segment) => [segment]));
+    }
+    i += group.length;
+  }
+
+  return units;
+}
+
+/**
+ * Cut a multi-speaker group recording into one audio file per segment
+ */
+export async function splitGroupAudio(
+  groupPath: string,
+  segments: Segment[],
+  outputPaths: string[],
+): Promise<GroupSegmentAudio[]> {
+  // Style directives like <whispering> aren't spoken, so they carry no weight
+  const weights = segments.map(
+    (s) => s.text.replace(/<[^>]+>/g, "").trim().length,
+  );
+  const slices = splitWavAudio(await readFile(groupPath), weights);
+
+  const results: GroupSegmentAudio[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const { audio, startMs, endMs } = slices[i];
+    await mkdir(dirname(outputPaths[i]), { recursive: true });
+    await writeFile(outputPaths[i], audio);
+    results.push({
+      segment: segments[i],
+      audioPath: outputPaths[i],
+      durationMs: endMs - startMs,
+      fileSize: audio.length,
+      timing: { segmentId: segments[i].id, startMs, endMs },
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Generate audio for a multi-speaker group in one request and cut it
+ * into one audio file per segment
+ */
+export async function generateSegmentGroupAudio(
+  provider: TTSProvider,
+  segments: Segment[],
+  config: Config,
+  groupPath: string,
+  outputPaths: string[],
+): Promise<{ response: TTSResponse; segments: GroupSegmentAudio[] }> {
+  if (!provider.generateMultiSpeaker) {
+    return {
+      response: {
+        success: false,
+        error: `Provider ${provider.name} does not support multi-speaker generation`,
+      },
+      segments: [],
+    };
+  }
+
+  const voices = new Map(
+    segments.map((s) => [s.speaker, getVoiceConfig(config, s.speaker)]),
+  );
+  const response = await provider.generateMultiSpeaker({
+    segments: segments.map((segment) => ({
+      speaker: segment.speaker,
+      text: getSpokenText(segment),
+      style: segment.style,
+    })),
+    voices,
+    outputPath: groupPath,
+  });
+
+  if (!response.success) {
+    return { response, segments: [] };
+  }
+
+  return {
+    response,
+    segments: await splitGroupAudio(groupPath, segments, outputPaths),
+  };
+}
+
 /**
  * Format duration in milliseconds to human-readable string
  */
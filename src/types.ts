@@ -6,6 +6,13 @@
 // Parser Types
 // ============================================================================
 
+/**
+ * What a segment plays:
+ * - speech: text spoken by a TTS voice
+ * - sfx: a local audio file from an [SFX] directive, never sent to TTS
+ */
+export type SegmentKind = "speech" | "sfx";
+
 /**
  * A single segment of the story with speaker information
  */
@@ -14,12 +21,49 @@ export interface Segment {
   id: string;
   /** Index of the segment in the story (0-based) */
   index: number;
-  /** Speaker identifier (e.g., "NARRATOR", "CHARACTER1") */
+  /** Whether the segment is spoken or a sound effect */
+  kind: SegmentKind;
+  /** Speaker identifier (e.g., "NARRATOR", "CHARACTER1"; "SFX" for sound effects) */
   speaker: string;
-  /** The text content for this segment */
+  /** The text content for this segment (the audio file path for sound effects) */
   text: string;
   /** Line number in the source file where this segment starts */
   lineNumber: number;
+  /** Pause before this segment from [PAUSE] directives, in milliseconds */
+  pauseBeforeMs?: number;
+  /** Whether a blank line separates this segment from the previous one */
+  paragraphStart?: boolean;
+  /** Delivery direction from inline markup (e.g., "whispering") */
+  style?: string;
+  /** Text as read aloud after normalization, when it differs from `text` */
+  normalizedText?: string;
+  /** Lexicon entries used in the text (word -> what's read instead) */
+  pronunciations?: Record<string, string>;
+}
+
+/**
+ * A chapter of the story, as a range of segment indices
+ */
+export interface Chapter {
+  /** Chapter title from the heading or directive */
+  title: string;
+  /** Index of the first segment in the chapter */
+  startSegmentIndex: number;
+  /** Index of the last segment in the chapter (inclusive) */
+  endSegmentIndex: number;
+}
+
+/**
+ * A run of segments with a music or ambience bed underneath,
+ * started by a [SCENE name] marker
+ */
+export interface Scene {
+  /** Name of the music track to play (a key of `audio.music.tracks`) */
+  bed: string;
+  /** Index of the first segment in the scene */
+  startSegmentIndex: number;
+  /** Index of the last segment in the scene (inclusive) */
+  endSegmentIndex: number;
 }
 
 /**
@@ -28,6 +72,10 @@ export interface Segment {
 export interface ParsedStory {
   /** Array of parsed segments */
   segments: Segment[];
+  /** Chapters in story order (empty if the story has no chapter headings) */
+  chapters: Chapter[];
+  /** Scenes with music beds, in story order */
+  scenes: Scene[];
   /** Unique speakers found in the story */
   speakers: string[];
   /** Total character count */
@@ -36,6 +84,23 @@ export interface ParsedStory {
   sourcePath: string;
 }
 
+/**
+ * Criteria for picking segments. Every criterion given must match; list
+ * criteria match any of their entries.
+ */
+export interface SegmentSelection {
+  /** Segment IDs */
+  ids?: string[];
+  /** Source line numbers, matching the segment that contains each line */
+  lines?: number[];
+  /** Segment index range (0-based, inclusive) */
+  indexRange?: { start: number; end: number };
+  /** Speaker names (case-insensitive) */
+  speakers?: string[];
+  /** Regular expression matched against segment text (case-insensitive) */
+  grep?: string;
+}
+
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -52,12 +117,20 @@ export interface VoiceConfig {
   stylePrompt?: string;
   /** TTS provider-specific voice name/ID */
   voiceName?: string;
-  /** Speaking speed multiplier (0.5 = half speed, 2.0 = double speed) */
+  /**
+   * Speaking speed multiplier (0.5 = half speed, 2.0 = double speed).
+   * Applied while stitching for providers without native speed control.
+   */
   speed?: number;
-  /** Pitch adjustment (-1.0 to 1.0) */
+  /** Pitch adjustment (-1.0 to 1.0, up to one octave), applied while stitching */
   pitch?: number;
   /** Additional provider-specific parameters */
   extraParams?: Record<string, unknown>;
+  /**
+   * Provider override for this voice (e.g. "local"). Matches the main
+   * provider or an entry in `Config.providers` by name.
+   */
+  provider?: string;
 }
 
 /**
@@ -78,13 +151,63 @@ export interface ProviderConfig {
   maxRetries?: number;
   /** Timeout in milliseconds */
   timeout?: number;
+  /**
+   * Command template for the "local" provider, e.g.
+   * "piper --model {voice} --output_file {out}" (text is sent on stdin)
+   */
+  command?: string;
+}
+
+/**
+ * Silence between segments in milliseconds, by what separates them.
+ * Unset rules fall back to `silencePadding`.
+ */
+export interface PauseRules {
+  /** Between segments from different speakers */
+  speakerChange?: number;
+  /** Between lines from the same speaker */
+  sameSpeaker?: number;
+  /** Between paragraphs (separated by a blank line) from the same speaker */
+  paragraph?: number;
+  /** Before the first segment of a chapter */
+  chapter?: number;
+}
+
+/**
+ * A music or ambience track that can be mixed under the speech
+ */
+export interface MusicTrack {
+  /** Path to a WAV file, relative to the config file */
+  file: string;
+  /** Gain in dB (default: 0) */
+  gain?: number;
+  /** Fade-in length in milliseconds (default: 0) */
+  fadeIn?: number;
+  /** Fade-out length in milliseconds (default: 0) */
+  fadeOut?: number;
+  /** Whether to repeat the track until its scene ends (default: false) */
+  loop?: boolean;
+  /** How far to lower the track while speech plays, in dB (default: 0) */
+  duck?: number;
+}
+
+/**
+ * Music mixed into the stitched audiobook
+ */
+export interface MusicConfig {
+  /** Tracks by name, referenced by `intro`, `outro` and [SCENE] markers */
+  tracks: Record<string, MusicTrack>;
+  /** Track played before the first segment */
+  intro?: string;
+  /** Track played after the last segment */
+  outro?: string;
 }
 
 /**
  * Audio processing configuration
  */
 export interface AudioConfig {
-  /** Output format (mp3, wav, etc.) */
+  /** Output format ("ogg" is Ogg Vorbis; Opus isn't supported) */
   format: "mp3" | "wav" | "ogg" | "flac";
   /** Sample rate in Hz */
   sampleRate?: number;
@@ -94,6 +217,44 @@ export interface AudioConfig {
   silencePadding?: number;
   /** Whether to normalize audio levels */
   normalize?: boolean;
+  /** Integrated loudness target in LUFS when normalizing (default: -18) */
+  loudnessTarget?: number;
+  /** True-peak ceiling in dBTP when normalizing (default: -1) */
+  truePeakLimit?: number;
+  /** Pause lengths between segments, overriding `silencePadding` */
+  pauses?: PauseRules;
+  /** Whether to trim leading and trailing silence from each segment */
+  trimSilence?: boolean;
+  /** Level below which audio counts as silence when trimming, in dBFS (default: -50) */
+  silenceThreshold?: number;
+  /** Intro/outro music and scene beds (the output becomes stereo) */
+  music?: MusicConfig;
+}
+
+/**
+ * Text normalization settings (numbers, dates, abbreviations)
+ */
+export interface TextNormalizationConfig {
+  /** Whether to normalize segment text before generation */
+  enabled: boolean;
+  /** Locale for dates, number wording and currency (default: "en-US") */
+  locale?: string;
+  /** Rules to run (default: all) */
+  rules?: string[];
+}
+
+/**
+ * Book metadata written into exported audiobooks
+ */
+export interface BookMetadata {
+  /** Book title (defaults to the story filename) */
+  title?: string;
+  /** Author name */
+  author?: string;
+  /** Path to a JPEG or PNG cover image */
+  cover?: string;
+  /** BCP 47 language tag for EPUB export (default: "en") */
+  language?: string;
 }
 
 /**
@@ -104,6 +265,8 @@ export interface Config {
   version: string;
   /** TTS provider configuration */
   provider: ProviderConfig;
+  /** Additional providers that voices can select with `VoiceConfig.provider` */
+  providers?: ProviderConfig[];
   /** Audio output configuration */
   audio: AudioConfig;
   /** Voice configurations for each character */
@@ -112,6 +275,15 @@ export interface Config {
   defaultVoice?: VoiceConfig;
   /** Global seed for reproducibility */
   globalSeed?: number;
+  /** Book metadata for exports (title, author, cover art) */
+  metadata?: BookMetadata;
+  /**
+   * Pronunciation lexicon files (JSON or PLS), relative to the config file.
+   * Later files override earlier ones.
+   */
+  lexicon?: string[];
+  /** Text normalization before generation */
+  textNormalization?: TextNormalizationConfig;
 }
 
 // ============================================================================
@@ -156,6 +328,50 @@ export interface CachedSegment {
   success: boolean;
   /** Error message if generation failed */
   error?: string;
+  /** Multi-speaker group this segment was cut from */
+  groupId?: string;
+  /** Key of the audio in the shared segment store (unset for audio cached per story) */
+  blobKey?: string;
+  /** Timestamp when a generation last used the cached audio (generatedAt if unset) */
+  lastAccessedAt?: string;
+}
+
+/**
+ * Position of a segment inside a multi-speaker group recording
+ */
+export interface GroupSegmentTiming {
+  /** Segment ID */
+  segmentId: string;
+  /** Start offset in the group audio in milliseconds */
+  startMs: number;
+  /** End offset in the group audio in milliseconds */
+  endMs: number;
+}
+
+/**
+ * Cached multi-speaker group metadata
+ */
+export interface CachedSegmentGroup {
+  /** Group ID */
+  groupId: string;
+  /** IDs of the segments in the group, in story order */
+  segmentIds: string[];
+  /** Speakers in the group */
+  speakers: string[];
+  /** Path to the group audio file */
+  audioPath: string;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** File size in bytes */
+  fileSize: number;
+  /** Hash of the member segment hashes */
+  hash: string;
+  /** Estimated position of each segment in the group audio */
+  timings: GroupSegmentTiming[];
+  /** Timestamp when generated */
+  generatedAt: string;
+  /** Provider used for generation */
+  provider: string;
 }
 
 /**
@@ -172,12 +388,34 @@ export interface CacheManifest {
   configHash: string;
   /** Cached segments */
   segments: CachedSegment[];
+  /** Cached multi-speaker groups */
+  groups?: CachedSegmentGroup[];
   /** Last update timestamp */
   lastUpdated: string;
   /** Generation statistics */
   stats: GenerationStats;
 }
 
+/**
+ * References to the shared segment store: blob key -> story cache folders
+ * whose manifests use it. A blob with no references can be deleted.
+ */
+export type BlobRefs = Record<string, string[]>;
+
+/**
+ * A story's folder in the cache directory
+ */
+export interface StoryCache {
+  /** Folder name (the cache directory's own name for the legacy root cache) */
+  folder: string;
+  /** Path of the folder */
+  dir: string;
+  /** Story hash the folder is named after (unset for the root cache) */
+  storyHash?: string;
+  /** The story's manifest, if it has a readable one */
+  manifest: CacheManifest | null;
+}
+
 // ============================================================================
 // Generation Types
 // ============================================================================
@@ -262,6 +500,8 @@ export interface AudiobookResult {
   errors: string[];
   /** Path to generated Audacity project (if --audacity used) */
   audacityProjectPath?: string;
+  /** Paths to per-chapter audio files (if --split-chapters used) */
+  chapterPaths?: string[];
 }
 
 // ============================================================================
@@ -286,6 +526,28 @@ export interface ManifestSegment {
   durationMs: number;
   /** Path to individual audio file */
   audioFile: string;
+  /** Segment kind (speech when absent) */
+  kind?: SegmentKind;
+  /** Provider that generated the audio (speech only, when known) */
+  provider?: string;
+}
+
+/**
+ * Chapter entry in the export manifest
+ */
+export interface ManifestChapter {
+  /** Chapter title */
+  title: string;
+  /** Start timestamp in milliseconds */
+  startMs: number;
+  /** End timestamp in milliseconds (start of the next chapter, or the end) */
+  endMs: number;
+  /** Duration in milliseconds */
+  durationMs: number;
+  /** Index of the first segment in the chapter */
+  startSegmentIndex: number;
+  /** Index of the last segment in the chapter (inclusive) */
+  endSegmentIndex: number;
 }
 
 /**
@@ -310,9 +572,11 @@ export interface AudiobookManifest {
   speakers: string[];
   /** Segment details with timestamps */
   segments: ManifestSegment[];
+  /** Chapter details with timestamps (empty if the story has no chapters) */
+  chapters: ManifestChapter[];
   /** Generation timestamp */
   generatedAt: string;
-  /** Provider used */
+  /** Providers used, comma-separated in order of first use ("unknown" if no segment records one) */
   provider: string;
 }
 
@@ -334,6 +598,8 @@ export interface TTSRequest {
   timeout?: number;
   /** Segment ID for logging purposes */
   segmentId?: string;
+  /** Delivery direction for this line, added to the voice's stylePrompt */
+  style?: string;
 }
 
 /**
@@ -364,6 +630,7 @@ export interface MultiSpeakerTTSRequest {
   segments: Array<{
     speaker: string;
     text: string;
+    style?: string;
   }>;
   /** Voice configurations by speaker name */
   voices: Map<string, VoiceConfig>;
@@ -395,6 +662,10 @@ export interface GenerateOptions {
   concurrency?: number;
   /** Create Audacity project with individual segment tracks */
   audacity?: boolean;
+  /** Also write one audio file per chapter */
+  splitChapters?: boolean;
+  /** Generate two-speaker dialogue runs in a single request */
+  multiSpeaker?: boolean;
 }
 
 /**
@@ -424,6 +695,32 @@ export interface UpdateStylesOptions {
   force?: boolean;
 }
 
+/**
+ * Options for the regenerate command (selectors as given on the command line)
+ */
+export interface RegenerateOptions {
+  /** Path to config file */
+  config?: string;
+  /** Output directory */
+  output?: string;
+  /** Comma-separated segment IDs */
+  id?: string;
+  /** Comma-separated source line numbers */
+  line?: string;
+  /** Segment number range, e.g. "12-20" (1-based, inclusive) */
+  range?: string;
+  /** Comma-separated speaker names */
+  speakers?: string;
+  /** Regular expression matched against segment text */
+  grep?: string;
+  /** Verbose output */
+  verbose?: boolean;
+  /** Show what would be regenerated without generating */
+  dryRun?: boolean;
+  /** Number of segments to generate in parallel */
+  concurrency?: number;
+}
+
 /**
  * Options for the clean command
  */
@@ -436,6 +733,22 @@ export interface CleanOptions {
   force?: boolean;
 }
 
+/**
+ * Options for the cache gc command
+ */
+export interface CacheGcOptions {
+  /** Output directory */
+  output?: string;
+  /** Maximum cache size, e.g. "2GB" */
+  maxSize?: string;
+  /** Remove audio not used for this long, e.g. "30d" */
+  olderThan?: string;
+  /** Report without deleting */
+  dryRun?: boolean;
+  /** List every file */
+  verbose?: boolean;
+}
+
 // ============================================================================
 // Event Types
 // ============================================================================